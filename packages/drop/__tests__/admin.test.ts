@@ -0,0 +1,116 @@
+/**
+ * Tests for the admin operations behind the vailix-drop CLI.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { gzipSync } from 'zlib';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryKeyStore } from '../src/store';
+import { countsPerDay, exportArchive, importArchive } from '../src/admin';
+import { storeConfigFromEnv, appSecretFromEnv, syncTokenSecretFromEnv, ConfigError } from '../src/config';
+
+const rpi = (n: number) => Buffer.from(n.toString(16).padStart(32, '0'), 'hex');
+const day = (iso: string, hour = 0) => new Date(`${iso}T${String(hour).padStart(2, '0')}:00:00Z`);
+
+describe('admin', () => {
+    let store: MemoryKeyStore;
+    let dir: string;
+
+    beforeEach(async () => {
+        store = new MemoryKeyStore(14);
+        await store.connect();
+        await store.insertMany([
+            { rpi: rpi(1), metadata: 'a', createdAt: day('2026-03-01', 1), reportKey: 'r1' },
+            { rpi: rpi(2), metadata: 'b', createdAt: day('2026-03-01', 23), reportKey: 'r1' },
+            { rpi: rpi(3), metadata: null, createdAt: day('2026-03-02', 5), status: 'revoked' },
+            { rpi: rpi(4), metadata: 'c', createdAt: day('2026-03-04', 12), status: 'provisional' },
+        ]);
+        dir = await mkdtemp(join(tmpdir(), 'vailix-admin-'));
+    });
+
+    afterEach(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should count keys per UTC day, revoked included', async () => {
+        expect([...await countsPerDay(store)]).toEqual([['2026-03-01', 2], ['2026-03-02', 1], ['2026-03-04', 1]]);
+        expect([...await countsPerDay(store, day('2026-03-02'), day('2026-03-04'))]).toEqual([['2026-03-02', 1]]);
+    });
+
+    it('should delete keys created in [since, until)', async () => {
+        expect(await store.deleteRange(day('2026-03-01'), day('2026-03-02'))).toBe(2);
+        expect(await store.count()).toBe(2);
+        // RPIs of deleted keys can be stored again
+        expect(await store.insertMany([{ rpi: rpi(1), metadata: null }])).toEqual({ inserted: 1, duplicates: 0 });
+    });
+
+    it('should round-trip keys through an archive', async () => {
+        const expiresAt = new Date(Date.now() + 60_000);
+        await store.insertBlob({ id: 'b1', data: 'iv:tag:blob', expiresAt });
+        await store.insertMany([{ rpi: rpi(5), metadata: 'wrapped', createdAt: day('2026-03-05'), expiresAt, blobId: 'b1' }]);
+        const file = join(dir, 'keys.jsonl.gz');
+        expect(await exportArchive(store, file)).toBe(5);
+
+        const restored = new MemoryKeyStore(14);
+        await restored.connect();
+        expect(await importArchive(restored, file)).toEqual({ inserted: 5, duplicates: 0 });
+        expect(await importArchive(restored, file)).toEqual({ inserted: 0, duplicates: 5 });
+
+        const all = async (s: MemoryKeyStore) => (await s.page({ since: new Date(0), limit: 100, includeRevoked: true })).keys;
+        expect(await all(restored)).toEqual(await all(store));
+        expect(await restored.getBlobs(['b1'])).toEqual(new Map([['b1', 'iv:tag:blob']]));
+    });
+
+    it('should stamp imported keys no earlier than notBefore', async () => {
+        const file = join(dir, 'keys.jsonl.gz');
+        await exportArchive(store, file);
+
+        const restored = new MemoryKeyStore(14);
+        await restored.connect();
+        await importArchive(restored, file, day('2026-03-02'));
+        expect([...await countsPerDay(restored)]).toEqual([['2026-03-02', 3], ['2026-03-04', 1]]);
+    });
+
+    it('should reject files that are not archives', async () => {
+        const file = join(dir, 'other.gz');
+        await writeFile(file, gzipSync('{"format":"something-else","version":1}\n'));
+        await expect(importArchive(store, file)).rejects.toThrow('Not a vailix-drop-archive v1-v2 file');
+    });
+});
+
+describe('env config', () => {
+    it('should select the store from env', () => {
+        expect(storeConfigFromEnv({ VAILIX_STORE: 'sqlite', VAILIX_RETENTION_DAYS: '7' }))
+            .toEqual({ store: { type: 'sqlite', filename: 'vailix.db' }, retentionDays: 7 });
+        expect(storeConfigFromEnv({ MONGODB_URI: 'mongodb://db/vailix' }).store)
+            .toEqual({ type: 'mongo', uri: 'mongodb://db/vailix' });
+    });
+
+    it('should report every env problem at once', () => {
+        let error: ConfigError | undefined;
+        try {
+            storeConfigFromEnv({ VAILIX_STORE: 'postgres', VAILIX_RETENTION_DAYS: 'two' });
+        } catch (e) {
+            error = e as ConfigError;
+        }
+        expect(error).toBeInstanceOf(ConfigError);
+        expect(error!.issues).toHaveLength(2);
+        expect(error!.issues[0]).toContain('DATABASE_URL');
+        expect(error!.issues[1]).toContain('VAILIX_RETENTION_DAYS');
+    });
+
+    it('should require an app secret', () => {
+        expect(appSecretFromEnv({ APP_SECRET: 's' })).toBe('s');
+        expect(() => appSecretFromEnv({})).toThrow(ConfigError);
+        expect(() => appSecretFromEnv({ APP_SECRETS: 'not json' })).toThrow('APP_SECRETS');
+        expect(() => appSecretFromEnv({ APP_SECRETS: '[{"id":"a","secret":"s","notBefore":"January"}]' }))
+            .toThrow('APP_SECRETS: a.notBefore: Expected an ISO date');
+    });
+
+    it('should require a sync token secret', () => {
+        expect(syncTokenSecretFromEnv({ VAILIX_SYNC_TOKEN_SECRET: 's' })).toBe('s');
+        expect(() => syncTokenSecretFromEnv({})).toThrow('VAILIX_SYNC_TOKEN_SECRET');
+    });
+});
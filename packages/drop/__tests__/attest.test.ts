@@ -0,0 +1,234 @@
+/**
+ * Tests for the JWT/JWKS attestation verifier, verifier combinators and provider registry.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import { createHmac, generateKeyPairSync, sign } from 'crypto';
+import type { KeyObject } from 'crypto';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import vailixPlugin from '../src/index';
+import { MemoryKeyStore } from '../src/store';
+import { jwtAttestVerifier } from '../src/attest-jwt';
+import type { JsonWebKeySet, JwtAttestOptions } from '../src/attest-jwt';
+import { allOf, anyOf, createAttestVerifier, registerAttestProvider } from '../src/attest';
+import { ConfigError, attestationFromEnv } from '../src/config';
+
+const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const jwks: JsonWebKeySet = {
+    keys: [
+        { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rsa-1', alg: 'RS256', use: 'sig' },
+        { ...ec.publicKey.export({ format: 'jwk' }), kid: 'ec-1' },
+    ],
+};
+const issuer = 'https://attest.example';
+const audience = 'projects/123';
+
+const b64 = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const now = () => Math.floor(Date.now() / 1000);
+
+function jwt(claims: Record<string, unknown> = {}, header: Record<string, unknown> = {}, key: KeyObject = rsa.privateKey) {
+    const head = b64({ alg: 'RS256', kid: 'rsa-1', typ: 'JWT', ...header });
+    const body = b64({ iss: issuer, aud: [audience], iat: now(), exp: now() + 300, ...claims });
+    const alg = (header.alg ?? 'RS256') as string;
+    const signature = alg === 'ES256'
+        ? sign('sha256', Buffer.from(`${head}.${body}`), { key, dsaEncoding: 'ieee-p1363' })
+        : sign('sha256', Buffer.from(`${head}.${body}`), key);
+    return `${head}.${body}.${signature.toString('base64url')}`;
+}
+
+describe('jwtAttestVerifier', () => {
+    const verifier = jwtAttestVerifier({ jwks, issuer, audience });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('should accept tokens signed by a key in the set', async () => {
+        expect(await verifier(jwt())).toBe(true);
+        expect(await verifier(jwt({}, { alg: 'ES256', kid: 'ec-1' }, ec.privateKey))).toBe(true);
+    });
+
+    it('should reject the wrong issuer, audience or an expired token', async () => {
+        expect(await verifier(jwt({ iss: 'https://other.example' }))).toBe(false);
+        expect(await verifier(jwt({ aud: 'projects/456' }))).toBe(false);
+        expect(await verifier(jwt({ exp: now() - 3600 }))).toBe(false);
+        expect(await verifier(jwt({ exp: undefined }))).toBe(false);
+        expect(await verifier(jwt({ nbf: now() + 3600 }))).toBe(false);
+        expect(await jwtAttestVerifier({ jwks, issuer, audience, maxAgeSec: 60 })(jwt({ iat: now() - 3600 }))).toBe(false);
+    });
+
+    it('should resolve the subject claim with its issuer when configured', async () => {
+        const withSubject = jwtAttestVerifier({ jwks, issuer, audience, subjectClaim: 'sub' });
+
+        expect(await verifier(jwt({ sub: 'install-1' }))).toBe(true);
+        expect(await withSubject(jwt({ sub: 'install-1' }))).toEqual({ subject: JSON.stringify([issuer, 'install-1']) });
+        expect(await withSubject(jwt())).toBe(false);
+        expect(await withSubject(jwt({ sub: '' }))).toBe(false);
+    });
+
+    it('should require an issuer and an audience', () => {
+        expect(() => jwtAttestVerifier({ jwks, issuer, audience: [] })).toThrow('audience is required');
+        expect(() => jwtAttestVerifier({ jwks, audience } as JwtAttestOptions)).toThrow('issuer is required');
+    });
+
+    it('should reject unsigned, HMAC-signed, tampered and malformed tokens', async () => {
+        const [head, body] = jwt().split('.');
+        const none = `${b64({ alg: 'none', kid: 'rsa-1' })}.${body}.`;
+        const hsHead = b64({ alg: 'HS256', kid: 'rsa-1' });
+        const hs = `${hsHead}.${body}.${createHmac('sha256', 'secret').update(`${hsHead}.${body}`).digest('base64url')}`;
+        const tampered = `${head}.${b64({ iss: issuer, aud: audience, exp: now() + 3600 * 24 })}.${jwt().split('.')[2]}`;
+
+        for (const token of [none, hs, tampered, undefined, '', 'a.b', 'a.b.c', `${head}.${body}`]) {
+            expect(await verifier(token)).toBe(false);
+        }
+        expect(await verifier(jwt({}, { kid: 'unknown' }))).toBe(false);
+        // An RSA token can't be checked against the EC key
+        expect(await verifier(jwt({}, { kid: 'ec-1' }))).toBe(false);
+    });
+
+    it('should load the key set from a file', async () => {
+        const file = join(mkdtempSync(join(tmpdir(), 'vailix-jwks-')), 'jwks.json');
+        writeFileSync(file, JSON.stringify(jwks));
+        expect(await jwtAttestVerifier({ jwks: file, issuer, audience })(jwt())).toBe(true);
+    });
+
+    it('should fetch the key set from a URL once and throw when it is unavailable', async () => {
+        const fetch = vi.fn(async () => Response.json(jwks));
+        vi.stubGlobal('fetch', fetch);
+        const remote = jwtAttestVerifier({ jwks: 'https://attest.example/jwks', issuer, audience });
+        expect(await remote(jwt())).toBe(true);
+        expect(await remote(jwt())).toBe(true);
+        expect(fetch).toHaveBeenCalledTimes(1);
+
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 503 })));
+        await expect(jwtAttestVerifier({ jwks: 'https://attest.example/jwks', issuer, audience })(jwt())).rejects.toThrow('503');
+    });
+});
+
+describe('verifier combinators', () => {
+    const accept = async () => true;
+    const reject = async () => false;
+    const fail = async (): Promise<boolean> => { throw new Error('service down'); };
+
+    it('should pass anyOf when one verifier accepts', async () => {
+        expect(await anyOf(reject, accept)('t')).toBe(true);
+        expect(await anyOf(fail, accept)('t')).toBe(true);
+        expect(await anyOf(reject, reject)('t')).toBe(false);
+        await expect(anyOf(reject, fail)('t')).rejects.toThrow('service down');
+    });
+
+    it('should pass allOf only when every verifier accepts', async () => {
+        const unreached = vi.fn(accept);
+        expect(await allOf(accept, accept)('t')).toBe(true);
+        expect(await allOf(reject, unreached)('t')).toBe(false);
+        expect(unreached).not.toHaveBeenCalled();
+    });
+
+    it('should pass on the subject of the accepting verifier', async () => {
+        const named = async () => ({ subject: 'install-1' });
+        expect(await anyOf(reject, named)('t')).toEqual({ subject: 'install-1' });
+        expect(await allOf(accept, named)('t')).toEqual({ subject: 'install-1' });
+        expect(await allOf(named, async () => ({ subject: 'other' }))('t')).toEqual({ subject: 'install-1' });
+    });
+
+    it('should build verifiers from registered providers', async () => {
+        registerAttestProvider('static', (options) => async (token) => token === options.token);
+        const verifier = await createAttestVerifier({
+            any: [
+                { provider: 'static', token: 'one' },
+                { all: [{ provider: 'static', token: jwt() }, { provider: 'jwt', jwks, issuer, audience }] },
+            ],
+        });
+        expect(await verifier('one')).toBe(true);
+        expect(await verifier('two')).toBe(false);
+        await expect(createAttestVerifier({ provider: 'nope' })).rejects.toThrow('Unknown attestation provider: nope');
+    });
+
+    it('should load the firebase provider and reject malformed tokens offline', async () => {
+        const verifier = await createAttestVerifier({ provider: 'firebase', projectId: 'demo-vailix' });
+        expect(await verifier(undefined)).toBe(false);
+        expect(await verifier('not-a-jwt')).toBe(false);
+    });
+});
+
+describe('attestationFromEnv', () => {
+    it('should build the jwt provider from its env vars', () => {
+        const env = { ATTEST_PROVIDER: 'jwt', ATTEST_JWKS: '/etc/jwks.json', ATTEST_ISSUER: issuer, ATTEST_AUDIENCE: 'a, b' };
+        expect(attestationFromEnv(env)).toEqual({
+            provider: 'jwt',
+            jwks: '/etc/jwks.json',
+            issuer: [issuer],
+            audience: ['a', 'b'],
+        });
+        expect(attestationFromEnv({ ...env, ATTEST_SUBJECT_CLAIM: 'sub' })).toMatchObject({ subjectClaim: 'sub' });
+        expect(attestationFromEnv({ ATTEST_PROVIDER: 'firebase' })).toEqual({ provider: 'firebase' });
+        expect(attestationFromEnv({})).toBeUndefined();
+        expect(() => attestationFromEnv({ ATTEST_PROVIDER: 'jwt' })).toThrow('ATTEST_JWKS');
+        expect(() => attestationFromEnv({ ...env, ATTEST_ISSUER: '' })).toThrow('ATTEST_ISSUER: Required when ATTEST_PROVIDER is jwt');
+        expect(() => attestationFromEnv({ ...env, ATTEST_AUDIENCE: undefined })).toThrow('ATTEST_AUDIENCE');
+    });
+
+    it('should validate ATTEST_CONFIG', () => {
+        const config = { any: [{ provider: 'firebase' }, { provider: 'jwt', jwks: 'https://attest.example/jwks', issuer, audience }] };
+        expect(attestationFromEnv({ ATTEST_CONFIG: JSON.stringify(config), ATTEST_PROVIDER: 'jwt' })).toEqual(config);
+
+        expect(() => attestationFromEnv({ ATTEST_CONFIG: '{not json' })).toThrow(ConfigError);
+        const invalid = (value: unknown) => {
+            try {
+                attestationFromEnv({ ATTEST_CONFIG: JSON.stringify(value) });
+            } catch (error) {
+                return (error as ConfigError).issues;
+            }
+        };
+        expect(invalid({ any: [] })).toEqual(['ATTEST_CONFIG.any: Expected a non-empty array']);
+        expect(invalid({ all: [{ provider: 'jwt', jwks, issuer, audience }, { provider: '' }, 'x'] })).toEqual([
+            'ATTEST_CONFIG.all.1.provider: Expected a non-empty string',
+            'ATTEST_CONFIG.all.2: Expected an object',
+        ]);
+        expect(invalid({ provider: 'jwt', any: [] })).toEqual(['ATTEST_CONFIG: Expected exactly one of provider, any or all']);
+        expect(invalid({ any: [{ provider: 'jwt', jwks, audience: [] }] })).toEqual([
+            'ATTEST_CONFIG.any.0.issuer: Required for the jwt provider',
+            'ATTEST_CONFIG.any.0.audience: Required for the jwt provider',
+        ]);
+    });
+});
+
+describe('attestation option', () => {
+    const secret = 'test-secret';
+    const report = { reports: [{ rpi: '00'.repeat(16), encryptedMetadata: '' }] };
+
+    it('should check report uploads with the configured providers', async () => {
+        const server = Fastify();
+        await server.register(vailixPlugin, {
+            store: new MemoryKeyStore(),
+            secret,
+            attestation: { provider: 'jwt', jwks, issuer, audience },
+        });
+
+        const upload = (token?: string) => server.inject({
+            method: 'POST',
+            url: '/v1/report',
+            headers: { 'x-vailix-secret': secret, ...(token ? { 'x-attest-token': token } : {}) },
+            payload: report,
+        });
+        expect((await upload()).statusCode).toBe(403);
+        expect((await upload(jwt({ aud: 'projects/456' }))).statusCode).toBe(403);
+        expect((await upload(jwt())).statusCode).toBe(200);
+        await server.close();
+    });
+
+    it('should not take both attestation and attestVerifier', async () => {
+        const server = Fastify();
+        await expect(server.register(vailixPlugin, {
+            store: new MemoryKeyStore(),
+            secret,
+            attestation: { provider: 'jwt', jwks, issuer, audience },
+            attestVerifier: async () => true,
+        })).rejects.toThrow('either attestation or attestVerifier');
+        await server.close().catch(() => undefined);
+    });
+});
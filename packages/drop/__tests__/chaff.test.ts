@@ -0,0 +1,84 @@
+/**
+ * Tests for decoy (chaff) report uploads.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import vailixPlugin from '../src/index';
+import { MemoryKeyStore } from '../src/store';
+import { VailixMetrics } from '../src/metrics';
+import { isChaffEnvelope, sealEnvelope } from '../src/chaff';
+
+const SECRET = 'test-secret';
+
+describe('report envelope', () => {
+    it('should round-trip the chaff flag', () => {
+        expect(isChaffEnvelope(sealEnvelope(SECRET, true), SECRET)).toBe(true);
+        expect(isChaffEnvelope(sealEnvelope(SECRET, false), SECRET)).toBe(false);
+    });
+
+    it('should have the same size for decoys and real reports', () => {
+        expect(sealEnvelope(SECRET, true)).toHaveLength(sealEnvelope(SECRET, false).length);
+    });
+
+    it('should reject envelopes sealed with another secret or tampered with', () => {
+        expect(isChaffEnvelope(sealEnvelope('other-secret', true), SECRET)).toBeNull();
+        const [iv, tag] = sealEnvelope(SECRET, true).split(':');
+        expect(isChaffEnvelope(`${iv}:${tag}:${Buffer.alloc(16).toString('base64')}`, SECRET)).toBeNull();
+        expect(isChaffEnvelope('garbage', SECRET)).toBeNull();
+    });
+});
+
+describe('chaff uploads', () => {
+    let server: FastifyInstance;
+    let store: MemoryKeyStore;
+    let metrics: VailixMetrics;
+
+    beforeEach(async () => {
+        store = new MemoryKeyStore();
+        metrics = new VailixMetrics();
+        server = Fastify();
+        await server.register(vailixPlugin, {
+            store,
+            secret: SECRET,
+            attestVerifier: async (token) => token === 'valid',
+            metrics: { registry: metrics, serve: false },
+        });
+    });
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    const upload = (envelope: string, attestToken: string) => server.inject({
+        method: 'POST',
+        url: '/v1/report',
+        headers: { 'x-vailix-secret': SECRET, 'x-attest-token': attestToken },
+        payload: { reports: [{ rpi: 'ab'.repeat(16), encryptedMetadata: '' }], envelope },
+    });
+
+    it('should answer decoys like real reports without storing them', async () => {
+        const decoy = await upload(sealEnvelope(SECRET, true), 'anything');
+        expect(await store.count()).toBe(0);
+
+        const real = await upload(sealEnvelope(SECRET, false), 'valid');
+        expect(await store.count()).toBe(1);
+
+        expect(decoy.statusCode).toBe(real.statusCode);
+        expect(decoy.body).toBe(real.body);
+        expect(decoy.headers['content-type']).toBe(real.headers['content-type']);
+        expect(metrics.chaffReports.get()).toBe(1);
+        expect(metrics.reports.get()).toBe(1);
+    });
+
+    it('should still check attestation on real reports with an envelope', async () => {
+        const res = await upload(sealEnvelope(SECRET, false), 'invalid');
+        expect(res.statusCode).toBe(403);
+    });
+
+    it('should reject an envelope that does not decrypt', async () => {
+        const res = await upload(sealEnvelope('other-secret', true), 'valid');
+        expect(res.statusCode).toBe(400);
+        expect(await store.count()).toBe(0);
+    });
+});
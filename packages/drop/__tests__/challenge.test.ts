@@ -0,0 +1,98 @@
+/**
+ * Tests for proof-of-work challenges on report uploads.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import Fastify from 'fastify';
+import vailixPlugin from '../src/index';
+import { MemoryKeyStore } from '../src/store';
+import { CHALLENGE_HEADER, CHALLENGE_NONCE_HEADER, ChallengeService, leadingZeroBits } from '../src/challenge';
+import { sealEnvelope } from '../src/chaff';
+
+const secret = 'test-secret';
+const rpi = (n: number) => n.toString(16).padStart(32, '0');
+
+function solve(challenge: string, difficulty: number): string {
+    for (let nonce = 0; ; nonce++) {
+        if (leadingZeroBits(createHash('sha256').update(`${challenge}:${nonce}`).digest()) >= difficulty) return String(nonce);
+    }
+}
+
+describe('ChallengeService', () => {
+    it('should count leading zero bits', () => {
+        expect(leadingZeroBits(Buffer.from([0x00, 0x00, 0x80]))).toBe(16);
+        expect(leadingZeroBits(Buffer.from([0x00, 0x1f]))).toBe(11);
+        expect(leadingZeroBits(Buffer.from([0xff]))).toBe(0);
+    });
+
+    it('should accept a solution once', async () => {
+        const challenges = new ChallengeService({ difficulty: 8 });
+        const { challenge, difficulty } = challenges.issue();
+        const nonce = solve(challenge, difficulty);
+
+        expect(await challenges.redeem(challenge, nonce)).toBe(true);
+        expect(await challenges.redeem(challenge, nonce)).toBe(false);
+    });
+
+    it('should reject wrong, expired and foreign challenges', async () => {
+        const challenges = new ChallengeService({ difficulty: 8, ttlMs: 1000 });
+        const { challenge } = challenges.issue(0);
+        const nonce = solve(challenge, 8);
+        const unsolved = Array.from({ length: 1000 }, (_, i) => String(i)).find((n) =>
+            leadingZeroBits(createHash('sha256').update(`${challenge}:${n}`).digest()) < 8)!;
+
+        expect(await challenges.redeem(challenge, unsolved, 500)).toBe(false);
+        expect(await challenges.redeem(challenge, nonce, 1000)).toBe(false);
+
+        const other = new ChallengeService({ difficulty: 8 }).issue();
+        expect(await challenges.redeem(other.challenge, solve(other.challenge, 8))).toBe(false);
+        expect(await challenges.redeem(undefined, nonce)).toBe(false);
+    });
+});
+
+describe('/v1/report with proof of work', () => {
+    async function setup() {
+        const server = Fastify();
+        await server.register(vailixPlugin, { store: new MemoryKeyStore(), secret, challenge: { difficulty: 8 } });
+        return server;
+    }
+
+    const report = (envelope?: string) => ({
+        reports: [{ rpi: rpi(1), encryptedMetadata: '' }],
+        ...(envelope ? { envelope } : {}),
+    });
+
+    async function solved(server: Awaited<ReturnType<typeof setup>>) {
+        const res = await server.inject({ method: 'GET', url: '/v1/challenge', headers: { 'x-vailix-secret': secret } });
+        const { challenge, difficulty } = res.json();
+        return { [CHALLENGE_HEADER]: challenge, [CHALLENGE_NONCE_HEADER]: solve(challenge, difficulty) };
+    }
+
+    it('should require a solved challenge', async () => {
+        const server = await setup();
+        const headers = { 'x-vailix-secret': secret };
+
+        const missing = await server.inject({ method: 'POST', url: '/v1/report', headers, payload: report() });
+        expect(missing.statusCode).toBe(403);
+
+        const proof = await solved(server);
+        const ok = await server.inject({ method: 'POST', url: '/v1/report', headers: { ...headers, ...proof }, payload: report() });
+        expect(ok.statusCode).toBe(200);
+
+        const replayed = await server.inject({ method: 'POST', url: '/v1/report', headers: { ...headers, ...proof }, payload: report() });
+        expect(replayed.statusCode).toBe(403);
+        await server.close();
+    });
+
+    it('should require proof of work from decoys too', async () => {
+        const server = await setup();
+        const headers = { 'x-vailix-secret': secret };
+        const decoy = report(sealEnvelope(secret, true));
+
+        expect((await server.inject({ method: 'POST', url: '/v1/report', headers, payload: decoy })).statusCode).toBe(403);
+        const res = await server.inject({ method: 'POST', url: '/v1/report', headers: { ...headers, ...(await solved(server)) }, payload: decoy });
+        expect(res.statusCode).toBe(200);
+        await server.close();
+    });
+});
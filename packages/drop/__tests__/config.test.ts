@@ -0,0 +1,160 @@
+/**
+ * Tests for the standalone configuration loader and the plugin's HTTP options.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Fastify from 'fastify';
+import vailixPlugin from '../src/index';
+import { MemoryKeyStore } from '../src/store';
+import { ConfigError, loadServerConfig } from '../src/config';
+
+describe('loadServerConfig', () => {
+    let dir: string;
+
+    beforeAll(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'vailix-config-'));
+    });
+
+    afterAll(async () => {
+        await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should apply defaults', async () => {
+        expect(await loadServerConfig({})).toEqual({
+            host: '0.0.0.0',
+            port: 3000,
+            bodyLimit: 5 * 1024 * 1024,
+            shutdownTimeoutMs: 30000,
+            pageSize: 20000,
+            rateLimit: { max: 300, windowMs: 60000 },
+            cors: { origins: '*' },
+            helmet: true,
+        });
+    });
+
+    it('should read a YAML file and let env vars override it', async () => {
+        const file = join(dir, 'vailix.yaml');
+        await writeFile(file, 'host: 127.0.0.1\nport: 8080\nrateLimit:\n  max: 50\ncors:\n  origins: [https://app.test]\n');
+
+        const config = await loadServerConfig({ VAILIX_CONFIG: file, PORT: '9090', VAILIX_HELMET: 'false' });
+
+        expect(config).toMatchObject({
+            host: '127.0.0.1',
+            port: 9090,
+            helmet: false,
+            rateLimit: { max: 50, windowMs: 60000 },
+            cors: { origins: ['https://app.test'] },
+        });
+    });
+
+    it('should read a JSON file and split comma-separated CORS origins', async () => {
+        const file = join(dir, 'vailix.json');
+        await writeFile(file, JSON.stringify({ pageSize: 500 }));
+
+        const config = await loadServerConfig({ VAILIX_CONFIG: file, VAILIX_CORS_ORIGINS: 'https://a.test, https://b.test' });
+
+        expect(config.pageSize).toBe(500);
+        expect(config.cors.origins).toEqual(['https://a.test', 'https://b.test']);
+    });
+
+    it('should report every invalid value with its env var', async () => {
+        const error = await loadServerConfig({ PORT: '70000', VAILIX_RATE_LIMIT_MAX: 'lots' }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(ConfigError);
+        expect(error.issues).toEqual([
+            expect.stringMatching(/^rateLimit\.max: .* \(VAILIX_RATE_LIMIT_MAX\)$/),
+            expect.stringMatching(/^port: .* \(PORT\)$/),
+        ]);
+    });
+
+    it('should read upload controls from env vars and reject values that are not integers', async () => {
+        const config = await loadServerConfig({
+            VAILIX_CHALLENGE_DIFFICULTY: '18',
+            VAILIX_QUOTA_KEYS_PER_DAY: '5000',
+            VAILIX_PUBLISH_MAX_DELAY_MINUTES: '360',
+        });
+        expect(config).toMatchObject({
+            challenge: { difficulty: 18 },
+            quotas: { keysPerDay: 5000 },
+            publication: { maxDelayMinutes: 360 },
+        });
+        expect((await loadServerConfig({})).challenge).toBeUndefined();
+
+        const error = await loadServerConfig({
+            VAILIX_CHALLENGE_DIFFICULTY: '16bits',
+            VAILIX_QUOTA_REPORTS_PER_DAY: '0',
+            VAILIX_PUBLISH_MIN_REPORTS: 'ten',
+        }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(ConfigError);
+        expect(error.issues).toEqual(expect.arrayContaining([
+            expect.stringMatching(/^challenge\.difficulty: .* \(VAILIX_CHALLENGE_DIFFICULTY\)$/),
+            expect.stringMatching(/^quotas\.reportsPerDay: .* \(VAILIX_QUOTA_REPORTS_PER_DAY\)$/),
+            expect.stringMatching(/^publication\.minReports: .* \(VAILIX_PUBLISH_MIN_REPORTS\)$/),
+        ]));
+    });
+
+    it('should reject unknown keys and unreadable files', async () => {
+        const file = join(dir, 'typo.json');
+        await writeFile(file, JSON.stringify({ prot: 8080 }));
+
+        await expect(loadServerConfig({ VAILIX_CONFIG: file })).rejects.toThrow(/prot: Unexpected property/);
+        await expect(loadServerConfig({ VAILIX_CONFIG: join(dir, 'missing.json') })).rejects.toThrow(ConfigError);
+    });
+});
+
+describe('plugin HTTP options', () => {
+    const SECRET = 'test-secret';
+    const headers = { 'x-vailix-secret': SECRET };
+
+    async function createServer(options: Record<string, unknown>) {
+        const server = Fastify();
+        await server.register(vailixPlugin, { store: new MemoryKeyStore(), secret: SECRET, ...options });
+        return server;
+    }
+
+    it('should apply the rate limit', async () => {
+        const server = await createServer({ rateLimit: { max: 2 } });
+        const statuses = [];
+        for (let i = 0; i < 3; i++) {
+            statuses.push((await server.inject({ method: 'GET', url: '/v1/download?format=json', headers })).statusCode);
+        }
+        expect(statuses).toEqual([200, 200, 429]);
+        await server.close();
+    });
+
+    it('should restrict CORS origins and allow disabling helmet', async () => {
+        const server = await createServer({ cors: { origins: ['https://app.test'] }, helmet: false });
+        const res = await server.inject({
+            method: 'GET',
+            url: '/v1/download?format=json',
+            headers: { ...headers, origin: 'https://evil.test' },
+        });
+
+        expect(res.headers['access-control-allow-origin']).toBeUndefined();
+        expect(res.headers['x-content-type-options']).toBeUndefined();
+        await server.close();
+    });
+
+    it('should page downloads by pageSize', async () => {
+        const server = await createServer({ pageSize: 1 });
+        await server.inject({
+            method: 'POST',
+            url: '/v1/report',
+            headers,
+            payload: { reports: [{ rpi: 'aa'.repeat(16), encryptedMetadata: '' }, { rpi: 'bb'.repeat(16), encryptedMetadata: '' }] },
+        });
+
+        const res = await server.inject({ method: 'GET', url: '/v1/download?format=json', headers });
+        expect(res.json().keys).toHaveLength(1);
+        expect(res.json().nextCursor).not.toBeNull();
+        await server.close();
+    });
+
+    it('should fail registration on invalid options', async () => {
+        await expect(createServer({ pageSize: 0 })).rejects.toThrow(/pageSize/);
+    });
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for the Golomb-coded set download format.
+ */
+
+import { describe, it, expect } from 'vitest';
+import Fastify from 'fastify';
+import { MemoryKeyStore } from '../src/store';
+import type { StoredKey } from '../src/store';
+import { registerRoutes } from '../src/routes';
+import { FILTER_P, filterHash, serializeFilter } from '../src/filter';
+
+const key = (hex: string, createdAt: number): StoredKey => ({
+    rpi: Buffer.from(hex, 'hex'),
+    metadata: null,
+    status: 'confirmed',
+    createdAt: new Date(createdAt),
+});
+
+// Reference decoder: header fields plus the sorted hash list
+function decode(buffer: Buffer) {
+    const count = buffer.readUInt32BE(0);
+    const p = buffer.readUInt8(4);
+    const maxCreatedAt = buffer.readDoubleBE(5);
+    let bit = 13 * 8;
+    const read = () => (buffer[bit >> 3] >> (7 - (bit++ & 7))) & 1;
+    const hashes: number[] = [];
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+        let quotient = 0;
+        while (read()) quotient++;
+        let remainder = 0;
+        for (let b = 0; b < p; b++) remainder = remainder * 2 + read();
+        value += quotient * 2 ** p + remainder;
+        hashes.push(value);
+    }
+    return { count, p, maxCreatedAt, hashes };
+}
+
+describe('serializeFilter', () => {
+    it('should encode the sorted RPI hashes and the latest createdAt', () => {
+        const keys = [key('ff'.repeat(16), 1000), key('01'.repeat(16), 3000), key('80'.repeat(16), 2000)];
+        const modulus = keys.length * 2 ** FILTER_P;
+
+        const decoded = decode(serializeFilter(keys));
+
+        expect(decoded).toMatchObject({ count: 3, p: FILTER_P, maxCreatedAt: 3000 });
+        expect(decoded.hashes).toEqual(keys.map((k) => filterHash(k.rpi, modulus)).sort((a, b) => a - b));
+    });
+
+    it('should use about p + 2 bits per key', () => {
+        const keys = Array.from({ length: 1000 }, (_, n) => key(n.toString(16).padStart(8, '0').repeat(4), n));
+        const size = serializeFilter(keys).length;
+
+        expect(size).toBeLessThan(13 + (1000 * (FILTER_P + 2)) / 8 + 16);
+        expect(size).toBeLessThan(keys.length * 26 / 8);  // vs. 26 bytes per key in the binary format
+    });
+
+    it('should encode an empty page as a bare header', () => {
+        expect(decode(serializeFilter([]))).toMatchObject({ count: 0, hashes: [] });
+    });
+});
+
+describe('format=gcs download', () => {
+    it('should serve a filter for the same page as format=bin', async () => {
+        const server = Fastify();
+        registerRoutes(server, new MemoryKeyStore());
+        const rpiHex = 'ab'.repeat(16);
+        await server.inject({
+            method: 'POST',
+            url: '/v1/report',
+            payload: { reports: [{ rpi: rpiHex, encryptedMetadata: '' }] },
+        });
+
+        const res = await server.inject({ method: 'GET', url: '/v1/download?format=gcs' });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.headers['content-type']).toBe('application/x-vailix-gcs');
+        expect(res.headers['x-vailix-next-cursor']).toBe('');
+        const { count, hashes } = decode(res.rawPayload);
+        expect(count).toBe(1);
+        expect(hashes).toEqual([filterHash(Buffer.from(rpiHex, 'hex'), 2 ** FILTER_P)]);
+    });
+});
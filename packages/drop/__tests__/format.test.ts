@@ -0,0 +1,100 @@
+/**
+ * Tests for binary format versioning and negotiation.
+ *
+ * v0 is the original unframed layout and stays the default for clients
+ * that don't send x-vailix-format-versions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import Fastify from 'fastify';
+import { MemoryKeyStore } from '../src/store';
+import { registerRoutes } from '../src/routes';
+import { negotiateFormatVersion, serializeKeys, FORMAT_FLAGS, FORMAT_MAGIC } from '../src/serialize';
+import type { StoredKey } from '../src/store';
+
+const keys: StoredKey[] = [
+    { rpi: Buffer.alloc(16, 0xaa), metadata: 'iv:tag:data', status: 'confirmed', createdAt: new Date(1704500000123) },
+    { rpi: Buffer.alloc(16, 0xbb), metadata: null, status: 'revoked', createdAt: new Date(1704500000456) },
+];
+
+describe('binary format versions', () => {
+    it('should pick the best version both sides support', () => {
+        expect(negotiateFormatVersion(undefined)).toBe(0);
+        expect(negotiateFormatVersion('0')).toBe(0);
+        expect(negotiateFormatVersion('1,0')).toBe(1);
+        expect(negotiateFormatVersion(' 0 , 1 ')).toBe(1);
+        expect(negotiateFormatVersion('7, 1')).toBe(1);
+        expect(negotiateFormatVersion('7')).toBe(0);
+        expect(negotiateFormatVersion(['2', '1'])).toBe(1);
+    });
+
+    it('should write v1 with magic, version, flags and integer timestamps', () => {
+        const buffer = serializeKeys(keys, { version: 1, lifecycle: true });
+
+        expect(buffer.subarray(0, 4)).toEqual(FORMAT_MAGIC);
+        expect(buffer[4]).toBe(1);
+        expect(buffer[5]).toBe(FORMAT_FLAGS.status);
+        expect(buffer.readUInt32BE(6)).toBe(2);
+
+        // First key: rpi, u48 timestamp, status, metadata
+        expect(buffer.subarray(10, 26)).toEqual(keys[0].rpi);
+        expect(buffer.readUIntBE(26, 6)).toBe(1704500000123);
+        expect(buffer[32]).toBe(0);
+        expect(buffer.readUInt16BE(33)).toBe(11);
+        expect(buffer.subarray(35, 46).toString()).toBe('iv:tag:data');
+
+        // Second key: revoked, no metadata
+        expect(buffer.readUIntBE(62, 6)).toBe(1704500000456);
+        expect(buffer[68]).toBe(2);
+        expect(buffer.readUInt16BE(69)).toBe(0);
+        expect(buffer.length).toBe(71);
+    });
+
+    it('should leave the status field out without lifecycle', () => {
+        const buffer = serializeKeys(keys, { version: 1 });
+
+        expect(buffer[5]).toBe(0);
+        expect(buffer.length).toBe(71 - 2);
+    });
+
+    it('should index shared metadata blobs in a table after the keys', () => {
+        const shared: StoredKey[] = [
+            { ...keys[0], metadata: 'w1', blobId: 'b1' },
+            { ...keys[0], metadata: 'w2', blobId: 'b1' },
+            { ...keys[0], metadata: 'w3', blobId: 'gone' },
+        ];
+        const buffer = serializeKeys(shared, { version: 1, blobs: new Map([['b1', 'iv:tag:blob']]) });
+
+        expect(buffer[5]).toBe(FORMAT_FLAGS.blobs);
+        // Per key: rpi, timestamp, metadata, blob index
+        expect(buffer.readUInt16BE(10 + 22)).toBe(2);
+        expect(buffer.readUInt16BE(10 + 26)).toBe(0);
+        expect(buffer.readUInt16BE(38 + 26)).toBe(0);
+        expect(buffer.readUInt16BE(66 + 26)).toBe(0xffff);
+
+        // Blob table: count, then length-prefixed data
+        expect(buffer.readUInt16BE(94)).toBe(1);
+        expect(buffer.readUInt16BE(96)).toBe(11);
+        expect(buffer.subarray(98).toString()).toBe('iv:tag:blob');
+    });
+
+    it('should negotiate on /v1/download and keep v0 for old clients', async () => {
+        const server = Fastify();
+        const store = new MemoryKeyStore();
+        await store.insertMany([{ rpi: Buffer.alloc(16, 1), metadata: null }]);
+        registerRoutes(server, store);
+
+        const legacy = await server.inject({ method: 'GET', url: '/v1/download?format=bin' });
+        expect(legacy.headers['x-vailix-format-version']).toBe('0');
+        expect(legacy.rawPayload.readUInt32BE(0)).toBe(1);
+
+        const current = await server.inject({
+            method: 'GET',
+            url: '/v1/download?format=bin',
+            headers: { 'x-vailix-format-versions': '1,0' },
+        });
+        expect(current.headers['x-vailix-format-version']).toBe('1');
+        expect(current.headers.vary).toContain('x-vailix-format-versions');
+        expect(current.rawPayload.subarray(0, 4)).toEqual(FORMAT_MAGIC);
+    });
+});
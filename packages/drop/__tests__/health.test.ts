@@ -0,0 +1,88 @@
+/**
+ * Tests for the health probes and shutdown order.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import Fastify from 'fastify';
+import vailixPlugin from '../src/index';
+import { MemoryKeyStore } from '../src/store';
+
+const secret = 'test-secret';
+
+class FlakyStore extends MemoryKeyStore {
+    ready = true;
+
+    async checkReady(): Promise<void> {
+        if (!this.ready) throw new Error('connection lost');
+    }
+}
+
+describe('health routes', () => {
+    it('should report live and ready without the app secret', async () => {
+        const server = Fastify();
+        await server.register(vailixPlugin, { store: new MemoryKeyStore(), secret });
+
+        expect((await server.inject({ method: 'GET', url: '/health/live' })).json()).toEqual({ status: 'ok' });
+        const ready = await server.inject({ method: 'GET', url: '/health/ready' });
+        expect(ready.statusCode).toBe(200);
+        await server.close();
+    });
+
+    it('should not be ready while the store is unavailable', async () => {
+        const store = new FlakyStore();
+        const server = Fastify();
+        await server.register(vailixPlugin, { store, secret });
+
+        store.ready = false;
+        const res = await server.inject({ method: 'GET', url: '/health/ready' });
+        expect(res.statusCode).toBe(503);
+        expect(res.json()).toEqual({ status: 'unavailable' });
+        expect((await server.inject({ method: 'GET', url: '/health/live' })).statusCode).toBe(200);
+        await server.close();
+    });
+
+    it('should check every tenant store without a tenant header', async () => {
+        const broken = new FlakyStore();
+        broken.ready = false;
+        const server = Fastify();
+        await server.register(vailixPlugin, {
+            tenants: [
+                { id: 'a', secret, store: new MemoryKeyStore() },
+                { id: 'b', secret, store: broken },
+            ],
+        });
+
+        expect((await server.inject({ method: 'GET', url: '/health/ready' })).statusCode).toBe(503);
+        broken.ready = true;
+        expect((await server.inject({ method: 'GET', url: '/health/ready' })).statusCode).toBe(200);
+        await server.close();
+    });
+});
+
+describe('shutdown', () => {
+    it('should let a running purge finish before closing the store', async () => {
+        const events: string[] = [];
+        let finishPurge = () => { };
+        const store = new MemoryKeyStore();
+        // Only the first purge hangs until released
+        store.purgeExpired = vi.fn(async () => 0).mockImplementationOnce(() => new Promise<number>((resolve) => {
+            events.push('purge started');
+            finishPurge = () => {
+                events.push('purge finished');
+                resolve(0);
+            };
+        }));
+        store.close = async () => {
+            events.push('store closed');
+        };
+
+        const server = Fastify();
+        await server.register(vailixPlugin, { store, secret, purgeIntervalMs: 10 });
+        await vi.waitFor(() => expect(events).toContain('purge started'));
+
+        const closed = server.close();
+        setTimeout(() => finishPurge(), 20);
+        await closed;
+        expect(events).toEqual(['purge started', 'purge finished', 'store closed']);
+    });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for embedder hooks and the webhook dispatcher.
+ *
+ * Events carry counts, an hour bucket and the tenant only.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import vailixPlugin from '../src/index';
+import { MemoryKeyStore, MongoKeyStore } from '../src/store';
+import { createKeyModel } from '../src/db';
+import { EVENT_BUCKET_MS } from '../src/hooks';
+import type { VailixEvent } from '../src/hooks';
+import { WebhookDispatcher, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER, verifyWebhookSignature } from '../src/webhooks';
+
+const rpi = (n: number) => Buffer.from(n.toString(16).padStart(32, '0'), 'hex');
+const secret = 'test-secret';
+
+describe('hooks', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    async function setup(options: Record<string, unknown> = {}) {
+        const events: VailixEvent[] = [];
+        const store = new MemoryKeyStore();
+        const server = Fastify();
+        await server.register(vailixPlugin, {
+            store,
+            secret,
+            hooks: {
+                onReportAccepted: (event) => { events.push(event); },
+                onDownloadServed: (event) => { events.push(event); },
+                onKeysExpired: (event) => { events.push(event); },
+            },
+            ...options,
+        });
+        return { server, store, events };
+    }
+
+    it('should report accepted reports and served pages as aggregates', async () => {
+        const { server, events } = await setup();
+        const reports = [1, 2, 1].map((n) => ({ rpi: rpi(n).toString('hex'), encryptedMetadata: 'meta' }));
+        await server.inject({ method: 'POST', url: '/v1/report', headers: { 'x-vailix-secret': secret }, payload: { reports } });
+        await server.inject({ method: 'GET', url: '/v1/download?format=json', headers: { 'x-vailix-secret': secret } });
+        await server.inject({ method: 'GET', url: '/v1/download?format=stream', headers: { 'x-vailix-secret': secret } });
+
+        const bucket = Date.now() - (Date.now() % EVENT_BUCKET_MS);
+        expect(events).toEqual([
+            { type: 'report.accepted', bucket, keys: 2, duplicates: 1, status: 'confirmed' },
+            { type: 'download.served', bucket, format: 'json', keys: 2 },
+            { type: 'download.served', bucket, format: 'stream', keys: 2 },
+        ]);
+        expect(JSON.stringify(events)).not.toContain(rpi(1).toString('hex'));
+        await server.close();
+    });
+
+    it('should report purged keys', async () => {
+        const { server, store, events } = await setup({ purgeIntervalMs: 10 });
+        await store.insertMany([{ rpi: rpi(1), metadata: null, expiresAt: new Date(Date.now() - 1000) }]);
+
+        await vi.waitFor(() => expect(events).toEqual([expect.objectContaining({ type: 'keys.expired', keys: 1 })]));
+        await server.close();
+    });
+
+    it('should leave MongoDB expiry to the purge job when keys.expired is listened for', async () => {
+        const stores: MongoKeyStore[] = [];
+        vi.spyOn(MongoKeyStore.prototype, 'connect').mockImplementation(async function (this: MongoKeyStore) {
+            stores.push(this);
+        });
+        vi.spyOn(MongoKeyStore.prototype, 'close').mockResolvedValue();
+        vi.spyOn(MongoKeyStore.prototype, 'purgeExpired').mockResolvedValue(0).mockResolvedValueOnce(2);
+        const events: VailixEvent[] = [];
+
+        const server = Fastify();
+        await server.register(vailixPlugin, {
+            mongoUri: 'mongodb://db/vailix',
+            secret,
+            hooks: { onKeysExpired: (event) => { events.push(event); } },
+            purgeIntervalMs: 10,
+        });
+        const plain = Fastify();
+        await plain.register(vailixPlugin, { mongoUri: 'mongodb://db/vailix', secret });
+
+        expect(stores.map((store) => store.ttl)).toEqual([false, true]);
+        await vi.waitFor(() => expect(events).toEqual([expect.objectContaining({ type: 'keys.expired', keys: 2 })]));
+        await Promise.all([server.close(), plain.close()]);
+    });
+
+    it('should build the MongoDB key model without TTL indexes when asked', () => {
+        const ttlIndexes = (ttl: boolean) => createKeyModel(14, `keys_ttl_${ttl}`, ttl).schema.indexes()
+            .filter(([, options]) => options.expireAfterSeconds !== undefined || options.expires !== undefined);
+
+        expect(ttlIndexes(true).map(([fields]) => Object.keys(fields)[0]).sort()).toEqual(['createdAt', 'expiresAt']);
+        expect(ttlIndexes(false)).toEqual([]);
+    });
+
+    it('should not fail requests when a hook throws', async () => {
+        const server = Fastify();
+        await server.register(vailixPlugin, {
+            store: new MemoryKeyStore(),
+            secret,
+            hooks: { onReportAccepted: async () => { throw new Error('hook down'); } },
+        });
+
+        const res = await server.inject({
+            method: 'POST',
+            url: '/v1/report',
+            headers: { 'x-vailix-secret': secret },
+            payload: { reports: [{ rpi: rpi(1).toString('hex'), encryptedMetadata: '' }] },
+        });
+        expect(res.statusCode).toBe(200);
+        await server.close();
+    });
+});
+
+describe('WebhookDispatcher', () => {
+    const event: VailixEvent = { type: 'keys.expired', bucket: 0, keys: 3 };
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    function stubFetch(statuses: number[]) {
+        const fetch = vi.fn(async () => new Response(null, { status: statuses.shift() ?? 200 }));
+        vi.stubGlobal('fetch', fetch);
+        return fetch;
+    }
+
+    it('should sign each delivery', async () => {
+        const fetch = stubFetch([200]);
+        const webhook = new WebhookDispatcher({ url: 'https://hooks.example/vailix', secret: 'hook-secret' });
+        webhook.enqueue(event);
+        await webhook.flush();
+
+        const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit & { headers: Record<string, string> }];
+        const body = init.body as string;
+        expect(url).toBe('https://hooks.example/vailix');
+        expect(JSON.parse(body)).toEqual({ id: expect.any(String), ...event, count: 1 });
+        expect(verifyWebhookSignature(body, init.headers[WEBHOOK_TIMESTAMP_HEADER], init.headers[WEBHOOK_SIGNATURE_HEADER], 'hook-secret')).toBe(true);
+        expect(verifyWebhookSignature(body, init.headers[WEBHOOK_TIMESTAMP_HEADER], init.headers[WEBHOOK_SIGNATURE_HEADER], 'other')).toBe(false);
+        await webhook.close();
+    });
+
+    it('should retry failed deliveries with the same id, then drop them', async () => {
+        const fetch = stubFetch([500, 503, 500]);
+        const errors: Error[] = [];
+        const webhook = new WebhookDispatcher(
+            { url: 'https://hooks.example/vailix', secret: 'hook-secret', maxAttempts: 2, retryDelayMs: 60_000 },
+            (error) => errors.push(error)
+        );
+        webhook.enqueue(event);
+        webhook.enqueue({ ...event, bucket: EVENT_BUCKET_MS, keys: 4 });
+
+        await webhook.flush();
+        expect(webhook.pending).toBe(2);
+        await webhook.flush(Date.now() + 60_000);
+        expect(webhook.pending).toBe(0);
+        expect(errors).toHaveLength(1);
+
+        const ids = fetch.mock.calls.map((call) => JSON.parse((call as unknown as [string, RequestInit])[1].body as string).id);
+        expect(ids[0]).toBe(ids[2]);
+        await webhook.close();
+    });
+
+    it('should send one batch per kind of event once its hour is over', async () => {
+        const fetch = stubFetch([]);
+        const webhook = new WebhookDispatcher({ url: 'https://hooks.example/vailix', secret: 'hook-secret' });
+        const bucket = Date.now() - (Date.now() % EVENT_BUCKET_MS);
+        webhook.enqueue({ type: 'report.accepted', bucket, keys: 10, duplicates: 1, status: 'confirmed' });
+        webhook.enqueue({ type: 'report.accepted', bucket, keys: 20, duplicates: 0, status: 'confirmed' });
+        webhook.enqueue({ type: 'report.accepted', bucket, keys: 5, duplicates: 0, status: 'provisional' });
+
+        await webhook.flush();
+        expect(fetch).not.toHaveBeenCalled();
+        expect(webhook.pending).toBe(2);
+
+        await webhook.flush(bucket + EVENT_BUCKET_MS);
+        const bodies = fetch.mock.calls.map((call) => JSON.parse((call as unknown as [string, RequestInit])[1].body as string));
+        expect(bodies).toEqual([
+            { id: expect.any(String), type: 'report.accepted', bucket, keys: 30, duplicates: 1, status: 'confirmed', count: 2 },
+            { id: expect.any(String), type: 'report.accepted', bucket, keys: 5, duplicates: 0, status: 'provisional', count: 1 },
+        ]);
+        await webhook.close();
+    });
+
+    it('should only send the configured events', async () => {
+        const fetch = stubFetch([]);
+        const webhook = new WebhookDispatcher({ url: 'https://hooks.example/vailix', secret: 'hook-secret', events: ['report.accepted'] });
+        webhook.enqueue(event);
+        await webhook.close();
+        expect(fetch).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for the report lifecycle (provisional -> confirmed -> revoked).
+ *
+ * Status changes are signed by the reporter's Ed25519 key and re-published
+ * at the end of the download stream so clients that already synced see them.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { generateKeyPairSync, sign } from 'crypto';
+import Fastify, { FastifyInstance } from 'fastify';
+import { MemoryKeyStore } from '../src/store';
+import { registerRoutes } from '../src/routes';
+import { statusMessage } from '../src/lifecycle';
+
+function reporterKey() {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    const reportKey = Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url').toString('base64');
+    const signStatus = (status: 'confirmed' | 'revoked') =>
+        sign(null, statusMessage(reportKey, status), privateKey).toString('base64');
+    return { reportKey, signStatus };
+}
+
+const RPI = 'ab'.repeat(16);
+
+describe('report lifecycle', () => {
+    let server: FastifyInstance;
+    let store: MemoryKeyStore;
+
+    beforeEach(() => {
+        server = Fastify();
+        store = new MemoryKeyStore();
+        registerRoutes(server, store);
+    });
+
+    async function report(body: Record<string, unknown>) {
+        return server.inject({
+            method: 'POST',
+            url: '/v1/report',
+            payload: { reports: [{ rpi: RPI, encryptedMetadata: 'iv:tag:data' }], ...body },
+        });
+    }
+
+    async function setStatus(reportKey: string, status: string, signature: string) {
+        return server.inject({ method: 'POST', url: '/v1/report/status', payload: { reportKey, status, signature } });
+    }
+
+    async function download(lifecycle: boolean) {
+        const res = await server.inject({ method: 'GET', url: `/v1/download?format=json&lifecycle=${lifecycle ? 1 : 0}` });
+        return res.json().keys as Array<{ rpi: string; status: string; metadata: string | null }>;
+    }
+
+    it('should store legacy reports as confirmed', async () => {
+        await report({});
+        expect((await download(true))[0].status).toBe('confirmed');
+    });
+
+    it('should require a report key for provisional reports', async () => {
+        const res = await report({ status: 'provisional' });
+        expect(res.statusCode).toBe(400);
+    });
+
+    it('should confirm a provisional report signed by the reporter', async () => {
+        const { reportKey, signStatus } = reporterKey();
+        await report({ reportKey, status: 'provisional' });
+
+        const res = await setStatus(reportKey, 'confirmed', signStatus('confirmed'));
+
+        expect(res.statusCode).toBe(200);
+        expect(await store.getReportStatus(reportKey)).toBe('confirmed');
+    });
+
+    it('should reject a status change signed by someone else', async () => {
+        const { reportKey } = reporterKey();
+        const attacker = reporterKey();
+        await report({ reportKey, status: 'provisional' });
+
+        const res = await setStatus(reportKey, 'revoked', attacker.signStatus('revoked'));
+
+        expect(res.statusCode).toBe(403);
+        expect(await store.getReportStatus(reportKey)).toBe('provisional');
+    });
+
+    it('should not allow leaving the revoked state', async () => {
+        const { reportKey, signStatus } = reporterKey();
+        await report({ reportKey });
+        await setStatus(reportKey, 'revoked', signStatus('revoked'));
+
+        const res = await setStatus(reportKey, 'confirmed', signStatus('confirmed'));
+        expect(res.statusCode).toBe(409);
+    });
+
+    it('should return 404 for unknown reports', async () => {
+        const { reportKey, signStatus } = reporterKey();
+        const res = await setStatus(reportKey, 'revoked', signStatus('revoked'));
+        expect(res.statusCode).toBe(404);
+    });
+
+    it('should publish revocations only to lifecycle-aware clients', async () => {
+        const { reportKey, signStatus } = reporterKey();
+        await report({ reportKey });
+        await setStatus(reportKey, 'revoked', signStatus('revoked'));
+
+        expect(await download(false)).toHaveLength(0);
+        expect(await download(true)).toEqual([expect.objectContaining({ rpi: RPI, status: 'revoked', metadata: null })]);
+    });
+
+    it('should move updated keys past existing cursors', async () => {
+        const { reportKey, signStatus } = reporterKey();
+        await report({ reportKey, status: 'provisional' });
+        const before = await store.page({ since: new Date(0), limit: 1 });
+
+        await setStatus(reportKey, 'confirmed', signStatus('confirmed'));
+        const after = await store.page({ since: new Date(0), cursor: before.nextCursor!, limit: 10, includeRevoked: true });
+
+        expect(after.keys).toHaveLength(1);
+        expect(after.keys[0].status).toBe('confirmed');
+    });
+
+    it('should append a status trailer to binary pages when lifecycle=1', async () => {
+        const { reportKey } = reporterKey();
+        await report({ reportKey, status: 'provisional' });
+
+        const res = await server.inject({ method: 'GET', url: '/v1/download?lifecycle=1' });
+        const body = res.rawPayload;
+        const keysEnd = 4 + 16 + 8 + 2 + 'iv:tag:data'.length;
+
+        expect(body.readUInt32BE(keysEnd)).toBe(1);       // One non-confirmed key
+        expect(body.readUInt32BE(keysEnd + 4)).toBe(0);   // Key index 0
+        expect(body.readUInt8(keysEnd + 8)).toBe(1);      // provisional
+    });
+});
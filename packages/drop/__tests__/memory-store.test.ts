@@ -0,0 +1,142 @@
+/**
+ * Tests for the in-memory KeyStore and the routes built on top of it.
+ *
+ * MemoryKeyStore is the reference implementation of the KeyStore contract,
+ * so these tests double as a specification for the other backends. They also
+ * run against an in-memory SQLite database; Mongo and Postgres need a server.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify from 'fastify';
+import { MemoryKeyStore, SqliteKeyStore, InvalidCursorError } from '../src/store';
+import type { KeyStore } from '../src/store';
+import { registerRoutes } from '../src/routes';
+
+const rpi = (n: number) => Buffer.from(n.toString(16).padStart(32, '0'), 'hex');
+const days = (n: number) => new Date(Date.now() + n * 24 * 60 * 60 * 1000);
+
+describe.each([
+    ['MemoryKeyStore', () => new MemoryKeyStore(14)],
+    ['SqliteKeyStore', () => new SqliteKeyStore(':memory:', 14)],
+] as [string, () => KeyStore][])('%s', (_name, create) => {
+    let store: KeyStore;
+
+    beforeEach(async () => {
+        store = create();
+        await store.connect();
+    });
+
+    afterEach(async () => {
+        await store.close();
+    });
+
+    it('should insert keys and skip duplicate RPIs', async () => {
+        const first = await store.insertMany([{ rpi: rpi(1), metadata: 'a' }, { rpi: rpi(2), metadata: null }]);
+        const second = await store.insertMany([{ rpi: rpi(2), metadata: 'b' }, { rpi: rpi(3), metadata: null }]);
+
+        expect(first).toEqual({ inserted: 2, duplicates: 0 });
+        expect(second).toEqual({ inserted: 1, duplicates: 1 });
+        expect(await store.count()).toBe(3);
+    });
+
+    it('should keep the first metadata when an RPI is reported twice', async () => {
+        await store.insertMany([{ rpi: rpi(1), metadata: 'first' }]);
+        await store.insertMany([{ rpi: rpi(1), metadata: 'second' }]);
+
+        const { keys } = await store.page({ since: new Date(0), limit: 10 });
+        expect(keys[0].metadata).toBe('first');
+    });
+
+    it('should page through keys in insertion order', async () => {
+        await store.insertMany([1, 2, 3, 4, 5].map((n) => ({ rpi: rpi(n), metadata: null })));
+
+        const page1 = await store.page({ since: new Date(0), limit: 2 });
+        const page2 = await store.page({ since: new Date(0), cursor: page1.nextCursor!, limit: 2 });
+        const page3 = await store.page({ since: new Date(0), cursor: page2.nextCursor!, limit: 2 });
+
+        expect(page1.keys.map((k) => k.rpi)).toEqual([rpi(1), rpi(2)]);
+        expect(page2.keys.map((k) => k.rpi)).toEqual([rpi(3), rpi(4)]);
+        expect(page3.keys.map((k) => k.rpi)).toEqual([rpi(5)]);
+        expect(page3.nextCursor).toBeNull();
+    });
+
+    it('should filter by since', async () => {
+        await store.insertMany([{ rpi: rpi(1), metadata: null }]);
+
+        const { keys } = await store.page({ since: new Date(Date.now() + 60_000), limit: 10 });
+        expect(keys).toHaveLength(0);
+    });
+
+    it('should reject cursors it did not issue', async () => {
+        await expect(store.page({ since: new Date(0), cursor: 'not-a-cursor', limit: 10 }))
+            .rejects.toBeInstanceOf(InvalidCursorError);
+    });
+
+    it('should purge keys older than the retention window', async () => {
+        await store.insertMany([{ rpi: rpi(1), metadata: null }]);
+
+        expect(await store.purgeExpired(new Date(Date.now() + 13 * 24 * 60 * 60 * 1000))).toBe(0);
+        expect(await store.purgeExpired(new Date(Date.now() + 15 * 24 * 60 * 60 * 1000))).toBe(1);
+        expect(await store.count()).toBe(0);
+
+        // Purged RPIs can be reported again
+        expect(await store.insertMany([{ rpi: rpi(1), metadata: null }])).toEqual({ inserted: 1, duplicates: 0 });
+    });
+
+    it('should purge each key at its own expiresAt', async () => {
+        await store.insertMany([{ rpi: rpi(1), metadata: null, expiresAt: days(7) }]);
+        await store.insertMany([{ rpi: rpi(2), metadata: null, expiresAt: days(90) }]);
+
+        expect(await store.purgeExpired(days(8))).toBe(1);
+        expect(await store.purgeExpired(days(89))).toBe(0);
+        expect(await store.purgeExpired(days(91))).toBe(1);
+    });
+});
+
+describe('routes with MemoryKeyStore', () => {
+    it('should round-trip a report through the JSON download', async () => {
+        const server = Fastify();
+        registerRoutes(server, new MemoryKeyStore());
+
+        const rpiHex = 'ab'.repeat(16);
+        const report = await server.inject({
+            method: 'POST',
+            url: '/v1/report',
+            payload: { reports: [{ rpi: rpiHex, encryptedMetadata: 'iv:tag:data' }] },
+        });
+        expect(report.statusCode).toBe(200);
+
+        const download = await server.inject({ method: 'GET', url: '/v1/download?format=json' });
+        const body = download.json();
+        expect(body.keys).toHaveLength(1);
+        expect(body.keys[0]).toMatchObject({ rpi: rpiHex, metadata: 'iv:tag:data' });
+        expect(body.nextCursor).toBeNull();
+    });
+
+    it('should return 400 for an invalid cursor', async () => {
+        const server = Fastify();
+        registerRoutes(server, new MemoryKeyStore());
+
+        const res = await server.inject({ method: 'GET', url: '/v1/download?cursor=abc' });
+        expect(res.statusCode).toBe(400);
+    });
+
+    it('should cap a report\'s retentionDays at the server maximum', async () => {
+        const store = new MemoryKeyStore();
+        const server = Fastify();
+        registerRoutes(server, store, { maxRetentionDays: 30 });
+
+        const report = (n: number, retentionDays?: number) => server.inject({
+            method: 'POST',
+            url: '/v1/report',
+            payload: { reports: [{ rpi: rpi(n).toString('hex'), encryptedMetadata: '' }], retentionDays },
+        });
+        await report(1, 7);
+        await report(2, 365);
+        await report(3);
+
+        expect(await store.purgeExpired(days(8))).toBe(1);   // 7-day report
+        expect(await store.purgeExpired(days(29))).toBe(0);
+        expect(await store.purgeExpired(days(31))).toBe(2);  // Capped and default reports
+    });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for the Prometheus metrics registry and the /metrics endpoint.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import vailixPlugin from '../src/index';
+import { Counter, Histogram, VailixMetrics } from '../src/metrics';
+
+describe('metric rendering', () => {
+    it('should render counters with escaped labels', () => {
+        const counter = new Counter('test_total', 'Test counter');
+        counter.inc({ tenant: 'a"b' });
+        counter.inc({ tenant: 'a"b' }, 2);
+
+        expect(counter.render()).toBe([
+            '# HELP test_total Test counter',
+            '# TYPE test_total counter',
+            'test_total{tenant="a\\"b"} 3',
+        ].join('\n'));
+    });
+
+    it('should render cumulative histogram buckets', () => {
+        const histogram = new Histogram('test_seconds', 'Test histogram', [0.1, 1]);
+        histogram.observe({}, 0.05);
+        histogram.observe({}, 0.5);
+        histogram.observe({}, 5);
+
+        const lines = histogram.render().split('\n');
+        expect(lines).toContain('test_seconds_bucket{le="0.1"} 1');
+        expect(lines).toContain('test_seconds_bucket{le="1"} 2');
+        expect(lines).toContain('test_seconds_bucket{le="+Inf"} 3');
+        expect(lines).toContain('test_seconds_count 3');
+    });
+});
+
+describe('/metrics endpoint', () => {
+    const SECRET = 'test-secret';
+    let server: FastifyInstance;
+    let metrics: VailixMetrics;
+
+    beforeEach(async () => {
+        metrics = new VailixMetrics();
+        server = Fastify();
+        await server.register(vailixPlugin, {
+            store: { type: 'memory' },
+            secret: SECRET,
+            attestVerifier: async (token) => token === 'valid',
+            metrics: { registry: metrics, token: 'scrape-token' },
+        });
+    });
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    const report = (attestToken: string) => server.inject({
+        method: 'POST',
+        url: '/v1/report',
+        headers: { 'x-vailix-secret': SECRET, 'x-attest-token': attestToken },
+        payload: { reports: [{ rpi: 'ab'.repeat(16), encryptedMetadata: '' }] },
+    });
+
+    it('should count reports, dedup, downloads and failures', async () => {
+        await report('valid');
+        await report('valid');
+        await report('invalid');
+        await server.inject({ method: 'GET', url: '/v1/download', headers: { 'x-vailix-secret': SECRET } });
+        await server.inject({ method: 'GET', url: '/v1/download?format=json', headers: { 'x-vailix-secret': SECRET } });
+        await server.inject({ method: 'GET', url: '/v1/download', headers: { 'x-vailix-secret': 'wrong' } });
+
+        expect(metrics.reports.get()).toBe(2);
+        expect(metrics.keysInserted.get()).toBe(1);
+        expect(metrics.keysDuplicate.get()).toBe(1);
+        expect(metrics.attestationFailures.get()).toBe(1);
+        expect(metrics.authFailures.get()).toBe(1);
+        expect(metrics.downloadPages.get({ format: 'bin' })).toBe(1);
+        expect(metrics.downloadPages.get({ format: 'json' })).toBe(1);
+        expect(metrics.downloadBytes.get({ format: 'bin' })).toBeGreaterThan(0);
+        expect(metrics.storeDuration.count({ operation: 'insertMany' })).toBe(2);
+    });
+
+    it('should serve the Prometheus text format behind the scrape token', async () => {
+        await report('valid');
+
+        const denied = await server.inject({ method: 'GET', url: '/metrics' });
+        const res = await server.inject({ method: 'GET', url: '/metrics', headers: { authorization: 'Bearer scrape-token' } });
+
+        expect(denied.statusCode).toBe(401);
+        expect(res.statusCode).toBe(200);
+        expect(res.headers['content-type']).toContain('text/plain');
+        expect(res.body).toContain('vailix_reports_total 1');
+        expect(res.body).toContain('vailix_store_duration_seconds_count{operation="insertMany"} 1');
+    });
+});
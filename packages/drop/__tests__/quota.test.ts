@@ -0,0 +1,108 @@
+/**
+ * Tests for per-attestation-token upload quotas.
+ */
+
+import { describe, it, expect } from 'vitest';
+import Fastify from 'fastify';
+import vailixPlugin from '../src/index';
+import { MemoryKeyStore } from '../src/store';
+import { MemoryQuotaStore, UploadQuota } from '../src/quota';
+
+const secret = 'test-secret';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const rpi = (n: number) => n.toString(16).padStart(32, '0');
+const reports = (from: number, count: number) =>
+    Array.from({ length: count }, (_, i) => ({ rpi: rpi(from + i), encryptedMetadata: '' }));
+
+describe('UploadQuota', () => {
+    it('should count reports and keys per key and day', async () => {
+        const quota = new UploadQuota({ reportsPerDay: 2, keysPerDay: 10, store: new MemoryQuotaStore() });
+        const key = quota.keyFor('token-a');
+
+        expect(await quota.consume(key, { reports: 1, keys: 6 }, 0)).toBe(true);
+        expect(await quota.consume(key, { reports: 1, keys: 6 }, 0)).toBe(false);
+        expect(await quota.consume(key, { reports: 1, keys: 4 }, 0)).toBe(true);
+        expect(await quota.consume(key, { reports: 1 }, 0)).toBe(false);
+        expect(await quota.consume(quota.keyFor('token-b'), { reports: 1 }, 0)).toBe(true);
+        expect(await quota.consume(key, { reports: 1 }, DAY_MS)).toBe(true);
+    });
+
+    it('should not keep attestation tokens or subjects', () => {
+        const quota = new UploadQuota();
+        expect(quota.keyFor('token-a')).toMatch(/^[a-f0-9]{64}$/);
+        expect(quota.keyFor('token-a', 'install-1')).toMatch(/^[a-f0-9]{64}$/);
+        expect(quota.keyFor('token-a', 'install-1')).toBe(quota.keyFor('token-b', 'install-1'));
+    });
+});
+
+describe('/v1/report with quotas', () => {
+    async function setup() {
+        const server = Fastify();
+        await server.register(vailixPlugin, {
+            store: new MemoryKeyStore(),
+            secret,
+            attestVerifier: async (token) => !!token,
+            quotas: { reportsPerDay: 2, keysPerDay: 5 },
+        });
+        return server;
+    }
+
+    const headers = (token: string) => ({ 'x-vailix-secret': secret, 'x-attest-token': token });
+
+    it('should answer 429 once a token used its daily quota', async () => {
+        const server = await setup();
+        const post = (token: string, payload: object) => server.inject({ method: 'POST', url: '/v1/report', headers: headers(token), payload });
+
+        expect((await post('a', { reports: reports(0, 3) })).statusCode).toBe(200);
+        const over = await post('a', { reports: reports(10, 3) });
+        expect(over.statusCode).toBe(429);
+        expect(Number(over.headers['retry-after'])).toBeGreaterThan(0);
+        expect((await post('a', { reports: reports(10, 2) })).statusCode).toBe(200);
+        expect((await post('b', { reports: reports(20, 3) })).statusCode).toBe(200);
+        await server.close();
+    });
+
+    it('should count against the verified subject, not the token', async () => {
+        const server = Fastify();
+        await server.register(vailixPlugin, {
+            store: new MemoryKeyStore(),
+            secret,
+            // Every token minted for install-1 names it
+            attestVerifier: async (token) => (token ? { subject: token.split('.')[0] } : false),
+            quotas: { reportsPerDay: 1 },
+        });
+        const post = (token: string, from: number) =>
+            server.inject({ method: 'POST', url: '/v1/report', headers: headers(token), payload: { reports: reports(from, 1) } });
+
+        expect((await post('install-1.token-1', 0)).statusCode).toBe(200);
+        expect((await post('install-1.token-2', 1)).statusCode).toBe(429);
+        expect((await post('install-2.token-1', 2)).statusCode).toBe(200);
+        await server.close();
+    });
+
+    it('should count session keys on commit', async () => {
+        const server = await setup();
+        const begin = await server.inject({ method: 'POST', url: '/v1/report/sessions', headers: headers('a'), payload: {} });
+        const { sessionId } = begin.json();
+        await server.inject({
+            method: 'PUT',
+            url: `/v1/report/sessions/${sessionId}/chunks/0`,
+            headers: { 'x-vailix-secret': secret },
+            payload: { reports: reports(0, 6) },
+        });
+
+        const commit = await server.inject({
+            method: 'POST',
+            url: `/v1/report/sessions/${sessionId}/commit`,
+            headers: { 'x-vailix-secret': secret },
+            payload: { chunks: 1 },
+        });
+        expect(commit.statusCode).toBe(429);
+        await server.close();
+    });
+
+    it('should require an attestation verifier', async () => {
+        const server = Fastify();
+        await expect(server.register(vailixPlugin, { store: new MemoryKeyStore(), secret, quotas: {} })).rejects.toThrow(/attestVerifier/);
+    });
+});
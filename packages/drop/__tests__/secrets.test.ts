@@ -0,0 +1,77 @@
+/**
+ * Tests for app secret rotation: several keyed secrets, each with an optional validity window.
+ */
+
+import { describe, it, expect } from 'vitest';
+import Fastify from 'fastify';
+import vailixPlugin from '../src/index';
+import { SecretRing, parseAppSecrets } from '../src/secrets';
+import { VailixMetrics } from '../src/metrics';
+
+const JAN = new Date('2025-01-01T00:00:00Z');
+const FEB = new Date('2025-02-01T00:00:00Z');
+const MAR = new Date('2025-03-01T00:00:00Z');
+
+describe('SecretRing', () => {
+    const ring = new SecretRing([
+        { id: 'old', secret: 'old-secret', notAfter: FEB },
+        { id: 'new', secret: 'new-secret', notBefore: JAN },
+    ]);
+
+    it('should accept any active secret and return its id', () => {
+        expect(ring.match('old-secret', undefined, JAN)).toBe('old');
+        expect(ring.match('new-secret', undefined, JAN)).toBe('new');
+    });
+
+    it('should reject secrets outside their validity window', () => {
+        expect(ring.match('old-secret', undefined, MAR)).toBeNull();
+        expect(ring.match('new-secret', undefined, new Date('2024-12-31T00:00:00Z'))).toBeNull();
+    });
+
+    it('should only check the secret named by the secret ID', () => {
+        expect(ring.match('new-secret', 'new', JAN)).toBe('new');
+        expect(ring.match('new-secret', 'old', JAN)).toBeNull();
+    });
+
+    it('should treat a plain string as the default secret', () => {
+        expect(new SecretRing('s').match('s')).toBe('default');
+    });
+
+    it('should reject duplicate ids', () => {
+        expect(() => new SecretRing([{ id: 'a', secret: '1' }, { id: 'a', secret: '2' }])).toThrow('Duplicate');
+    });
+
+    it('should parse secrets from JSON', () => {
+        expect(parseAppSecrets('[{"id":"a","secret":"s","notAfter":"2025-02-01T00:00:00Z"}]'))
+            .toEqual([{ id: 'a', secret: 's', notBefore: undefined, notAfter: FEB }]);
+    });
+
+    it('should reject validity dates that are not dates', () => {
+        expect(() => parseAppSecrets('[{"id":"a","secret":"s","notAfter":"2025-13-01"}]'))
+            .toThrow("a.notAfter: Expected an ISO date, got '2025-13-01'");
+        expect(() => new SecretRing([{ id: 'a', secret: 's', notBefore: new Date('soon') }])).toThrow('secret a');
+    });
+});
+
+describe('secret rotation in the plugin', () => {
+    it('should count requests per secret ID', async () => {
+        const metrics = new VailixMetrics();
+        const server = Fastify();
+        await server.register(vailixPlugin, {
+            store: { type: 'memory' },
+            secret: [{ id: 'v1', secret: 'secret-1' }, { id: 'v2', secret: 'secret-2' }],
+            metrics: { registry: metrics },
+        });
+
+        const download = (headers: Record<string, string>) =>
+            server.inject({ method: 'GET', url: '/v1/download?format=json', headers });
+
+        expect((await download({ 'x-vailix-secret': 'secret-1' })).statusCode).toBe(200);
+        expect((await download({ 'x-vailix-secret': 'secret-2', 'x-vailix-secret-id': 'v2' })).statusCode).toBe(200);
+        expect((await download({ 'x-vailix-secret': 'secret-2', 'x-vailix-secret-id': 'v1' })).statusCode).toBe(401);
+
+        expect(metrics.requestsBySecret.get({ secret_id: 'v1' })).toBe(1);
+        expect(metrics.requestsBySecret.get({ secret_id: 'v2' })).toBe(1);
+        await server.close();
+    });
+});
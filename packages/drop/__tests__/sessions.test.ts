@@ -0,0 +1,115 @@
+/**
+ * Tests for chunked upload sessions (begin, put chunks, commit).
+ *
+ * Keys are only stored on commit, so an interrupted upload never publishes part of a history.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import vailixPlugin from '../src/index';
+import { MemoryKeyStore } from '../src/store';
+import { sealEnvelope } from '../src/chaff';
+
+const SECRET = 'test-secret';
+const headers = { 'x-vailix-secret': SECRET, 'x-attest-token': 'valid' };
+
+const chunk = (index: number, size = 1500) => ({
+    reports: Array.from({ length: size }, (_, i) => ({
+        rpi: (index * 10000 + i).toString(16).padStart(32, '0'),
+        encryptedMetadata: '',
+    })),
+});
+
+describe('upload sessions', () => {
+    let server: FastifyInstance;
+    let store: MemoryKeyStore;
+
+    beforeEach(async () => {
+        store = new MemoryKeyStore();
+        server = Fastify();
+        await server.register(vailixPlugin, {
+            store,
+            secret: SECRET,
+            attestVerifier: async (token) => token === 'valid',
+        });
+    });
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    const begin = async (body: object = {}, extraHeaders: Record<string, string> = {}) => {
+        const res = await server.inject({
+            method: 'POST',
+            url: '/v1/report/sessions',
+            headers: { ...headers, ...extraHeaders },
+            payload: { envelope: sealEnvelope(SECRET, false), ...body },
+        });
+        return { res, sessionId: res.json().sessionId as string };
+    };
+    const put = (sessionId: string, index: number, size?: number) => server.inject({
+        method: 'PUT',
+        url: `/v1/report/sessions/${sessionId}/chunks/${index}`,
+        headers: { 'x-vailix-secret': SECRET },
+        payload: chunk(index, size),
+    });
+    const commit = (sessionId: string, chunks: number) => server.inject({
+        method: 'POST',
+        url: `/v1/report/sessions/${sessionId}/commit`,
+        headers: { 'x-vailix-secret': SECRET },
+        payload: { chunks },
+    });
+    const status = (sessionId: string) => server.inject({
+        method: 'GET',
+        url: `/v1/report/sessions/${sessionId}`,
+        headers: { 'x-vailix-secret': SECRET },
+    });
+
+    it('should publish every chunk on commit and nothing before', async () => {
+        const { res, sessionId } = await begin({ retentionDays: 30 });
+        expect(res.statusCode).toBe(200);
+        expect(sessionId).toMatch(/^[a-f0-9]{32}$/);
+
+        expect((await put(sessionId, 0)).statusCode).toBe(200);
+        expect((await put(sessionId, 1, 1380)).statusCode).toBe(200);
+        expect(await store.count()).toBe(0);
+
+        expect((await commit(sessionId, 2)).statusCode).toBe(200);
+        expect(await store.count()).toBe(2880);
+    });
+
+    it('should report received chunks and accept retried chunks and commits', async () => {
+        const { sessionId } = await begin();
+        await put(sessionId, 1);
+        await put(sessionId, 1);
+        expect((await status(sessionId)).json()).toMatchObject({ chunks: [1], committed: false });
+
+        const incomplete = await commit(sessionId, 2);
+        expect(incomplete.statusCode).toBe(409);
+        expect(incomplete.json().missing).toEqual([0]);
+
+        await put(sessionId, 0);
+        expect((await commit(sessionId, 2)).statusCode).toBe(200);
+        expect((await commit(sessionId, 2)).statusCode).toBe(200);
+        expect(await store.count()).toBe(3000);
+
+        expect((await status(sessionId)).json()).toMatchObject({ chunks: [0, 1], committed: true });
+        expect((await put(sessionId, 2)).statusCode).toBe(409);
+    });
+
+    it('should check attestation when the session begins', async () => {
+        const { res } = await begin({}, { 'x-attest-token': 'invalid' });
+        expect(res.statusCode).toBe(403);
+
+        expect((await put('ab'.repeat(16), 0)).statusCode).toBe(404);
+    });
+
+    it('should open decoy sessions like real ones and drop their keys', async () => {
+        const { res, sessionId } = await begin({ envelope: sealEnvelope(SECRET, true) }, { 'x-attest-token': 'anything' });
+        expect(res.statusCode).toBe(200);
+
+        expect((await put(sessionId, 0)).statusCode).toBe(200);
+        expect((await commit(sessionId, 1)).statusCode).toBe(200);
+        expect(await store.count()).toBe(0);
+    });
+});
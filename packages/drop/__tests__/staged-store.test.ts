@@ -0,0 +1,147 @@
+/**
+ * Tests for delayed, shuffled report publication (StagedKeyStore).
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import Fastify from 'fastify';
+import vailixPlugin from '../src/index';
+import { MemoryKeyStore, StagedKeyStore } from '../src/store';
+import { ExportPublisher } from '../src/export';
+import type { ExportSink } from '../src/export';
+
+const HOUR_MS = 60 * 60 * 1000;
+const rpi = (n: number) => Buffer.from(n.toString(16).padStart(32, '0'), 'hex');
+const report = (...ns: number[]) => ns.map((n) => ({ rpi: rpi(n), metadata: null, reportKey: `key-${ns[0]}` }));
+
+describe('StagedKeyStore', () => {
+    let inner: MemoryKeyStore;
+    let store: StagedKeyStore;
+
+    beforeEach(async () => {
+        inner = new MemoryKeyStore();
+        store = new StagedKeyStore(inner, { minReports: 3, maxDelayMs: 6 * HOUR_MS });
+        await store.connect();
+    });
+
+    const published = async () => (await inner.page({ since: new Date(0), limit: 1000, includeRevoked: true })).keys;
+
+    it('should hold reports until minReports are staged', async () => {
+        await store.insertMany(report(1));
+        await store.insertMany(report(2));
+        expect(await store.publishIfDue()).toBe(0);
+        expect(await store.count()).toBe(0);
+
+        await store.insertMany(report(3, 4));
+        expect(await store.publishIfDue()).toBe(4);
+        expect(await store.count()).toBe(4);
+    });
+
+    it('should publish below minReports once the oldest report is due', async () => {
+        await store.insertMany(report(1));
+
+        expect(await store.publishIfDue(new Date(Date.now() + HOUR_MS))).toBe(0);
+        expect(await store.publishIfDue(new Date(Date.now() + 7 * HOUR_MS))).toBe(1);
+    });
+
+    it('should stamp published keys with the start of the bucket', async () => {
+        await store.insertMany(report(1));
+        await store.insertMany(report(2));
+
+        const now = new Date('2025-01-01T10:42:17Z');
+        await store.publish(now);
+
+        const createdAt = (await published()).map((k) => k.createdAt.toISOString());
+        expect(createdAt).toEqual(['2025-01-01T10:00:00.000Z', '2025-01-01T10:00:00.000Z']);
+    });
+
+    it('should shuffle keys across staged reports', async () => {
+        for (let n = 1; n <= 50; n++) await store.insertMany(report(n));
+        await store.publish();
+
+        const order = (await published()).map((k) => k.rpi.readUInt32BE(12));
+        expect([...order].sort((a, b) => a - b)).toEqual(Array.from({ length: 50 }, (_, i) => i + 1));
+        expect(order).not.toEqual([...order].sort((a, b) => a - b));  // 1 in 50! to fail by chance
+    });
+
+    it('should skip RPIs that are already staged', async () => {
+        await store.insertMany(report(1, 2));
+        expect(await store.insertMany(report(2, 3))).toEqual({ inserted: 1, duplicates: 1 });
+    });
+
+    it('should change the status of a staged report in place', async () => {
+        await store.insertMany(report(1, 2).map((k) => ({ ...k, status: 'provisional' as const })));
+        expect(await store.getReportStatus('key-1')).toBe('provisional');
+
+        expect(await store.setReportStatus('key-1', 'confirmed')).toBe(2);
+        expect(await store.getReportStatus('key-1')).toBe('confirmed');
+
+        await store.publish();
+        expect((await published()).map((k) => k.status)).toEqual(['confirmed', 'confirmed']);
+    });
+
+    it('should queue status changes to published reports until the next publication', async () => {
+        await store.insertMany(report(1));
+        await store.publish(new Date('2025-01-01T10:05:00Z'));
+
+        await store.setReportStatus('key-1', 'revoked');
+        expect(await store.getReportStatus('key-1')).toBe('revoked');
+        expect((await published())[0].status).toBe('confirmed');
+
+        await store.publish(new Date('2025-01-01T11:30:00Z'));
+        const [key] = await published();
+        expect(key.status).toBe('revoked');
+        expect(key.createdAt.toISOString()).toBe('2025-01-01T11:00:00.000Z');
+    });
+
+    it('should not lose keys published after their export bucket would have been sealed', async () => {
+        const files = new Map<string, Buffer>();
+        const sink: ExportSink = {
+            write: async (name, data) => void files.set(name, data),
+            read: async (name) => files.get(name) ?? null,
+            delete: async (name) => void files.delete(name),
+        };
+        const staged = new StagedKeyStore(inner, { bucketMs: 2 * HOUR_MS, minReports: 1 });
+        const exporter = new ExportPublisher(inner, sink, { backdateMs: staged.bucketMs });
+        const at = (time: string) => new Date(`2025-01-01T${time}Z`);
+
+        await staged.insertMany(report(1));
+        // Past the end of [10:00, 11:00) and its grace period, but the key isn't published yet
+        await exporter.run(at('11:02:00'));
+        // Stamped 10:00, the start of the 2h publication bucket
+        await staged.publish(at('11:30:00'));
+        const manifest = await exporter.run(at('13:05:00'));
+
+        expect(manifest.files).toEqual([expect.objectContaining({ start: at('10:00:00').getTime(), count: 1 })]);
+    });
+
+    it('should publish staged reports on close', async () => {
+        await store.insertMany(report(1));
+        await store.close();
+
+        expect(await inner.count()).toBe(1);
+    });
+});
+
+describe('publication option', () => {
+    it('should keep reports out of downloads until they are published', async () => {
+        const server = Fastify();
+        await server.register(vailixPlugin, {
+            store: new MemoryKeyStore(),
+            secret: 'test-secret',
+            publication: { minReports: 2 },
+        });
+        const headers = { 'x-vailix-secret': 'test-secret' };
+
+        const res = await server.inject({
+            method: 'POST',
+            url: '/v1/report',
+            headers,
+            payload: { reports: [{ rpi: 'ab'.repeat(16), encryptedMetadata: '' }] },
+        });
+        expect(res.statusCode).toBe(200);
+
+        const download = await server.inject({ method: 'GET', url: '/v1/download?format=json', headers });
+        expect(download.json().keys).toEqual([]);
+        await server.close();
+    });
+});
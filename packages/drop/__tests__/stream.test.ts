@@ -0,0 +1,210 @@
+/**
+ * Tests for the streaming download format (format=stream).
+ *
+ * Key frames are written as the store reads them; the count, next cursor
+ * and signature trail the stream.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createHash, createPublicKey, verify } from 'crypto';
+import Fastify, { FastifyInstance } from 'fastify';
+import { MemoryKeyStore, pagedStream } from '../src/store';
+import { registerRoutes } from '../src/routes';
+import { PayloadSigner, generateSigningKey } from '../src/signing';
+import { STREAM_SIGNATURE_CONTEXT } from '../src/serialize';
+
+const rpi = (n: number) => Buffer.from(n.toString(16).padStart(32, '0'), 'hex');
+
+// Reference parser for the layout documented in serialize.ts
+function parseStream(data: Buffer, withToken: boolean = false) {
+    const keys: Array<{ rpi: string; createdAt: number; status: number; metadata: string }> = [];
+    let offset = 0;
+    while (data[offset] === 0x01) {
+        const metaLen = data.readUInt16BE(offset + 26);
+        keys.push({
+            rpi: data.subarray(offset + 1, offset + 17).toString('hex'),
+            createdAt: data.readDoubleBE(offset + 17),
+            status: data[offset + 25],
+            metadata: data.subarray(offset + 28, offset + 28 + metaLen).toString('utf8'),
+        });
+        offset += 28 + metaLen;
+    }
+    expect(data[offset]).toBe(0x00);
+    const count = data.readUInt32BE(offset + 1);
+    const cursorLen = data.readUInt16BE(offset + 5);
+    const nextCursor = data.subarray(offset + 7, offset + 7 + cursorLen).toString('utf8') || null;
+    offset += 7 + cursorLen;
+
+    let syncToken: string | null = null;
+    if (withToken) {
+        const tokenLen = data.readUInt16BE(offset);
+        syncToken = data.subarray(offset + 2, offset + 2 + tokenLen).toString('utf8');
+        offset += 2 + tokenLen;
+    }
+    const signed = data.subarray(0, offset);
+
+    const keyIdLen = data[offset];
+    const keyId = data.subarray(offset + 1, offset + 1 + keyIdLen).toString('utf8');
+    offset += 1 + keyIdLen;
+    const signature = data.subarray(offset + 1, offset + 1 + data[offset]);
+    expect(offset + 1 + signature.length).toBe(data.length);
+
+    return { keys, count, nextCursor, syncToken, signed, keyId, signature };
+}
+
+describe('streaming download', () => {
+    let server: FastifyInstance;
+    let store: MemoryKeyStore;
+
+    beforeEach(async () => {
+        store = new MemoryKeyStore();
+        await store.connect();
+        await store.insertMany(Array.from({ length: 5 }, (_, i) => ({ rpi: rpi(i + 1), metadata: i === 0 ? 'iv:tag:data' : null })));
+        await store.insertMany([{ rpi: rpi(6), metadata: null, status: 'provisional', reportKey: 'k' }]);
+    });
+
+    function register(options: Parameters<typeof registerRoutes>[2] = {}) {
+        server = Fastify();
+        registerRoutes(server, store, options);
+    }
+
+    it('should stream every key with its status, then the count', async () => {
+        register();
+        const res = await server.inject({ method: 'GET', url: '/v1/download?format=stream' });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.headers['content-type']).toBe('application/x-vailix-stream');
+        const parsed = parseStream(res.rawPayload);
+        expect(parsed.count).toBe(6);
+        expect(parsed.nextCursor).toBeNull();
+        expect(parsed.keys.map((k) => k.rpi)).toEqual([1, 2, 3, 4, 5, 6].map((n) => rpi(n).toString('hex')));
+        expect(parsed.keys[0].metadata).toBe('iv:tag:data');
+        expect(parsed.keys[5].status).toBe(1);
+        expect(parsed.keyId).toBe('');
+    });
+
+    it('should end each page with the cursor for the next one', async () => {
+        register({ pageSize: 4 });
+        const first = parseStream((await server.inject({ method: 'GET', url: '/v1/download?format=stream' })).rawPayload);
+        expect(first.count).toBe(4);
+        expect(first.nextCursor).not.toBeNull();
+
+        const second = parseStream((await server.inject({
+            method: 'GET',
+            url: `/v1/download?format=stream&cursor=${first.nextCursor}`,
+        })).rawPayload);
+        expect(second.count).toBe(2);
+        expect(second.nextCursor).toBeNull();
+    });
+
+    it('should sign the digest of the stream including the cursor', async () => {
+        const { privateKey } = generateSigningKey();
+        register({ signer: new PayloadSigner({ keyId: 'k1', privateKey }), pageSize: 4 });
+        const parsed = parseStream((await server.inject({ method: 'GET', url: '/v1/download?format=stream' })).rawPayload);
+
+        const message = Buffer.concat([Buffer.from(STREAM_SIGNATURE_CONTEXT), createHash('sha256').update(parsed.signed).digest()]);
+        expect(parsed.keyId).toBe('k1');
+        expect(verify(null, message, createPublicKey(privateKey), parsed.signature)).toBe(true);
+    });
+
+    it('should end the end frame with a sync token when asked to', async () => {
+        const { privateKey } = generateSigningKey();
+        register({ signer: new PayloadSigner({ keyId: 'k1', privateKey }), pageSize: 4 });
+        const res = await server.inject({ method: 'GET', url: '/v1/download?format=stream&tokens=1' });
+        expect(res.headers['x-vailix-stream-sync-token']).toBe('1');
+        const first = parseStream(res.rawPayload, true);
+        expect(first.syncToken).not.toBeNull();
+
+        const message = Buffer.concat([Buffer.from(STREAM_SIGNATURE_CONTEXT), createHash('sha256').update(first.signed).digest()]);
+        expect(verify(null, message, createPublicKey(privateKey), first.signature)).toBe(true);
+
+        const second = parseStream((await server.inject({
+            method: 'GET',
+            url: `/v1/download?format=stream&tokens=1&token=${first.syncToken}`,
+        })).rawPayload, true);
+        expect(second.keys.map((k) => k.rpi)).toEqual([rpi(5), rpi(6)].map((r) => r.toString('hex')));
+    });
+
+    it('should send each shared metadata blob once, ahead of its first key', async () => {
+        await store.insertBlob({ id: 'b1', data: 'iv:tag:blob', expiresAt: new Date(Date.now() + 60_000) });
+        await store.insertMany([7, 8].map((n) => ({ rpi: rpi(n), metadata: 'wrapped', blobId: 'b1' })));
+        register();
+        const data = (await server.inject({ method: 'GET', url: '/v1/download?format=stream&since=0&blobs=1' })).rawPayload;
+
+        // Six plain key frames, then the blob frame and two shared key frames
+        let offset = 0;
+        for (let i = 0; i < 6; i++) offset += 28 + data.readUInt16BE(offset + 26);
+        expect(data[offset]).toBe(0x02);
+        expect(data.readUInt16BE(offset + 1)).toBe(0);
+        expect(data.subarray(offset + 5, offset + 5 + data.readUInt16BE(offset + 3)).toString()).toBe('iv:tag:blob');
+        offset += 5 + 11;
+        for (const n of [7, 8]) {
+            expect(data[offset]).toBe(0x03);
+            expect(data.subarray(offset + 1, offset + 17)).toEqual(rpi(n));
+            expect(data.readUInt16BE(offset + 28 + 7)).toBe(0);
+            offset += 28 + 7 + 2;
+        }
+        expect(data[offset]).toBe(0x00);
+        expect(data.readUInt32BE(offset + 1)).toBe(8);
+
+        // Without blobs=1 the stream keeps the old frames
+        const plain = parseStream((await server.inject({ method: 'GET', url: '/v1/download?format=stream' })).rawPayload);
+        expect(plain.keys[6].metadata).toBe('wrapped');
+    });
+
+    it('should frame the stream as the negotiated format version', async () => {
+        register();
+        const res = await server.inject({
+            method: 'GET',
+            url: '/v1/download?format=stream&lifecycle=1&tokens=1',
+            headers: { 'x-vailix-format-versions': '1,0' },
+        });
+        const data = res.rawPayload;
+        expect(res.headers['x-vailix-format-version']).toBe('1');
+
+        // [magic][version][flags: status | syncToken], then v1 key frames with a u48 timestamp
+        expect(data.subarray(0, 4).toString('ascii')).toBe('VLXK');
+        expect([data[4], data[5]]).toEqual([1, 0x01 | 0x04]);
+        let offset = 6;
+        const keys: Array<{ rpi: string; createdAt: number; status: number }> = [];
+        while (data[offset] === 0x01) {
+            keys.push({
+                rpi: data.subarray(offset + 1, offset + 17).toString('hex'),
+                createdAt: data.readUIntBE(offset + 17, 6),
+                status: data[offset + 23],
+            });
+            offset += 26 + data.readUInt16BE(offset + 24);
+        }
+        expect(keys).toHaveLength(6);
+        expect(keys[0].createdAt).toBe((await store.page({ since: new Date(0), limit: 1 })).keys[0].createdAt.getTime());
+        expect(keys[5].status).toBe(1);
+        expect(data[offset]).toBe(0x00);
+        expect(data.readUInt32BE(offset + 1)).toBe(6);
+
+        // Without lifecycle=1 there is no status byte
+        const plain = (await server.inject({
+            method: 'GET',
+            url: '/v1/download?format=stream',
+            headers: { 'x-vailix-format-versions': '1' },
+        })).rawPayload;
+        expect(plain[5]).toBe(0);
+        expect(plain.readUInt16BE(6 + 23)).toBe('iv:tag:data'.length);
+    });
+
+    it('should reject an invalid cursor before streaming', async () => {
+        register();
+        const res = await server.inject({ method: 'GET', url: '/v1/download?format=stream&cursor=abc' });
+        expect(res.statusCode).toBe(400);
+    });
+
+    it('should read the same keys in batches as page()', async () => {
+        const query = { since: new Date(0), limit: 5 };
+        const batches = [];
+        for await (const batch of pagedStream(store, query, 2)) batches.push(batch);
+
+        const page = await store.page(query);
+        expect(batches.map((b) => b.keys.length)).toEqual([2, 2, 1]);
+        expect(batches.flatMap((b) => b.keys)).toEqual(page.keys);
+        expect(batches[batches.length - 1].nextCursor).toBe(page.nextCursor);
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for download sync tokens.
+ *
+ * A token resumes after the last key a client received, by store position
+ * rather than by timestamp.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { MemoryKeyStore } from '../src/store';
+import { registerRoutes } from '../src/routes';
+import { FORMAT_VERSIONS_HEADER } from '../src/serialize';
+import { SYNC_TOKEN_HEADER, SyncTokenIssuer } from '../src/sync';
+
+const rpi = (n: number) => Buffer.from(n.toString(16).padStart(32, '0'), 'hex');
+
+describe('SyncTokenIssuer', () => {
+    it('should read back the positions it issued', () => {
+        const tokens = new SyncTokenIssuer('secret');
+        expect(tokens.read(tokens.issue({ since: 1000, cursor: '42', format: 1 }))).toEqual({ since: 1000, cursor: '42', format: 1 });
+        expect(tokens.read(tokens.issue({ since: 0, cursor: null, format: 0 }))).toEqual({ since: 0, cursor: null, format: 0 });
+    });
+
+    it('should reject tokens it did not issue', () => {
+        const token = new SyncTokenIssuer('secret').issue({ since: 0, cursor: '1', format: 0 });
+        const [, mac] = token.split('.');
+        const forged = `${Buffer.from(JSON.stringify({ v: 2, since: 0, cursor: '99', format: 0 })).toString('base64url')}.${mac}`;
+
+        expect(new SyncTokenIssuer('other').read(token)).toBeNull();
+        expect(new SyncTokenIssuer('secret').read(forged)).toBeNull();
+        expect(new SyncTokenIssuer('secret').read('garbage')).toBeNull();
+    });
+});
+
+describe('/v1/download with sync tokens', () => {
+    let server: FastifyInstance;
+    let store: MemoryKeyStore;
+
+    beforeEach(async () => {
+        server = Fastify();
+        store = new MemoryKeyStore();
+        registerRoutes(server, store, { pageSize: 2, syncTokens: new SyncTokenIssuer('secret') });
+    });
+
+    const download = async (token?: string) => {
+        const res = await server.inject({ method: 'GET', url: `/v1/download?format=json${token ? `&token=${token}` : ''}` });
+        return { ...res.json(), header: res.headers[SYNC_TOKEN_HEADER] } as {
+            keys: Array<{ rpi: string }>; nextCursor: string | null; syncToken: string; header: string;
+        };
+    };
+    const rpis = (page: { keys: Array<{ rpi: string }> }) => page.keys.map((k) => k.rpi);
+
+    it('should resume mid-sync and after the last page without repeating keys', async () => {
+        const createdAt = new Date(1704500000000);
+        await store.insertMany([1, 2, 3].map((n) => ({ rpi: rpi(n), metadata: null, createdAt })));
+
+        const first = await download();
+        expect(first.header).toBe(first.syncToken);
+        const second = await download(first.syncToken);
+        expect(rpis(second)).toEqual([rpi(3).toString('hex')]);
+        expect(second.nextCursor).toBeNull();
+
+        // Same millisecond as the keys already received: only the new key comes back
+        await store.insertMany([{ rpi: rpi(4), metadata: null, createdAt }]);
+        expect(rpis(await download(second.syncToken))).toEqual([rpi(4).toString('hex')]);
+    });
+
+    it('should not skip keys published with an earlier createdAt', async () => {
+        await store.insertMany([{ rpi: rpi(1), metadata: null, createdAt: new Date(2000) }]);
+        const first = await download();
+
+        await store.insertMany([{ rpi: rpi(2), metadata: null, createdAt: new Date(1000) }]);
+        expect(rpis(await download(first.syncToken))).toEqual([rpi(2).toString('hex')]);
+    });
+
+    it('should keep the position across empty pages', async () => {
+        await store.insertMany([{ rpi: rpi(1), metadata: null }]);
+        const first = await download();
+        const empty = await download(first.syncToken);
+        expect(empty.keys).toEqual([]);
+
+        await store.insertMany([{ rpi: rpi(2), metadata: null }]);
+        expect(rpis(await download(empty.syncToken))).toEqual([rpi(2).toString('hex')]);
+    });
+
+    it('should answer unknown tokens with 400', async () => {
+        const token = new SyncTokenIssuer('other').issue({ since: 0, cursor: null, format: 0 });
+        const res = await server.inject({ method: 'GET', url: `/v1/download?token=${token}` });
+        expect(res.statusCode).toBe(400);
+        expect(res.json().error).toBe('Invalid sync token');
+    });
+
+    it('should reject tokens issued for another format version', async () => {
+        const { syncToken } = await download();
+        const res = await server.inject({
+            method: 'GET',
+            url: `/v1/download?format=json&token=${syncToken}`,
+            headers: { [FORMAT_VERSIONS_HEADER]: '1,0' },
+        });
+        expect(res.statusCode).toBe(400);
+    });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for multi-tenant mode: several apps under one Fastify instance,
+ * each with its own secret and key store.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import vailixPlugin from '../src/index';
+import { tenantStoreConfig } from '../src/tenant';
+import type { TenantRouting } from '../src/tenant';
+
+const RPI = 'ab'.repeat(16);
+
+describe('multi-tenant routing', () => {
+    let server: FastifyInstance;
+
+    async function start(tenantRouting: TenantRouting) {
+        server = Fastify();
+        await server.register(vailixPlugin, {
+            store: { type: 'memory' },
+            tenantRouting,
+            tenants: [
+                { id: 'app_a', secret: 'secret-a' },
+                { id: 'app_b', secret: 'secret-b', attestVerifier: async () => false },
+            ],
+        });
+    }
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    const report = (url: string, headers: Record<string, string>) => server.inject({
+        method: 'POST',
+        url,
+        headers,
+        payload: { reports: [{ rpi: RPI, encryptedMetadata: '' }] },
+    });
+    const download = async (url: string, headers: Record<string, string>) =>
+        (await server.inject({ method: 'GET', url: `${url}?format=json`, headers })).json().keys;
+
+    it('should route by tenant header and isolate keys', async () => {
+        await start('header');
+
+        const res = await report('/v1/report', { 'x-vailix-tenant': 'app_a', 'x-vailix-secret': 'secret-a' });
+        expect(res.statusCode).toBe(200);
+
+        expect(await download('/v1/download', { 'x-vailix-tenant': 'app_a', 'x-vailix-secret': 'secret-a' })).toHaveLength(1);
+        expect(await download('/v1/download', { 'x-vailix-tenant': 'app_b', 'x-vailix-secret': 'secret-b' })).toHaveLength(0);
+    });
+
+    it('should apply each tenant\'s secret and attestation', async () => {
+        await start('header');
+
+        const crossSecret = await report('/v1/report', { 'x-vailix-tenant': 'app_b', 'x-vailix-secret': 'secret-a' });
+        const attestation = await report('/v1/report', { 'x-vailix-tenant': 'app_b', 'x-vailix-secret': 'secret-b' });
+
+        expect(crossSecret.statusCode).toBe(401);
+        expect(attestation.statusCode).toBe(403);
+    });
+
+    it('should return 404 for unknown or missing tenants', async () => {
+        await start('header');
+
+        expect((await report('/v1/report', { 'x-vailix-secret': 'secret-a' })).statusCode).toBe(404);
+        expect((await report('/v1/report', { 'x-vailix-tenant': 'app_c', 'x-vailix-secret': 'secret-a' })).statusCode).toBe(404);
+    });
+
+    it('should route by path prefix', async () => {
+        await start('prefix');
+
+        const res = await report('/app_a/v1/report', { 'x-vailix-secret': 'secret-a' });
+        expect(res.statusCode).toBe(200);
+
+        expect(await download('/app_a/v1/download', { 'x-vailix-secret': 'secret-a' })).toHaveLength(1);
+        expect(await download('/app_b/v1/download', { 'x-vailix-secret': 'secret-b' })).toHaveLength(0);
+        expect((await report('/app_b/v1/report', { 'x-vailix-secret': 'secret-a' })).statusCode).toBe(401);
+    });
+
+    it('should reject invalid tenant ids', async () => {
+        server = Fastify();
+        server.register(vailixPlugin, { store: { type: 'memory' }, tenants: [{ id: '../etc', secret: 's' }] });
+        await expect(server.ready()).rejects.toThrow('Invalid tenant id');
+    });
+});
+
+describe('tenantStoreConfig', () => {
+    it('should give each tenant its own collection or table', () => {
+        expect(tenantStoreConfig({ type: 'mongo', uri: 'mongodb://x' }, 'app_a'))
+            .toEqual({ type: 'mongo', uri: 'mongodb://x', collection: 'keys_app_a' });
+        expect(tenantStoreConfig({ type: 'postgres', connectionString: 'postgres://x' }, 'app_a'))
+            .toEqual({ type: 'postgres', connectionString: 'postgres://x', table: 'vailix_keys_app_a' });
+    });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for the transparency log: proofs, signed heads and the /v1/log routes.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createPublicKey, verify } from 'crypto';
+import Fastify from 'fastify';
+import vailixPlugin from '../src/index';
+import { LoggedKeyStore, MemoryKeyStore } from '../src/store';
+import { PayloadSigner, generateSigningKey } from '../src/signing';
+import {
+    MemoryLogStore,
+    TransparencyLog,
+    leafHash,
+    treeHeadMessage,
+    verifyConsistencyProof,
+    verifyInclusionProof,
+} from '../src/transparency';
+
+const rpi = (n: number) => Buffer.from(n.toString(16).padStart(32, '0'), 'hex');
+
+async function logOf(size: number, signer?: PayloadSigner) {
+    const log = new TransparencyLog(new MemoryLogStore(), signer);
+    for (let i = 0; i < size; i++) await log.append([rpi(i)], 1000 + i);
+    return log;
+}
+
+describe('TransparencyLog', () => {
+    it('should prove every leaf of trees of any size', async () => {
+        const log = await logOf(13);
+        for (let size = 1; size <= 13; size++) {
+            const root = (await logOf(size)).treeHead().rootHash;
+            for (let index = 0; index < size; index++) {
+                const leaf = leafHash(log.getEntries(index, index + 1)[0]);
+                expect(verifyInclusionProof(index, size, leaf, log.inclusionProof(index, size), root)).toBe(true);
+            }
+        }
+    });
+
+    it('should prove every smaller tree consistent with every larger one', async () => {
+        const log = await logOf(11);
+        const roots = await Promise.all(Array.from({ length: 12 }, async (_, size) => (await logOf(size)).treeHead().rootHash));
+        for (let to = 1; to <= 11; to++) {
+            for (let from = 1; from <= to; from++) {
+                expect(verifyConsistencyProof(from, to, roots[from], roots[to], log.consistencyProof(from, to))).toBe(true);
+            }
+        }
+    });
+
+    it('should reject proofs for other roots', async () => {
+        const log = await logOf(6);
+        const forked = await logOf(5);
+        await forked.append([rpi(99)], 1005);
+        const leaf = leafHash(log.getEntries(2, 3)[0]);
+
+        expect(verifyInclusionProof(2, 6, leaf, log.inclusionProof(2, 6), forked.treeHead().rootHash)).toBe(false);
+        expect(verifyInclusionProof(3, 6, leaf, log.inclusionProof(2, 6), log.treeHead().rootHash)).toBe(false);
+        const oldRoot = (await logOf(3)).treeHead().rootHash;
+        expect(verifyConsistencyProof(3, 6, oldRoot, forked.treeHead().rootHash, log.consistencyProof(3, 6))).toBe(false);
+    });
+
+    it('should sign tree heads', async () => {
+        const { privateKey } = generateSigningKey();
+        const head = (await logOf(3, new PayloadSigner({ keyId: 'k1', privateKey }))).treeHead();
+
+        expect(head.keyId).toBe('k1');
+        expect(verify(null, treeHeadMessage(head), createPublicKey(privateKey), Buffer.from(head.signature!, 'base64'))).toBe(true);
+    });
+
+    it('should reload its entries from the store', async () => {
+        const store = new MemoryLogStore();
+        const log = new TransparencyLog(store);
+        await log.append([rpi(2), rpi(1)]);
+        await log.append([rpi(3)]);
+
+        const reopened = new TransparencyLog(store);
+        await reopened.open();
+        expect(reopened.treeHead().rootHash).toBe(log.treeHead().rootHash);
+        expect(reopened.getEntries(0)[0].rpis).toEqual([rpi(1).toString('hex'), rpi(2).toString('hex')]);
+    });
+});
+
+describe('LoggedKeyStore', () => {
+    it('should append one entry per stored batch', async () => {
+        const log = new TransparencyLog();
+        const store = new LoggedKeyStore(new MemoryKeyStore(), log);
+
+        await store.insertMany([{ rpi: rpi(1), metadata: null }, { rpi: rpi(2), metadata: null }]);
+        await store.insertMany([]);
+        await store.insertMany([{ rpi: rpi(3), metadata: null }]);
+
+        expect(log.getEntries(0).map((entry) => entry.rpis.length)).toEqual([2, 1]);
+    });
+
+    it('should log keys before storing them, so a retry after a failure logs what is missing', async () => {
+        const logStore = new MemoryLogStore();
+        const log = new TransparencyLog(logStore);
+        const inner = new MemoryKeyStore();
+        const store = new LoggedKeyStore(inner, log);
+        const keys = [{ rpi: rpi(1), metadata: null }, { rpi: rpi(2), metadata: null }];
+
+        // Append fails: nothing is stored, so nothing is served unlogged
+        const append = logStore.append.bind(logStore);
+        logStore.append = async () => { throw new Error('disk full'); };
+        await expect(store.insertMany(keys)).rejects.toThrow('disk full');
+        expect(await inner.count()).toBe(0);
+        logStore.append = append;
+
+        // Insert fails after the append: the retry stores the keys without listing them again
+        const insert = inner.insertMany.bind(inner);
+        inner.insertMany = async () => { throw new Error('connection lost'); };
+        await expect(store.insertMany(keys)).rejects.toThrow('connection lost');
+        inner.insertMany = insert;
+        expect(await store.insertMany([...keys, { rpi: rpi(3), metadata: null }])).toEqual({ inserted: 3, duplicates: 0 });
+
+        expect(log.getEntries(0).map((entry) => entry.rpis)).toEqual([
+            [rpi(1).toString('hex'), rpi(2).toString('hex')],
+            [rpi(3).toString('hex')],
+        ]);
+    });
+});
+
+describe('/v1/log routes', () => {
+    const secret = 'test-secret';
+
+    async function setup() {
+        const server = Fastify();
+        await server.register(vailixPlugin, { store: new MemoryKeyStore(), secret, transparencyLog: {} });
+        for (const keys of [[1, 2], [3], [4]]) {
+            await server.inject({
+                method: 'POST',
+                url: '/v1/report',
+                headers: { 'x-vailix-secret': secret },
+                payload: { reports: keys.map((n) => ({ rpi: rpi(n).toString('hex'), encryptedMetadata: '' })) },
+            });
+        }
+        return server;
+    }
+
+    it('should serve heads, entries and proofs without the app secret', async () => {
+        const server = await setup();
+        const head = (await server.inject({ method: 'GET', url: '/v1/log/head' })).json();
+        expect(head.treeSize).toBe(3);
+
+        const entries = (await server.inject({ method: 'GET', url: '/v1/log/entries?start=1' })).json().entries;
+        expect(entries.map((entry: { index: number }) => entry.index)).toEqual([1, 2]);
+
+        const inclusion = (await server.inject({ method: 'GET', url: '/v1/log/proof/inclusion?index=1&treeSize=3' })).json();
+        expect(verifyInclusionProof(1, 3, leafHash(entries[0]), inclusion.proof, head.rootHash)).toBe(true);
+
+        const consistency = await server.inject({ method: 'GET', url: '/v1/log/proof/consistency?from=2&to=3' });
+        expect(consistency.json().proof.length).toBeGreaterThan(0);
+        await server.close();
+    });
+
+    it('should look up downloaded keys with inclusion proofs', async () => {
+        const server = await setup();
+        const res = await server.inject({
+            method: 'POST',
+            url: '/v1/log/lookup',
+            payload: { treeSize: 2, rpis: [rpi(2), rpi(3), rpi(4)].map((r) => r.toString('hex')) },
+        });
+
+        expect(res.statusCode).toBe(200);
+        expect(res.json().entries.map((entry: { index: number }) => entry.index)).toEqual([0, 1]);
+        expect(res.json().missing).toEqual([rpi(4).toString('hex')]);
+        await server.close();
+    });
+
+    it('should answer proofs beyond the log with 400', async () => {
+        const server = await setup();
+        expect((await server.inject({ method: 'GET', url: '/v1/log/proof/inclusion?index=0&treeSize=4' })).statusCode).toBe(400);
+        expect((await server.inject({ method: 'GET', url: '/v1/log/proof/consistency?from=3&to=2' })).statusCode).toBe(400);
+        await server.close();
+    });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for the binary report upload format (application/x-vailix-report).
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import { MemoryKeyStore } from '../src/store';
+import { registerRoutes } from '../src/routes';
+import { blobId, parseReportUpload, REPORT_CONTENT_TYPE } from '../src/upload';
+
+const RPI = 'ab'.repeat(16);
+const IV = Buffer.alloc(12, 1);
+const TAG = Buffer.alloc(16, 2);
+const DATA = Buffer.from('ciphertext');
+
+// Same layout as the SDK's encodeReport
+function encode(options: {
+    keys?: Array<{ rpi: string; metadata?: Buffer }>;
+    status?: number;
+    retentionDays?: number;
+    reportKey?: Buffer;
+    envelope?: string;
+    flags?: number;
+    blob?: Buffer;
+} = {}): Buffer {
+    const { keys = [{ rpi: RPI, metadata: Buffer.concat([IV, TAG, DATA]) }], reportKey = Buffer.alloc(0), envelope = '' } = options;
+    const header = Buffer.alloc(5);
+    header[0] = 1;
+    header[1] = options.flags ?? 0;
+    header[2] = options.status ?? 0;
+    header.writeUInt16BE(options.retentionDays ?? 0, 3);
+    const count = Buffer.alloc(4);
+    count.writeUInt32BE(keys.length);
+    return Buffer.concat([
+        Buffer.from('VLXR'),
+        header,
+        Buffer.from([reportKey.length]), reportKey,
+        Buffer.from([Buffer.byteLength(envelope)]), Buffer.from(envelope),
+        ...(options.blob ? [Buffer.from([options.blob.length >> 8, options.blob.length & 0xff]), options.blob] : []),
+        count,
+        ...keys.flatMap((key) => {
+            const meta = key.metadata ?? Buffer.alloc(0);
+            const len = Buffer.alloc(2);
+            len.writeUInt16BE(meta.length);
+            return [Buffer.from(key.rpi, 'hex'), len, meta];
+        }),
+    ]);
+}
+
+describe('binary report upload', () => {
+    it('should decode to Buffer RPIs and iv:tag:data metadata', () => {
+        const reportKey = Buffer.alloc(32, 7);
+        const body = parseReportUpload(encode({ status: 1, retentionDays: 10, reportKey, envelope: 'a:b:c' }));
+
+        expect(body.reports).toEqual([{
+            rpi: Buffer.from(RPI, 'hex'),
+            encryptedMetadata: `${IV.toString('base64')}:${TAG.toString('base64')}:${DATA.toString('base64')}`,
+        }]);
+        expect(body.status).toBe('provisional');
+        expect(body.retentionDays).toBe(10);
+        expect(body.reportKey).toBe(reportKey.toString('base64'));
+        expect(body.envelope).toBe('a:b:c');
+    });
+
+    it('should decode the shared metadata blob', () => {
+        const body = parseReportUpload(encode({ flags: 1, blob: Buffer.concat([IV, TAG, Buffer.from('blob')]) }));
+        expect(body.metadataBlob).toBe(`${IV.toString('base64')}:${TAG.toString('base64')}:${Buffer.from('blob').toString('base64')}`);
+        expect(parseReportUpload(encode()).metadataBlob).toBeUndefined();
+        expect(() => parseReportUpload(encode({ flags: 1, blob: Buffer.alloc(4) }))).toThrow('metadata blob too short');
+    });
+
+    it('should reject malformed uploads', () => {
+        const valid = encode();
+        expect(() => parseReportUpload(valid.subarray(0, valid.length - 1))).toThrow('truncated');
+        expect(() => parseReportUpload(Buffer.concat([valid, Buffer.from([0])]))).toThrow('trailing bytes');
+        expect(() => parseReportUpload(encode({ flags: 4 }))).toThrow('unsupported flags');
+        expect(() => parseReportUpload(encode({ status: 2 }))).toThrow('invalid status');
+        expect(() => parseReportUpload(encode({ reportKey: Buffer.alloc(8) }))).toThrow('32 bytes');
+        expect(() => parseReportUpload(encode({ keys: [{ rpi: RPI, metadata: Buffer.alloc(5) }] }))).toThrow('too short');
+        expect(() => parseReportUpload(encode({ keys: Array.from({ length: 1501 }, () => ({ rpi: RPI })) }))).toThrow('at most 1500');
+    });
+
+    describe('POST /v1/report', () => {
+        let server: FastifyInstance;
+        let store: MemoryKeyStore;
+
+        beforeEach(() => {
+            server = Fastify();
+            store = new MemoryKeyStore();
+            registerRoutes(server, store);
+        });
+
+        const post = (payload: Buffer | object, contentType: string) =>
+            server.inject({ method: 'POST', url: '/v1/report', headers: { 'content-type': contentType }, payload });
+
+        it('should store binary uploads like JSON ones', async () => {
+            const binary = await post(encode(), REPORT_CONTENT_TYPE);
+            expect(binary.statusCode).toBe(200);
+
+            const json = await post({ reports: [{ rpi: 'cd'.repeat(16), encryptedMetadata: 'iv:tag:data' }] }, 'application/json');
+            expect(json.statusCode).toBe(200);
+
+            const { keys } = await store.page({ since: new Date(0), limit: 10 });
+            expect(keys.map((k) => k.rpi.toString('hex'))).toEqual([RPI, 'cd'.repeat(16)]);
+            expect(keys[0].metadata).toBe(`${IV.toString('base64')}:${TAG.toString('base64')}:${DATA.toString('base64')}`);
+        });
+
+        it('should store a shared metadata blob once and point the keys at it', async () => {
+            const res = await post({
+                reports: [{ rpi: RPI, encryptedMetadata: 'wrapped1' }, { rpi: 'cd'.repeat(16), encryptedMetadata: 'wrapped2' }],
+                metadataBlob: 'iv:tag:blob',
+            }, 'application/json');
+            expect(res.statusCode).toBe(200);
+
+            const { keys } = await store.page({ since: new Date(0), limit: 10 });
+            expect(keys.map((k) => k.blobId)).toEqual([blobId('iv:tag:blob'), blobId('iv:tag:blob')]);
+            expect(await store.getBlobs([blobId('iv:tag:blob')])).toEqual(new Map([[blobId('iv:tag:blob'), 'iv:tag:blob']]));
+
+            const download = await server.inject({ method: 'GET', url: '/v1/download?format=json&blobs=1' });
+            expect(download.json().blobs).toEqual({ [blobId('iv:tag:blob')]: 'iv:tag:blob' });
+            expect(download.json().keys[0].blobId).toBe(blobId('iv:tag:blob'));
+        });
+
+        it('should answer malformed binary uploads with 400', async () => {
+            const res = await post(Buffer.from('VLXR'), REPORT_CONTENT_TYPE);
+            expect(res.statusCode).toBe(400);
+            expect(await store.count()).toBe(0);
+        });
+
+        it('should keep validating JSON uploads', async () => {
+            const res = await post({ reports: [{ rpi: 'not-hex', encryptedMetadata: '' }] }, 'application/json');
+            expect(res.statusCode).toBe(400);
+        });
+    });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for the health-authority verification flow:
+ * issuer mints a code -> app exchanges it for a report token -> /v1/report requires the token.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Fastify, { FastifyInstance } from 'fastify';
+import vailixPlugin from '../src/index';
+import { VerificationService } from '../src/verification';
+import { sealEnvelope } from '../src/chaff';
+
+const SECRET = 'test-secret';
+const ISSUER_KEY = 'issuer-key';
+
+describe('VerificationService', () => {
+    const service = () => new VerificationService({ issuerKey: ISSUER_KEY, tokenSecret: 'token-secret' });
+
+    it('should issue 8-digit codes that can only be redeemed once', async () => {
+        const verification = service();
+        const { code } = await verification.issueCode();
+
+        expect(code).toMatch(/^[0-9]{8}$/);
+        expect(await verification.exchangeCode(code)).not.toBeNull();
+        expect(await verification.exchangeCode(code)).toBeNull();
+    });
+
+    it('should reject expired codes', async () => {
+        const verification = service();
+        const { code, expiresAt } = await verification.issueCode(new Date(1000));
+
+        expect(await verification.exchangeCode(code, new Date(expiresAt))).toBeNull();
+    });
+
+    it('should reject expired or tampered tokens', async () => {
+        const verification = service();
+        const { code } = await verification.issueCode();
+        const { token, expiresAt } = (await verification.exchangeCode(code))!;
+
+        expect(verification.verifyToken(token)).toBe(true);
+        expect(verification.verifyToken(token, new Date(expiresAt))).toBe(false);
+        expect(verification.verifyToken(`x${token}`)).toBe(false);
+        expect(new VerificationService({ issuerKey: ISSUER_KEY, tokenSecret: 'other' }).verifyToken(token)).toBe(false);
+    });
+
+    it('should redeem each token once', async () => {
+        const verification = service();
+        const { code } = await verification.issueCode();
+        const { token, expiresAt } = (await verification.exchangeCode(code))!;
+
+        expect(await verification.redeemToken(token, new Date(expiresAt))).toBe(false);
+        expect(await verification.redeemToken(token)).toBe(true);
+        expect(await verification.redeemToken(token)).toBe(false);
+        expect(verification.verifyToken(token)).toBe(true);
+    });
+
+    it('should pause exchanges after too many failures in the window', async () => {
+        const verification = new VerificationService({
+            issuerKey: ISSUER_KEY,
+            tokenSecret: 'token-secret',
+            maxFailedExchanges: 2,
+            exchangeWindowMs: 60 * 1000,
+        });
+        await verification.exchangeCode('00000000', new Date(0));
+        expect(verification.exchangeRetryAfter(new Date(0))).toBe(0);
+        await verification.exchangeCode('00000001', new Date(10 * 1000));
+
+        expect(verification.exchangeRetryAfter(new Date(10 * 1000))).toBe(50);
+        expect(verification.exchangeRetryAfter(new Date(60 * 1000))).toBe(0);
+    });
+});
+
+describe('verification routes', () => {
+    let server: FastifyInstance;
+
+    beforeEach(async () => {
+        server = Fastify();
+        await server.register(vailixPlugin, {
+            store: { type: 'memory' },
+            secret: SECRET,
+            verification: { issuerKey: ISSUER_KEY, tokenSecret: 'token-secret' },
+        });
+    });
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    const post = (url: string, headers: Record<string, string>, payload: object = {}) =>
+        server.inject({ method: 'POST', url, headers, payload });
+    const report = (headers: Record<string, string> = {}) => post(
+        '/v1/report',
+        { 'x-vailix-secret': SECRET, ...headers },
+        { reports: [{ rpi: 'ab'.repeat(16), encryptedMetadata: '' }] }
+    );
+
+    it('should only issue codes to the health authority', async () => {
+        expect((await post('/v1/verify/codes', { 'x-vailix-secret': SECRET })).statusCode).toBe(401);
+        expect((await post('/v1/verify/codes', { 'x-vailix-issuer-key': ISSUER_KEY })).statusCode).toBe(200);
+    });
+
+    it('should reject reports without a valid report token', async () => {
+        expect((await report()).statusCode).toBe(403);
+        expect((await report({ 'x-vailix-report-token': 'forged.token' })).statusCode).toBe(403);
+    });
+
+    it('should accept reports with a token obtained from a code', async () => {
+        const { code } = (await post('/v1/verify/codes', { 'x-vailix-issuer-key': ISSUER_KEY })).json();
+        const exchange = await post('/v1/verify', { 'x-vailix-secret': SECRET }, { code });
+        expect(exchange.statusCode).toBe(200);
+
+        const res = await report({ 'x-vailix-report-token': exchange.json().token });
+        expect(res.statusCode).toBe(200);
+    });
+
+    it('should accept one report or session per token', async () => {
+        const token = async () => {
+            const { code } = (await post('/v1/verify/codes', { 'x-vailix-issuer-key': ISSUER_KEY })).json();
+            return (await post('/v1/verify', { 'x-vailix-secret': SECRET }, { code })).json().token as string;
+        };
+        const single = await token();
+        expect((await report({ 'x-vailix-report-token': single })).statusCode).toBe(200);
+        expect((await report({ 'x-vailix-report-token': single })).statusCode).toBe(403);
+
+        const session = { 'x-vailix-secret': SECRET, 'x-vailix-report-token': await token() };
+        expect((await post('/v1/report/sessions', session)).statusCode).toBe(200);
+        expect((await post('/v1/report/sessions', session)).statusCode).toBe(403);
+    });
+
+    it('should not spend the token on a rejected report', async () => {
+        const { code } = (await post('/v1/verify/codes', { 'x-vailix-issuer-key': ISSUER_KEY })).json();
+        const { token } = (await post('/v1/verify', { 'x-vailix-secret': SECRET }, { code })).json();
+        const provisional = await post(
+            '/v1/report',
+            { 'x-vailix-secret': SECRET, 'x-vailix-report-token': token },
+            { reports: [{ rpi: 'ab'.repeat(16), encryptedMetadata: '' }], status: 'provisional' }
+        );
+
+        expect(provisional.statusCode).toBe(400);
+        expect((await report({ 'x-vailix-report-token': token })).statusCode).toBe(200);
+    });
+
+    it('should reject unknown codes', async () => {
+        const res = await post('/v1/verify', { 'x-vailix-secret': SECRET }, { code: '12345678' });
+        expect(res.statusCode).toBe(400);
+    });
+
+    it('should answer 429 once too many codes failed', async () => {
+        const limited = Fastify();
+        await limited.register(vailixPlugin, {
+            store: { type: 'memory' },
+            secret: SECRET,
+            verification: { issuerKey: ISSUER_KEY, tokenSecret: 'token-secret', maxFailedExchanges: 3 },
+        });
+        const exchange = (code: string) =>
+            limited.inject({ method: 'POST', url: '/v1/verify', headers: { 'x-vailix-secret': SECRET }, payload: { code } });
+        const { code } = (await limited.inject({ method: 'POST', url: '/v1/verify/codes', headers: { 'x-vailix-issuer-key': ISSUER_KEY } })).json();
+
+        for (const guess of ['00000000', '00000001', '00000002']) expect((await exchange(guess)).statusCode).toBe(400);
+        const paused = await exchange(code);
+        expect(paused.statusCode).toBe(429);
+        expect(Number(paused.headers['retry-after'])).toBeGreaterThan(0);
+        await limited.close();
+    });
+
+    it('should answer decoy exchanges with a token that never verifies, consuming no code', async () => {
+        const { code } = (await post('/v1/verify/codes', { 'x-vailix-issuer-key': ISSUER_KEY })).json();
+        const decoy = await post('/v1/verify', { 'x-vailix-secret': SECRET }, { code, envelope: sealEnvelope(SECRET, true) });
+        expect(decoy.statusCode).toBe(200);
+        expect((await report({ 'x-vailix-report-token': decoy.json().token })).statusCode).toBe(403);
+
+        const real = await post('/v1/verify', { 'x-vailix-secret': SECRET }, { code, envelope: sealEnvelope(SECRET, false) });
+        expect(real.statusCode).toBe(200);
+        expect(Object.keys(decoy.json())).toEqual(Object.keys(real.json()));
+        expect(decoy.json().token).toHaveLength(real.json().token.length);
+        expect((await report({ 'x-vailix-report-token': real.json().token })).statusCode).toBe(200);
+    });
+});
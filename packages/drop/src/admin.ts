@@ -0,0 +1,160 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { once } from 'events';
+import { createInterface } from 'readline';
+import { createGunzip, createGzip } from 'zlib';
+import { pipeline } from 'stream/promises';
+import type { KeyStore, NewKey, ReportStatus, StoredKey } from './store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 20000;
+const IMPORT_BATCH = 1000;
+
+export const ARCHIVE_FORMAT = 'vailix-drop-archive';
+export const ARCHIVE_VERSION = 2;
+
+// Portable archive: gzipped JSON Lines. The first line is the header, then one key per line.
+// Timestamps are Unix ms; RPIs are hex. Metadata stays encrypted, the server never sees it in clear.
+// v2 adds shared metadata: a `{ "blob": ... }` line precedes the first key referencing the blob.
+// v1 archives (no blobs) still import.
+interface ArchiveHeader {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: number;
+}
+
+interface ArchiveKey {
+    rpi: string;
+    metadata: string | null;
+    status: ReportStatus;
+    createdAt: number;
+    reportKey: string | null;
+    expiresAt: number | null;
+    blobId?: string | null;
+}
+
+interface ArchiveBlob {
+    blob: { id: string; data: string; expiresAt: number };
+}
+
+/** Keys per UTC day (YYYY-MM-DD) in [from, to), revoked keys included */
+export async function countsPerDay(store: KeyStore, from: Date = new Date(0), to?: Date): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    await eachKey(store, from, to, (key) => {
+        const day = new Date(Math.floor(key.createdAt.getTime() / DAY_MS) * DAY_MS).toISOString().slice(0, 10);
+        counts.set(day, (counts.get(day) ?? 0) + 1);
+    });
+    return new Map([...counts].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/** Write every stored key (revoked included) to a gzipped archive. Returns the number of keys written. */
+export async function exportArchive(store: KeyStore, file: string, now: Date = new Date()): Promise<number> {
+    const gzip = createGzip();
+    const done = pipeline(gzip, createWriteStream(file));
+
+    const write = async (line: unknown) => {
+        if (!gzip.write(`${JSON.stringify(line)}\n`)) await once(gzip, 'drain');
+    };
+
+    let written = 0;
+    const blobsWritten = new Set<string>();
+    try {
+        const header: ArchiveHeader = { format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, exportedAt: now.getTime() };
+        await write(header);
+        await eachKey(store, new Date(0), undefined, async (key) => {
+            if (key.blobId && !blobsWritten.has(key.blobId)) {
+                blobsWritten.add(key.blobId);
+                const data = (await store.getBlobs([key.blobId])).get(key.blobId);
+                const expiresAt = key.expiresAt?.getTime() ?? now.getTime() + 14 * DAY_MS;
+                if (data !== undefined) await write({ blob: { id: key.blobId, data, expiresAt } } satisfies ArchiveBlob);
+            }
+            const line: ArchiveKey = {
+                rpi: key.rpi.toString('hex'),
+                metadata: key.metadata,
+                status: key.status,
+                createdAt: key.createdAt.getTime(),
+                reportKey: key.reportKey ?? null,
+                expiresAt: key.expiresAt?.getTime() ?? null,
+                blobId: key.blobId ?? null,
+            };
+            await write(line);
+            written++;
+        });
+    } finally {
+        gzip.end();
+        await done;
+    }
+    return written;
+}
+
+/**
+ * Insert the keys of an archive written by exportArchive, keeping their timestamps and status.
+ * RPIs already in the store are skipped, so an import can be re-run safely.
+ *
+ * @param notBefore - Keys created earlier are stamped with this time instead, e.g. the start of
+ *                    the first export bucket still open (see ExportPublisher.openSince)
+ */
+export async function importArchive(
+    store: KeyStore,
+    file: string,
+    notBefore?: Date
+): Promise<{ inserted: number; duplicates: number }> {
+    const lines = createInterface({ input: createReadStream(file).pipe(createGunzip()), crlfDelay: Infinity });
+    const totals = { inserted: 0, duplicates: 0 };
+    let batch: NewKey[] = [];
+    let header: ArchiveHeader | null = null;
+
+    const flush = async () => {
+        if (batch.length === 0) return;
+        const { inserted, duplicates } = await store.insertMany(batch);
+        totals.inserted += inserted;
+        totals.duplicates += duplicates;
+        batch = [];
+    };
+
+    for await (const line of lines) {
+        if (!line.trim()) continue;
+        if (!header) {
+            header = JSON.parse(line) as ArchiveHeader;
+            if (header.format !== ARCHIVE_FORMAT || header.version < 1 || header.version > ARCHIVE_VERSION) {
+                throw new Error(`Not a ${ARCHIVE_FORMAT} v1-v${ARCHIVE_VERSION} file: ${file}`);
+            }
+            continue;
+        }
+
+        const entry = JSON.parse(line) as ArchiveKey | ArchiveBlob;
+        if ('blob' in entry) {
+            // Before the keys that reference it, like a live upload
+            await store.insertBlob({ ...entry.blob, expiresAt: new Date(entry.blob.expiresAt) });
+            continue;
+        }
+        const key = entry;
+        batch.push({
+            rpi: Buffer.from(key.rpi, 'hex'),
+            metadata: key.metadata,
+            status: key.status,
+            reportKey: key.reportKey,
+            createdAt: new Date(notBefore ? Math.max(key.createdAt, notBefore.getTime()) : key.createdAt),
+            expiresAt: key.expiresAt !== null ? new Date(key.expiresAt) : undefined,
+            blobId: key.blobId ?? null,
+        });
+        if (batch.length >= IMPORT_BATCH) await flush();
+    }
+    if (!header) throw new Error(`Empty archive: ${file}`);
+
+    await flush();
+    return totals;
+}
+
+async function eachKey(
+    store: KeyStore,
+    since: Date,
+    until: Date | undefined,
+    fn: (key: StoredKey) => void | Promise<void>
+): Promise<void> {
+    let cursor: string | undefined;
+    do {
+        const page = await store.page({ since, until, cursor, limit: PAGE_SIZE, includeRevoked: true });
+        for (const key of page.keys) await fn(key);
+        cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+}
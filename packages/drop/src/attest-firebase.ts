@@ -0,0 +1,38 @@
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getAppCheck } from 'firebase-admin/app-check';
+import type { AttestVerifier } from './attest';
+
+// Loaded on demand by the `firebase` attestation provider, so firebase-admin stays an optional
+// peer dependency.
+
+export interface FirebaseAttestOptions {
+    projectId?: string;  // Firebase project (default: FIREBASE_PROJECT_ID, then the credentials' project)
+}
+
+/** firebase-admin error codes for tokens that are invalid, as opposed to a failed check */
+const REJECTED = new Set(['app-check/invalid-argument', 'app-check/app-check-token-expired']);
+
+/**
+ * Verifier for Firebase App Check tokens. Credentials come from GOOGLE_APPLICATION_CREDENTIALS
+ * (or the platform's default credentials). Invalid and expired tokens fail attestation; other
+ * errors, such as a missing project ID, throw. App Check tokens only name the app, not the
+ * install, so there is no subject: quotas count per token.
+ */
+export function firebaseAttestVerifier(options: FirebaseAttestOptions = {}): AttestVerifier {
+    const projectId = options.projectId ?? process.env.FIREBASE_PROJECT_ID;
+    // A named app per project, so embedders' own default app is left alone
+    const name = `vailix-attest-${projectId ?? 'default'}`;
+    const app = getApps().find((existing) => existing.name === name) ?? initializeApp(projectId ? { projectId } : {}, name);
+    const appCheck = getAppCheck(app);
+
+    return async (token) => {
+        if (!token) return false;
+        try {
+            await appCheck.verifyToken(token);
+            return true;
+        } catch (error) {
+            if (REJECTED.has((error as { code?: string }).code ?? '')) return false;
+            throw error;
+        }
+    };
+}
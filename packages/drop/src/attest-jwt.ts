@@ -0,0 +1,162 @@
+import { constants, createPublicKey, verify } from 'crypto';
+import type { JsonWebKey, KeyObject } from 'crypto';
+import { readFile } from 'fs/promises';
+import type { AttestVerifier } from './attest';
+
+// Attestation tokens that are JWTs signed by the attestation service (e.g. Firebase App Check:
+// jwks https://firebaseappcheck.googleapis.com/v1/jwks, issuer
+// https://firebaseappcheck.googleapis.com/<project number>, audience projects/<project number>).
+
+export interface JsonWebKeySet {
+    keys: JsonWebKey[];
+}
+
+export interface JwtAttestOptions {
+    jwks: string | JsonWebKeySet;  // https:// URL, local file path, or the key set itself
+    issuer: string | string[];  // Accepted `iss` values (required: a shared JWKS signs other issuers' tokens too)
+    audience: string | string[];  // Token `aud` must include one of these (required, e.g. your project)
+    algorithms?: JwtAlgorithm[];  // Accepted `alg` values (default: all asymmetric ones below)
+    clockToleranceSec?: number;  // Allowed clock skew for exp/nbf/iat (default: 60)
+    maxAgeSec?: number;  // Reject tokens issued longer ago than this (default: only `exp` counts)
+    cacheTtlMs?: number;  // How long a JWKS fetched from a URL is used before refetching (default: 1 hour)
+    subjectClaim?: string;  // Claim naming the install or device, e.g. 'sub', for quotas (default: none; App Check's `sub` is the app)
+}
+
+export type JwtAlgorithm = 'RS256' | 'RS384' | 'RS512' | 'PS256' | 'PS384' | 'PS512' | 'ES256' | 'ES384' | 'ES512' | 'EdDSA';
+
+const ALGORITHMS: Record<JwtAlgorithm, { hash: string | null; kty: string; padding?: number; ieee?: boolean }> = {
+    RS256: { hash: 'sha256', kty: 'RSA' },
+    RS384: { hash: 'sha384', kty: 'RSA' },
+    RS512: { hash: 'sha512', kty: 'RSA' },
+    PS256: { hash: 'sha256', kty: 'RSA', padding: constants.RSA_PKCS1_PSS_PADDING },
+    PS384: { hash: 'sha384', kty: 'RSA', padding: constants.RSA_PKCS1_PSS_PADDING },
+    PS512: { hash: 'sha512', kty: 'RSA', padding: constants.RSA_PKCS1_PSS_PADDING },
+    ES256: { hash: 'sha256', kty: 'EC', ieee: true },
+    ES384: { hash: 'sha384', kty: 'EC', ieee: true },
+    ES512: { hash: 'sha512', kty: 'EC', ieee: true },
+    EdDSA: { hash: null, kty: 'OKP' },
+};
+
+/** A URL key set is refetched for an unknown `kid` (key rotation) at most this often */
+const REFETCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Loads and caches a JWKS. URLs are refetched after `cacheTtlMs`, or sooner when a token names
+ * a key we don't have; files and inline sets are read once.
+ */
+export class JwksCache {
+    private keys: Map<string | undefined, { jwk: JsonWebKey; key: KeyObject }[]> | null = null;
+    private fetchedAt = 0;
+
+    constructor(private source: string | JsonWebKeySet, private cacheTtlMs: number = 60 * 60 * 1000) { }
+
+    /** Keys with this kid (every key when the token has none) */
+    async find(kid: string | undefined, now: number = Date.now()): Promise<{ jwk: JsonWebKey; key: KeyObject }[]> {
+        const isUrl = typeof this.source === 'string' && /^https?:\/\//.test(this.source);
+        const stale = isUrl && now - this.fetchedAt > this.cacheTtlMs;
+        if (!this.keys || stale) await this.load(now);
+
+        let found = this.lookup(kid);
+        if (found.length === 0 && isUrl && now - this.fetchedAt > REFETCH_INTERVAL_MS) {
+            await this.load(now);
+            found = this.lookup(kid);
+        }
+        return found;
+    }
+
+    private lookup(kid: string | undefined) {
+        return kid === undefined ? [...this.keys!.values()].flat() : this.keys!.get(kid) ?? [];
+    }
+
+    private async load(now: number) {
+        let set: JsonWebKeySet;
+        if (typeof this.source !== 'string') {
+            set = this.source;
+        } else if (/^https?:\/\//.test(this.source)) {
+            const res = await fetch(this.source, { signal: AbortSignal.timeout(10_000) });
+            if (!res.ok) throw new Error(`JWKS request failed: ${res.status}`);
+            set = await res.json() as JsonWebKeySet;
+        } else {
+            set = JSON.parse(await readFile(this.source, 'utf8'));
+        }
+        if (!Array.isArray(set?.keys)) throw new Error('JWKS has no keys');
+
+        const keys = new Map<string | undefined, { jwk: JsonWebKey; key: KeyObject }[]>();
+        for (const jwk of set.keys) {
+            if (jwk.use && jwk.use !== 'sig') continue;
+            const kid = typeof jwk.kid === 'string' ? jwk.kid : undefined;
+            keys.set(kid, [...keys.get(kid) ?? [], { jwk, key: createPublicKey({ key: jwk, format: 'jwk' }) }]);
+        }
+        this.keys = keys;
+        this.fetchedAt = now;
+    }
+}
+
+/**
+ * Verifier for JWT attestation tokens: signature against the JWKS, then `exp` (required), `nbf`,
+ * `iat`, issuer and audience. Tokens signed with `none` or a shared secret (HS*) never pass.
+ * Malformed tokens fail attestation; a JWKS that can't be loaded throws, so the upload gets a
+ * 5xx the client retries instead of a 403. With `subjectClaim`, accepted tokens resolve the
+ * issuer and that claim as their subject, and tokens without the claim fail.
+ */
+export function jwtAttestVerifier(options: JwtAttestOptions): AttestVerifier {
+    if (!options.jwks) throw new Error('jwt attestation: jwks is required');
+    const jwks = new JwksCache(options.jwks, options.cacheTtlMs);
+    const algorithms = new Set<string>(options.algorithms ?? Object.keys(ALGORITHMS));
+    const issuers = [options.issuer ?? []].flat().filter(Boolean);
+    const audiences = [options.audience ?? []].flat().filter(Boolean);
+    if (issuers.length === 0) throw new Error('jwt attestation: issuer is required');
+    if (audiences.length === 0) throw new Error('jwt attestation: audience is required');
+    const tolerance = options.clockToleranceSec ?? 60;
+
+    return async (token) => {
+        const [header, payload, signature, ...rest] = token?.split('.') ?? [];
+        if (!header || !payload || !signature || rest.length > 0) return false;
+        let alg: unknown;
+        let kid: unknown;
+        try {
+            ({ alg, kid } = decode(header));
+        } catch {
+            return false;
+        }
+        if (typeof alg !== 'string' || !algorithms.has(alg) || !(alg in ALGORITHMS)) return false;
+        const algorithm = ALGORITHMS[alg as JwtAlgorithm];
+        const keys = await jwks.find(typeof kid === 'string' ? kid : undefined);
+
+        try {
+            const data = Buffer.from(`${header}.${payload}`);
+            const sig = Buffer.from(signature, 'base64url');
+            const candidates = keys.filter(({ jwk }) => jwk.kty === algorithm.kty && (!jwk.alg || jwk.alg === alg));
+            const signed = candidates.some(({ key }) => verify(algorithm.hash, data, {
+                key,
+                ...(algorithm.padding ? { padding: algorithm.padding, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } : {}),
+                ...(algorithm.ieee ? { dsaEncoding: 'ieee-p1363' as const } : {}),
+            }, sig));
+            if (!signed) return false;
+
+            const claims = decode(payload) as { exp?: number; nbf?: number; iat?: number; iss?: string; aud?: string | string[]; [claim: string]: unknown };
+            const now = Date.now() / 1000;
+            if (typeof claims.exp !== 'number' || claims.exp <= now - tolerance) return false;
+            if (typeof claims.nbf === 'number' && claims.nbf > now + tolerance) return false;
+            if (typeof claims.iat === 'number' && claims.iat > now + tolerance) return false;
+            if (options.maxAgeSec !== undefined && (typeof claims.iat !== 'number' || claims.iat < now - options.maxAgeSec - tolerance)) {
+                return false;
+            }
+            if (!issuers.includes(claims.iss as string)) return false;
+            if (![claims.aud].flat().some((aud) => audiences.includes(aud as string))) return false;
+            if (options.subjectClaim === undefined) return true;
+            // Subjects are only unique per issuer
+            const subject = claims[options.subjectClaim];
+            if (typeof subject !== 'string' || !subject) return false;
+            return { subject: JSON.stringify([claims.iss, subject]) };
+        } catch {
+            return false;
+        }
+    };
+}
+
+function decode(part: string): Record<string, unknown> {
+    const value = JSON.parse(Buffer.from(part, 'base64url').toString('utf8'));
+    if (typeof value !== 'object' || value === null) throw new Error('JWT part is not an object');
+    return value;
+}
@@ -1,9 +1,85 @@
-// Optional attestation verifier
-// Apps can implement their own verification logic (e.g., Firebase App Check)
-// Set to null to disable attestation requirement
+import { jwtAttestVerifier } from './attest-jwt';
+import type { JwtAttestOptions } from './attest-jwt';
 
-export type AttestVerifier = (token: string | undefined) => Promise<boolean>;
+/** An accepted token's stable identity, e.g. the JWT issuer and `sub`; quotas count against it */
+export interface AttestedSubject {
+    subject: string;
+}
 
-// Default: no attestation required (set to null)
-// To enable, implement a verifier function (e.g., Firebase App Check)
-export const attestVerifier: AttestVerifier | undefined = undefined;
+/**
+ * Checks the x-attest-token of a report upload (e.g. Firebase App Check). Resolves false to
+ * reject the upload with 403; throwing (e.g. the attestation service is down) answers 500.
+ * Verifiers that can name who the token was issued to resolve an AttestedSubject instead of
+ * true, so a client can't reset its quotas by fetching a new token.
+ */
+export type AttestVerifier = (token: string | undefined) => Promise<boolean | AttestedSubject>;
+
+/** Builds a verifier from the provider's options in an AttestationConfig */
+export type AttestProviderFactory = (options: Record<string, unknown>) => AttestVerifier | Promise<AttestVerifier>;
+
+/**
+ * Attestation as configuration: one provider with its options, or a combination that passes
+ * when any one or all of its members accept, e.g.
+ *   { any: [{ provider: 'firebase' }, { provider: 'jwt', jwks: 'https://...', issuer: 'https://...', audience: 'my-app' }] }
+ */
+export type AttestationConfig =
+    | { provider: string; [option: string]: unknown }
+    | { any: AttestationConfig[] }
+    | { all: AttestationConfig[] };
+
+const providers = new Map<string, AttestProviderFactory>([
+    ['jwt', (options) => jwtAttestVerifier(options as unknown as JwtAttestOptions)],
+    // Needs firebase-admin (optional peer dependency)
+    ['firebase', async (options) => (await import('./attest-firebase.js')).firebaseAttestVerifier(options)],
+]);
+
+/** Make a provider available to AttestationConfig by name; replaces a provider of the same name */
+export function registerAttestProvider(name: string, factory: AttestProviderFactory): void {
+    providers.set(name, factory);
+}
+
+export async function createAttestVerifier(config: AttestationConfig): Promise<AttestVerifier> {
+    if ('provider' in config) {
+        const { provider, ...options } = config;
+        const factory = providers.get(provider);
+        if (!factory) throw new Error(`Unknown attestation provider: ${provider}`);
+        return factory(options);
+    }
+    if ('any' in config) return anyOf(...await Promise.all(config.any.map(createAttestVerifier)));
+    return allOf(...await Promise.all(config.all.map(createAttestVerifier)));
+}
+
+/**
+ * Passes when one verifier accepts, tried in order. If none does and one of them threw, the
+ * error is rethrown: the token might have passed had that service been up.
+ */
+export function anyOf(...verifiers: AttestVerifier[]): AttestVerifier {
+    if (verifiers.length === 0) throw new Error('anyOf needs at least one verifier');
+    return async (token) => {
+        let failure: unknown = null;
+        for (const verifier of verifiers) {
+            try {
+                const result = await verifier(token);
+                if (result) return result;
+            } catch (error) {
+                failure ??= error;
+            }
+        }
+        if (failure) throw failure;
+        return false;
+    };
+}
+
+/** Passes when every verifier accepts; stops at the first that doesn't. The first subject named wins. */
+export function allOf(...verifiers: AttestVerifier[]): AttestVerifier {
+    if (verifiers.length === 0) throw new Error('allOf needs at least one verifier');
+    return async (token) => {
+        let accepted: true | AttestedSubject = true;
+        for (const verifier of verifiers) {
+            const result = await verifier(token);
+            if (!result) return false;
+            if (accepted === true) accepted = result;
+        }
+        return accepted;
+    };
+}
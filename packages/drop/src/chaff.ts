@@ -0,0 +1,37 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'crypto';
+
+// Report envelope: a fixed-size AES-256-GCM blob sent with every SDK report, so decoy (chaff)
+// uploads can carry a flag that only the server can read. Same `iv:authTag:data` (base64)
+// layout as encrypted metadata. Plaintext: [flag u8 (1 = chaff)][15 random bytes].
+
+const ENVELOPE_SIZE = 16;
+
+/** Envelope key for an app secret: HMAC-SHA256(secret, "vailix-report-envelope") */
+function envelopeKey(secret: string): Buffer {
+    return createHmac('sha256', secret).update('vailix-report-envelope').digest();
+}
+
+/** Seal an envelope (the SDK does the same; exported for tests and other clients) */
+export function sealEnvelope(secret: string, chaff: boolean): string {
+    const plaintext = randomBytes(ENVELOPE_SIZE);
+    plaintext[0] = chaff ? 1 : 0;
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', envelopeKey(secret), iv);
+    const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return `${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${data.toString('base64')}`;
+}
+
+/** Returns whether the envelope marks a decoy upload, or null if it doesn't decrypt under `secret` */
+export function isChaffEnvelope(envelope: string, secret: string): boolean | null {
+    const [iv, tag, data, ...rest] = envelope.split(':').map((part) => Buffer.from(part, 'base64'));
+    if (!iv || !tag || !data || rest.length > 0 || iv.length !== 12 || tag.length !== 16) return null;
+
+    try {
+        const decipher = createDecipheriv('aes-256-gcm', envelopeKey(secret), iv);
+        decipher.setAuthTag(tag);
+        const plaintext = Buffer.concat([decipher.update(data), decipher.final()]);
+        return plaintext.length === ENVELOPE_SIZE ? plaintext[0] === 1 : null;
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,117 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Hashcash-style proof of work for report uploads. GET /v1/challenge returns a signed challenge;
+// the client finds a nonce (decimal string) such that SHA-256(challenge + ":" + nonce) starts
+// with `difficulty` zero bits, and sends both with the upload:
+//   x-vailix-challenge: <challenge>
+//   x-vailix-challenge-nonce: <nonce>
+// Challenges are single-use and expire, so work can't be done ahead of time or replayed.
+
+export const CHALLENGE_HEADER = 'x-vailix-challenge';
+export const CHALLENGE_NONCE_HEADER = 'x-vailix-challenge-nonce';
+
+/** Remembers spent challenges until they expire */
+export interface SpentChallengeStore {
+    /** Mark the challenge spent; returns false if it already was */
+    spend(id: string, expiresAt: Date): Promise<boolean>;
+}
+
+/**
+ * In-process store. Not shared between instances, so behind a load balancer a solved
+ * challenge can be used once per instance; provide a shared SpentChallengeStore to prevent that.
+ */
+export class MemorySpentChallengeStore implements SpentChallengeStore {
+    private spent = new Map<string, number>();
+
+    async spend(id: string, expiresAt: Date): Promise<boolean> {
+        this.prune(Date.now());
+        if (this.spent.has(id)) return false;
+        this.spent.set(id, expiresAt.getTime());
+        return true;
+    }
+
+    private prune(now: number) {
+        for (const [id, expiresAt] of this.spent) {
+            if (expiresAt <= now) this.spent.delete(id);
+        }
+    }
+}
+
+export interface ChallengeOptions {
+    difficulty?: number;  // Leading zero bits required (default: 16, about 65,000 hashes on average)
+    ttlMs?: number;  // How long a challenge can be solved and used (default: 5 minutes)
+    secret?: string;  // HMAC key for challenges; share it between instances (default: random per instance)
+    store?: SpentChallengeStore;  // Default: in-memory (single instance only)
+}
+
+export interface IssuedChallenge {
+    challenge: string;
+    difficulty: number;
+    expiresAt: number;
+}
+
+/**
+ * Issues and checks proof-of-work challenges. Challenges are `<payload>.<hmac>` (base64url),
+ * like report tokens, so only spent ones are stored. Nothing in them identifies the client.
+ */
+export class ChallengeService {
+    private secret: string | Buffer;
+    private difficulty: number;
+    private ttlMs: number;
+    private store: SpentChallengeStore;
+
+    constructor(options: ChallengeOptions = {}) {
+        this.difficulty = options.difficulty ?? 16;
+        if (!Number.isInteger(this.difficulty) || this.difficulty < 1 || this.difficulty > 32) {
+            throw new Error('challenge.difficulty must be an integer from 1 to 32');
+        }
+        this.secret = options.secret ?? randomBytes(32);
+        this.ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+        this.store = options.store ?? new MemorySpentChallengeStore();
+    }
+
+    issue(now: number = Date.now()): IssuedChallenge {
+        const expiresAt = now + this.ttlMs;
+        const payload = Buffer.from(JSON.stringify({
+            id: randomBytes(16).toString('hex'),
+            difficulty: this.difficulty,
+            expiresAt,
+        })).toString('base64url');
+        return { challenge: `${payload}.${this.mac(payload)}`, difficulty: this.difficulty, expiresAt };
+    }
+
+    /** True if the challenge is ours, unexpired, solved by `nonce` and not used before (it is spent now) */
+    async redeem(challenge: string | undefined, nonce: string | undefined, now: number = Date.now()): Promise<boolean> {
+        if (!challenge || !nonce || !/^[0-9]{1,20}$/.test(nonce)) return false;
+        const [payload, mac, ...rest] = challenge.split('.');
+        if (!payload || !mac || rest.length > 0) return false;
+        const expected = this.mac(payload);
+        if (mac.length !== expected.length || !timingSafeEqual(Buffer.from(mac), Buffer.from(expected))) return false;
+
+        let claims: { id: string; difficulty: number; expiresAt: number };
+        try {
+            claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        } catch {
+            return false;
+        }
+        if (claims.expiresAt <= now) return false;
+        if (leadingZeroBits(createHash('sha256').update(`${challenge}:${nonce}`).digest()) < claims.difficulty) return false;
+        return this.store.spend(claims.id, new Date(claims.expiresAt));
+    }
+
+    private mac(payload: string): string {
+        return createHmac('sha256', this.secret).update(payload).digest('base64url');
+    }
+}
+
+export function leadingZeroBits(hash: Uint8Array): number {
+    let bits = 0;
+    for (const byte of hash) {
+        if (byte === 0) {
+            bits += 8;
+            continue;
+        }
+        return bits + Math.clz32(byte) - 24;
+    }
+    return bits;
+}
@@ -0,0 +1,213 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import { startStandalone } from './index';
+import {
+    appSecretFromEnv,
+    attestationFromEnv,
+    ConfigError,
+    loadServerConfig,
+    storeConfigFromEnv,
+    syncTokenSecretFromEnv,
+} from './config';
+import { countsPerDay, exportArchive, importArchive } from './admin';
+import { ExportPublisher, FileExportSink } from './export';
+import { PayloadSigner } from './signing';
+import { FileLogStore, TransparencyLog } from './transparency';
+import { createKeyStore, LoggedKeyStore, PUBLICATION_BUCKET_MS } from './store';
+import type { KeyStore } from './store';
+import { tenantStoreConfig, validateTenantId } from './tenant';
+
+const USAGE = `Usage: vailix-drop <command> [options]
+
+Commands:
+  start                          Start the server (same as running dist/index.js)
+  counts [--from D] [--to D]     Show stored keys per UTC day
+  purge --from D --to D          Delete keys created in [from, to)
+  export <file>                  Write every stored key to a gzipped archive
+  import <file>                  Load an archive written by export (existing RPIs are skipped)
+  validate-config                Check VAILIX_CONFIG, env vars, store, app secrets and attestation
+  bundles [--dir DIR]            Generate export bundles once (default: VAILIX_EXPORT_DIR)
+
+Options:
+  --tenant ID                    Use a tenant's keys in the shared store (multi-tenant deployments)
+
+Dates are UTC days (YYYY-MM-DD); --to is exclusive.
+The key store is selected by the same env vars as the server (VAILIX_STORE, MONGODB_URI, ...).
+With VAILIX_LOG_FILE set, imported keys are added to the transparency log; stop the server first.
+With VAILIX_EXPORT_DIR set, imported keys older than the last export bundle go into the next one.`;
+
+async function main(argv: string[]): Promise<number> {
+    const { positionals, values } = parseCommandLine(argv);
+    const [command, ...args] = positionals;
+
+    if (values.help || !command) {
+        console.log(USAGE);
+        return command || values.help ? 0 : 1;
+    }
+
+    switch (command) {
+        case 'start':
+            await startStandalone();
+            return 0;
+
+        case 'counts':
+            return withStore(values.tenant, async (store) => {
+                const counts = await countsPerDay(store, parseDay(values.from, '--from'), parseDay(values.to, '--to'));
+                let total = 0;
+                for (const [day, count] of counts) {
+                    console.log(`${day}  ${count}`);
+                    total += count;
+                }
+                console.log(`total       ${total}`);
+            });
+
+        case 'purge': {
+            const from = parseDay(values.from, '--from');
+            const to = parseDay(values.to, '--to');
+            if (!from || !to) throw new UsageError('purge needs --from and --to');
+            if (from >= to) throw new UsageError('--from must be before --to');
+            return withStore(values.tenant, async (store) => {
+                console.log(`Deleted ${await store.deleteRange(from, to)} keys`);
+            });
+        }
+
+        case 'export':
+        case 'import': {
+            const file = args[0];
+            if (!file) throw new UsageError(`${command} needs a file`);
+            return withStore(values.tenant, async (store) => {
+                if (command === 'export') {
+                    console.log(`Exported ${await exportArchive(store, file)} keys to ${file}`);
+                } else {
+                    // Keys older than the exported buckets would never reach an export file
+                    const exportDir = process.env.VAILIX_EXPORT_DIR;
+                    const openSince = exportDir ? await new ExportPublisher(store, new FileExportSink(exportDir)).openSince() : null;
+                    const { inserted, duplicates } = await importArchive(store, file, openSince !== null ? new Date(openSince) : undefined);
+                    console.log(`Imported ${inserted} keys from ${file} (${duplicates} already present)`);
+                }
+            });
+        }
+
+        case 'validate-config': {
+            // Run every check so all problems are reported in one go
+            let valid = true;
+            const check = async <T>(fn: () => T | Promise<T>): Promise<T | undefined> => {
+                try {
+                    return await fn();
+                } catch (error) {
+                    if (!(error instanceof ConfigError)) throw error;
+                    console.error(error.message);
+                    valid = false;
+                }
+            };
+            const config = await check(() => loadServerConfig());
+            const env = await check(() => storeConfigFromEnv());
+            await check(() => appSecretFromEnv());
+            const attestation = await check(() => attestationFromEnv());
+            await check(() => syncTokenSecretFromEnv());
+            await check(() => {
+                if (config?.quotas && !attestation) {
+                    throw new ConfigError('configuration', ['quotas: Requires ATTEST_PROVIDER or ATTEST_CONFIG']);
+                }
+            });
+            if (!valid || !config || !env) return 1;
+
+            console.log(`Configuration is valid (store: ${env.store.type}, listening on ${config.host}:${config.port})`);
+            return 0;
+        }
+
+        case 'bundles': {
+            const dir = values.dir ?? process.env.VAILIX_EXPORT_DIR;
+            if (!dir) throw new UsageError('bundles needs --dir or VAILIX_EXPORT_DIR');
+            const { retentionDays } = storeConfigFromEnv();
+            const { publication } = await loadServerConfig();
+            const signer = process.env.VAILIX_SIGNING_KEY
+                ? new PayloadSigner({ keyId: process.env.VAILIX_SIGNING_KEY_ID || 'default', privateKey: process.env.VAILIX_SIGNING_KEY })
+                : undefined;
+            return withStore(values.tenant, async (store) => {
+                // With publication delay on, keys are stamped up to a publication bucket early
+                const backdateMs = publication ? PUBLICATION_BUCKET_MS : undefined;
+                const publisher = new ExportPublisher(store, new FileExportSink(dir), { retentionDays, signer, backdateMs });
+                const manifest = await publisher.run();
+                console.log(`Wrote ${manifest.files.length} bundles to ${dir} (exported through ${new Date(manifest.exportedThrough).toISOString()})`);
+            });
+        }
+
+        default:
+            throw new UsageError(`Unknown command: ${command}`);
+    }
+}
+
+class UsageError extends Error { }
+
+/**
+ * Open the env's key store, or a tenant's collection/table in it, for the length of `fn`.
+ * With VAILIX_LOG_FILE, keys it stores (import) go into the transparency log like the server's.
+ */
+async function withStore(tenant: string | undefined, fn: (store: KeyStore) => Promise<void>): Promise<number> {
+    const { store: shared, retentionDays } = storeConfigFromEnv();
+    let config = shared;
+    if (tenant !== undefined) {
+        try {
+            validateTenantId(tenant);
+        } catch (error) {
+            throw new UsageError(`--tenant: ${(error as Error).message}`);
+        }
+        config = tenantStoreConfig(shared, tenant);
+    }
+    let store: KeyStore = createKeyStore(config, retentionDays);
+    if (process.env.VAILIX_LOG_FILE) {
+        const log = new TransparencyLog(new FileLogStore(process.env.VAILIX_LOG_FILE));
+        await log.open();
+        store = new LoggedKeyStore(store, log);
+    }
+    await store.connect();
+    try {
+        await fn(store);
+        return 0;
+    } finally {
+        await store.close();
+    }
+}
+
+function parseCommandLine(argv: string[]) {
+    try {
+        return parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                from: { type: 'string' },
+                to: { type: 'string' },
+                dir: { type: 'string' },
+                tenant: { type: 'string' },
+                help: { type: 'boolean', short: 'h' },
+            },
+        });
+    } catch (error) {
+        throw new UsageError((error as Error).message);
+    }
+}
+
+function parseDay(value: string | undefined, flag: string): Date | undefined {
+    if (value === undefined) return undefined;
+    const date = new Date(`${value}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(date.getTime())) {
+        throw new UsageError(`${flag}: expected YYYY-MM-DD, got '${value}'`);
+    }
+    return date;
+}
+
+main(process.argv.slice(2)).then(
+    (code) => {
+        // 'start' keeps the process alive through the server
+        if (code !== 0) process.exit(code);
+    },
+    (error) => {
+        if (error instanceof UsageError) {
+            console.error(`${error.message}\n\n${USAGE}`);
+            process.exit(2);
+        }
+        console.error(error instanceof ConfigError ? error.message : error);
+        process.exit(1);
+    }
+);
@@ -0,0 +1,261 @@
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { Type } from '@sinclair/typebox';
+import type { Static, TSchema } from '@sinclair/typebox';
+import { Value } from '@sinclair/typebox/value';
+import { parseAppSecrets } from './secrets';
+import type { AppSecret } from './secrets';
+import type { KeyStoreConfig } from './store';
+import type { AttestationConfig } from './attest';
+
+/** HTTP settings accepted by the plugin (all optional, see HttpConfigSchema for defaults) */
+export interface HttpOptions {
+    rateLimit?: { max?: number; windowMs?: number };  // Per-IP request limit (default: 300 per minute)
+    cors?: { origins?: '*' | string[] };  // Allowed CORS origins (default: '*')
+    helmet?: boolean;  // Security headers via @fastify/helmet (default: true)
+    pageSize?: number;  // Max keys per /v1/download page (default: 20000)
+}
+
+// Rate limit: 300/min allows chunked sync (approx 7 requests for 14-day history at 20k/page)
+export const HttpConfigSchema = Type.Object({
+    rateLimit: Type.Object({
+        max: Type.Integer({ minimum: 1, default: 300 }),
+        windowMs: Type.Integer({ minimum: 1000, default: 60 * 1000 }),
+    }, { default: {}, additionalProperties: false }),
+    cors: Type.Object({
+        origins: Type.Union([Type.Literal('*'), Type.Array(Type.String({ minLength: 1 }), { minItems: 1 })], { default: '*' }),
+    }, { default: {}, additionalProperties: false }),
+    helmet: Type.Boolean({ default: true }),
+    // Binary format keeps a 20k page at a few MB
+    pageSize: Type.Integer({ minimum: 1, maximum: 100000, default: 20000 }),
+}, { additionalProperties: false });
+
+/** Standalone runner settings: HTTP settings plus the listener */
+export const ServerConfigSchema = Type.Object({
+    ...HttpConfigSchema.properties,
+    host: Type.String({ minLength: 1, default: '0.0.0.0' }),
+    port: Type.Integer({ minimum: 0, maximum: 65535, default: 3000 }),
+    bodyLimit: Type.Integer({ minimum: 1024, default: 5 * 1024 * 1024 }),  // 5MB for large batched reports
+    // On SIGTERM/SIGINT: how long in-flight requests and background jobs get before the process exits anyway
+    shutdownTimeoutMs: Type.Integer({ minimum: 0, default: 30 * 1000 }),
+    // Optional upload controls; each is off unless its section is present
+    challenge: Type.Optional(Type.Object({
+        difficulty: Type.Integer({ minimum: 1, maximum: 32 }),
+    }, { additionalProperties: false })),
+    quotas: Type.Optional(Type.Object({
+        reportsPerDay: Type.Optional(Type.Integer({ minimum: 1 })),
+        keysPerDay: Type.Optional(Type.Integer({ minimum: 1 })),
+    }, { additionalProperties: false })),
+    publication: Type.Optional(Type.Object({
+        minReports: Type.Optional(Type.Integer({ minimum: 1 })),
+        maxDelayMinutes: Type.Optional(Type.Integer({ minimum: 1 })),
+    }, { additionalProperties: false })),
+}, { additionalProperties: false });
+
+export type HttpConfig = Static<typeof HttpConfigSchema>;
+export type ServerConfig = Static<typeof ServerConfigSchema>;
+
+/** Env var overrides for ServerConfig (highest precedence) */
+const ENV_VARS: Record<string, string> = {
+    HOST: 'host',
+    PORT: 'port',
+    VAILIX_BODY_LIMIT: 'bodyLimit',
+    VAILIX_SHUTDOWN_TIMEOUT_MS: 'shutdownTimeoutMs',
+    VAILIX_PAGE_SIZE: 'pageSize',
+    VAILIX_RATE_LIMIT_MAX: 'rateLimit.max',
+    VAILIX_RATE_LIMIT_WINDOW_MS: 'rateLimit.windowMs',
+    VAILIX_CORS_ORIGINS: 'cors.origins',  // '*' or a comma-separated list
+    VAILIX_HELMET: 'helmet',
+    VAILIX_CHALLENGE_DIFFICULTY: 'challenge.difficulty',
+    VAILIX_QUOTA_REPORTS_PER_DAY: 'quotas.reportsPerDay',
+    VAILIX_QUOTA_KEYS_PER_DAY: 'quotas.keysPerDay',
+    VAILIX_PUBLISH_MIN_REPORTS: 'publication.minReports',
+    VAILIX_PUBLISH_MAX_DELAY_MINUTES: 'publication.maxDelayMinutes',
+};
+
+/** Thrown when configuration fails validation; `issues` lists one problem per line */
+export class ConfigError extends Error {
+    constructor(source: string, readonly issues: string[]) {
+        super(`Invalid ${source}:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+        this.name = 'ConfigError';
+    }
+}
+
+/** Validate the plugin's HTTP options and fill in defaults */
+export function resolveHttpConfig(options: HttpOptions): HttpConfig {
+    const { rateLimit, cors, helmet, pageSize } = options;
+    return validate(HttpConfigSchema, { rateLimit, cors, helmet, pageSize }, 'vailix options');
+}
+
+/**
+ * Load standalone settings: defaults, then the JSON/YAML file named by VAILIX_CONFIG
+ * (YAML needs the optional `yaml` package), then env vars.
+ */
+export async function loadServerConfig(env: NodeJS.ProcessEnv = process.env): Promise<ServerConfig> {
+    const config = env.VAILIX_CONFIG ? await readConfigFile(env.VAILIX_CONFIG) : {};
+
+    const hints: Record<string, string> = {};
+    for (const [name, path] of Object.entries(ENV_VARS)) {
+        const raw = env[name];
+        if (raw === undefined || raw === '') continue;
+        const value = path === 'cors.origins' && raw !== '*' ? raw.split(',').map((origin) => origin.trim()) : raw;
+        setPath(config, path, value);
+        hints[path] = name;
+    }
+
+    const source = env.VAILIX_CONFIG ? `configuration (${env.VAILIX_CONFIG} and env)` : 'configuration (env)';
+    return validate(ServerConfigSchema, Value.Convert(ServerConfigSchema, config), source, hints);
+}
+
+/** Key store selected by VAILIX_STORE (default: mongo), plus VAILIX_RETENTION_DAYS (default: 14) */
+export function storeConfigFromEnv(env: NodeJS.ProcessEnv = process.env): { store: KeyStoreConfig; retentionDays: number } {
+    const issues: string[] = [];
+    let store: KeyStoreConfig = { type: 'memory' };
+
+    switch (env.VAILIX_STORE || 'mongo') {
+        case 'mongo':
+            if (!env.MONGODB_URI) issues.push('MONGODB_URI: Required when VAILIX_STORE is mongo');
+            store = { type: 'mongo', uri: env.MONGODB_URI ?? '' };
+            break;
+        case 'postgres':
+            if (!env.DATABASE_URL) issues.push('DATABASE_URL: Required when VAILIX_STORE is postgres');
+            store = { type: 'postgres', connectionString: env.DATABASE_URL ?? '' };
+            break;
+        case 'sqlite':
+            store = { type: 'sqlite', filename: env.SQLITE_PATH || 'vailix.db' };
+            break;
+        case 'memory':
+            break;
+        default:
+            issues.push(`VAILIX_STORE: Expected mongo, postgres, sqlite or memory, got '${env.VAILIX_STORE}'`);
+    }
+
+    const retentionDays = env.VAILIX_RETENTION_DAYS ? Number(env.VAILIX_RETENTION_DAYS) : 14;
+    if (!Number.isInteger(retentionDays) || retentionDays < 1) {
+        issues.push(`VAILIX_RETENTION_DAYS: Expected a positive integer, got '${env.VAILIX_RETENTION_DAYS}'`);
+    }
+
+    if (issues.length > 0) throw new ConfigError('environment', issues);
+    return { store, retentionDays };
+}
+
+/** APP_SECRETS (JSON list of { id, secret, notBefore?, notAfter? }) enables rotation; otherwise APP_SECRET */
+export function appSecretFromEnv(env: NodeJS.ProcessEnv = process.env): string | AppSecret[] {
+    if (env.APP_SECRETS) {
+        try {
+            return parseAppSecrets(env.APP_SECRETS);
+        } catch (error) {
+            throw new ConfigError('environment', [`APP_SECRETS: ${(error as Error).message}`]);
+        }
+    }
+    if (!env.APP_SECRET) throw new ConfigError('environment', ['APP_SECRET: Required (or APP_SECRETS)']);
+    return env.APP_SECRET;
+}
+
+/** HMAC key for download sync tokens; standalone mode requires one shared by every instance */
+export function syncTokenSecretFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+    if (!env.VAILIX_SYNC_TOKEN_SECRET) {
+        throw new ConfigError('environment', ['VAILIX_SYNC_TOKEN_SECRET: Required, the same on every instance']);
+    }
+    return env.VAILIX_SYNC_TOKEN_SECRET;
+}
+
+/**
+ * Attestation from ATTEST_CONFIG (JSON AttestationConfig) or ATTEST_PROVIDER; ATTEST_PROVIDER=jwt
+ * requires ATTEST_JWKS, ATTEST_ISSUER and ATTEST_AUDIENCE (the last two comma-separated), and takes an
+ * optional ATTEST_SUBJECT_CLAIM. Provider names
+ * are checked when the plugin is registered, after ATTEST_MODULES had a chance to add theirs.
+ */
+export function attestationFromEnv(env: NodeJS.ProcessEnv = process.env): AttestationConfig | undefined {
+    if (env.ATTEST_CONFIG) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(env.ATTEST_CONFIG);
+        } catch (error) {
+            throw new ConfigError('environment', [`ATTEST_CONFIG: ${(error as Error).message}`]);
+        }
+        const issues = attestationIssues(parsed, 'ATTEST_CONFIG');
+        if (issues.length > 0) throw new ConfigError('environment', issues);
+        return parsed as AttestationConfig;
+    }
+
+    if (env.ATTEST_PROVIDER === 'jwt') {
+        // Without issuer and audience, tokens minted for any project sharing the JWKS would pass
+        const issues = (['ATTEST_JWKS', 'ATTEST_ISSUER', 'ATTEST_AUDIENCE'] as const)
+            .filter((name) => !env[name])
+            .map((name) => `${name}: Required when ATTEST_PROVIDER is jwt`);
+        if (issues.length > 0) throw new ConfigError('environment', issues);
+        const list = (value: string) => value.split(',').map((item) => item.trim());
+        return {
+            provider: 'jwt',
+            jwks: env.ATTEST_JWKS,
+            issuer: list(env.ATTEST_ISSUER!),
+            audience: list(env.ATTEST_AUDIENCE!),
+            ...(env.ATTEST_SUBJECT_CLAIM ? { subjectClaim: env.ATTEST_SUBJECT_CLAIM } : {}),
+        };
+    }
+    return env.ATTEST_PROVIDER ? { provider: env.ATTEST_PROVIDER } : undefined;
+}
+
+/** Shape check for an AttestationConfig: each node has exactly one of provider, any or all */
+function attestationIssues(value: unknown, path: string): string[] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path}: Expected an object`];
+    const node = value as Record<string, unknown>;
+    const kinds = ['provider', 'any', 'all'].filter((kind) => kind in node);
+    if (kinds.length !== 1) return [`${path}: Expected exactly one of provider, any or all`];
+
+    const [kind] = kinds;
+    if (kind === 'provider') {
+        if (typeof node.provider !== 'string' || !node.provider) return [`${path}.provider: Expected a non-empty string`];
+        if (node.provider !== 'jwt') return [];
+        return ['jwks', 'issuer', 'audience']
+            .filter((option) => !node[option] || (Array.isArray(node[option]) && (node[option] as unknown[]).length === 0))
+            .map((option) => `${path}.${option}: Required for the jwt provider`);
+    }
+    const members = node[kind];
+    if (Object.keys(node).length > 1) return [`${path}: Unexpected properties next to ${kind}`];
+    if (!Array.isArray(members) || members.length === 0) return [`${path}.${kind}: Expected a non-empty array`];
+    return members.flatMap((member, i) => attestationIssues(member, `${path}.${kind}.${i}`));
+}
+
+async function readConfigFile(file: string): Promise<Record<string, unknown>> {
+    let parsed: unknown;
+    try {
+        const text = await readFile(file, 'utf8');
+        if (['.yaml', '.yml'].includes(extname(file))) {
+            const { parse } = await import('yaml');
+            parsed = parse(text);
+        } else {
+            parsed = JSON.parse(text);
+        }
+    } catch (error) {
+        throw new ConfigError(`config file ${file}`, [(error as Error).message]);
+    }
+    if (parsed === null || parsed === undefined) return {};
+    if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new ConfigError(`config file ${file}`, ['Expected an object at the top level']);
+    }
+    return parsed as Record<string, unknown>;
+}
+
+/** Apply defaults, then collect every schema violation as `path: message (ENV_VAR)` */
+function validate<T extends TSchema>(schema: T, input: unknown, source: string, hints: Record<string, string> = {}): Static<T> {
+    const value = Value.Default(schema, Value.Clone(input));
+    const issues = [...Value.Errors(schema, value)].map((error) => {
+        const path = error.path.slice(1).replace(/\//g, '.') || '(root)';
+        const hint = Object.entries(hints).find(([hinted]) => path === hinted || path.startsWith(`${hinted}.`));
+        return `${path}: ${error.message}${hint ? ` (${hint[1]})` : ''}`;
+    });
+    if (issues.length > 0) throw new ConfigError(source, issues);
+    return value as Static<T>;
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown) {
+    const keys = path.split('.');
+    let node = target;
+    for (const key of keys.slice(0, -1)) {
+        if (typeof node[key] !== 'object' || node[key] === null) node[key] = {};
+        node = node[key] as Record<string, unknown>;
+    }
+    node[keys[keys.length - 1]] = value;
+}
@@ -1,11 +1,43 @@
 import mongoose from 'mongoose';
 
-export function createKeyModel(retentionDays: number = 14) {
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * @param collection - Collection name (default: mongoose's `keys`). Multi-tenant
+ *                     deployments pass one collection per tenant.
+ * @param ttl - Let TTL indexes delete expired keys; without them purgeExpired() has to
+ */
+export function createKeyModel(retentionDays: number = 14, collection?: string, ttl: boolean = true) {
     const KeySchema = new mongoose.Schema({
         rpi: { type: Buffer, required: true, unique: true, index: true }, // Store as 16 bytes binary
         metadata: { type: mongoose.Schema.Types.Mixed, default: null },
-        createdAt: { type: Date, default: Date.now, expires: `${retentionDays}d` },
+        reportKey: { type: String, default: null, index: { sparse: true } }, // Reporter's Ed25519 public key (lifecycle)
+        status: { type: String, enum: ['provisional', 'confirmed', 'revoked'], default: 'confirmed' },
+        // Upper bound: nothing outlives the server's retention, whatever the report asked for
+        createdAt: { type: Date, default: Date.now, ...(ttl ? { expires: `${retentionDays}d` } : { index: true }) },
+        // Per-report expiry (report's retention window, capped by retentionDays)
+        expiresAt: {
+            type: Date,
+            default: () => new Date(Date.now() + retentionDays * DAY_MS),
+            index: ttl ? { expireAfterSeconds: 0 } : true,
+        },
+        blobId: { type: String, default: null }, // Shared metadata blob of the report
+        // Download position; _id for keys stored before it existed (see MongoKeyStore.connect)
+        seq: { type: mongoose.Schema.Types.ObjectId, default: () => new mongoose.Types.ObjectId(), index: true },
+    });
+
+    // mongoose.model() refuses to register a name twice, so each collection gets its own model name
+    return collection ? mongoose.model(`Key_${collection}`, KeySchema, collection) : mongoose.model('Key', KeySchema);
+}
+
+/** Shared metadata blobs (one per report), kept next to the keys collection */
+export function createBlobModel(collection?: string, ttl: boolean = true) {
+    const BlobSchema = new mongoose.Schema({
+        _id: { type: String }, // Content hash
+        data: { type: String, required: true },
+        expiresAt: { type: Date, required: true, index: ttl ? { expireAfterSeconds: 0 } : true },
     });
 
-    return mongoose.model('Key', KeySchema);
+    const name = `${collection ?? 'keys'}_blobs`;
+    return mongoose.model(`Blob_${name}`, BlobSchema, name);
 }
@@ -0,0 +1,181 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { serializeKeys } from './serialize';
+import type { KeyStore, StoredKey } from './store';
+import type { PayloadSigner } from './signing';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MANIFEST_NAME = 'index.json';
+const PAGE_SIZE = 20000;
+
+// Keys are timestamped on insert, so a bucket is only sealed once this much time
+// has passed after its end (covers in-flight writes and minor clock skew)
+const SEAL_GRACE_MS = 60 * 1000;
+
+/** One immutable export file covering [start, end) */
+export interface ExportFile {
+    start: number;   // Bucket start (Unix ms, inclusive)
+    end: number;     // Bucket end (Unix ms, exclusive)
+    path: string;    // Relative to the manifest
+    count: number;   // Number of keys in the file
+    keyId?: string;      // Signing key (present when the publisher has a signer)
+    signature?: string;  // Ed25519 signature over the file bytes (base64)
+}
+
+/**
+ * Index of published export files, served at `index.json`.
+ * Buckets before `exportedThrough` are final: clients can skip them on the next sync.
+ * Empty buckets are not listed.
+ */
+export interface ExportManifest {
+    version: 1;
+    generatedAt: number;
+    bucketMs: number;
+    exportedThrough: number;
+    files: ExportFile[];
+}
+
+/** Where export files are written (local directory, object storage, ...) */
+export interface ExportSink {
+    write(name: string, data: Buffer): Promise<void>;
+    /** Returns null if the file does not exist */
+    read(name: string): Promise<Buffer | null>;
+    delete(name: string): Promise<void>;
+}
+
+/** Writes export files to a local directory (e.g. synced to a bucket or served by nginx) */
+export class FileExportSink implements ExportSink {
+    constructor(private dir: string) { }
+
+    async write(name: string, data: Buffer): Promise<void> {
+        await mkdir(this.dir, { recursive: true });
+        // Write-then-rename so readers never see a partially written manifest
+        const tmp = join(this.dir, `.${name}.tmp`);
+        await writeFile(tmp, data);
+        await rename(tmp, join(this.dir, name));
+    }
+
+    async read(name: string): Promise<Buffer | null> {
+        try {
+            return await readFile(join(this.dir, name));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async delete(name: string): Promise<void> {
+        await rm(join(this.dir, name), { force: true });
+    }
+}
+
+export interface ExportPublisherOptions {
+    /** Bucket size in ms (default: 1 hour) */
+    bucketMs?: number;
+    /** Buckets older than this are removed from the manifest (default: 14) */
+    retentionDays?: number;
+    /** Sign each export file; signatures are listed in the manifest */
+    signer?: PayloadSigner;
+    /**
+     * How long after their createdAt keys may still be written, e.g. StagedKeyStore's bucketMs
+     * (default: 0). Buckets are sealed that much later, so backdated keys still make it in.
+     */
+    backdateMs?: number;
+}
+
+/**
+ * Periodically turns stored keys into immutable, CDN-cacheable export files
+ * (one per time bucket, in the binary download format) plus an index manifest.
+ */
+export class ExportPublisher {
+    private bucketMs: number;
+    private retentionDays: number;
+    private signer?: PayloadSigner;
+    private backdateMs: number;
+
+    constructor(
+        private store: KeyStore,
+        private sink: ExportSink,
+        options: ExportPublisherOptions = {}
+    ) {
+        this.bucketMs = options.bucketMs ?? 60 * 60 * 1000;
+        this.retentionDays = options.retentionDays ?? 14;
+        this.signer = options.signer;
+        this.backdateMs = options.backdateMs ?? 0;
+    }
+
+    /**
+     * Start of the first bucket not exported yet (null before the first run). Keys written with
+     * an earlier createdAt never reach an export file.
+     */
+    async openSince(): Promise<number | null> {
+        return (await this.loadManifest())?.exportedThrough ?? null;
+    }
+
+    /** Export every sealed bucket not yet published, prune expired ones, and rewrite the manifest */
+    async run(now: Date = new Date()): Promise<ExportManifest> {
+        const previous = await this.loadManifest();
+        const oldest = this.floor(now.getTime() - this.retentionDays * DAY_MS);
+        const sealedUntil = this.floor(now.getTime() - SEAL_GRACE_MS - this.backdateMs);
+
+        // Drop files whose bucket has fully expired
+        const files: ExportFile[] = [];
+        for (const file of previous?.files ?? []) {
+            if (file.end <= oldest) {
+                await this.sink.delete(file.path);
+            } else {
+                files.push(file);
+            }
+        }
+
+        // Export new sealed buckets
+        let start = Math.max(previous?.exportedThrough ?? oldest, oldest);
+        for (; start + this.bucketMs <= sealedUntil; start += this.bucketMs) {
+            const end = start + this.bucketMs;
+            const keys = await this.collect(new Date(start), new Date(end));
+            if (keys.length === 0) continue;
+
+            const path = `${start}.bin`;
+            const data = serializeKeys(keys, { lifecycle: true });
+            await this.sink.write(path, data);
+            files.push({ start, end, path, count: keys.length, ...this.signer?.sign(data) });
+        }
+
+        const manifest: ExportManifest = {
+            version: 1,
+            generatedAt: now.getTime(),
+            bucketMs: this.bucketMs,
+            exportedThrough: start,
+            files,
+        };
+        await this.sink.write(MANIFEST_NAME, Buffer.from(JSON.stringify(manifest)));
+        return manifest;
+    }
+
+    private async collect(since: Date, until: Date): Promise<StoredKey[]> {
+        const keys: StoredKey[] = [];
+        let cursor: string | undefined;
+
+        do {
+            // Export files are a new format, so they always carry lifecycle information
+            const page = await this.store.page({ since, until, cursor, limit: PAGE_SIZE, includeRevoked: true });
+            keys.push(...page.keys);
+            cursor = page.nextCursor ?? undefined;
+        } while (cursor);
+
+        return keys;
+    }
+
+    private async loadManifest(): Promise<ExportManifest | null> {
+        const data = await this.sink.read(MANIFEST_NAME);
+        if (!data) return null;
+
+        const manifest = JSON.parse(data.toString('utf8')) as ExportManifest;
+        // Bucket size changed: start over rather than mixing bucket layouts
+        return manifest.bucketMs === this.bucketMs ? manifest : null;
+    }
+
+    private floor(ms: number): number {
+        return Math.floor(ms / this.bucketMs) * this.bucketMs;
+    }
+}
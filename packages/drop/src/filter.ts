@@ -0,0 +1,66 @@
+import type { StoredKey } from './store';
+
+// Golomb-coded set download format (big-endian), one filter per download page:
+//   [count: u32][p: u8][maxCreatedAt ms: f64][Golomb-Rice bitstream]
+// Each RPI hashes to (first 6 bytes as an integer) mod (count * 2^p). RPIs are already
+// uniformly random, so no extra hash function is needed and clients can compute the same value
+// with plain doubles (everything stays below 2^53). Sorted hashes are delta-encoded:
+// quotient (delta >> p) in unary (1s then a 0), remainder in p bits.
+
+/** False-positive rate is 1 / 2^p per lookup (~1 in 500k); ~2.6 bytes per key */
+export const FILTER_P = 19;
+
+export function filterHash(rpi: Buffer, modulus: number): number {
+    return rpi.readUIntBE(0, 6) % modulus;
+}
+
+/** Serialize a page of keys as a Golomb-coded set of their RPIs */
+export function serializeFilter(keys: StoredKey[], p: number = FILTER_P): Buffer {
+    const count = keys.length;
+    const modulus = count * 2 ** p;
+    const hashes = keys.map((k) => filterHash(k.rpi, modulus)).sort((a, b) => a - b);
+
+    const bits = new BitWriter();
+    let previous = 0;
+    for (const hash of hashes) {
+        const delta = hash - previous;
+        previous = hash;
+        const quotient = Math.floor(delta / 2 ** p);
+        for (let i = 0; i < quotient; i++) bits.write(1);
+        bits.write(0);
+        bits.writeBits(delta % 2 ** p, p);
+    }
+
+    let maxCreatedAt = 0;
+    for (const k of keys) maxCreatedAt = Math.max(maxCreatedAt, k.createdAt.getTime());
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(count, 0);
+    header.writeUInt8(p, 4);
+    header.writeDoubleBE(maxCreatedAt, 5);
+    return Buffer.concat([header, bits.finish()]);
+}
+
+class BitWriter {
+    private bytes: number[] = [];
+    private current = 0;
+    private used = 0;
+
+    write(bit: number) {
+        this.current = (this.current << 1) | bit;
+        if (++this.used === 8) {
+            this.bytes.push(this.current);
+            this.current = 0;
+            this.used = 0;
+        }
+    }
+
+    writeBits(value: number, width: number) {
+        for (let i = width - 1; i >= 0; i--) this.write((value >>> i) & 1);
+    }
+
+    finish(): Buffer {
+        if (this.used > 0) this.bytes.push(this.current << (8 - this.used));
+        return Buffer.from(this.bytes);
+    }
+}
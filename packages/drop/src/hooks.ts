@@ -0,0 +1,86 @@
+// Event hooks for embedders. Payloads are aggregates only: counts, an hour bucket and the tenant,
+// never RPIs, metadata, report keys or exact times, so forwarding them (e.g. as webhooks to a
+// dashboard) can't tie a report to a person. Hooks are called as events happen; forward them in
+// batches (as WebhookDispatcher does) so the forwarding time doesn't give the exact time away.
+
+/** Events carry the start of their hour instead of an exact time */
+export const EVENT_BUCKET_MS = 60 * 60 * 1000;
+
+interface EventBase {
+    /** Tenant ID in multi-tenant mode */
+    tenant?: string;
+    /** Start of the hour the event happened in (Unix ms) */
+    bucket: number;
+}
+
+/** A report's keys were stored (single upload or committed session; decoys never count) */
+export interface ReportAcceptedEvent extends EventBase {
+    type: 'report.accepted';
+    keys: number;
+    duplicates: number;
+    status: 'provisional' | 'confirmed';
+}
+
+/** A /v1/download page was sent */
+export interface DownloadServedEvent extends EventBase {
+    type: 'download.served';
+    format: 'bin' | 'gcs' | 'stream' | 'json';
+    keys: number;
+}
+
+/** The purge job deleted expired keys */
+export interface KeysExpiredEvent extends EventBase {
+    type: 'keys.expired';
+    keys: number;
+}
+
+export type VailixEvent = ReportAcceptedEvent | DownloadServedEvent | KeysExpiredEvent;
+export type VailixEventType = VailixEvent['type'];
+
+/**
+ * Called after the fact and never awaited by the request; errors are logged, not sent to clients.
+ */
+export interface VailixHooks {
+    onReportAccepted?(event: ReportAcceptedEvent): void | Promise<void>;
+    onDownloadServed?(event: DownloadServedEvent): void | Promise<void>;
+    onKeysExpired?(event: KeysExpiredEvent): void | Promise<void>;
+}
+
+type EventData<T extends VailixEvent> = Omit<T, 'type' | 'tenant' | 'bucket'>;
+
+/** Stamps events with tenant and bucket and hands them to every hook set, isolating failures */
+export class HookEmitter {
+    constructor(
+        private targets: VailixHooks[],
+        private tenant: string | undefined,
+        private onError: (error: unknown) => void
+    ) { }
+
+    reportAccepted(data: EventData<ReportAcceptedEvent>, now: number = Date.now()) {
+        const event: ReportAcceptedEvent = { type: 'report.accepted', ...this.base(now), ...data };
+        for (const target of this.targets) this.run(() => target.onReportAccepted?.(event));
+    }
+
+    downloadServed(data: EventData<DownloadServedEvent>, now: number = Date.now()) {
+        const event: DownloadServedEvent = { type: 'download.served', ...this.base(now), ...data };
+        for (const target of this.targets) this.run(() => target.onDownloadServed?.(event));
+    }
+
+    keysExpired(data: EventData<KeysExpiredEvent>, now: number = Date.now()) {
+        const event: KeysExpiredEvent = { type: 'keys.expired', ...this.base(now), ...data };
+        for (const target of this.targets) this.run(() => target.onKeysExpired?.(event));
+    }
+
+    private base(now: number): EventBase {
+        const bucket = now - (now % EVENT_BUCKET_MS);
+        return this.tenant ? { tenant: this.tenant, bucket } : { bucket };
+    }
+
+    private run(hook: () => void | Promise<void>) {
+        try {
+            Promise.resolve(hook()).catch(this.onError);
+        } catch (error) {
+            this.onError(error);
+        }
+    }
+}
@@ -1,124 +1,655 @@
 import 'dotenv/config';
-import { timingSafeEqual } from 'crypto';
 import Fastify, { FastifyInstance, FastifyPluginAsync } from 'fastify';
 import fp from 'fastify-plugin';
 import helmet from '@fastify/helmet';
 import rateLimit from '@fastify/rate-limit';
 import compress from '@fastify/compress';
 import cors from '@fastify/cors';
-import mongoose from 'mongoose';
 import { fileURLToPath } from 'url';
-import { registerRoutes } from './routes';
-import { attestVerifier } from './attest';
-
-export interface VailixOptions {
-    mongoUri: string;
-    secret: string;
-    retentionDays?: number;  // TTL in days (default: 14)
-    attestVerifier?: (token: string | undefined) => Promise<boolean>;
+import {
+    registerRoutes,
+    registerExportRoutes,
+    registerVerificationRoutes,
+    registerMetricsRoute,
+    registerTransparencyRoutes,
+    registerHealthRoutes,
+    registerChallengeRoutes,
+} from './routes';
+import { createKeyStore, InstrumentedKeyStore, LoggedKeyStore, StagedKeyStore } from './store';
+import { FileLogStore, TransparencyLog } from './transparency';
+import { SyncTokenIssuer } from './sync';
+import type { TransparencyLogStore } from './transparency';
+import type { KeyStore, KeyStoreConfig, PublicationOptions } from './store';
+import { ExportPublisher, FileExportSink } from './export';
+import type { ExportSink } from './export';
+import { PayloadSigner } from './signing';
+import type { SigningKey } from './signing';
+import { VerificationService } from './verification';
+import type { VerificationOptions } from './verification';
+import { tenantConstraint, tenantStoreConfig, validateTenantId } from './tenant';
+import type { TenantRouting } from './tenant';
+import { SecretRing, SECRET_ID_HEADER } from './secrets';
+import type { AppSecret } from './secrets';
+import { VailixMetrics } from './metrics';
+import type { Labels } from './metrics';
+import { isChaffEnvelope } from './chaff';
+import {
+    ConfigError,
+    appSecretFromEnv,
+    attestationFromEnv,
+    loadServerConfig,
+    resolveHttpConfig,
+    storeConfigFromEnv,
+    syncTokenSecretFromEnv,
+} from './config';
+import type { HttpOptions } from './config';
+import type { UploadSessionStore } from './sessions';
+import { HookEmitter } from './hooks';
+import type { VailixHooks } from './hooks';
+import { WebhookDispatcher } from './webhooks';
+import type { WebhookOptions } from './webhooks';
+import { CHALLENGE_HEADER, CHALLENGE_NONCE_HEADER, ChallengeService } from './challenge';
+import type { ChallengeOptions } from './challenge';
+import { UploadQuota } from './quota';
+import type { QuotaOptions } from './quota';
+import { createAttestVerifier } from './attest';
+import type { AttestationConfig, AttestVerifier } from './attest';
+
+declare module 'fastify' {
+    interface FastifyContextConfig {
+        /** Route is public (no x-vailix-secret required) */
+        skipAuth?: boolean;
+    }
+    interface FastifyRequest {
+        /** ID of the app secret that authenticated this request (null for public routes) */
+        vailixSecretId: string | null;
+        /** Request opens a decoy upload session (see chaff.ts) */
+        vailixChaff: boolean;
+        /** Quota key of the request's verified attestation token (null without quotas) */
+        vailixQuotaKey: string | null;
+    }
+}
+
+export interface ExportOptions {
+    dir?: string;  // Local directory for export files (shorthand for sink: new FileExportSink(dir))
+    sink?: ExportSink;  // Custom destination (e.g. object storage)
+    bucketMs?: number;  // Time covered by each export file (default: 1 hour)
+    intervalMs?: number;  // How often new buckets are exported (default: 5 minutes)
+    serve?: boolean;  // Serve exports under /v1/exports (default: true)
+}
+
+export interface MetricsOptions {
+    registry?: VailixMetrics;  // Bring your own instance to read counters in code (default: new instance)
+    path?: string;  // Prometheus endpoint (default: /metrics)
+    token?: string;  // Require `Authorization: Bearer <token>` on the endpoint
+    serve?: boolean;  // Register the endpoint (default: true)
+}
+
+export interface UploadSessionOptions {
+    store?: UploadSessionStore;  // Where chunks wait for commit (default: in-memory, single instance only)
+    ttlMs?: number;  // How long a session stays open (default: 1 hour)
+}
+
+export interface TransparencyLogOptions {
+    file?: string;  // Append-only JSON Lines file (shorthand for store: new FileLogStore(file))
+    store?: TransparencyLogStore;  // Custom log storage (default: in-memory, lost on restart)
+    serve?: boolean;  // Serve the log under /v1/log (default: true)
+}
+
+export interface PublicationDelayOptions extends PublicationOptions {
+    intervalMs?: number;  // How often the staging area is checked (default: 1 minute)
+}
+
+export interface VailixOptions extends HttpOptions {
+    mongoUri?: string;  // Shorthand for store: { type: 'mongo', uri }
+    store?: KeyStore | KeyStoreConfig;  // Key store backend (default: MongoDB via mongoUri)
+    secret: string | AppSecret[];  // One secret, or several keyed secrets for rotation
+    retentionDays?: number;  // Maximum retention in days; reports may ask for less (default: 14)
+    purgeIntervalMs?: number;  // How often expired keys are purged (default: 1 hour)
+    attestVerifier?: AttestVerifier;
+    attestation?: AttestationConfig;  // Build the attestVerifier from registered providers instead (e.g. { provider: 'jwt', jwks, issuer, audience })
+    exports?: ExportOptions;  // Precomputed, CDN-cacheable export bundles (disabled by default)
+    signingKey?: SigningKey;  // Ed25519 key for signing download pages and export files
+    verification?: VerificationOptions;  // Require health-authority report tokens on /v1/report
+    metrics?: boolean | MetricsOptions;  // Prometheus metrics (disabled by default)
+    publication?: PublicationDelayOptions;  // Stage, coarsen and shuffle reports before publishing (disabled by default)
+    uploadSessions?: UploadSessionOptions;  // Chunked uploads for reports over 1500 keys
+    transparencyLog?: TransparencyLogOptions;  // Merkle log of published batches with signed tree heads (disabled by default)
+    syncTokenSecret?: string;  // HMAC key for download sync tokens; share it between instances (default: random per instance, with a warning)
+    hooks?: VailixHooks;  // Called on accepted reports, served downloads and purged keys (aggregate payloads only)
+    webhook?: WebhookOptions;  // POST the same events, HMAC-signed, to a URL (disabled by default)
+    health?: boolean;  // Serve /health/live and /health/ready (default: true)
+    challenge?: boolean | ChallengeOptions;  // Require proof of work from /v1/challenge on report uploads (disabled by default)
+    quotas?: QuotaOptions;  // Daily report and key quotas per attestation subject; needs attestation (disabled by default)
+}
+
+/** One app in a multi-tenant deployment (same settings as a single-app deployment) */
+export interface TenantOptions extends Omit<VailixOptions, 'mongoUri' | 'metrics' | 'health' | keyof HttpOptions> {
+    id: string;  // [a-z0-9_], used in prefixes and collection/table names
+}
+
+export interface MultiTenantOptions extends HttpOptions {
+    mongoUri?: string;  // Shorthand for store: { type: 'mongo', uri }
+    store?: KeyStoreConfig;  // Shared store; each tenant without its own store gets a separate collection/table
+    tenants: TenantOptions[];
+    tenantRouting?: TenantRouting;  // 'header' (x-vailix-tenant, default) or 'prefix' (/<tenantId>/v1/...)
+    metrics?: boolean | MetricsOptions;  // Shared by all tenants (tenant is a label)
+    health?: boolean;  // Serve /health/live and /health/ready, ready once every tenant's store is (default: true)
+}
+
+/** Per-app context passed down by the plugin */
+interface AppContext {
+    tenantId?: string;
+    metrics?: VailixMetrics;
+    pageSize?: number;
+}
+
+function resolveKeyStore(options: Pick<VailixOptions, 'store' | 'mongoUri' | 'retentionDays' | 'hooks' | 'webhook'>): KeyStore {
+    const retentionDays = options.retentionDays ?? 14;
+    const config = options.store ?? (options.mongoUri ? { type: 'mongo', uri: options.mongoUri } : undefined);
+    if (!config) throw new Error('store or mongoUri is required');
+    if (!('type' in config)) return config;
+    // MongoDB's TTL indexes would delete expired keys before the purge job counts them for onKeysExpired
+    const expiryHooks = !!options.hooks?.onKeysExpired
+        || !!options.webhook && (!options.webhook.events || options.webhook.events.includes('keys.expired'));
+    return createKeyStore(config.type === 'mongo' && expiryHooks ? { ttl: false, ...config } : config, retentionDays);
 }
 
 // 1. THE PLUGIN (Embeddable)
-const vailixPlugin: FastifyPluginAsync<VailixOptions> = async (fastify, options) => {
-    if (!options.mongoUri) throw new Error('mongoUri is required');
+const vailixPlugin: FastifyPluginAsync<VailixOptions | MultiTenantOptions> = async (fastify, options) => {
+    const http = resolveHttpConfig(options);
+
+    // Register Middleware (shared by all tenants)
+    if (http.helmet) await fastify.register(helmet);
+    await fastify.register(compress);
+    await fastify.register(cors, { origin: http.cors.origins });
+    await fastify.register(rateLimit, { max: http.rateLimit.max, timeWindow: http.rateLimit.windowMs });
+
+    if (!fastify.hasRequestDecorator('vailixSecretId')) fastify.decorateRequest('vailixSecretId', null);
+    if (!fastify.hasRequestDecorator('vailixChaff')) fastify.decorateRequest('vailixChaff', false);
+    if (!fastify.hasRequestDecorator('vailixQuotaKey')) fastify.decorateRequest('vailixQuotaKey', null);
+
+    let metrics: VailixMetrics | undefined;
+    if (options.metrics) {
+        const metricsOptions = options.metrics === true ? {} : options.metrics;
+        metrics = metricsOptions.registry ?? new VailixMetrics();
+        if (metricsOptions.serve !== false) {
+            registerMetricsRoute(fastify, metrics, { path: metricsOptions.path, token: metricsOptions.token });
+        }
+    }
+
+    const stores = 'tenants' in options
+        ? await registerTenants(fastify, options, { metrics, pageSize: http.pageSize })
+        : [await registerApp(fastify, options, resolveKeyStore(options), { metrics, pageSize: http.pageSize })];
+
+    // Outside the tenant scopes, so probes need no tenant header or prefix
+    if (options.health !== false) registerHealthRoutes(fastify, stores);
+};
+
+/**
+ * Register each tenant in its own encapsulated scope, so hooks, secrets and stores never leak
+ * between tenants. Tenants without their own store get a collection/table in the shared one.
+ */
+async function registerTenants(fastify: FastifyInstance, options: MultiTenantOptions, context: AppContext): Promise<KeyStore[]> {
+    if (options.tenants.length === 0) throw new Error('tenants must not be empty');
+    const routing = options.tenantRouting ?? 'header';
+    const shared: KeyStoreConfig | undefined = options.store
+        ?? (options.mongoUri ? { type: 'mongo', uri: options.mongoUri } : undefined);
+
+    if (routing === 'header' && !fastify.hasConstraintStrategy(tenantConstraint.name)) {
+        fastify.addConstraintStrategy(tenantConstraint);
+    }
+
+    const ids = new Set<string>();
+    const stores: KeyStore[] = [];
+    for (const tenant of options.tenants) {
+        validateTenantId(tenant.id);
+        if (ids.has(tenant.id)) throw new Error(`Duplicate tenant id: ${tenant.id}`);
+        ids.add(tenant.id);
+
+        const store = resolveKeyStore({
+            store: tenant.store ?? (shared ? tenantStoreConfig(shared, tenant.id) : undefined),
+            retentionDays: tenant.retentionDays,
+            hooks: tenant.hooks,
+            webhook: tenant.webhook,
+        });
+
+        await fastify.register(async (scope) => {
+            if (routing === 'header') {
+                scope.addHook('onRoute', (route) => {
+                    route.constraints = { ...route.constraints, [tenantConstraint.name]: tenant.id };
+                });
+            }
+            stores.push(await registerApp(scope, tenant, store, { ...context, tenantId: tenant.id }));
+        }, routing === 'prefix' ? { prefix: `/${tenant.id}` } : {});
+    }
+    return stores;
+}
+
+/** Store, auth, routes and background jobs for one app (or one tenant). Returns the connected store. */
+async function registerApp(
+    fastify: FastifyInstance,
+    options: Omit<VailixOptions, 'metrics' | 'health'>,
+    rawStore: KeyStore,
+    { tenantId, metrics, pageSize }: AppContext = {}
+): Promise<KeyStore> {
     if (!options.secret) throw new Error('secret is required');
+    const secrets = new SecretRing(options.secret);
+    const labels: Labels = tenantId ? { tenant: tenantId } : {};
+    const signer = options.signingKey ? new PayloadSigner(options.signingKey) : undefined;
+    const instrumented = metrics ? new InstrumentedKeyStore(rawStore, metrics.storeDuration, labels) : rawStore;
+    const log = options.transparencyLog
+        ? new TransparencyLog(
+            options.transparencyLog.store
+                ?? (options.transparencyLog.file ? new FileLogStore(options.transparencyLog.file) : undefined),
+            signer
+        )
+        : undefined;
+    const logged = log ? new LoggedKeyStore(instrumented, log) : instrumented;
+    const staged = options.publication ? new StagedKeyStore(logged, options.publication) : undefined;
+    const store = staged ?? logged;
+
+    await log?.open();
+    await store.connect();
+
+    // onClose hooks run in reverse order: the timers below are cleared first, then jobs still
+    // running finish, then the store closes (publishing staged reports)
+    const running = new Set<Promise<void>>();
+    const track = (job: Promise<void>) => {
+        running.add(job);
+        job.then(() => running.delete(job));
+    };
+    fastify.addHook('onClose', async () => {
+        await Promise.all(running);
+        await store.close();
+    });
+
+    const webhook = options.webhook
+        ? new WebhookDispatcher(options.webhook, (err) => fastify.log.error(err, 'Vailix webhook failed'))
+        : undefined;
+    if (webhook) fastify.addHook('onClose', async () => webhook.close());
+    const hookTargets = [options.hooks, webhook].filter((target): target is VailixHooks => !!target);
+    const hooks = hookTargets.length > 0
+        ? new HookEmitter(hookTargets, tenantId, (err) => fastify.log.error(err, 'Vailix hook failed'))
+        : undefined;
+
+    // Periodic purge for stores without native TTL, including MongoDB with its TTL indexes off
+    const purgeTimer = setInterval(() => {
+        track(store.purgeExpired()
+            .then((count) => {
+                if (count > 0) hooks?.keysExpired({ keys: count });
+            })
+            .catch((err) => fastify.log.error(err, 'Vailix key purge failed')));
+    }, options.purgeIntervalMs ?? 60 * 60 * 1000);
+    purgeTimer.unref();
+    fastify.addHook('onClose', async () => clearInterval(purgeTimer));
 
-    // Connect DB if not already connected
-    if (mongoose.connection.readyState === 0) {
-        await mongoose.connect(options.mongoUri);
-        console.log('Vailix connected to MongoDB');
+    // Publish staged reports once enough have built up or the oldest is due (close() publishes the rest)
+    if (staged) {
+        const publicationTimer = setInterval(() => {
+            track(staged.publishIfDue().then(() => undefined, (err) => fastify.log.error(err, 'Vailix report publication failed')));
+        }, options.publication?.intervalMs ?? 60 * 1000);
+        publicationTimer.unref();
+        fastify.addHook('onClose', async () => clearInterval(publicationTimer));
     }
 
-    // Register Middleware
-    await fastify.register(helmet);
-    await fastify.register(compress);
-    await fastify.register(cors);
-    // Rate limit: 300/min to allow chunked sync (approx 7 requests for 14-day history at 20k/page)
-    await fastify.register(rateLimit, { max: 300, timeWindow: '1 minute' });
+    const verification = options.verification ? new VerificationService(options.verification) : undefined;
+    const challenges = options.challenge
+        ? new ChallengeService(options.challenge === true ? {} : options.challenge)
+        : undefined;
+    if (options.attestation && options.attestVerifier) throw new Error('Use either attestation or attestVerifier, not both');
+    const attestVerifier = options.attestation ? await createAttestVerifier(options.attestation) : options.attestVerifier;
+    if (options.quotas && !attestVerifier) throw new Error('quotas require attestVerifier or attestation');
+    const quota = options.quotas ? new UploadQuota(options.quotas) : undefined;
 
     // Auth Hook
     fastify.addHook('preHandler', async (req, reply) => {
-        // Use routeOptions.url for exact route matching (ignores query strings)
-        const routePath = req.routeOptions.url;
+        // Use routeOptions.url for exact route matching (ignores query strings).
+        // Strip the scope prefix so checks work under a tenant prefix or an embedder's prefix.
+        const routePath = req.routeOptions.url?.slice(fastify.prefix.length);
 
         // Skip auth for /health endpoints registered within the plugin scope.
         // Note: In standalone mode, /health is outside plugin scope so this doesn't apply.
         // This check exists for embedders who register their own /health inside the plugin.
         if (routePath === '/health') return;
+        if (req.routeOptions.config.skipAuth) return;
 
-        const provided = req.headers['x-vailix-secret'] as string;
-        const expected = options.secret;
-
-        // Use timing-safe comparison to prevent timing attacks
-        const isValid = provided &&
-            provided.length === expected.length &&
-            timingSafeEqual(Buffer.from(provided), Buffer.from(expected));
+        // Any active secret is accepted; x-vailix-secret-id narrows the check to one of them
+        const secretId = secrets.match(
+            req.headers['x-vailix-secret'] as string | undefined,
+            req.headers[SECRET_ID_HEADER] as string | undefined
+        );
 
-        if (!isValid) {
+        if (!secretId) {
+            metrics?.authFailures.inc(labels);
             return reply.code(401).send({ error: 'Unauthorized' });
         }
+        req.vailixSecretId = secretId;
+        metrics?.requestsBySecret.inc({ ...labels, secret_id: secretId });
+
+        // Single uploads and session begins carry the report's envelope, attestation and token;
+        // session chunks and commits are authorized by the (unguessable) session ID
+        const submitsReport = req.method === 'POST' && (routePath === '/v1/report' || routePath === '/v1/report/sessions');
+
+        // Proof of work comes first, so decoys pay for it like real reports
+        if (submitsReport && challenges) {
+            const solved = await challenges.redeem(
+                req.headers[CHALLENGE_HEADER] as string | undefined,
+                req.headers[CHALLENGE_NONCE_HEADER] as string | undefined
+            );
+            if (!solved) {
+                metrics?.challengeFailures.inc(labels);
+                return reply.code(403).send({ error: 'Invalid challenge solution' });
+            }
+        }
+
+        // Decoy uploads: discard before attestation and report-token checks (decoys carry neither
+        // a real attestation nor a real token) and answer exactly like a stored report. Decoy
+        // sessions are opened like real ones and dropped on commit. Decoys of reports that use
+        // verification codes exchange a code first, and get a token that never verifies.
+        const exchangesCode = req.method === 'POST' && routePath === '/v1/verify';
+        const { envelope } = (req.body ?? {}) as { envelope?: string };
+        if ((submitsReport || exchangesCode) && envelope !== undefined) {
+            const chaff = isChaffEnvelope(envelope, secrets.get(secretId)!);
+            if (chaff === null) return reply.code(400).send({ error: 'Invalid envelope' });
+            if (chaff && exchangesCode) return reply.send(verification!.decoyToken());
+            if (chaff) {
+                metrics?.chaffReports.inc(labels);
+                if (routePath === '/v1/report') return reply.send({ success: true });
+                req.vailixChaff = true;
+                return;
+            }
+        }
 
         // Attestation check for report endpoint
-        if (routePath === '/v1/report' && req.method === 'POST' && options.attestVerifier) {
+        if (submitsReport && attestVerifier) {
             const token = req.headers['x-attest-token'] as string;
-            if (!(await options.attestVerifier(token))) {
+            const attested = await attestVerifier(token);
+            if (!attested) {
+                metrics?.attestationFailures.inc(labels);
                 return reply.code(403).send({ error: 'Attestation failed' });
             }
+            // Counted by the routes once the upload is otherwise valid; a verifier that lets
+            // requests without a token through puts them all in one bucket
+            if (quota) req.vailixQuotaKey = quota.keyFor(token ?? '', attested === true ? undefined : attested.subject);
+        }
+
+        // Health-authority report token (obtained via /v1/verify); the routes spend it once the
+        // report or session is accepted
+        if (submitsReport && verification) {
+            if (!verification.verifyToken(req.headers['x-vailix-report-token'] as string | undefined)) {
+                return reply.code(403).send({ error: 'Invalid report token' });
+            }
         }
     });
 
-    // Create model with configurable TTL
-    const { createKeyModel } = await import('./db.js');
-    const KeyModel = createKeyModel(options.retentionDays ?? 14);
+    if (!options.syncTokenSecret) {
+        fastify.log.warn('Vailix syncTokenSecret is not set: sync tokens are only valid on this instance until it restarts');
+    }
+    registerRoutes(fastify, store, {
+        signer,
+        maxRetentionDays: options.retentionDays,
+        pageSize,
+        metrics,
+        metricLabels: labels,
+        sessionStore: options.uploadSessions?.store,
+        sessionTtlMs: options.uploadSessions?.ttlMs,
+        syncTokens: options.syncTokenSecret ? new SyncTokenIssuer(options.syncTokenSecret) : undefined,
+        hooks,
+        quota,
+        verification,
+    });
+    if (challenges) registerChallengeRoutes(fastify, challenges);
+    if (verification) registerVerificationRoutes(fastify, verification);
+    if (log && options.transparencyLog?.serve !== false) registerTransparencyRoutes(fastify, log);
 
-    registerRoutes(fastify, KeyModel);
-};
+    if (options.exports) {
+        const sink = options.exports.sink
+            ?? (options.exports.dir ? new FileExportSink(options.exports.dir) : null);
+        if (!sink) throw new Error('exports.dir or exports.sink is required');
+
+        const publisher = new ExportPublisher(store, sink, {
+            bucketMs: options.exports.bucketMs,
+            retentionDays: options.retentionDays,
+            signer,
+            // Published keys are stamped with the start of their publication bucket
+            backdateMs: staged?.bucketMs,
+        });
+        const publish = () => {
+            track(publisher.run().then(() => undefined, (err) => fastify.log.error(err, 'Vailix export failed')));
+        };
+        fastify.addHook('onReady', async () => publish());
+        const exportTimer = setInterval(publish, options.exports.intervalMs ?? 5 * 60 * 1000);
+        exportTimer.unref();
+        fastify.addHook('onClose', async () => clearInterval(exportTimer));
+
+        if (options.exports.serve !== false) registerExportRoutes(fastify, sink);
+    }
+
+    return store;
+}
 
 export default fp(vailixPlugin, { name: '@vailix/drop' });
 
 // 2. THE STANDALONE RUNNER (Plug & Play)
 export async function startStandalone() {
+    // Listener and HTTP settings: VAILIX_CONFIG (JSON/YAML file) overridden by env vars.
+    // Key store (VAILIX_STORE, default: mongo), app secrets and attestation come from env vars only.
+    let config, secret, store, retentionDays, attestation, syncTokenSecret;
+    try {
+        config = await loadServerConfig();
+        secret = appSecretFromEnv();
+        ({ store, retentionDays } = storeConfigFromEnv());
+        attestation = attestationFromEnv();
+        syncTokenSecret = syncTokenSecretFromEnv();
+        if (config.quotas && !attestation) {
+            throw new ConfigError('configuration', ['quotas: Requires ATTEST_PROVIDER or ATTEST_CONFIG']);
+        }
+    } catch (error) {
+        if (!(error instanceof ConfigError)) throw error;
+        console.error(error.message);
+        process.exit(1);
+    }
+    const { host, port, bodyLimit, shutdownTimeoutMs, challenge, quotas, publication, ...http } = config;
+
     const server = Fastify({
         logger: true,
         disableRequestLogging: true, // SECURITY: Prevent default logging of IP/Headers
-        bodyLimit: 5242880, // 5MB limit for large batched reports
+        bodyLimit,
     });
 
-    if (!process.env.MONGODB_URI || !process.env.APP_SECRET) {
-        console.error('Missing env vars: MONGODB_URI, APP_SECRET');
-        process.exit(1);
+    // Optional: Sign download payloads
+    let signingKey: SigningKey | undefined;
+    if (process.env.VAILIX_SIGNING_KEY) {
+        signingKey = { keyId: process.env.VAILIX_SIGNING_KEY_ID || 'default', privateKey: process.env.VAILIX_SIGNING_KEY };
     }
 
-    // Read retention from env var, default to 14 days
-    const retentionDays = process.env.VAILIX_RETENTION_DAYS
-        ? parseInt(process.env.VAILIX_RETENTION_DAYS, 10)
-        : 14;
+    // Optional: Require health-authority verification codes for reports
+    let verification: VerificationOptions | undefined;
+    if (process.env.VAILIX_ISSUER_KEY) {
+        if (!process.env.VAILIX_REPORT_TOKEN_SECRET) {
+            console.error('Missing env var: VAILIX_REPORT_TOKEN_SECRET');
+            process.exit(1);
+        }
+        verification = { issuerKey: process.env.VAILIX_ISSUER_KEY, tokenSecret: process.env.VAILIX_REPORT_TOKEN_SECRET };
+    }
+
+    // Optional: Prometheus metrics at /metrics
+    const metrics = process.env.VAILIX_METRICS === 'true'
+        ? { token: process.env.VAILIX_METRICS_TOKEN || undefined }
+        : undefined;
+
+    // Optional: Attestation providers from other packages; the modules call registerAttestProvider()
+    for (const module of (process.env.ATTEST_MODULES ?? '').split(',').map((m) => m.trim()).filter(Boolean)) {
+        await import(module);
+    }
 
-    // Optional: Load Firebase Attestation
-    let attestVerifier;
-    if (process.env.ATTEST_PROVIDER === 'firebase') {
-        const { firebaseAttestVerifier } = await import('./attest-firebase.js');
-        attestVerifier = firebaseAttestVerifier;
+    // Optional: Send report/download/purge events to a webhook
+    let webhook;
+    if (process.env.VAILIX_WEBHOOK_URL) {
+        if (!process.env.VAILIX_WEBHOOK_SECRET) {
+            console.error('Missing env var: VAILIX_WEBHOOK_SECRET');
+            process.exit(1);
+        }
+        webhook = { url: process.env.VAILIX_WEBHOOK_URL, secret: process.env.VAILIX_WEBHOOK_SECRET };
     }
 
     server.register(vailixPlugin, {
-        mongoUri: process.env.MONGODB_URI,
-        secret: process.env.APP_SECRET,
+        ...http,
+        store,
+        secret,
         retentionDays: retentionDays,
-        attestVerifier,
+        attestation,
+        // Optional: Publish export bundles for CDN/static hosting
+        exports: process.env.VAILIX_EXPORT_DIR ? { dir: process.env.VAILIX_EXPORT_DIR } : undefined,
+        // Optional: Keep a transparency log of published batches
+        transparencyLog: process.env.VAILIX_LOG_FILE ? { file: process.env.VAILIX_LOG_FILE } : undefined,
+        syncTokenSecret,
+        signingKey,
+        verification,
+        metrics,
+        // Optional: Delay publication, proof of work on uploads and daily quotas per attestation subject
+        publication: publication && {
+            minReports: publication.minReports,
+            maxDelayMs: publication.maxDelayMinutes && publication.maxDelayMinutes * 60 * 1000,
+        },
+        webhook,
+        challenge: challenge && { ...challenge, secret: process.env.VAILIX_CHALLENGE_SECRET || undefined },
+        quotas,
     });
 
     server.get('/health', async () => ({ status: 'ok' }));
 
-    await server.listen({ port: Number(process.env.PORT) || 3000, host: '0.0.0.0' });
+    // Graceful shutdown: stop accepting connections, let in-flight requests and background jobs
+    // finish, then close the store (the plugin's onClose). Exit anyway after shutdownTimeoutMs.
+    const shutdown = async (signal: string) => {
+        server.log.info(`${signal} received, shutting down`);
+        setTimeout(() => {
+            server.log.error('Shutdown timed out');
+            process.exit(1);
+        }, shutdownTimeoutMs).unref();
+        try {
+            await server.close();
+            process.exit(0);
+        } catch (err) {
+            server.log.error(err, 'Shutdown failed');
+            process.exit(1);
+        }
+    };
+    process.once('SIGTERM', () => void shutdown('SIGTERM'));
+    process.once('SIGINT', () => void shutdown('SIGINT'));
+
+    await server.listen({ port, host });
 }
 
 // Auto-start if run directly
 if (process.argv[1] === fileURLToPath(import.meta.url)) {
-    startStandalone();
+    startStandalone().catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
 }
 
 // Re-export types and utilities for library consumers
-export { registerRoutes } from './routes';
-export { createKeyModel } from './db';
-export type { AttestVerifier } from './attest';
+export {
+    registerRoutes,
+    registerExportRoutes,
+    registerVerificationRoutes,
+    registerTransparencyRoutes,
+    registerHealthRoutes,
+    registerChallengeRoutes,
+} from './routes';
+export {
+    serializeKeys,
+    negotiateFormatVersion,
+    STATUS_CODES,
+    FORMAT_MAGIC,
+    FORMAT_FLAGS,
+    FORMAT_VERSIONS,
+    FORMAT_VERSIONS_HEADER,
+    FORMAT_VERSION_HEADER,
+} from './serialize';
+export { serializeFilter, filterHash, FILTER_P } from './filter';
+export type { SerializeOptions, FormatVersion } from './serialize';
+export { canTransition, statusMessage, verifyStatusChange } from './lifecycle';
+export { ExportPublisher, FileExportSink } from './export';
+export type { ExportSink, ExportManifest, ExportFile, ExportPublisherOptions } from './export';
+export { PayloadSigner, generateSigningKey } from './signing';
+export {
+    TransparencyLog,
+    MemoryLogStore,
+    FileLogStore,
+    LogRangeError,
+    leafHash,
+    treeHeadMessage,
+    verifyInclusionProof,
+    verifyConsistencyProof,
+    LOG_HEAD_CONTEXT,
+    MAX_LOG_ENTRIES,
+} from './transparency';
+export type { TransparencyLogStore, LogEntry, ProvenEntry, TreeHead } from './transparency';
+export { SyncTokenIssuer, SYNC_TOKEN_HEADER, STREAM_SYNC_TOKEN_HEADER, SYNC_TOKEN_VERSION } from './sync';
+export type { SyncPosition } from './sync';
+export { HookEmitter, EVENT_BUCKET_MS } from './hooks';
+export type { VailixHooks, VailixEvent, VailixEventType, ReportAcceptedEvent, DownloadServedEvent, KeysExpiredEvent } from './hooks';
+export { WebhookDispatcher, signWebhook, verifyWebhookSignature, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from './webhooks';
+export type { WebhookOptions } from './webhooks';
+export { ChallengeService, MemorySpentChallengeStore, CHALLENGE_HEADER, CHALLENGE_NONCE_HEADER, leadingZeroBits } from './challenge';
+export type { ChallengeOptions, IssuedChallenge, SpentChallengeStore } from './challenge';
+export { UploadQuota, MemoryQuotaStore } from './quota';
+export type { QuotaOptions, QuotaStore, QuotaUsage } from './quota';
+export type { SigningKey, PayloadSignature } from './signing';
+export { VerificationService, MemoryCodeStore } from './verification';
+export { MemoryUploadSessionStore, MAX_SESSION_CHUNKS } from './sessions';
+export type { UploadSessionStore, UploadSession, NewUploadSession, SessionKey } from './sessions';
+export { sealEnvelope, isChaffEnvelope } from './chaff';
+export { countsPerDay, exportArchive, importArchive, ARCHIVE_FORMAT, ARCHIVE_VERSION } from './admin';
+export {
+    loadServerConfig,
+    resolveHttpConfig,
+    storeConfigFromEnv,
+    appSecretFromEnv,
+    attestationFromEnv,
+    syncTokenSecretFromEnv,
+    ConfigError,
+    HttpConfigSchema,
+    ServerConfigSchema,
+} from './config';
+export type { HttpOptions, HttpConfig, ServerConfig } from './config';
+export type { VerificationOptions, VerificationCodeStore, SpentTokenStore, IssuedCode, ReportToken } from './verification';
+export type { RouteOptions } from './routes';
+export { TENANT_HEADER, tenantStoreConfig } from './tenant';
+export { SecretRing, SECRET_ID_HEADER, parseAppSecrets } from './secrets';
+export type { AppSecret } from './secrets';
+export { VailixMetrics, Counter, Histogram } from './metrics';
+export type { Labels } from './metrics';
+export type { TenantRouting } from './tenant';
+export { createKeyModel, createBlobModel } from './db';
+export {
+    createKeyStore,
+    MongoKeyStore,
+    PostgresKeyStore,
+    SqliteKeyStore,
+    MemoryKeyStore,
+    InstrumentedKeyStore,
+    StagedKeyStore,
+    LoggedKeyStore,
+    InvalidCursorError,
+} from './store';
+export type {
+    KeyStore,
+    KeyStoreConfig,
+    StoredKey,
+    NewKey,
+    InsertResult,
+    PageQuery,
+    KeyPage,
+    ReportStatus,
+    PublicationOptions,
+    MetadataBlob,
+} from './store';
+export { anyOf, allOf, registerAttestProvider, createAttestVerifier } from './attest';
+export type { AttestVerifier, AttestedSubject, AttestProviderFactory, AttestationConfig } from './attest';
+export { jwtAttestVerifier, JwksCache } from './attest-jwt';
+export type { JwtAttestOptions, JwtAlgorithm, JsonWebKeySet } from './attest-jwt';
+export type { FirebaseAttestOptions } from './attest-firebase';
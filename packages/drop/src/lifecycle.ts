@@ -0,0 +1,39 @@
+import { createPublicKey, verify } from 'crypto';
+import type { ReportStatus } from './store';
+
+// Domain-separated message the reporter signs to change a report's status
+const STATUS_MESSAGE_PREFIX = 'vailix-report-status:v1';
+
+// Allowed transitions. Revoked is terminal; provisional can't be re-entered.
+const TRANSITIONS: Record<ReportStatus, ReportStatus[]> = {
+    provisional: ['confirmed', 'revoked'],
+    confirmed: ['revoked'],
+    revoked: [],
+};
+
+export function canTransition(from: ReportStatus, to: ReportStatus): boolean {
+    return TRANSITIONS[from].includes(to);
+}
+
+/** Bytes the reporter signs with the report's Ed25519 key */
+export function statusMessage(reportKey: string, status: ReportStatus): Buffer {
+    return Buffer.from(`${STATUS_MESSAGE_PREFIX}:${reportKey}:${status}`, 'utf8');
+}
+
+/**
+ * Check that a status change was signed by the holder of the report key.
+ * @param reportKey - Raw 32-byte Ed25519 public key (base64) sent with the original report
+ * @param signature - Base64 signature over statusMessage(reportKey, status)
+ */
+export function verifyStatusChange(reportKey: string, status: ReportStatus, signature: string): boolean {
+    try {
+        const publicKey = createPublicKey({
+            key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(reportKey, 'base64').toString('base64url') },
+            format: 'jwk',
+        });
+        return verify(null, statusMessage(reportKey, status), publicKey, Buffer.from(signature, 'base64'));
+    } catch {
+        // Malformed key or signature
+        return false;
+    }
+}
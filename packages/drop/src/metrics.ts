@@ -0,0 +1,129 @@
+/**
+ * Prometheus metrics (text exposition format), kept in process.
+ * Labels are limited to tenant, secret ID, format and store operation:
+ * never IPs, RPIs or anything else that could identify a user.
+ */
+
+export type Labels = Record<string, string>;
+
+// Store round-trips are usually a few ms; the upper buckets catch slow purges and big pages
+const DURATION_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+export class Counter {
+    private values = new Map<string, { labels: Labels; value: number }>();
+
+    constructor(readonly name: string, readonly help: string) { }
+
+    inc(labels: Labels = {}, value: number = 1): void {
+        const key = labelKey(labels);
+        const entry = this.values.get(key) ?? { labels, value: 0 };
+        entry.value += value;
+        this.values.set(key, entry);
+    }
+
+    get(labels: Labels = {}): number {
+        return this.values.get(labelKey(labels))?.value ?? 0;
+    }
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+        for (const { labels, value } of this.values.values()) {
+            lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+        }
+        return lines.join('\n');
+    }
+}
+
+export class Histogram {
+    private series = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+    constructor(readonly name: string, readonly help: string, private bounds: number[] = DURATION_BUCKETS) { }
+
+    observe(labels: Labels, value: number): void {
+        const key = labelKey(labels);
+        let entry = this.series.get(key);
+        if (!entry) {
+            entry = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, entry);
+        }
+        this.bounds.forEach((bound, i) => {
+            if (value <= bound) entry.buckets[i]++;
+        });
+        entry.sum += value;
+        entry.count++;
+    }
+
+    /** Time an async operation in seconds */
+    async time<T>(labels: Labels, fn: () => Promise<T>): Promise<T> {
+        const start = process.hrtime.bigint();
+        try {
+            return await fn();
+        } finally {
+            this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+        }
+    }
+
+    count(labels: Labels = {}): number {
+        return this.series.get(labelKey(labels))?.count ?? 0;
+    }
+
+    render(): string {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+        for (const { labels, buckets, sum, count } of this.series.values()) {
+            this.bounds.forEach((bound, i) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: bound.toString() })} ${buckets[i]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+        return lines.join('\n');
+    }
+}
+
+/**
+ * All drop metrics. One instance is shared by every tenant (tenant is a label).
+ * Pass your own instance as `metrics.registry` to read counters in code.
+ */
+export class VailixMetrics {
+    readonly reports = new Counter('vailix_reports_total', 'Accepted report uploads');
+    readonly keysInserted = new Counter('vailix_keys_inserted_total', 'Keys stored from reports');
+    readonly keysDuplicate = new Counter('vailix_keys_duplicate_total', 'Reported keys skipped because the RPI was already stored');
+    readonly downloadPages = new Counter('vailix_download_pages_total', 'Download pages served');
+    readonly downloadBytes = new Counter('vailix_download_bytes_total', 'Download bytes served (before compression)');
+    readonly authFailures = new Counter('vailix_auth_failures_total', 'Requests rejected for a missing or invalid app secret');
+    readonly attestationFailures = new Counter('vailix_attestation_failures_total', 'Reports rejected by the attestation verifier');
+    readonly chaffReports = new Counter('vailix_chaff_reports_total', 'Decoy report uploads discarded');
+    readonly challengeFailures = new Counter('vailix_challenge_failures_total', 'Reports rejected for a missing or invalid proof of work');
+    readonly quotaExceeded = new Counter('vailix_quota_exceeded_total', 'Reports rejected by the per-attestation-token quota');
+    readonly requestsBySecret = new Counter('vailix_requests_by_secret_total', 'Authenticated requests per app secret ID');
+    readonly storeDuration = new Histogram('vailix_store_duration_seconds', 'Key store operation latency');
+
+    render(): string {
+        return [
+            this.reports,
+            this.keysInserted,
+            this.keysDuplicate,
+            this.downloadPages,
+            this.downloadBytes,
+            this.authFailures,
+            this.attestationFailures,
+            this.chaffReports,
+            this.challengeFailures,
+            this.quotaExceeded,
+            this.requestsBySecret,
+            this.storeDuration,
+        ].map((metric) => metric.render()).join('\n') + '\n';
+    }
+}
+
+function labelKey(labels: Labels): string {
+    return Object.keys(labels).sort().map((name) => `${name}=${labels[name]}`).join(',');
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(([name, value]) =>
+        `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+    );
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
@@ -0,0 +1,80 @@
+import { createHash } from 'crypto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Usage of one attestation token on one UTC day */
+export interface QuotaUsage {
+    reports: number;
+    keys: number;
+}
+
+/** Daily usage counters per quota key */
+export interface QuotaStore {
+    /**
+     * Atomically add `usage` to the key's counters for `day` (UTC days since the epoch) unless
+     * that would go over `limits`; returns false, adding nothing, if it would.
+     */
+    consume(key: string, day: number, usage: QuotaUsage, limits: QuotaUsage): Promise<boolean>;
+}
+
+/**
+ * In-process quota store. Counters are lost on restart and not shared between instances,
+ * so multi-instance deployments should provide a shared QuotaStore.
+ */
+export class MemoryQuotaStore implements QuotaStore {
+    private usage = new Map<string, QuotaUsage & { day: number }>();
+
+    async consume(key: string, day: number, usage: QuotaUsage, limits: QuotaUsage): Promise<boolean> {
+        this.prune(day);
+        const current = this.usage.get(key) ?? { day, reports: 0, keys: 0 };
+        const reports = current.reports + usage.reports;
+        const keys = current.keys + usage.keys;
+        if (reports > limits.reports || keys > limits.keys) return false;
+        this.usage.set(key, { day, reports, keys });
+        return true;
+    }
+
+    private prune(day: number) {
+        for (const [key, usage] of this.usage) {
+            if (usage.day !== day) this.usage.delete(key);
+        }
+    }
+}
+
+export interface QuotaOptions {
+    reportsPerDay?: number;  // Reports (single uploads and sessions) per attestation subject or token (default: 5)
+    keysPerDay?: number;  // Keys per attestation subject or token (default: 20000)
+    store?: QuotaStore;  // Default: in-memory (single instance only)
+}
+
+/**
+ * Per-attestation upload quotas, counted per UTC day against the subject the attestVerifier
+ * names (see AttestedSubject), or the token itself when it names none. Subjects and tokens are
+ * only kept as SHA-256 hashes and never tied to the keys they uploaded. Requires an
+ * attestVerifier, since an unverified token is whatever the client wants it to be.
+ */
+export class UploadQuota {
+    private limits: QuotaUsage;
+    private store: QuotaStore;
+
+    constructor(options: QuotaOptions = {}) {
+        this.limits = { reports: options.reportsPerDay ?? 5, keys: options.keysPerDay ?? 20000 };
+        this.store = options.store ?? new MemoryQuotaStore();
+    }
+
+    /** Quota key for a verified subject, or for the attestation token without one */
+    keyFor(attestToken: string, subject?: string): string {
+        const identity = subject === undefined ? `token:${attestToken}` : `subject:${subject}`;
+        return createHash('sha256').update(identity).digest('hex');
+    }
+
+    /** Count usage against the key; false if that would exceed today's quota */
+    consume(key: string, usage: Partial<QuotaUsage>, now: number = Date.now()): Promise<boolean> {
+        return this.store.consume(key, Math.floor(now / DAY_MS), { reports: usage.reports ?? 0, keys: usage.keys ?? 0 }, this.limits);
+    }
+
+    /** Seconds until the quotas reset (next UTC midnight), for Retry-After */
+    retryAfter(now: number = Date.now()): number {
+        return Math.ceil((DAY_MS - (now % DAY_MS)) / 1000);
+    }
+}
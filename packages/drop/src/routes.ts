@@ -1,117 +1,604 @@
+import { timingSafeEqual } from 'crypto';
+import { Readable } from 'stream';
 import { Type } from '@sinclair/typebox';
-import type { FastifyInstance } from 'fastify';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import { InvalidCursorError } from './store';
+import type { KeyPage, KeyStore, ReportStatus, StoredKey } from './store';
+import {
+    FORMAT_VERSION_HEADER,
+    FORMAT_VERSIONS_HEADER,
+    negotiateFormatVersion,
+    serializeKeys,
+    streamKeys,
+} from './serialize';
+import { serializeFilter } from './filter';
+import { MAX_METADATA_LENGTH, MAX_REPORT_KEYS, REPORT_CONTENT_TYPE, blobId, parseReportUpload } from './upload';
+import type { ReportBody } from './upload';
+import { MAX_SESSION_CHUNKS, MemoryUploadSessionStore, newSessionId } from './sessions';
+import { STREAM_SYNC_TOKEN_HEADER, SYNC_TOKEN_HEADER, SyncTokenIssuer } from './sync';
+import { LogRangeError, MAX_LOG_ENTRIES } from './transparency';
+import type { TransparencyLog } from './transparency';
+import type { SessionKey, UploadSessionStore } from './sessions';
+import { canTransition, verifyStatusChange } from './lifecycle';
+import type { ExportSink } from './export';
+import type { PayloadSigner } from './signing';
+import type { VerificationService } from './verification';
+import type { Labels, VailixMetrics } from './metrics';
+import type { HookEmitter } from './hooks';
+import type { UploadQuota } from './quota';
+import type { ChallengeService } from './challenge';
 
 const ReportSchema = Type.Object({
     reports: Type.Array(Type.Object({
         rpi: Type.String({ minLength: 32, maxLength: 32, pattern: '^[a-f0-9]{32}$' }),
-        encryptedMetadata: Type.String({ maxLength: 10240 }) // 10KB max, defense-in-depth
-    }), { maxItems: 1500 })
+        encryptedMetadata: Type.String({ maxLength: MAX_METADATA_LENGTH })
+    }), { maxItems: MAX_REPORT_KEYS }),
+    // Lifecycle (optional): reporter's Ed25519 public key, raw 32 bytes base64
+    reportKey: Type.Optional(Type.String({ pattern: '^[A-Za-z0-9+/]{43}=$' })),
+    status: Type.Optional(Type.Union([Type.Literal('provisional'), Type.Literal('confirmed')])),
+    // Report's own retention window (e.g. its exposure window), capped by the server maximum
+    retentionDays: Type.Optional(Type.Integer({ minimum: 1, maximum: 3650 })),
+    // Encrypted report envelope (see chaff.ts); decoy uploads are answered before reaching the route
+    envelope: Type.Optional(Type.String({ maxLength: 128 })),
+    // Shared metadata: encrypted once per report; each encryptedMetadata is then the wrapped blob key
+    metadataBlob: Type.Optional(Type.String({ maxLength: MAX_METADATA_LENGTH })),
 });
 
-export function registerRoutes(server: FastifyInstance, KeyModel: any) {
-    server.post('/v1/report', { schema: { body: ReportSchema } }, async (req) => {
-        const { reports } = req.body as { reports: Array<{ rpi: string, encryptedMetadata: string }> };
-
-        // Convert hex RPIs to Buffers for efficient storage
-        const ops = reports.map((item) => {
-            const rpiBuffer = Buffer.from(item.rpi, 'hex');
-            return {
-                updateOne: {
-                    filter: { rpi: rpiBuffer },
-                    update: { $setOnInsert: { rpi: rpiBuffer, metadata: item.encryptedMetadata || null } },
-                    upsert: true,
-                },
-            };
-        });
+// Upload session: the report fields up front, keys follow in chunks (ReportSchema bodies, other fields ignored)
+const SessionSchema = Type.Object({
+    reportKey: Type.Optional(Type.String({ pattern: '^[A-Za-z0-9+/]{43}=$' })),
+    status: Type.Optional(Type.Union([Type.Literal('provisional'), Type.Literal('confirmed')])),
+    retentionDays: Type.Optional(Type.Integer({ minimum: 1, maximum: 3650 })),
+    envelope: Type.Optional(Type.String({ maxLength: 128 })),
+    metadataBlob: Type.Optional(Type.String({ maxLength: MAX_METADATA_LENGTH })),
+});
+
+const SessionParamsSchema = Type.Object({
+    id: Type.String({ pattern: '^[a-f0-9]{32}$' }),
+});
+
+const ChunkParamsSchema = Type.Object({
+    id: Type.String({ pattern: '^[a-f0-9]{32}$' }),
+    index: Type.Integer({ minimum: 0, maximum: MAX_SESSION_CHUNKS - 1 }),
+});
+
+const CommitSchema = Type.Object({
+    chunks: Type.Integer({ minimum: 1, maximum: MAX_SESSION_CHUNKS }),
+});
+
+const ReportStatusSchema = Type.Object({
+    reportKey: Type.String({ pattern: '^[A-Za-z0-9+/]{43}=$' }),
+    status: Type.Union([Type.Literal('confirmed'), Type.Literal('revoked')]),
+    signature: Type.String({ maxLength: 128 }),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RouteOptions {
+    /** Signs binary download pages (x-vailix-key-id / x-vailix-signature headers) and streamed pages (trailer) */
+    signer?: PayloadSigner;
+    /** Upper bound for a report's retentionDays, also used when a report omits it (default: 14) */
+    maxRetentionDays?: number;
+    /** Max keys per download page (default: 20000; binary format keeps this at a few MB) */
+    pageSize?: number;
+    metrics?: VailixMetrics;
+    /** Added to every metric recorded by these routes (e.g. tenant) */
+    metricLabels?: Labels;
+    /** Open upload sessions (default: in-memory, single instance only) */
+    sessionStore?: UploadSessionStore;
+    /** How long an upload session stays open (default: 1 hour) */
+    sessionTtlMs?: number;
+    /** Issues and checks download sync tokens (default: a random key, valid until restart) */
+    syncTokens?: SyncTokenIssuer;
+    /** Embedder hooks and webhooks (aggregate events only) */
+    hooks?: HookEmitter;
+    /** Daily report and key quotas per attestation subject (see req.vailixQuotaKey) */
+    quota?: UploadQuota;
+    /** Health-authority verification; report tokens are redeemed when a report or session is accepted */
+    verification?: VerificationService;
+}
+
+export function registerRoutes(server: FastifyInstance, store: KeyStore, options: RouteOptions = {}) {
+    const { metrics, metricLabels = {}, hooks, quota, verification } = options;
+
+    // Binary uploads are decoded (and validated) straight to Buffer RPIs, see upload.ts
+    if (!server.hasContentTypeParser(REPORT_CONTENT_TYPE)) {
+        server.addContentTypeParser(REPORT_CONTENT_TYPE, { parseAs: 'buffer' }, async (_req: FastifyRequest, body: Buffer) =>
+            parseReportUpload(body)
+        );
+    }
+
+    const reportBodySchema = {
+        content: {
+            'application/json': { schema: ReportSchema },
+            [REPORT_CONTENT_TYPE]: { schema: Type.Any() },  // Validated while decoding
+        },
+    };
+
+    // Store one report's keys, from a single upload or a committed session
+    const insertReport = async (keys: SessionKey[], report: {
+        reportKey?: string | null;
+        status?: 'provisional' | 'confirmed';
+        retentionDays?: number | null;
+        metadataBlob?: string | null;
+    }) => {
+        const maxRetentionDays = options.maxRetentionDays ?? 14;
+        const expiresAt = new Date(Date.now() + Math.min(report.retentionDays ?? maxRetentionDays, maxRetentionDays) * DAY_MS);
+
+        // The blob goes in first, so no published key ever points at a missing blob
+        const sharedBlobId = report.metadataBlob ? blobId(report.metadataBlob) : null;
+        if (sharedBlobId) await store.insertBlob({ id: sharedBlobId, data: report.metadataBlob!, expiresAt });
+
+        const result = await store.insertMany(keys.map((key) => ({
+            ...key,
+            reportKey: report.reportKey ?? null,
+            status: report.status ?? 'confirmed',
+            expiresAt,
+            blobId: sharedBlobId,
+        })));
+
+        metrics?.reports.inc(metricLabels);
+        metrics?.keysInserted.inc(metricLabels, result.inserted);
+        metrics?.keysDuplicate.inc(metricLabels, result.duplicates);
+        hooks?.reportAccepted({ keys: result.inserted, duplicates: result.duplicates, status: report.status ?? 'confirmed' });
+    };
+
+    // Convert hex RPIs to Buffers for efficient storage (binary uploads already are)
+    const toSessionKeys = (reports: ReportBody['reports']): SessionKey[] => reports.map((item) => ({
+        rpi: Buffer.isBuffer(item.rpi) ? item.rpi : Buffer.from(item.rpi, 'hex'),
+        metadata: item.encryptedMetadata || null,
+    }));
+
+    // Count an upload against its attestation token's daily quota; false once the reply is sent
+    const withinQuota = async (key: string | null, usage: { reports?: number; keys?: number }, reply: FastifyReply) => {
+        if (!quota || !key || await quota.consume(key, usage)) return true;
+        metrics?.quotaExceeded.inc(metricLabels);
+        reply.header('Retry-After', quota.retryAfter().toString());
+        reply.code(429).send({ error: 'Quota exceeded' });
+        return false;
+    };
+
+    // Spend the upload's report token (checked but not spent by the auth hook); false once the
+    // reply is sent. Decoy sessions carry no real token.
+    const redeemToken = async (req: FastifyRequest, reply: FastifyReply) => {
+        if (!verification || req.vailixChaff) return true;
+        if (await verification.redeemToken(req.headers['x-vailix-report-token'] as string | undefined)) return true;
+        reply.code(403).send({ error: 'Invalid report token' });
+        return false;
+    };
+
+    server.post('/v1/report', { schema: { body: reportBodySchema } }, async (req, reply) => {
+        const { reports, ...report } = req.body as ReportBody;
+
+        // Without a report key nobody could ever confirm it, so provisional requires one
+        if (report.status === 'provisional' && !report.reportKey) {
+            return reply.code(400).send({ error: 'reportKey is required for provisional reports' });
+        }
+        if (!(await redeemToken(req, reply))) return reply;
+        if (!(await withinQuota(req.vailixQuotaKey, { reports: 1, keys: reports.length }, reply))) return reply;
 
-        await KeyModel.bulkWrite(ops, { ordered: false });
+        await insertReport(toSessionKeys(reports), report);
         return { success: true };
     });
 
+    // Upload sessions, for reports over MAX_REPORT_KEYS: begin, put chunks (idempotent, so a client
+    // can resume after checking which chunks arrived), commit. Keys are only published on commit.
+    const sessions = options.sessionStore ?? new MemoryUploadSessionStore();
+    const sessionTtlMs = options.sessionTtlMs ?? 60 * 60 * 1000;
+
+    server.post('/v1/report/sessions', { schema: { body: SessionSchema } }, async (req, reply) => {
+        const { reportKey, status, retentionDays, metadataBlob } = req.body as Omit<ReportBody, 'reports'>;
+        if (status === 'provisional' && !reportKey) {
+            return reply.code(400).send({ error: 'reportKey is required for provisional reports' });
+        }
+        // The report counts when the session opens, its keys on commit
+        if (!(await redeemToken(req, reply))) return reply;
+        if (!(await withinQuota(req.vailixQuotaKey, { reports: 1 }, reply))) return reply;
+
+        const session = {
+            id: newSessionId(),
+            reportKey: reportKey ?? null,
+            status: status ?? 'confirmed',
+            retentionDays: retentionDays ?? null,
+            metadataBlob: metadataBlob ?? null,
+            chaff: req.vailixChaff === true,
+            quotaKey: req.vailixQuotaKey,
+            expiresAt: new Date(Date.now() + sessionTtlMs),
+        };
+        await sessions.create(session);
+        return { sessionId: session.id, expiresAt: session.expiresAt.getTime() };
+    });
+
+    server.get('/v1/report/sessions/:id', { schema: { params: SessionParamsSchema } }, async (req, reply) => {
+        const session = await sessions.get((req.params as { id: string }).id, new Date());
+        if (!session) return reply.code(404).send({ error: 'Session not found' });
+        return { chunks: session.chunks, committed: session.committed, expiresAt: session.expiresAt.getTime() };
+    });
+
+    server.put('/v1/report/sessions/:id/chunks/:index', {
+        schema: { params: ChunkParamsSchema, body: reportBodySchema },
+    }, async (req, reply) => {
+        const { id, index } = req.params as { id: string; index: number };
+        const session = await sessions.get(id, new Date());
+        if (!session) return reply.code(404).send({ error: 'Session not found' });
+        if (session.committed) return reply.code(409).send({ error: 'Session already committed' });
+
+        const { reports } = req.body as ReportBody;
+        await sessions.putChunk(id, index, session.chaff ? [] : toSessionKeys(reports));
+        return { success: true };
+    });
+
+    server.post('/v1/report/sessions/:id/commit', {
+        schema: { params: SessionParamsSchema, body: CommitSchema },
+    }, async (req, reply) => {
+        const { id } = req.params as { id: string };
+        const { chunks } = req.body as { chunks: number };
+        const session = await sessions.get(id, new Date());
+        if (!session) return reply.code(404).send({ error: 'Session not found' });
+        if (session.committed) return { success: true };  // Retried commit
+
+        // Every chunk from 0 to chunks - 1, and nothing beyond
+        const missing = Array.from({ length: chunks }, (_, i) => i).filter((i) => !session.chunks.includes(i));
+        if (missing.length > 0 || session.chunks.length !== chunks) {
+            return reply.code(409).send({ error: 'Chunks missing or unexpected', missing });
+        }
+
+        if (!session.chaff) {
+            const keys = await sessions.readChunks(id);
+            if (!(await withinQuota(session.quotaKey ?? null, { keys: keys.length }, reply))) return reply;
+            await insertReport(keys, session);
+        }
+        await sessions.complete(id);
+        return { success: true };
+    });
+
+    // Report lifecycle: confirm or revoke, proven by the reporter's signature
+    server.post('/v1/report/status', { schema: { body: ReportStatusSchema } }, async (req, reply) => {
+        const { reportKey, status, signature } = req.body as { reportKey: string; status: ReportStatus; signature: string };
+
+        if (!verifyStatusChange(reportKey, status, signature)) {
+            return reply.code(403).send({ error: 'Invalid report signature' });
+        }
+
+        const current = await store.getReportStatus(reportKey);
+        if (!current) return reply.code(404).send({ error: 'Report not found' });
+        if (current === status) return { success: true, status };  // Idempotent retry
+        if (!canTransition(current, status)) {
+            return reply.code(409).send({ error: `Cannot change report from ${current} to ${status}` });
+        }
+
+        await store.setReportStatus(reportKey, status);
+        return { success: true, status };
+    });
+
     const DownloadQuerySchema = Type.Object({
         since: Type.Optional(Type.String({ pattern: '^[0-9]+$' })),
         cursor: Type.Optional(Type.String()),
-        format: Type.Optional(Type.String())
+        format: Type.Optional(Type.String()),
+        lifecycle: Type.Optional(Type.String({ pattern: '^[01]$' })), // 1 = include status trailer and revocations
+        blobs: Type.Optional(Type.String({ pattern: '^[01]$' })), // 1 = include shared metadata blobs
+        token: Type.Optional(Type.String({ maxLength: 2048 })), // Sync token of the last page, replaces since and cursor
+        tokens: Type.Optional(Type.String({ pattern: '^[01]$' })), // 1 = end streamed pages with a sync token
     });
+    const syncTokens = options.syncTokens ?? new SyncTokenIssuer();
+
+    // Shared metadata blobs referenced by a page's keys
+    const loadBlobs = (keys: StoredKey[]) =>
+        store.getBlobs([...new Set(keys.map((k) => k.blobId).filter((id): id is string => !!id))]);
+
+    // Count pages and bytes after serialization (before compression), per format
+    const onSend = async (req: FastifyRequest, reply: FastifyReply, payload: unknown) => {
+        if (metrics && reply.statusCode === 200 && (typeof payload === 'string' || Buffer.isBuffer(payload))) {
+            const { format = 'bin' } = req.query as { format?: string };
+            const labels = { ...metricLabels, format: format === 'gcs' ? 'gcs' : format === 'bin' ? 'bin' : 'json' };
+            metrics.downloadPages.inc(labels);
+            metrics.downloadBytes.inc(labels, Buffer.byteLength(payload));
+        }
+        return payload;
+    };
+
+    server.get('/v1/download', { schema: { querystring: DownloadQuerySchema }, onSend }, async (req, reply) => {
+        const { since = '0', cursor, format = 'bin', lifecycle, blobs, token, tokens } = req.query as {
+            since?: string; cursor?: string; format?: string; lifecycle?: string; blobs?: string; token?: string; tokens?: string;
+        };
+        // Clients that don't ask for blobs (or can't parse them) get the keys' wrapped blob keys only
+        const withBlobs = blobs === '1';
+        // Clients that don't understand statuses never see revocations (they can't retract anyway)
+        const withLifecycle = lifecycle === '1';
+        // Old clients send no version list and keep getting v0
+        const version = negotiateFormatVersion(req.headers[FORMAT_VERSIONS_HEADER]);
+
+        // A sync token carries the position of the page it came with, in place of since and cursor.
+        // A client that now negotiates another format version starts over from its since.
+        const position = token !== undefined
+            ? syncTokens.read(token)
+            : { since: parseInt(since, 10), cursor: cursor ?? null, format: version };
+        if (!position || position.format !== version) return reply.code(400).send({ error: 'Invalid sync token' });
+        const query = {
+            since: new Date(position.since),
+            cursor: position.cursor ?? undefined,
+            limit: options.pageSize ?? 20000,
+            includeRevoked: withLifecycle,
+        };
+
+        // Written straight from the store as batches arrive; the cursor and signature come last
+        if (format === 'stream') {
+            const batches = store.stream(query)[Symbol.asyncIterator]();
+            let first;
+            try {
+                // Read the first batch before replying so an invalid cursor is still a 400
+                first = await batches.next();
+            } catch (error) {
+                if (error instanceof InvalidCursorError) return reply.code(400).send({ error: 'Invalid cursor' });
+                throw error;
+            }
+
+            // The token can only be written once the last batch says where the page ended
+            let end = position.cursor;
+            let served = 0;
+            const tracked = async function* () {
+                for await (const batch of resume(first, batches)) {
+                    end = batch.endCursor ?? batch.nextCursor ?? end;
+                    served += batch.keys.length;
+                    yield batch;
+                }
+            };
+            const endToken = tokens === '1' ? () => syncTokens.issue({ since: position.since, cursor: end, format: version }) : undefined;
 
-    server.get('/v1/download', { schema: { querystring: DownloadQuerySchema } }, async (req, reply) => {
-        const { since = '0', cursor, format = 'bin' } = req.query as { since?: string; cursor?: string; format?: string };
-        const query: any = { createdAt: { $gte: new Date(parseInt(since, 10)) } };
-        if (cursor) query._id = { $gt: cursor };
+            const labels = { ...metricLabels, format: 'stream' };
+            const counted = async function* () {
+                let bytes = 0;
+                const blobLoader = withBlobs ? (ids: string[]) => store.getBlobs(ids) : undefined;
+                for await (const chunk of streamKeys(tracked(), options.signer, blobLoader, endToken, { version, lifecycle: withLifecycle })) {
+                    bytes += chunk.length;
+                    yield chunk;
+                }
+                metrics?.downloadPages.inc(labels);
+                metrics?.downloadBytes.inc(labels, bytes);
+                hooks?.downloadServed({ format: 'stream', keys: served });
+            };
 
-        const keys = await KeyModel.find(query)
-            .sort({ _id: 1 })
-            .limit(20000) // Increase batch size for binary
-            .select('rpi metadata createdAt _id')
-            .lean();
+            reply.header('Content-Type', 'application/x-vailix-stream');
+            reply.header(FORMAT_VERSION_HEADER, version.toString());
+            reply.header('Vary', FORMAT_VERSIONS_HEADER);
+            if (endToken) reply.header(STREAM_SYNC_TOKEN_HEADER, '1');
+            return reply.send(Readable.from(counted()));
+        }
 
-        const hasMore = keys.length >= 20000;
-        const nextCursor = hasMore ? keys[keys.length - 1]._id.toString() : '';
+        let page;
+        try {
+            page = await store.page(query);
+        } catch (error) {
+            if (error instanceof InvalidCursorError) return reply.code(400).send({ error: 'Invalid cursor' });
+            throw error;
+        }
+        const { keys, nextCursor } = page;
+        // Resumes after the page's last key; an empty page leaves the position where it was
+        const syncToken = syncTokens.issue({
+            since: position.since,
+            cursor: page.endCursor ?? nextCursor ?? position.cursor,
+            format: version,
+        });
+        reply.header(SYNC_TOKEN_HEADER, syncToken);
+        reply.header('Vary', FORMAT_VERSIONS_HEADER);
+        hooks?.downloadServed({ format: format === 'gcs' ? 'gcs' : format === 'bin' ? 'bin' : 'json', keys: keys.length });
 
         if (format === 'bin') {
-            const buffer = serializeKeys(keys);
-            reply.header('x-vailix-next-cursor', nextCursor);
+            const pageBlobs = withBlobs && version === 1 ? await loadBlobs(keys) : undefined;
+            const buffer = serializeKeys(keys, { lifecycle: withLifecycle, version, blobs: pageBlobs });
+            if (options.signer) setSignatureHeaders(reply, options.signer, buffer);
+            reply.header(FORMAT_VERSION_HEADER, version.toString());
+            reply.header('x-vailix-next-cursor', nextCursor ?? '');
             reply.header('Content-Type', 'application/octet-stream');
             return buffer;
         }
 
-        // JSON fallback (debug)
+        // Compact filter of the page's RPIs: clients fetch the same page as `bin` only on a candidate hit
+        if (format === 'gcs') {
+            const buffer = serializeFilter(keys);
+            if (options.signer) setSignatureHeaders(reply, options.signer, buffer);
+            reply.header('x-vailix-next-cursor', nextCursor ?? '');
+            reply.header('Content-Type', 'application/x-vailix-gcs');
+            return buffer;
+        }
+
+        // JSON fallback (debug, unsigned)
+        const pageBlobs = withBlobs ? await loadBlobs(keys) : undefined;
         return {
-            keys: keys.map((k: any) => ({
-                rpi: Buffer.from((k.rpi as any).buffer || k.rpi).toString('hex'), // Convert binary back to hex for JSON
+            keys: keys.map((k) => ({
+                rpi: k.rpi.toString('hex'), // Convert binary back to hex for JSON
                 metadata: k.metadata,
+                status: k.status,
                 reportedAt: k.createdAt.getTime(),
+                ...(pageBlobs && k.blobId ? { blobId: k.blobId } : {}),
             })),
-            nextCursor: hasMore ? nextCursor : null,
+            ...(pageBlobs ? { blobs: Object.fromEntries(pageBlobs) } : {}),
+            nextCursor,
+            syncToken,
         };
     });
 }
 
-function serializeKeys(keys: any[]): Buffer {
-    let size = 4; // Count (4 bytes)
+/** Continue an iterator after a batch that was already read */
+async function* resume(first: IteratorResult<KeyPage>, rest: AsyncIterator<KeyPage>): AsyncGenerator<KeyPage> {
+    try {
+        if (first.done) return;
+        yield first.value;
+        for (let next = await rest.next(); !next.done; next = await rest.next()) yield next.value;
+    } finally {
+        await rest.return?.();
+    }
+}
+
+/**
+ * Serve export files from the sink so a CDN can front drop directly.
+ * Files are immutable and cached for a year; the manifest is cached briefly.
+ * Export routes skip the shared-secret check so CDNs don't need to forward it.
+ */
+export function registerExportRoutes(server: FastifyInstance, sink: ExportSink) {
+    const routeConfig = { config: { skipAuth: true } };
+
+    server.get('/v1/exports/index.json', routeConfig, async (_req, reply) => {
+        const data = await sink.read('index.json');
+        if (!data) return reply.code(404).send({ error: 'No exports published yet' });
+
+        reply.header('Cache-Control', 'public, max-age=300');
+        reply.header('Content-Type', 'application/json');
+        return data;
+    });
+
+    const ExportFileParamsSchema = Type.Object({
+        file: Type.String({ pattern: '^[0-9]+\\.bin$' }),
+    });
+
+    server.get('/v1/exports/:file', { ...routeConfig, schema: { params: ExportFileParamsSchema } }, async (req, reply) => {
+        const { file } = req.params as { file: string };
+        const data = await sink.read(file);
+        if (!data) return reply.code(404).send({ error: 'Not found' });
+
+        reply.header('Cache-Control', 'public, max-age=31536000, immutable');
+        reply.header('Content-Type', 'application/octet-stream');
+        return data;
+    });
+}
+
+/**
+ * Transparency log of published batches. Public like exports, so auditors need no app secret.
+ */
+export function registerTransparencyRoutes(server: FastifyInstance, log: TransparencyLog) {
+    const routeConfig = { config: { skipAuth: true } };
+    const count = Type.String({ pattern: '^[0-9]{1,15}$' });
 
-    // First pass: calculate size
-    for (const k of keys) {
-        size += 16; // RPI (16 bytes binary)
-        size += 8;  // Timestamp (8 bytes)
-        size += 2;  // Metadata Length (2 bytes)
-        if (k.metadata) {
-            // k.metadata is string here (from DB)
-            size += Buffer.byteLength(k.metadata);
+    // Proofs for sizes or leaves the log doesn't have are client errors
+    const prove = <T>(reply: FastifyReply, fn: () => T) => {
+        try {
+            return fn();
+        } catch (error) {
+            if (error instanceof LogRangeError) return reply.code(400).send({ error: error.message });
+            throw error;
         }
-    }
+    };
+
+    server.get('/v1/log/head', routeConfig, async () => log.treeHead());
 
-    const buffer = Buffer.allocUnsafe(size);
-    let offset = 0;
+    const EntriesQuerySchema = Type.Object({ start: count, end: Type.Optional(count) });
+    server.get('/v1/log/entries', { ...routeConfig, schema: { querystring: EntriesQuerySchema } }, async (req) => {
+        const { start, end } = req.query as { start: string; end?: string };
+        return { entries: log.getEntries(Number(start), end !== undefined ? Number(end) : undefined) };
+    });
 
-    // Header: Count
-    buffer.writeUInt32BE(keys.length, offset);
-    offset += 4;
+    const InclusionQuerySchema = Type.Object({ index: count, treeSize: count });
+    server.get('/v1/log/proof/inclusion', { ...routeConfig, schema: { querystring: InclusionQuerySchema } }, async (req, reply) => {
+        const index = Number((req.query as { index: string }).index);
+        const treeSize = Number((req.query as { treeSize: string }).treeSize);
+        return prove(reply, () => ({ index, treeSize, proof: log.inclusionProof(index, treeSize) }));
+    });
 
-    for (const k of keys) {
-        // RPI: Mongoose .lean() returns BSON Binary objects, not Node Buffers
-        // Binary objects have a .buffer property containing the raw data
-        const rpiBuf = Buffer.from((k.rpi as any).buffer || k.rpi);
-        rpiBuf.copy(buffer, offset, 0, 16);
-        offset += 16;
+    const ConsistencyQuerySchema = Type.Object({ from: count, to: count });
+    server.get('/v1/log/proof/consistency', { ...routeConfig, schema: { querystring: ConsistencyQuerySchema } }, async (req, reply) => {
+        const from = Number((req.query as { from: string }).from);
+        const to = Number((req.query as { to: string }).to);
+        return prove(reply, () => ({ from, to, proof: log.consistencyProof(from, to) }));
+    });
+
+    // Entries listing downloaded keys, with inclusion proofs. A POST so a sync's keys fit in one request.
+    const LookupSchema = Type.Object({
+        treeSize: Type.Integer({ minimum: 0 }),
+        rpis: Type.Array(Type.String({ pattern: '^[0-9a-f]{32}$' }), { maxItems: MAX_LOG_ENTRIES }),
+    });
+    server.post('/v1/log/lookup', { ...routeConfig, schema: { body: LookupSchema } }, async (req, reply) => {
+        const { treeSize, rpis } = req.body as { treeSize: number; rpis: string[] };
+        return prove(reply, () => log.lookup(rpis, treeSize));
+    });
+}
 
-        // Timestamp
-        const ts = k.createdAt.getTime();
-        buffer.writeDoubleBE(ts, offset);
-        offset += 8;
+/** Proof-of-work challenges for report uploads (app secret required, like the uploads) */
+export function registerChallengeRoutes(server: FastifyInstance, challenges: ChallengeService) {
+    server.get('/v1/challenge', async () => challenges.issue());
+}
 
-        // Metadata
-        const metaStr = k.metadata || '';
-        const metaLen = Buffer.byteLength(metaStr);
+/**
+ * Health-authority verification. Code issuance is authenticated with the issuer key
+ * instead of the app secret (which ships inside every app build).
+ */
+export function registerVerificationRoutes(server: FastifyInstance, verification: VerificationService) {
+    server.post('/v1/verify/codes', { config: { skipAuth: true } }, async (req, reply) => {
+        if (!verification.isIssuer(req.headers['x-vailix-issuer-key'] as string | undefined)) {
+            return reply.code(401).send({ error: 'Unauthorized' });
+        }
+        return verification.issueCode();
+    });
 
-        buffer.writeUInt16BE(metaLen, offset);
-        offset += 2;
+    const VerifySchema = Type.Object({
+        code: Type.String({ pattern: '^[0-9]{8}$' }),
+        // Report envelope (see chaff.ts); decoy exchanges are answered before reaching the route
+        envelope: Type.Optional(Type.String({ maxLength: 128 })),
+    });
 
-        if (metaLen > 0) {
-            buffer.write(metaStr, offset);
-            offset += metaLen;
+    server.post('/v1/verify', { schema: { body: VerifySchema } }, async (req, reply) => {
+        const { code } = req.body as { code: string };
+        const retryAfter = verification.exchangeRetryAfter();
+        if (retryAfter > 0) {
+            reply.header('Retry-After', retryAfter.toString());
+            return reply.code(429).send({ error: 'Too many failed code exchanges' });
         }
-    }
+        const token = await verification.exchangeCode(code);
+        if (!token) return reply.code(400).send({ error: 'Invalid or expired code' });
+        return token;
+    });
+}
+
+/**
+ * Prometheus scrape endpoint. Public by default (no app secret), optionally behind a bearer token.
+ * Nothing here is request-scoped, so there is nothing to log.
+ */
+export function registerMetricsRoute(
+    server: FastifyInstance,
+    metrics: VailixMetrics,
+    { path = '/metrics', token }: { path?: string; token?: string } = {}
+) {
+    server.get(path, { config: { skipAuth: true } }, async (req, reply) => {
+        if (token) {
+            const provided = Buffer.from(req.headers.authorization ?? '');
+            const expected = Buffer.from(`Bearer ${token}`);
+            if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+                return reply.code(401).send({ error: 'Unauthorized' });
+            }
+        }
+
+        reply.header('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+        return metrics.render();
+    });
+}
+
+/**
+ * Probes for orchestrators: /health/live answers while the process runs, /health/ready only
+ * while every store can serve requests and the server isn't shutting down. Public, not rate
+ * limited; failures are logged rather than returned.
+ */
+export function registerHealthRoutes(server: FastifyInstance, stores: KeyStore[]) {
+    const routeConfig = { config: { skipAuth: true, rateLimit: false } };
+    let closing = false;
+    server.addHook('preClose', async () => {
+        closing = true;
+    });
+
+    server.get('/health/live', routeConfig, async () => ({ status: 'ok' }));
+
+    server.get('/health/ready', routeConfig, async (req, reply) => {
+        if (closing) return reply.code(503).send({ status: 'closing' });
+        try {
+            await Promise.all(stores.map((store) => store.checkReady?.()));
+        } catch (error) {
+            req.log.error(error, 'Vailix readiness check failed');
+            return reply.code(503).send({ status: 'unavailable' });
+        }
+        return { status: 'ok' };
+    });
+}
 
-    return buffer;
+function setSignatureHeaders(reply: FastifyReply, signer: PayloadSigner, body: Buffer) {
+    const { keyId, signature } = signer.sign(body);
+    reply.header('x-vailix-key-id', keyId);
+    reply.header('x-vailix-signature', signature);
 }
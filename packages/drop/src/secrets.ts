@@ -0,0 +1,85 @@
+import { timingSafeEqual } from 'crypto';
+
+export const SECRET_ID_HEADER = 'x-vailix-secret-id';
+
+/**
+ * One accepted app secret. Rotation: add the new secret with a notBefore, ship app versions
+ * that send it, then give the old one a notAfter once old versions have aged out.
+ */
+export interface AppSecret {
+    id: string;  // Reported in metrics and sent by the SDK as x-vailix-secret-id
+    secret: string;
+    notBefore?: Date;  // Not accepted before this time
+    notAfter?: Date;  // Not accepted after this time
+}
+
+/** The set of app secrets accepted by one app or tenant */
+export class SecretRing {
+    private secrets: AppSecret[];
+
+    /** A plain string is a single secret with id 'default' */
+    constructor(secret: string | AppSecret[]) {
+        this.secrets = typeof secret === 'string' ? [{ id: 'default', secret }] : secret;
+
+        if (this.secrets.length === 0) throw new Error('secret is required');
+        const ids = new Set<string>();
+        for (const { id, secret, notBefore, notAfter } of this.secrets) {
+            if (!id || !secret) throw new Error('Each secret needs an id and a secret');
+            if ([notBefore, notAfter].some((date) => date && Number.isNaN(date.getTime()))) {
+                throw new Error(`Invalid notBefore or notAfter for secret ${id}`);
+            }
+            if (ids.has(id)) throw new Error(`Duplicate secret id: ${id}`);
+            ids.add(id);
+        }
+    }
+
+    /**
+     * Returns the id of the active secret matching `provided`, or null.
+     * With a secret ID (x-vailix-secret-id) only that secret is checked.
+     */
+    match(provided: string | undefined, secretId?: string, now: Date = new Date()): string | null {
+        if (!provided) return null;
+
+        for (const candidate of this.secrets) {
+            if (secretId && candidate.id !== secretId) continue;
+            if (!isActive(candidate, now)) continue;
+            // Use timing-safe comparison to prevent timing attacks
+            if (provided.length === candidate.secret.length &&
+                timingSafeEqual(Buffer.from(provided), Buffer.from(candidate.secret))) {
+                return candidate.id;
+            }
+        }
+        return null;
+    }
+
+    /** The secret with this id (e.g. the one returned by match()) */
+    get(id: string): string | undefined {
+        return this.secrets.find((candidate) => candidate.id === id)?.secret;
+    }
+}
+
+/** Parse a JSON list of secrets with ISO date strings (e.g. from an env var) */
+export function parseAppSecrets(json: string): AppSecret[] {
+    const list = JSON.parse(json) as Array<{ id: string; secret: string; notBefore?: string; notAfter?: string }>;
+    if (!Array.isArray(list)) throw new Error('Expected a JSON array of secrets');
+    return list.map(({ id, secret, notBefore, notAfter }) => ({
+        id,
+        secret,
+        notBefore: parseDate(notBefore, `${id}.notBefore`),
+        notAfter: parseDate(notAfter, `${id}.notAfter`),
+    }));
+}
+
+// An Invalid Date compares false both ways, so a typo would leave the secret active forever
+function parseDate(value: string | undefined, name: string): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) throw new Error(`${name}: Expected an ISO date, got '${value}'`);
+    return date;
+}
+
+function isActive(secret: AppSecret, now: Date): boolean {
+    if (secret.notBefore && now < secret.notBefore) return false;
+    if (secret.notAfter && now > secret.notAfter) return false;
+    return true;
+}
@@ -0,0 +1,342 @@
+import { createHash } from 'crypto';
+import type { KeyPage, ReportStatus, StoredKey } from './store';
+import type { PayloadSigner } from './signing';
+
+// Binary download format v0 (big-endian), for clients that don't announce format versions:
+//   [count: u32] then per key: [rpi: 16 bytes][createdAt ms: f64][metaLen: u16][metadata: metaLen bytes UTF-8]
+// Lifecycle trailer (optional, ignored by parsers that stop after `count` keys):
+//   [statusCount: u32] then per non-confirmed key: [keyIndex: u32][status: u8]
+//
+// Binary download format v1 (big-endian), self-describing:
+//   [magic: "VLXK"][version: u8][flags: u8][count: u32] then per key:
+//   [rpi: 16 bytes][createdAt ms: u48][status: u8 if FORMAT_FLAGS.status][metaLen: u16][metadata]
+// Optional fields are announced in `flags`; parsers reject flags they don't know rather than
+// misreading the layout. A v0 count can never equal the magic (pages are capped at 100k keys).
+// New fields get a flag; anything a flag can't express gets a new version.
+// FORMAT_FLAGS.blobs (shared metadata) adds [blob: u16] after each key's metadata, an index into a
+// table after the last key (0xffff = none): [blobCount: u16] then per blob [len: u16][data UTF-8].
+
+// Streaming download format (format=stream, big-endian). Frames are written as keys are read,
+// so the count and next cursor come last. It follows the negotiated binary format version:
+// v1 streams open with the v1 header minus the count, [magic: "VLXK"][version: u8][flags: u8],
+// and their key frames use v1's fields: [createdAt ms: u48], and [status: u8] only with
+// FORMAT_FLAGS.status. FORMAT_FLAGS.blobs and FORMAT_FLAGS.syncToken announce the blob frames and
+// the end frame's sync token below. v0 streams have no header and use these key frames:
+//   key frame: [0x01][rpi: 16 bytes][createdAt ms: f64][status: u8][metaLen: u16][metadata: metaLen bytes UTF-8]
+//   end frame: [0x00][count: u32][cursorLen: u16][next cursor: cursorLen bytes UTF-8]
+// With shared metadata (blobs=1), a blob frame precedes the first key that references it, and such
+// keys use the shared key frame (a key frame followed by the blob's index):
+//   blob frame: [0x02][blob: u16][len: u16][data UTF-8]
+//   shared key frame: [0x03][rpi][createdAt][status][metaLen][metadata][blob: u16]
+// Clients that ask for sync tokens (tokens=1) get the page's token at the end of the end frame:
+//   end frame: [0x00][count: u32][cursorLen: u16][next cursor][tokenLen: u16][sync token UTF-8]
+//   signature: [keyIdLen: u8][keyId UTF-8][sigLen: u8][signature]  (both lengths 0 when unsigned)
+// The signature is Ed25519 over STREAM_SIGNATURE_CONTEXT + SHA-256(every byte up to the end frame's
+// end), so it covers the cursor and token, and a stream cut short by a failed store read never verifies.
+
+/** Domain separation: a stream digest signature can't be replayed as a signature over a page */
+export const STREAM_SIGNATURE_CONTEXT = 'vailix-download-stream:v1:';
+
+const FRAME_END = 0x00;
+const FRAME_KEY = 0x01;
+const FRAME_BLOB = 0x02;
+const FRAME_SHARED_KEY = 0x03;
+
+/** Blob index meaning "no shared metadata" */
+const NO_BLOB = 0xffff;
+
+/** Report status codes on the wire (the v0 lifecycle trailer omits confirmed keys) */
+export const STATUS_CODES: Record<ReportStatus, number> = {
+    confirmed: 0,
+    provisional: 1,
+    revoked: 2,
+};
+
+export const FORMAT_MAGIC = Buffer.from('VLXK', 'ascii');
+
+/** Versions of the binary format this server can write, best first */
+export const FORMAT_VERSIONS = [1, 0] as const;
+export type FormatVersion = typeof FORMAT_VERSIONS[number];
+
+/** Optional per-key fields in format v1 */
+export const FORMAT_FLAGS = {
+    status: 0x01,
+    blobs: 0x02,
+    syncToken: 0x04,  // Streams only: the end frame ends with a sync token
+} as const;
+
+/** Request header listing the versions a client can parse, e.g. `1,0` (absent: v0 only) */
+export const FORMAT_VERSIONS_HEADER = 'x-vailix-format-versions';
+/** Response header with the version actually sent */
+export const FORMAT_VERSION_HEADER = 'x-vailix-format-version';
+
+/** Pick the best version both sides support; v0 if the client sent nothing usable */
+export function negotiateFormatVersion(header: string | string[] | undefined): FormatVersion {
+    const offered = new Set(
+        [header ?? ''].flat().join(',').split(',').map((v) => v.trim()).filter((v) => /^[0-9]+$/.test(v)).map(Number)
+    );
+    return FORMAT_VERSIONS.find((version) => offered.has(version)) ?? 0;
+}
+
+export interface SerializeOptions {
+    /** Include report status (v0: lifecycle trailer, v1: per-key status field) */
+    lifecycle?: boolean;
+    /** Binary format version (default: 0) */
+    version?: FormatVersion;
+    /** Shared metadata blobs referenced by the keys, by id (v1 only, sets FORMAT_FLAGS.blobs) */
+    blobs?: Map<string, string>;
+}
+
+export function serializeKeys(keys: StoredKey[], options: SerializeOptions = {}): Buffer {
+    if (options.version === 1) {
+        const flags = (options.lifecycle ? FORMAT_FLAGS.status : 0) | (options.blobs ? FORMAT_FLAGS.blobs : 0);
+        return serializeV1(keys, flags, options.blobs);
+    }
+
+    let size = 4; // Count (4 bytes)
+
+    // First pass: calculate size
+    for (const k of keys) {
+        size += 16; // RPI (16 bytes binary)
+        size += 8;  // Timestamp (8 bytes)
+        size += 2;  // Metadata Length (2 bytes)
+        if (k.metadata) {
+            // k.metadata is string here (from DB)
+            size += Buffer.byteLength(k.metadata);
+        }
+    }
+
+    const flagged = options.lifecycle ? keys.filter((k) => k.status !== 'confirmed').length : 0;
+    if (options.lifecycle) size += 4 + flagged * 5;
+
+    const buffer = Buffer.allocUnsafe(size);
+    let offset = 0;
+
+    // Header: Count
+    buffer.writeUInt32BE(keys.length, offset);
+    offset += 4;
+
+    for (const k of keys) {
+        // RPI (stores normalize to Node Buffers)
+        k.rpi.copy(buffer, offset, 0, 16);
+        offset += 16;
+
+        // Timestamp
+        const ts = k.createdAt.getTime();
+        buffer.writeDoubleBE(ts, offset);
+        offset += 8;
+
+        // Metadata
+        const metaStr = k.metadata || '';
+        const metaLen = Buffer.byteLength(metaStr);
+
+        buffer.writeUInt16BE(metaLen, offset);
+        offset += 2;
+
+        if (metaLen > 0) {
+            buffer.write(metaStr, offset);
+            offset += metaLen;
+        }
+    }
+
+    if (options.lifecycle) {
+        buffer.writeUInt32BE(flagged, offset);
+        offset += 4;
+
+        keys.forEach((k, index) => {
+            if (k.status === 'confirmed') return;
+            buffer.writeUInt32BE(index, offset);
+            buffer.writeUInt8(STATUS_CODES[k.status], offset + 4);
+            offset += 5;
+        });
+    }
+
+    return buffer;
+}
+
+function serializeV1(keys: StoredKey[], flags: number, blobs?: Map<string, string>): Buffer {
+    const withStatus = (flags & FORMAT_FLAGS.status) !== 0;
+    const table = blobs ? new BlobTable(blobs) : null;
+    let size = FORMAT_MAGIC.length + 6;
+    for (const k of keys) size += 24 + (withStatus ? 1 : 0) + (k.metadata ? Buffer.byteLength(k.metadata) : 0);
+    if (table) {
+        for (const k of keys) table.index(k.blobId);
+        size += keys.length * 2 + 2 + table.entries.reduce((total, data) => total + 2 + data.length, 0);
+    }
+
+    const buffer = Buffer.allocUnsafe(size);
+    FORMAT_MAGIC.copy(buffer, 0);
+    let offset = FORMAT_MAGIC.length;
+    buffer.writeUInt8(1, offset);
+    buffer.writeUInt8(flags, offset + 1);
+    buffer.writeUInt32BE(keys.length, offset + 2);
+    offset += 6;
+
+    for (const k of keys) {
+        k.rpi.copy(buffer, offset, 0, 16);
+        buffer.writeUIntBE(k.createdAt.getTime(), offset + 16, 6);
+        offset += 22;
+
+        if (withStatus) buffer.writeUInt8(STATUS_CODES[k.status], offset++);
+
+        const metaLen = k.metadata ? buffer.write(k.metadata, offset + 2) : 0;
+        buffer.writeUInt16BE(metaLen, offset);
+        offset += 2 + metaLen;
+
+        if (table) {
+            buffer.writeUInt16BE(table.index(k.blobId), offset);
+            offset += 2;
+        }
+    }
+
+    if (table) {
+        buffer.writeUInt16BE(table.entries.length, offset);
+        offset += 2;
+        for (const data of table.entries) {
+            buffer.writeUInt16BE(data.length, offset);
+            data.copy(buffer, offset + 2);
+            offset += 2 + data.length;
+        }
+    }
+
+    return buffer;
+}
+
+/** Numbers a page's blobs in order of first reference */
+class BlobTable {
+    readonly entries: Buffer[] = [];
+    private indices = new Map<string, number>();
+
+    constructor(private blobs: Map<string, string>) { }
+
+    /** Index of the key's blob (NO_BLOB if it has none or the blob has expired) */
+    index(blobId: string | null | undefined): number {
+        if (!blobId) return NO_BLOB;
+        const known = this.indices.get(blobId);
+        if (known !== undefined) return known;
+
+        const data = this.blobs.get(blobId);
+        if (data === undefined || this.entries.length === NO_BLOB) return NO_BLOB;
+        this.indices.set(blobId, this.entries.length);
+        this.entries.push(Buffer.from(data, 'utf8'));
+        return this.entries.length - 1;
+    }
+
+    has(blobId: string): boolean {
+        return this.indices.has(blobId);
+    }
+}
+
+/**
+ * Serialize keys in the streaming format, one chunk per store batch.
+ * Status is part of every key frame; revoked keys are only present if the query included them.
+ * With `loadBlobs`, each batch's new shared metadata blobs are loaded and sent ahead of its keys.
+ * With `syncToken`, the token it returns once every batch is read ends the end frame.
+ * v0 streams always carry status; v1 streams only with `lifecycle`, like v1 pages.
+ */
+export async function* streamKeys(
+    batches: AsyncIterable<KeyPage>,
+    signer?: PayloadSigner,
+    loadBlobs?: (ids: string[]) => Promise<Map<string, string>>,
+    syncToken?: () => string,
+    { version = 0, lifecycle = false }: Pick<SerializeOptions, 'version' | 'lifecycle'> = {}
+): AsyncGenerator<Buffer> {
+    const digest = createHash('sha256');
+    const blobs = new Map<string, string>();
+    const table = loadBlobs ? new BlobTable(blobs) : null;
+    const layout: KeyFrameLayout = { version, status: version === 0 || lifecycle };
+    let count = 0;
+    let nextCursor: string | null = null;
+
+    if (version === 1) {
+        const flags = (lifecycle ? FORMAT_FLAGS.status : 0) | (table ? FORMAT_FLAGS.blobs : 0) | (syncToken ? FORMAT_FLAGS.syncToken : 0);
+        const header = Buffer.concat([FORMAT_MAGIC, Buffer.from([1, flags])]);
+        digest.update(header);
+        yield header;
+    }
+
+    for await (const batch of batches) {
+        const frames: Buffer[] = [];
+        if (table && loadBlobs) {
+            const ids = [...new Set(batch.keys.map((k) => k.blobId).filter((id): id is string => !!id && !table.has(id)))];
+            if (ids.length > 0) for (const [id, data] of await loadBlobs(ids)) blobs.set(id, data);
+        }
+        for (const k of batch.keys) {
+            if (!table) {
+                frames.push(keyFrame(k, layout));
+                continue;
+            }
+            const known = table.entries.length;
+            const blob = table.index(k.blobId);
+            if (table.entries.length > known) frames.push(blobFrame(blob, table.entries[blob]));
+            frames.push(keyFrame(k, layout, blob));
+        }
+        if (frames.length > 0) {
+            const chunk = Buffer.concat(frames);
+            digest.update(chunk);
+            yield chunk;
+        }
+        count += batch.keys.length;
+        nextCursor = batch.nextCursor;
+    }
+
+    const cursor = Buffer.from(nextCursor ?? '', 'utf8');
+    const token = syncToken ? Buffer.from(syncToken(), 'utf8') : null;
+    const end = Buffer.alloc(7 + cursor.length + (token ? 2 + token.length : 0));
+    end.writeUInt8(FRAME_END, 0);
+    end.writeUInt32BE(count, 1);
+    end.writeUInt16BE(cursor.length, 5);
+    cursor.copy(end, 7);
+    if (token) {
+        end.writeUInt16BE(token.length, 7 + cursor.length);
+        token.copy(end, 9 + cursor.length);
+    }
+    digest.update(end);
+
+    let trailer = Buffer.from([0, 0]);
+    if (signer) {
+        const message = Buffer.concat([Buffer.from(STREAM_SIGNATURE_CONTEXT, 'utf8'), digest.digest()]);
+        const { keyId, signature } = signer.sign(message);
+        const id = Buffer.from(keyId, 'utf8');
+        const sig = Buffer.from(signature, 'base64');
+        trailer = Buffer.concat([Buffer.from([id.length]), id, Buffer.from([sig.length]), sig]);
+    }
+    yield Buffer.concat([end, trailer]);
+}
+
+/** Key frame fields of a stream: v0 has an f64 timestamp and always a status, v1 a u48 and a flagged status */
+interface KeyFrameLayout {
+    version: FormatVersion;
+    status: boolean;
+}
+
+function keyFrame(k: StoredKey, layout: KeyFrameLayout, blob: number = NO_BLOB): Buffer {
+    const metaLen = k.metadata ? Buffer.byteLength(k.metadata) : 0;
+    const shared = blob !== NO_BLOB;
+    const header = 1 + 16 + (layout.version === 1 ? 6 : 8) + (layout.status ? 1 : 0) + 2;
+    const frame = Buffer.allocUnsafe(header + metaLen + (shared ? 2 : 0));
+    frame.writeUInt8(shared ? FRAME_SHARED_KEY : FRAME_KEY, 0);
+    k.rpi.copy(frame, 1, 0, 16);
+    let offset = 17;
+    if (layout.version === 1) {
+        frame.writeUIntBE(k.createdAt.getTime(), offset, 6);
+        offset += 6;
+    } else {
+        frame.writeDoubleBE(k.createdAt.getTime(), offset);
+        offset += 8;
+    }
+    if (layout.status) frame.writeUInt8(STATUS_CODES[k.status], offset++);
+    frame.writeUInt16BE(metaLen, offset);
+    if (metaLen > 0) frame.write(k.metadata!, header);
+    if (shared) frame.writeUInt16BE(blob, header + metaLen);
+    return frame;
+}
+
+function blobFrame(blob: number, data: Buffer): Buffer {
+    const frame = Buffer.allocUnsafe(5 + data.length);
+    frame.writeUInt8(FRAME_BLOB, 0);
+    frame.writeUInt16BE(blob, 1);
+    frame.writeUInt16BE(data.length, 3);
+    data.copy(frame, 5);
+    return frame;
+}
@@ -0,0 +1,97 @@
+import { randomBytes } from 'crypto';
+
+/** Chunks per upload session (at MAX_REPORT_KEYS each: 96,000 keys) */
+export const MAX_SESSION_CHUNKS = 64;
+
+/** A key received in a session chunk, held until commit */
+export interface SessionKey {
+    rpi: Buffer;
+    metadata: string | null;
+}
+
+/** Report fields given when the session begins; chunks only carry keys */
+export interface NewUploadSession {
+    id: string;
+    reportKey: string | null;
+    status: 'provisional' | 'confirmed';
+    retentionDays: number | null;
+    /** Shared metadata blob of the report (see ReportBody.metadataBlob) */
+    metadataBlob: string | null;
+    /** Decoy session: chunks are acknowledged but their keys are never kept */
+    chaff: boolean;
+    /** Quota key of the attestation token that opened the session; its keys count on commit */
+    quotaKey?: string | null;
+    expiresAt: Date;
+}
+
+export interface UploadSession extends NewUploadSession {
+    /** Indices of the chunks received so far, ascending */
+    chunks: number[];
+    committed: boolean;
+}
+
+/**
+ * Holds open upload sessions and their chunks until commit. Committed sessions are kept
+ * (without keys) until they expire, so a commit retried after a lost response still succeeds.
+ */
+export interface UploadSessionStore {
+    create(session: NewUploadSession): Promise<void>;
+    /** The session, or null if it never existed or has expired */
+    get(id: string, now: Date): Promise<UploadSession | null>;
+    /** Store one chunk; a retried chunk replaces the earlier copy */
+    putChunk(id: string, index: number, keys: SessionKey[]): Promise<void>;
+    /** Every received key, in chunk order */
+    readChunks(id: string): Promise<SessionKey[]>;
+    /** Drop the chunks and mark the session committed */
+    complete(id: string): Promise<void>;
+}
+
+/**
+ * In-process session store. Sessions are lost on restart and not shared between instances,
+ * so multi-instance deployments need sticky routing or a shared UploadSessionStore.
+ */
+export class MemoryUploadSessionStore implements UploadSessionStore {
+    private sessions = new Map<string, { session: NewUploadSession; chunks: Map<number, SessionKey[]>; committed: boolean }>();
+
+    async create(session: NewUploadSession): Promise<void> {
+        this.prune(Date.now());
+        this.sessions.set(session.id, { session, chunks: new Map(), committed: false });
+    }
+
+    async get(id: string, now: Date): Promise<UploadSession | null> {
+        const entry = this.sessions.get(id);
+        if (!entry || entry.session.expiresAt <= now) return null;
+        return {
+            ...entry.session,
+            chunks: [...entry.chunks.keys()].sort((a, b) => a - b),
+            committed: entry.committed,
+        };
+    }
+
+    async putChunk(id: string, index: number, keys: SessionKey[]): Promise<void> {
+        this.sessions.get(id)?.chunks.set(index, keys);
+    }
+
+    async readChunks(id: string): Promise<SessionKey[]> {
+        const chunks = this.sessions.get(id)?.chunks ?? new Map<number, SessionKey[]>();
+        return [...chunks.entries()].sort(([a], [b]) => a - b).flatMap(([, keys]) => keys);
+    }
+
+    async complete(id: string): Promise<void> {
+        const entry = this.sessions.get(id);
+        if (!entry) return;
+        // Keep the received indices so a retried status check still shows every chunk
+        entry.chunks = new Map([...entry.chunks.keys()].map((index) => [index, []]));
+        entry.committed = true;
+    }
+
+    private prune(now: number) {
+        for (const [id, { session }] of this.sessions) {
+            if (session.expiresAt.getTime() <= now) this.sessions.delete(id);
+        }
+    }
+}
+
+export function newSessionId(): string {
+    return randomBytes(16).toString('hex');
+}
@@ -0,0 +1,63 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, sign, KeyObject } from 'crypto';
+
+/**
+ * Ed25519 key used to sign download pages and export files.
+ * Clients pin the matching public key under the same keyId (VailixConfig.serverPublicKeys),
+ * so rotating means: ship the new public key in the app, then switch the server's keyId.
+ */
+export interface SigningKey {
+    keyId: string;
+    /** PKCS#8 PEM, base64-encoded PKCS#8 DER, or a KeyObject */
+    privateKey: string | KeyObject;
+}
+
+export interface PayloadSignature {
+    keyId: string;
+    signature: string;  // base64
+}
+
+export class PayloadSigner {
+    private privateKey: KeyObject;
+
+    constructor(private key: SigningKey) {
+        this.privateKey = toPrivateKey(key.privateKey);
+        if (this.privateKey.asymmetricKeyType !== 'ed25519') {
+            throw new Error(`Signing key ${key.keyId} must be Ed25519`);
+        }
+    }
+
+    get keyId(): string {
+        return this.key.keyId;
+    }
+
+    /** Sign the exact bytes sent to clients */
+    sign(data: Buffer): PayloadSignature {
+        return { keyId: this.key.keyId, signature: sign(null, data, this.privateKey).toString('base64') };
+    }
+
+    /** Raw 32-byte public key (base64), the format expected by VailixConfig.serverPublicKeys */
+    publicKey(): string {
+        return rawPublicKey(this.privateKey);
+    }
+}
+
+/** Generate a new Ed25519 signing key pair (privateKey: PKCS#8 PEM, publicKey: raw base64) */
+export function generateSigningKey(): { privateKey: string; publicKey: string } {
+    const { privateKey } = generateKeyPairSync('ed25519');
+    return {
+        privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }).toString(),
+        publicKey: rawPublicKey(privateKey),
+    };
+}
+
+function toPrivateKey(key: string | KeyObject): KeyObject {
+    if (typeof key !== 'string') return key;
+    if (key.includes('-----BEGIN')) return createPrivateKey(key);
+    // Env-var friendly: PKCS#8 DER as a single base64 line
+    return createPrivateKey({ key: Buffer.from(key, 'base64'), format: 'der', type: 'pkcs8' });
+}
+
+function rawPublicKey(privateKey: KeyObject): string {
+    const jwk = createPublicKey(privateKey).export({ format: 'jwk' });
+    return Buffer.from(jwk.x!, 'base64url').toString('base64');
+}
@@ -0,0 +1,43 @@
+import { MongoKeyStore } from './mongo';
+import { PostgresKeyStore } from './postgres';
+import { SqliteKeyStore } from './sqlite';
+import { MemoryKeyStore } from './memory';
+import { InstrumentedKeyStore } from './instrumented';
+import { StagedKeyStore } from './staged';
+import { LoggedKeyStore } from './logged';
+import type { KeyStore, KeyStoreConfig } from './types';
+
+/**
+ * Create one of the built-in key stores from a config object.
+ * Driver packages (pg, better-sqlite3) are only loaded when the store connects.
+ */
+export function createKeyStore(config: KeyStoreConfig, retentionDays: number = 14): KeyStore {
+    switch (config.type) {
+        case 'mongo':
+            return new MongoKeyStore(config.uri, retentionDays, config.collection, config.ttl);
+        case 'postgres':
+            return new PostgresKeyStore(config.connectionString, retentionDays, config.table);
+        case 'sqlite':
+            return new SqliteKeyStore(config.filename, retentionDays, config.table);
+        case 'memory':
+            return new MemoryKeyStore(retentionDays);
+        default:
+            throw new Error(`Unknown key store type: ${(config as { type: string }).type}`);
+    }
+}
+
+export { MongoKeyStore, PostgresKeyStore, SqliteKeyStore, MemoryKeyStore, InstrumentedKeyStore, StagedKeyStore, LoggedKeyStore };
+export { PUBLICATION_BUCKET_MS } from './staged';
+export type { PublicationOptions } from './staged';
+export { InvalidCursorError, pagedStream, STREAM_BATCH_SIZE } from './types';
+export type {
+    KeyStore,
+    KeyStoreConfig,
+    StoredKey,
+    NewKey,
+    InsertResult,
+    PageQuery,
+    KeyPage,
+    ReportStatus,
+    MetadataBlob,
+} from './types';
@@ -0,0 +1,77 @@
+import type { Histogram, Labels } from '../metrics';
+import type { InsertResult, KeyPage, KeyStore, MetadataBlob, NewKey, PageQuery, ReportStatus } from './types';
+
+/** Wraps any KeyStore and records the latency of each operation */
+export class InstrumentedKeyStore implements KeyStore {
+    constructor(
+        private inner: KeyStore,
+        private duration: Histogram,
+        private labels: Labels = {}
+    ) { }
+
+    connect(): Promise<void> {
+        return this.inner.connect();
+    }
+
+    close(): Promise<void> {
+        return this.inner.close();
+    }
+
+    async checkReady(): Promise<void> {
+        await this.inner.checkReady?.();
+    }
+
+    insertMany(keys: NewKey[]): Promise<InsertResult> {
+        return this.time('insertMany', () => this.inner.insertMany(keys));
+    }
+
+    page(query: PageQuery): Promise<KeyPage> {
+        return this.time('page', () => this.inner.page(query));
+    }
+
+    /** Times each batch read rather than the whole stream, which also waits on the client */
+    async *stream(query: PageQuery, batchSize?: number): AsyncIterable<KeyPage> {
+        const batches = this.inner.stream(query, batchSize)[Symbol.asyncIterator]();
+        try {
+            for (;;) {
+                const result = await this.time('stream', () => batches.next());
+                if (result.done) return;
+                yield result.value;
+            }
+        } finally {
+            await batches.return?.();
+        }
+    }
+
+    getReportStatus(reportKey: string): Promise<ReportStatus | null> {
+        return this.time('getReportStatus', () => this.inner.getReportStatus(reportKey));
+    }
+
+    setReportStatus(reportKey: string, status: ReportStatus, at?: Date): Promise<number> {
+        return this.time('setReportStatus', () => this.inner.setReportStatus(reportKey, status, at));
+    }
+
+    purgeExpired(now?: Date): Promise<number> {
+        return this.time('purgeExpired', () => this.inner.purgeExpired(now));
+    }
+
+    deleteRange(since: Date, until: Date): Promise<number> {
+        return this.time('deleteRange', () => this.inner.deleteRange(since, until));
+    }
+
+    count(): Promise<number> {
+        return this.time('count', () => this.inner.count());
+    }
+
+    insertBlob(blob: MetadataBlob): Promise<void> {
+        return this.time('insertBlob', () => this.inner.insertBlob(blob));
+    }
+
+    getBlobs(ids: string[]): Promise<Map<string, string>> {
+        return this.time('getBlobs', () => this.inner.getBlobs(ids));
+    }
+
+    private time<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+        return this.duration.time({ ...this.labels, operation }, fn);
+    }
+}
@@ -0,0 +1,71 @@
+import type { TransparencyLog } from '../transparency';
+import type { InsertResult, KeyPage, KeyStore, MetadataBlob, NewKey, PageQuery, ReportStatus } from './types';
+
+/**
+ * Wraps any KeyStore and appends every batch it publishes to the transparency log.
+ * Sits below StagedKeyStore, so with publication delay a whole publication is one entry and
+ * staged keys aren't revealed early. Status changes aren't logged, only published keys.
+ */
+export class LoggedKeyStore implements KeyStore {
+    constructor(private inner: KeyStore, private log: TransparencyLog) { }
+
+    connect(): Promise<void> {
+        return this.inner.connect();
+    }
+
+    close(): Promise<void> {
+        return this.inner.close();
+    }
+
+    async checkReady(): Promise<void> {
+        await this.inner.checkReady?.();
+    }
+
+    /**
+     * Keys are logged before they are stored, so none is ever served without an entry. If the
+     * append fails, nothing is stored and the caller retries; if the insert fails, the entry lists
+     * keys that aren't served yet, and the retry finds them logged. RPIs the log already lists
+     * are left out; listing one twice (concurrent retries) is harmless where leaving one out is not.
+     */
+    async insertMany(keys: NewKey[]): Promise<InsertResult> {
+        const unlogged = keys.filter((key) => !this.log.has(key.rpi));
+        if (unlogged.length > 0) await this.log.append(unlogged.map((key) => key.rpi));
+        return this.inner.insertMany(keys);
+    }
+
+    page(query: PageQuery): Promise<KeyPage> {
+        return this.inner.page(query);
+    }
+
+    stream(query: PageQuery, batchSize?: number): AsyncIterable<KeyPage> {
+        return this.inner.stream(query, batchSize);
+    }
+
+    getReportStatus(reportKey: string): Promise<ReportStatus | null> {
+        return this.inner.getReportStatus(reportKey);
+    }
+
+    setReportStatus(reportKey: string, status: ReportStatus, at?: Date): Promise<number> {
+        return this.inner.setReportStatus(reportKey, status, at);
+    }
+
+    purgeExpired(now?: Date): Promise<number> {
+        return this.inner.purgeExpired(now);
+    }
+
+    deleteRange(since: Date, until: Date): Promise<number> {
+        return this.inner.deleteRange(since, until);
+    }
+
+    count(): Promise<number> {
+        return this.inner.count();
+    }
+
+    insertBlob(blob: MetadataBlob): Promise<void> {
+        return this.inner.insertBlob(blob);
+    }
+
+    getBlobs(ids: string[]): Promise<Map<string, string>> {
+        return this.inner.getBlobs(ids);
+    }
+}
@@ -0,0 +1,153 @@
+import { InvalidCursorError, pagedStream } from './types';
+import type { InsertResult, KeyPage, KeyStore, MetadataBlob, NewKey, PageQuery, ReportStatus, StoredKey } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface MemoryEntry extends StoredKey {
+    seq: number;
+    reportKey: string | null;
+    expiresAt: Date;
+    blobId: string | null;
+}
+
+/**
+ * Zero-dependency store for tests and local development.
+ * Data lives in process memory and is lost on restart.
+ */
+export class MemoryKeyStore implements KeyStore {
+    private entries: MemoryEntry[] = [];   // Insertion order (seq ascending)
+    private byRpi = new Set<string>();
+    private blobs = new Map<string, MetadataBlob>();
+    private nextSeq = 1;
+
+    constructor(private retentionDays: number = 14) { }
+
+    async connect(): Promise<void> { }
+
+    async close(): Promise<void> { }
+
+    async insertMany(keys: NewKey[]): Promise<InsertResult> {
+        let inserted = 0;
+        const createdAt = new Date();
+        const defaultExpiresAt = new Date(createdAt.getTime() + this.retentionDays * DAY_MS);
+
+        for (const key of keys) {
+            const hex = key.rpi.toString('hex');
+            if (this.byRpi.has(hex)) continue;
+
+            this.byRpi.add(hex);
+            this.entries.push({
+                seq: this.nextSeq++,
+                rpi: Buffer.from(key.rpi),
+                metadata: key.metadata,
+                reportKey: key.reportKey ?? null,
+                status: key.status ?? 'confirmed',
+                createdAt: key.createdAt ?? createdAt,
+                expiresAt: key.expiresAt ?? defaultExpiresAt,
+                blobId: key.blobId ?? null,
+            });
+            inserted++;
+        }
+
+        return { inserted, duplicates: keys.length - inserted };
+    }
+
+    async page({ since, until, cursor, limit, includeRevoked }: PageQuery): Promise<KeyPage> {
+        if (cursor && !/^[0-9]+$/.test(cursor)) throw new InvalidCursorError(cursor);
+        const after = cursor ? parseInt(cursor, 10) : 0;
+        const keys: MemoryEntry[] = [];
+
+        for (const entry of this.entries) {
+            if (entry.seq <= after || entry.createdAt < since) continue;
+            if (until && entry.createdAt >= until) continue;
+            if (!includeRevoked && entry.status === 'revoked') continue;
+            keys.push(entry);
+            if (keys.length >= limit) break;
+        }
+
+        const hasMore = keys.length >= limit;
+        return {
+            keys: keys.map(({ rpi, metadata, status, createdAt, reportKey, expiresAt, blobId }) =>
+                ({ rpi, metadata, status, createdAt, reportKey, expiresAt, blobId })),
+            nextCursor: hasMore ? keys[keys.length - 1].seq.toString() : null,
+            endCursor: keys.length > 0 ? keys[keys.length - 1].seq.toString() : null,
+        };
+    }
+
+    stream(query: PageQuery, batchSize?: number): AsyncIterable<KeyPage> {
+        return pagedStream(this, query, batchSize);
+    }
+
+    async getReportStatus(reportKey: string): Promise<ReportStatus | null> {
+        return this.entries.find((entry) => entry.reportKey === reportKey)?.status ?? null;
+    }
+
+    async setReportStatus(reportKey: string, status: ReportStatus, at?: Date): Promise<number> {
+        const createdAt = at ?? new Date();
+        const moved: MemoryEntry[] = [];
+
+        this.entries = this.entries.filter((entry) => {
+            if (entry.reportKey !== reportKey) return true;
+            moved.push(entry);
+            return false;
+        });
+
+        // Re-append with new positions so the change shows up after existing cursors
+        for (const entry of moved) {
+            this.entries.push({
+                ...entry,
+                seq: this.nextSeq++,
+                metadata: status === 'revoked' ? null : entry.metadata,
+                blobId: status === 'revoked' ? null : entry.blobId,
+                status,
+                createdAt,
+            });
+        }
+
+        return moved.length;
+    }
+
+    async purgeExpired(now: Date = new Date()): Promise<number> {
+        const before = this.entries.length;
+
+        this.entries = this.entries.filter((entry) => {
+            if (entry.expiresAt > now) return true;
+            this.byRpi.delete(entry.rpi.toString('hex'));
+            return false;
+        });
+        for (const [id, blob] of this.blobs) {
+            if (blob.expiresAt <= now) this.blobs.delete(id);
+        }
+
+        return before - this.entries.length;
+    }
+
+    async deleteRange(since: Date, until: Date): Promise<number> {
+        const before = this.entries.length;
+
+        this.entries = this.entries.filter((entry) => {
+            if (entry.createdAt < since || entry.createdAt >= until) return true;
+            this.byRpi.delete(entry.rpi.toString('hex'));
+            return false;
+        });
+
+        return before - this.entries.length;
+    }
+
+    async count(): Promise<number> {
+        return this.entries.length;
+    }
+
+    async insertBlob(blob: MetadataBlob): Promise<void> {
+        if (!this.blobs.has(blob.id)) this.blobs.set(blob.id, blob);
+    }
+
+    async getBlobs(ids: string[]): Promise<Map<string, string>> {
+        const found = new Map<string, string>();
+        for (const id of ids) {
+            const blob = this.blobs.get(id);
+            if (blob) found.set(id, blob.data);
+        }
+        return found;
+    }
+}
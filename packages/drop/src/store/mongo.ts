@@ -0,0 +1,240 @@
+import mongoose from 'mongoose';
+import { createBlobModel, createKeyModel } from '../db';
+import { InvalidCursorError, STREAM_BATCH_SIZE } from './types';
+import type { InsertResult, KeyPage, KeyStore, MetadataBlob, NewKey, PageQuery, ReportStatus, StoredKey } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keys are served only once their seq is this old. A write lands after its seq was taken,
+// so without the delay a cursor could pass a key that is still on its way to the server.
+const SETTLE_MS = 30 * 1000;
+
+/**
+ * MongoDB backend (default). Expiry is handled by the TTL index on expiresAt, and
+ * purgeExpired() exists for parity with stores that have no TTL support. With `ttl` off there
+ * are no TTL indexes and purgeExpired() does the deleting, so its count covers every expired
+ * key (the plugin turns it off when hooks or a webhook listen for expiry).
+ *
+ * Download cursors are the keys' seq (an ObjectId taken when the key is written). Keys become
+ * visible out of seq order when writes overlap, so pages hold back keys younger than
+ * SETTLE_MS: a cursor only passes keys whose writes have had that long to land.
+ */
+export class MongoKeyStore implements KeyStore {
+    private KeyModel: ReturnType<typeof createKeyModel> | null = null;
+    private BlobModel: ReturnType<typeof createBlobModel> | null = null;
+    private ownsConnection = false;
+
+    constructor(
+        private uri: string,
+        private retentionDays: number = 14,
+        private collection?: string,
+        readonly ttl: boolean = true
+    ) { }
+
+    async connect(): Promise<void> {
+        // Reuse the embedder's connection if mongoose is already connected
+        if (mongoose.connection.readyState === 0) {
+            await mongoose.connect(this.uri);
+            this.ownsConnection = true;
+            console.log('Vailix connected to MongoDB');
+        }
+        this.KeyModel = createKeyModel(this.retentionDays, this.collection, this.ttl);
+        this.BlobModel = createBlobModel(this.collection, this.ttl);
+        await Promise.all([syncTtlIndexes(this.KeyModel, this.ttl), syncTtlIndexes(this.BlobModel, this.ttl)]);
+        // Keys stored before seq existed keep their _id position, so issued cursors stay valid
+        await this.KeyModel.updateMany({ seq: { $exists: false } }, [{ $set: { seq: '$_id' } }], { updatePipeline: true });
+    }
+
+    async close(): Promise<void> {
+        if (this.ownsConnection) {
+            await mongoose.disconnect();
+            this.ownsConnection = false;
+        }
+    }
+
+    async checkReady(): Promise<void> {
+        if (!this.KeyModel || mongoose.connection.readyState !== 1) throw new Error('MongoDB is not connected');
+        // Mongoose builds indexes in the background after connect(); until the unique rpi index
+        // exists, concurrent upserts of one RPI can store it twice
+        const indexes = await this.KeyModel.collection.indexes();
+        if (!indexes.some((index) => index.key.rpi === 1 && index.unique)) throw new Error('MongoDB rpi index is not built yet');
+        if (this.ttl && !indexes.some((index) => index.key.expiresAt === 1 && index.expireAfterSeconds !== undefined)) {
+            throw new Error('MongoDB expiresAt TTL index is not built yet');
+        }
+    }
+
+    async insertMany(keys: NewKey[]): Promise<InsertResult> {
+        if (keys.length === 0) return { inserted: 0, duplicates: 0 };
+
+        const now = new Date();
+        const defaultExpiresAt = new Date(now.getTime() + this.retentionDays * DAY_MS);
+        const ops = keys.map((key) => ({
+            updateOne: {
+                filter: { rpi: key.rpi },
+                update: {
+                    $setOnInsert: {
+                        rpi: key.rpi,
+                        metadata: key.metadata,
+                        reportKey: key.reportKey ?? null,
+                        status: key.status ?? 'confirmed',
+                        createdAt: key.createdAt ?? now,
+                        expiresAt: key.expiresAt ?? defaultExpiresAt,
+                        blobId: key.blobId ?? null,
+                        seq: new mongoose.Types.ObjectId(),
+                    },
+                },
+                upsert: true,
+            },
+        }));
+
+        const result = await this.model().bulkWrite(ops, { ordered: false });
+        return { inserted: result.upsertedCount, duplicates: keys.length - result.upsertedCount };
+    }
+
+    async page(query: PageQuery): Promise<KeyPage> {
+        const docs = await this.find(query).lean();
+
+        const hasMore = docs.length >= query.limit;
+        return {
+            keys: docs.map(toStoredKey),
+            nextCursor: hasMore ? docs[docs.length - 1].seq.toString() : null,
+            endCursor: docs.length > 0 ? docs[docs.length - 1].seq.toString() : null,
+        };
+    }
+
+    /** Reads through a single MongoDB cursor instead of one query per batch */
+    async *stream(query: PageQuery, batchSize: number = STREAM_BATCH_SIZE): AsyncIterable<KeyPage> {
+        const docs = this.find(query).lean().cursor({ batchSize });
+        let keys: StoredKey[] = [];
+        let lastId: string | null = null;
+        let read = 0;
+
+        for await (const doc of docs) {
+            keys.push(toStoredKey(doc));
+            lastId = doc.seq.toString();
+            read++;
+            if (keys.length >= batchSize) {
+                yield { keys, nextCursor: lastId, endCursor: lastId };
+                keys = [];
+            }
+        }
+        yield { keys, nextCursor: read >= query.limit ? lastId : null, endCursor: keys.length > 0 ? lastId : null };
+    }
+
+    private find({ since, until, cursor, limit, includeRevoked }: PageQuery) {
+        const filter: Record<string, unknown> = { createdAt: until ? { $gte: since, $lt: until } : { $gte: since } };
+        if (!includeRevoked) filter.status = { $ne: 'revoked' };
+        if (cursor && !mongoose.isValidObjectId(cursor)) throw new InvalidCursorError(cursor);
+        const settled = mongoose.Types.ObjectId.createFromTime(Math.floor((Date.now() - SETTLE_MS) / 1000));
+        filter.seq = cursor ? { $gt: cursor, $lt: settled } : { $lt: settled };
+
+        return this.model().find(filter)
+            .sort({ seq: 1 })
+            .limit(limit)
+            .select('rpi metadata status createdAt reportKey expiresAt blobId seq');
+    }
+
+    async getReportStatus(reportKey: string): Promise<ReportStatus | null> {
+        // Lowest seq first: after an interrupted setReportStatus() that is a key not moved yet
+        const doc = await this.model().findOne({ reportKey }).sort({ seq: 1 }).select('status').lean();
+        return doc ? (doc.status as ReportStatus) : null;
+    }
+
+    async setReportStatus(reportKey: string, status: ReportStatus, at?: Date): Promise<number> {
+        const docs = await this.model().find({ reportKey }).select('_id').lean();
+        if (docs.length === 0) return 0;
+
+        // A fresh seq per key moves the keys past existing download cursors. Keys are updated in
+        // place, so a crash midway loses none: getReportStatus() still reports the old status
+        // and a retried change moves the rest.
+        const createdAt = at ?? new Date();
+        const revoked = status === 'revoked' ? { metadata: null, blobId: null } : {};
+        await this.model().bulkWrite(docs.map((doc) => ({
+            updateOne: {
+                filter: { _id: doc._id },
+                update: { $set: { status, createdAt, seq: new mongoose.Types.ObjectId(), ...revoked } },
+            },
+        })), { ordered: false });
+
+        return docs.length;
+    }
+
+    async purgeExpired(now: Date = new Date()): Promise<number> {
+        await this.blobModel().deleteMany({ expiresAt: { $lte: now } });
+        const result = await this.model().deleteMany({ expiresAt: { $lte: now } });
+        return result.deletedCount;
+    }
+
+    async deleteRange(since: Date, until: Date): Promise<number> {
+        const result = await this.model().deleteMany({ createdAt: { $gte: since, $lt: until } });
+        return result.deletedCount;
+    }
+
+    async count(): Promise<number> {
+        return this.model().estimatedDocumentCount();
+    }
+
+    async insertBlob(blob: MetadataBlob): Promise<void> {
+        await this.blobModel().updateOne(
+            { _id: blob.id },
+            { $setOnInsert: { data: blob.data, expiresAt: blob.expiresAt } },
+            { upsert: true }
+        );
+    }
+
+    async getBlobs(ids: string[]): Promise<Map<string, string>> {
+        if (ids.length === 0) return new Map();
+        const docs = await this.blobModel().find({ _id: { $in: ids } }).select('data').lean();
+        return new Map(docs.map((doc) => [String(doc._id), doc.data]));
+    }
+
+    private model() {
+        if (!this.KeyModel) throw new Error('MongoKeyStore used before connect()');
+        return this.KeyModel;
+    }
+
+    private blobModel() {
+        if (!this.BlobModel) throw new Error('MongoKeyStore used before connect()');
+        return this.BlobModel;
+    }
+}
+
+/**
+ * MongoDB can't turn an existing index into a TTL index or back, so building the model's indexes
+ * fails after `ttl` changed. Drop the createdAt/expiresAt indexes that disagree and rebuild.
+ */
+async function syncTtlIndexes<T>(model: mongoose.Model<T>, ttl: boolean): Promise<void> {
+    await model.init().catch(() => undefined);  // Conflicting index builds fail; fixed below
+    const stale = (await model.collection.indexes()).filter((index) => {
+        const fields = Object.keys(index.key);
+        return fields.length === 1 && ['createdAt', 'expiresAt'].includes(fields[0])
+            && (index.expireAfterSeconds !== undefined) !== ttl;
+    });
+    if (stale.length === 0) return;
+    for (const index of stale) await model.collection.dropIndex(index.name!);
+    await model.createIndexes();
+}
+
+interface KeyDoc {
+    rpi: unknown;
+    metadata?: unknown;
+    status?: unknown;
+    createdAt: Date;
+    reportKey?: string | null;
+    expiresAt: Date;
+    blobId?: string | null;
+}
+
+function toStoredKey(doc: KeyDoc): StoredKey {
+    return {
+        // Mongoose .lean() returns BSON Binary objects, not Node Buffers.
+        // Binary objects have a .buffer property containing the raw data.
+        rpi: Buffer.from((doc.rpi as { buffer: Uint8Array }).buffer ?? doc.rpi),
+        metadata: (doc.metadata as string | null) ?? null,
+        status: (doc.status as ReportStatus | undefined) ?? 'confirmed',  // Pre-lifecycle documents
+        createdAt: doc.createdAt,
+        reportKey: doc.reportKey ?? null,
+        expiresAt: doc.expiresAt,
+        blobId: doc.blobId ?? null,
+    };
+}
@@ -0,0 +1,215 @@
+import type { Pool, PoolClient } from 'pg';
+import { InvalidCursorError, pagedStream } from './types';
+import type { InsertResult, KeyPage, KeyStore, MetadataBlob, NewKey, PageQuery, ReportStatus } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface KeyRow {
+    id: string;  // BIGSERIAL is returned as string by node-postgres
+    rpi: Buffer;
+    metadata: string | null;
+    status: ReportStatus;
+    created_at: Date;
+    report_key: string | null;
+    expires_at: Date;
+    blob_id: string | null;
+}
+
+/**
+ * PostgreSQL backend. Requires the optional `pg` peer dependency.
+ * Postgres has no TTL indexes, so expiry relies on purgeExpired() being called periodically.
+ *
+ * Download cursors are BIGSERIAL ids. Writers take ids under a per-table advisory lock held
+ * until commit, so ids become visible in order and a cursor never passes an uncommitted key.
+ */
+export class PostgresKeyStore implements KeyStore {
+    private pool: Pool | null = null;
+    private table: string;
+
+    constructor(
+        private connectionString: string,
+        private retentionDays: number = 14,
+        table: string = 'vailix_keys'
+    ) {
+        // Table name is interpolated into SQL, so only allow plain identifiers
+        if (!/^[a-z_][a-z0-9_]*$/.test(table)) throw new Error(`Invalid table name: ${table}`);
+        this.table = table;
+    }
+
+    async connect(): Promise<void> {
+        const { default: pg } = await import('pg');
+        this.pool = new pg.Pool({ connectionString: this.connectionString });
+
+        await this.pool.query(`
+            CREATE TABLE IF NOT EXISTS ${this.table} (
+                id BIGSERIAL PRIMARY KEY,
+                rpi BYTEA NOT NULL UNIQUE,
+                metadata TEXT,
+                report_key TEXT,
+                status TEXT NOT NULL DEFAULT 'confirmed',
+                created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+                expires_at TIMESTAMPTZ NOT NULL,
+                blob_id TEXT
+            )`);
+        await this.pool.query(`CREATE INDEX IF NOT EXISTS ${this.table}_created_at_idx ON ${this.table} (created_at)`);
+        await this.pool.query(`CREATE INDEX IF NOT EXISTS ${this.table}_expires_at_idx ON ${this.table} (expires_at)`);
+        await this.pool.query(`CREATE INDEX IF NOT EXISTS ${this.table}_report_key_idx ON ${this.table} (report_key)`);
+        await this.pool.query(`
+            CREATE TABLE IF NOT EXISTS ${this.table}_blobs (
+                id TEXT PRIMARY KEY,
+                data TEXT NOT NULL,
+                expires_at TIMESTAMPTZ NOT NULL
+            )`);
+        await this.pool.query(`CREATE INDEX IF NOT EXISTS ${this.table}_blobs_expires_at_idx ON ${this.table}_blobs (expires_at)`);
+        console.log('Vailix connected to PostgreSQL');
+    }
+
+    async close(): Promise<void> {
+        await this.pool?.end();
+        this.pool = null;
+    }
+
+    async checkReady(): Promise<void> {
+        // Table and indexes are created by connect(), so reaching the table is enough
+        await this.db().query(`SELECT 1 FROM ${this.table} LIMIT 1`);
+    }
+
+    async insertMany(keys: NewKey[]): Promise<InsertResult> {
+        if (keys.length === 0) return { inserted: 0, duplicates: 0 };
+
+        const defaultExpiresAt = new Date(Date.now() + this.retentionDays * DAY_MS);
+
+        // Single statement: unnest parallel arrays, skip RPIs that already exist
+        const result = await this.serialized((client) => client.query(
+            `INSERT INTO ${this.table} (rpi, metadata, report_key, status, expires_at, created_at, blob_id)
+             SELECT rpi, metadata, report_key, status, expires_at, COALESCE(created_at, now()), blob_id
+             FROM unnest($1::bytea[], $2::text[], $3::text[], $4::text[], $5::timestamptz[], $6::timestamptz[], $7::text[])
+                 AS t (rpi, metadata, report_key, status, expires_at, created_at, blob_id)
+             ON CONFLICT (rpi) DO NOTHING`,
+            [
+                keys.map((k) => k.rpi),
+                keys.map((k) => k.metadata),
+                keys.map((k) => k.reportKey ?? null),
+                keys.map((k) => k.status ?? 'confirmed'),
+                keys.map((k) => k.expiresAt ?? defaultExpiresAt),
+                keys.map((k) => k.createdAt ?? null),
+                keys.map((k) => k.blobId ?? null),
+            ]
+        ));
+
+        const inserted = result.rowCount ?? 0;
+        return { inserted, duplicates: keys.length - inserted };
+    }
+
+    async page({ since, until, cursor, limit, includeRevoked }: PageQuery): Promise<KeyPage> {
+        if (cursor && !/^[0-9]+$/.test(cursor)) throw new InvalidCursorError(cursor);
+
+        const { rows } = await this.db().query<KeyRow>(
+            `SELECT id, rpi, metadata, status, created_at, report_key, expires_at, blob_id FROM ${this.table}
+             WHERE created_at >= $1 AND ($2::timestamptz IS NULL OR created_at < $2) AND id > $3
+               AND ($5 OR status <> 'revoked')
+             ORDER BY id ASC
+             LIMIT $4`,
+            [since, until ?? null, cursor ?? '0', limit, includeRevoked ?? false]
+        );
+
+        const hasMore = rows.length >= limit;
+        return {
+            keys: rows.map((row) => ({
+                rpi: row.rpi,
+                metadata: row.metadata,
+                status: row.status,
+                createdAt: row.created_at,
+                reportKey: row.report_key,
+                expiresAt: row.expires_at,
+                blobId: row.blob_id,
+            })),
+            nextCursor: hasMore ? rows[rows.length - 1].id : null,
+            endCursor: rows.length > 0 ? rows[rows.length - 1].id : null,
+        };
+    }
+
+    stream(query: PageQuery, batchSize?: number): AsyncIterable<KeyPage> {
+        return pagedStream(this, query, batchSize);
+    }
+
+    async getReportStatus(reportKey: string): Promise<ReportStatus | null> {
+        const { rows } = await this.db().query<{ status: ReportStatus }>(
+            `SELECT status FROM ${this.table} WHERE report_key = $1 LIMIT 1`,
+            [reportKey]
+        );
+        return rows[0]?.status ?? null;
+    }
+
+    async setReportStatus(reportKey: string, status: ReportStatus, at?: Date): Promise<number> {
+        // Taking a fresh id from the sequence moves the keys past existing download cursors
+        const result = await this.serialized((client) => client.query(
+            `UPDATE ${this.table}
+             SET id = nextval(pg_get_serial_sequence('${this.table}', 'id')),
+                 status = $2,
+                 created_at = COALESCE($3::timestamptz, now()),
+                 metadata = CASE WHEN $2 = 'revoked' THEN NULL ELSE metadata END,
+                 blob_id = CASE WHEN $2 = 'revoked' THEN NULL ELSE blob_id END
+             WHERE report_key = $1`,
+            [reportKey, status, at ?? null]
+        ));
+        return result.rowCount ?? 0;
+    }
+
+    async purgeExpired(now: Date = new Date()): Promise<number> {
+        const result = await this.db().query(`DELETE FROM ${this.table} WHERE expires_at <= $1`, [now]);
+        await this.db().query(`DELETE FROM ${this.table}_blobs WHERE expires_at <= $1`, [now]);
+        return result.rowCount ?? 0;
+    }
+
+    async deleteRange(since: Date, until: Date): Promise<number> {
+        const result = await this.db().query(
+            `DELETE FROM ${this.table} WHERE created_at >= $1 AND created_at < $2`,
+            [since, until]
+        );
+        return result.rowCount ?? 0;
+    }
+
+    async count(): Promise<number> {
+        const { rows } = await this.db().query<{ count: string }>(`SELECT count(*) FROM ${this.table}`);
+        return parseInt(rows[0].count, 10);
+    }
+
+    async insertBlob(blob: MetadataBlob): Promise<void> {
+        await this.db().query(
+            `INSERT INTO ${this.table}_blobs (id, data, expires_at) VALUES ($1, $2, $3) ON CONFLICT (id) DO NOTHING`,
+            [blob.id, blob.data, blob.expiresAt]
+        );
+    }
+
+    async getBlobs(ids: string[]): Promise<Map<string, string>> {
+        if (ids.length === 0) return new Map();
+        const { rows } = await this.db().query<{ id: string; data: string }>(
+            `SELECT id, data FROM ${this.table}_blobs WHERE id = ANY($1::text[])`,
+            [ids]
+        );
+        return new Map(rows.map((row) => [row.id, row.data]));
+    }
+
+    /** Run a write that takes ids in a transaction holding the table's id lock */
+    private async serialized<T>(write: (client: PoolClient) => Promise<T>): Promise<T> {
+        const client = await this.db().connect();
+        try {
+            await client.query('BEGIN');
+            await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [this.table]);
+            const result = await write(client);
+            await client.query('COMMIT');
+            return result;
+        } catch (error) {
+            await client.query('ROLLBACK').catch(() => undefined);
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    private db(): Pool {
+        if (!this.pool) throw new Error('PostgresKeyStore used before connect()');
+        return this.pool;
+    }
+}
@@ -0,0 +1,201 @@
+import type { Database } from 'better-sqlite3';
+import { InvalidCursorError, pagedStream } from './types';
+import type { InsertResult, KeyPage, KeyStore, MetadataBlob, NewKey, PageQuery, ReportStatus } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface KeyRow {
+    id: number;
+    rpi: Buffer;
+    metadata: string | null;
+    status: ReportStatus;
+    created_at: number;  // Unix ms
+    report_key: string | null;
+    expires_at: number;  // Unix ms
+    blob_id: string | null;
+}
+
+/**
+ * SQLite backend for single-node deployments. Requires the optional `better-sqlite3` peer dependency.
+ * Expiry relies on purgeExpired() being called periodically.
+ */
+export class SqliteKeyStore implements KeyStore {
+    private db: Database | null = null;
+    private table: string;
+
+    constructor(
+        private filename: string,
+        private retentionDays: number = 14,
+        table: string = 'vailix_keys'
+    ) {
+        // Table name is interpolated into SQL, so only allow plain identifiers
+        if (!/^[a-z_][a-z0-9_]*$/.test(table)) throw new Error(`Invalid table name: ${table}`);
+        this.table = table;
+    }
+
+    async connect(): Promise<void> {
+        const { default: BetterSqlite3 } = await import('better-sqlite3');
+        this.db = new BetterSqlite3(this.filename);
+        this.db.pragma('journal_mode = WAL');
+
+        this.db.exec(`
+            CREATE TABLE IF NOT EXISTS ${this.table} (
+                id INTEGER PRIMARY KEY AUTOINCREMENT,
+                rpi BLOB NOT NULL UNIQUE,
+                metadata TEXT,
+                report_key TEXT,
+                status TEXT NOT NULL DEFAULT 'confirmed',
+                created_at INTEGER NOT NULL,
+                expires_at INTEGER NOT NULL,
+                blob_id TEXT
+            );
+            CREATE INDEX IF NOT EXISTS ${this.table}_created_at_idx ON ${this.table} (created_at);
+            CREATE INDEX IF NOT EXISTS ${this.table}_expires_at_idx ON ${this.table} (expires_at);
+            CREATE INDEX IF NOT EXISTS ${this.table}_report_key_idx ON ${this.table} (report_key);
+            CREATE TABLE IF NOT EXISTS ${this.table}_blobs (
+                id TEXT PRIMARY KEY,
+                data TEXT NOT NULL,
+                expires_at INTEGER NOT NULL
+            );
+            CREATE INDEX IF NOT EXISTS ${this.table}_blobs_expires_at_idx ON ${this.table}_blobs (expires_at);
+        `);
+    }
+
+    async close(): Promise<void> {
+        this.db?.close();
+        this.db = null;
+    }
+
+    async checkReady(): Promise<void> {
+        this.conn().prepare(`SELECT 1 FROM ${this.table} LIMIT 1`).get();
+    }
+
+    async insertMany(keys: NewKey[]): Promise<InsertResult> {
+        const db = this.conn();
+        const stmt = db.prepare(
+            `INSERT OR IGNORE INTO ${this.table} (rpi, metadata, report_key, status, created_at, expires_at, blob_id)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`
+        );
+        const createdAt = Date.now();
+        const defaultExpiresAt = createdAt + this.retentionDays * DAY_MS;
+
+        const insertAll = db.transaction((batch: NewKey[]) => {
+            let inserted = 0;
+            for (const key of batch) {
+                inserted += stmt.run(
+                    key.rpi,
+                    key.metadata,
+                    key.reportKey ?? null,
+                    key.status ?? 'confirmed',
+                    key.createdAt?.getTime() ?? createdAt,
+                    key.expiresAt?.getTime() ?? defaultExpiresAt,
+                    key.blobId ?? null
+                ).changes;
+            }
+            return inserted;
+        });
+
+        const inserted = insertAll(keys);
+        return { inserted, duplicates: keys.length - inserted };
+    }
+
+    async page({ since, until, cursor, limit, includeRevoked }: PageQuery): Promise<KeyPage> {
+        if (cursor && !/^[0-9]+$/.test(cursor)) throw new InvalidCursorError(cursor);
+
+        const rows = this.conn().prepare(
+            `SELECT id, rpi, metadata, status, created_at, report_key, expires_at, blob_id FROM ${this.table}
+             WHERE created_at >= ? AND created_at < ? AND id > ?
+               AND (? OR status <> 'revoked')
+             ORDER BY id ASC
+             LIMIT ?`
+        ).all(
+            since.getTime(),
+            until ? until.getTime() : Number.MAX_SAFE_INTEGER,
+            cursor ? parseInt(cursor, 10) : 0,
+            includeRevoked ? 1 : 0,
+            limit
+        ) as KeyRow[];
+
+        const hasMore = rows.length >= limit;
+        return {
+            keys: rows.map((row) => ({
+                rpi: row.rpi,
+                metadata: row.metadata,
+                status: row.status,
+                createdAt: new Date(row.created_at),
+                reportKey: row.report_key,
+                expiresAt: new Date(row.expires_at),
+                blobId: row.blob_id,
+            })),
+            nextCursor: hasMore ? rows[rows.length - 1].id.toString() : null,
+            endCursor: rows.length > 0 ? rows[rows.length - 1].id.toString() : null,
+        };
+    }
+
+    stream(query: PageQuery, batchSize?: number): AsyncIterable<KeyPage> {
+        return pagedStream(this, query, batchSize);
+    }
+
+    async getReportStatus(reportKey: string): Promise<ReportStatus | null> {
+        const row = this.conn().prepare(`SELECT status FROM ${this.table} WHERE report_key = ? LIMIT 1`)
+            .get(reportKey) as { status: ReportStatus } | undefined;
+        return row?.status ?? null;
+    }
+
+    async setReportStatus(reportKey: string, status: ReportStatus, at?: Date): Promise<number> {
+        const db = this.conn();
+        const select = db.prepare(`SELECT rpi, metadata, expires_at, blob_id FROM ${this.table} WHERE report_key = ?`);
+        const remove = db.prepare(`DELETE FROM ${this.table} WHERE report_key = ?`);
+        const insert = db.prepare(
+            `INSERT INTO ${this.table} (rpi, metadata, report_key, status, created_at, expires_at, blob_id)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`
+        );
+
+        // Delete and re-insert (new AUTOINCREMENT ids) to move the keys past existing download cursors
+        const move = db.transaction(() => {
+            const rows = select.all(reportKey) as Array<Pick<KeyRow, 'rpi' | 'metadata' | 'expires_at' | 'blob_id'>>;
+            remove.run(reportKey);
+            const createdAt = at?.getTime() ?? Date.now();
+            const revoked = status === 'revoked';
+            for (const row of rows) {
+                insert.run(row.rpi, revoked ? null : row.metadata, reportKey, status, createdAt, row.expires_at, revoked ? null : row.blob_id);
+            }
+            return rows.length;
+        });
+
+        return move();
+    }
+
+    async purgeExpired(now: Date = new Date()): Promise<number> {
+        this.conn().prepare(`DELETE FROM ${this.table}_blobs WHERE expires_at <= ?`).run(now.getTime());
+        return this.conn().prepare(`DELETE FROM ${this.table} WHERE expires_at <= ?`).run(now.getTime()).changes;
+    }
+
+    async deleteRange(since: Date, until: Date): Promise<number> {
+        return this.conn().prepare(`DELETE FROM ${this.table} WHERE created_at >= ? AND created_at < ?`)
+            .run(since.getTime(), until.getTime()).changes;
+    }
+
+    async count(): Promise<number> {
+        const row = this.conn().prepare(`SELECT count(*) AS count FROM ${this.table}`).get() as { count: number };
+        return row.count;
+    }
+
+    async insertBlob(blob: MetadataBlob): Promise<void> {
+        this.conn().prepare(`INSERT OR IGNORE INTO ${this.table}_blobs (id, data, expires_at) VALUES (?, ?, ?)`)
+            .run(blob.id, blob.data, blob.expiresAt.getTime());
+    }
+
+    async getBlobs(ids: string[]): Promise<Map<string, string>> {
+        if (ids.length === 0) return new Map();
+        const rows = this.conn().prepare(
+            `SELECT id, data FROM ${this.table}_blobs WHERE id IN (${ids.map(() => '?').join(', ')})`
+        ).all(...ids) as Array<{ id: string; data: string }>;
+        return new Map(rows.map((row) => [row.id, row.data]));
+    }
+
+    private conn(): Database {
+        if (!this.db) throw new Error('SqliteKeyStore used before connect()');
+        return this.db;
+    }
+}
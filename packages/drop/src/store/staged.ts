@@ -0,0 +1,190 @@
+import { randomInt } from 'crypto';
+import type { InsertResult, KeyPage, KeyStore, MetadataBlob, NewKey, PageQuery, ReportStatus } from './types';
+
+/** Default publication bucket */
+export const PUBLICATION_BUCKET_MS = 60 * 60 * 1000;
+
+export interface PublicationOptions {
+    /** Published keys get the start of this bucket as createdAt (default: 1 hour) */
+    bucketMs?: number;
+    /** Publish once this many reports are staged (default: 10) */
+    minReports?: number;
+    /** ...or once the oldest staged report or status change is this old (default: 6 hours) */
+    maxDelayMs?: number;
+}
+
+interface StagedReport {
+    keys: NewKey[];
+    stagedAt: number;
+}
+
+/**
+ * Wraps any KeyStore and holds new reports in a staging area instead of publishing them
+ * right away, so the download feed can't be lined up with the moment someone reported.
+ *
+ * A publication inserts every staged key in one shuffled batch, stamped with the start of the
+ * current time bucket. Status changes are queued too and applied in the same publication.
+ * Everything published within a bucket shares one timestamp, so clients syncing with an
+ * inclusive `since` never miss a later publication in the same bucket.
+ *
+ * Staged reports live in process memory: close() publishes them early rather than losing them,
+ * but a crash does lose them, and the staging area is not shared between instances.
+ */
+export class StagedKeyStore implements KeyStore {
+    private staged: StagedReport[] = [];
+    private stagedRpis = new Set<string>();
+    private statusChanges = new Map<string, { status: ReportStatus; stagedAt: number }>();
+    private publishing: Promise<number> | null = null;
+    /** Published keys are stamped up to this long before they are written */
+    readonly bucketMs: number;
+    private minReports: number;
+    private maxDelayMs: number;
+
+    constructor(private inner: KeyStore, options: PublicationOptions = {}) {
+        this.bucketMs = options.bucketMs ?? PUBLICATION_BUCKET_MS;
+        this.minReports = options.minReports ?? 10;
+        this.maxDelayMs = options.maxDelayMs ?? 6 * 60 * 60 * 1000;
+    }
+
+    connect(): Promise<void> {
+        return this.inner.connect();
+    }
+
+    async close(): Promise<void> {
+        await this.publish();
+        await this.inner.close();
+    }
+
+    async checkReady(): Promise<void> {
+        await this.inner.checkReady?.();
+    }
+
+    /**
+     * Stage one report. Duplicates are only detected within the staging area here;
+     * RPIs that are already published are skipped silently at publication.
+     */
+    async insertMany(keys: NewKey[]): Promise<InsertResult> {
+        const fresh = keys.filter((key) => {
+            const hex = key.rpi.toString('hex');
+            if (this.stagedRpis.has(hex)) return false;
+            this.stagedRpis.add(hex);
+            return true;
+        });
+        if (fresh.length > 0) this.staged.push({ keys: fresh, stagedAt: Date.now() });
+        return { inserted: fresh.length, duplicates: keys.length - fresh.length };
+    }
+
+    page(query: PageQuery): Promise<KeyPage> {
+        return this.inner.page(query);
+    }
+
+    stream(query: PageQuery, batchSize?: number): AsyncIterable<KeyPage> {
+        return this.inner.stream(query, batchSize);
+    }
+
+    async getReportStatus(reportKey: string): Promise<ReportStatus | null> {
+        const key = this.staged.flatMap((report) => report.keys).find((k) => k.reportKey === reportKey);
+        if (key) return key.status ?? 'confirmed';
+        return this.statusChanges.get(reportKey)?.status ?? this.inner.getReportStatus(reportKey);
+    }
+
+    /** Staged reports change in place; changes to published reports wait for the next publication (returns 0) */
+    async setReportStatus(reportKey: string, status: ReportStatus): Promise<number> {
+        let updated = 0;
+        for (const report of this.staged) {
+            report.keys = report.keys.map((key) => {
+                if (key.reportKey !== reportKey) return key;
+                updated++;
+                if (status !== 'revoked') return { ...key, status };
+                return { ...key, status, metadata: null, blobId: null };
+            });
+        }
+        if (updated === 0) {
+            const stagedAt = this.statusChanges.get(reportKey)?.stagedAt ?? Date.now();
+            this.statusChanges.set(reportKey, { status, stagedAt });
+        }
+        return updated;
+    }
+
+    purgeExpired(now?: Date): Promise<number> {
+        return this.inner.purgeExpired(now);
+    }
+
+    /** Published keys only */
+    deleteRange(since: Date, until: Date): Promise<number> {
+        return this.inner.deleteRange(since, until);
+    }
+
+    /** Published keys only */
+    count(): Promise<number> {
+        return this.inner.count();
+    }
+
+    /** Not staged: a blob is only served next to the keys that reference it, once they're published */
+    insertBlob(blob: MetadataBlob): Promise<void> {
+        return this.inner.insertBlob(blob);
+    }
+
+    getBlobs(ids: string[]): Promise<Map<string, string>> {
+        return this.inner.getBlobs(ids);
+    }
+
+    /** Publish if enough reports are staged or the oldest staged change is due. Returns keys inserted. */
+    async publishIfDue(now: Date = new Date()): Promise<number> {
+        const oldest = Math.min(
+            ...this.staged.map((report) => report.stagedAt),
+            ...[...this.statusChanges.values()].map((change) => change.stagedAt)
+        );
+        const due = this.staged.length >= this.minReports || now.getTime() - oldest >= this.maxDelayMs;
+        return due ? this.publish(now) : 0;
+    }
+
+    /** Publish everything staged now, regardless of thresholds. Returns keys inserted. */
+    async publish(now: Date = new Date()): Promise<number> {
+        // One publication at a time: a timer tick and close() may overlap
+        while (this.publishing) await this.publishing;
+        this.publishing = this.doPublish(now).finally(() => {
+            this.publishing = null;
+        });
+        return this.publishing;
+    }
+
+    private async doPublish(now: Date): Promise<number> {
+        if (this.staged.length === 0 && this.statusChanges.size === 0) return 0;
+
+        const staged = this.staged;
+        const statusChanges = this.statusChanges;
+        this.staged = [];
+        this.stagedRpis = new Set();
+        this.statusChanges = new Map();
+
+        const createdAt = new Date(Math.floor(now.getTime() / this.bucketMs) * this.bucketMs);
+        const keys = shuffle(staged.flatMap((report) => report.keys)).map((key) => ({ ...key, createdAt }));
+
+        try {
+            const { inserted } = await this.inner.insertMany(keys);
+            for (const [reportKey, { status }] of statusChanges) {
+                await this.inner.setReportStatus(reportKey, status, createdAt);
+            }
+            return inserted;
+        } catch (error) {
+            // Put everything back (ahead of anything staged meanwhile) for the next attempt.
+            // insertMany skips RPIs that made it in, and status changes are idempotent.
+            this.staged = [...staged, ...this.staged];
+            for (const report of staged) for (const key of report.keys) this.stagedRpis.add(key.rpi.toString('hex'));
+            for (const [reportKey, change] of statusChanges) {
+                if (!this.statusChanges.has(reportKey)) this.statusChanges.set(reportKey, change);
+            }
+            throw error;
+        }
+    }
+}
+
+/** Fisher-Yates with a CSPRNG, so publication order reveals nothing about arrival order */
+function shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+        const j = randomInt(i + 1);
+        [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+}
@@ -0,0 +1,161 @@
+// Key store contract shared by all storage backends.
+// Routes only talk to this interface, so a backend can be swapped without touching the API.
+
+/**
+ * Report lifecycle status.
+ * provisional -> confirmed -> revoked, or provisional -> revoked. Revoked is terminal.
+ */
+export type ReportStatus = 'provisional' | 'confirmed' | 'revoked';
+
+/** A reported key as persisted by a store */
+export interface StoredKey {
+    rpi: Buffer;              // 16 bytes binary
+    metadata: string | null;  // Encrypted metadata (iv:tag:data), opaque to the server
+    status: ReportStatus;
+    createdAt: Date;
+    /** Reporter's public key (built-in stores fill this in; used by archives, never served) */
+    reportKey?: string | null;
+    /** When the key will be deleted (built-in stores fill this in; used by archives, never served) */
+    expiresAt?: Date;
+    /** Shared metadata blob of the key's report; metadata then holds the wrapped blob key */
+    blobId?: string | null;
+}
+
+/** A key about to be inserted (the store assigns createdAt unless given) */
+export interface NewKey {
+    rpi: Buffer;
+    metadata: string | null;
+    /** Reporter's Ed25519 public key (base64), proves later status changes. Null for legacy reports. */
+    reportKey?: string | null;
+    /** Initial status (default: confirmed) */
+    status?: ReportStatus;
+    /** When the key may be deleted (default: createdAt + the store's retentionDays) */
+    expiresAt?: Date;
+    /** Publication time (default: now). Set by StagedKeyStore to a coarse bucket start. */
+    createdAt?: Date;
+    /** Shared metadata blob of the key's report (see MetadataBlob) */
+    blobId?: string | null;
+}
+
+/**
+ * A report's metadata, encrypted once and shared by all its keys. Each key's metadata then holds
+ * the blob's content key, wrapped with that key's metadata key, so only matchers can open it.
+ */
+export interface MetadataBlob {
+    id: string;  // Content hash (hex), see blobId()
+    data: string;  // Encrypted metadata (iv:tag:data), opaque to the server
+    expiresAt: Date;
+}
+
+export interface InsertResult {
+    /** Keys that were not already present */
+    inserted: number;
+    /** Keys skipped because their RPI was already stored */
+    duplicates: number;
+}
+
+export interface PageQuery {
+    /** Only return keys created at or after this time */
+    since: Date;
+    /** Only return keys created before this time (exclusive) */
+    until?: Date;
+    /** Opaque cursor returned by a previous page (store-specific) */
+    cursor?: string;
+    limit: number;
+    /** Include revoked keys (tombstones) for lifecycle-aware clients (default: false) */
+    includeRevoked?: boolean;
+}
+
+export interface KeyPage {
+    keys: StoredKey[];
+    /** Cursor for the next page, or null when there are no more results */
+    nextCursor: string | null;
+    /**
+     * Cursor after the last key of this page, also on the final page (null when the page is empty),
+     * so a sync token can resume there once new keys arrive. Stores that leave it out make
+     * clients fetch their final page again.
+     */
+    endCursor?: string | null;
+}
+
+export interface KeyStore {
+    /** Open connections and create tables/indexes. Called once before routes are served. */
+    connect(): Promise<void>;
+    /** Release connections opened by connect() */
+    close(): Promise<void>;
+    /**
+     * Rejects when the store can't serve requests right now (connection lost, indexes not built),
+     * for readiness probes. Stores without it are ready once connect() has resolved.
+     */
+    checkReady?(): Promise<void>;
+    /** Insert keys, ignoring RPIs that already exist (first report wins) */
+    insertMany(keys: NewKey[]): Promise<InsertResult>;
+    /**
+     * Return keys in cursor order, starting after `cursor`. Keys must become visible in that
+     * order too (commit order), or a cursor can pass a key that is still being written.
+     */
+    page(query: PageQuery): Promise<KeyPage>;
+    /**
+     * The keys page() would return, read in batches of at most `batchSize` (default: 1000) so a
+     * large page never sits in memory at once. Each batch's nextCursor resumes after its last key;
+     * the final batch's nextCursor is the one page() would return.
+     */
+    stream(query: PageQuery, batchSize?: number): AsyncIterable<KeyPage>;
+    /** Current status of a report, or null if no keys exist for it */
+    getReportStatus(reportKey: string): Promise<ReportStatus | null>;
+    /**
+     * Change the status of every key in a report and move them to the end of the download
+     * stream (new createdAt and cursor position), so clients that already synced see the change.
+     * Revoking also drops the metadata and blob reference; expiresAt is kept. Returns the number
+     * of keys updated. `at` overrides the new createdAt (default: now).
+     */
+    setReportStatus(reportKey: string, status: ReportStatus, at?: Date): Promise<number>;
+    /** Delete keys (and metadata blobs) whose expiresAt has passed. Returns the number of keys deleted. */
+    purgeExpired(now?: Date): Promise<number>;
+    /** Delete keys created in [since, until), e.g. an operator purge. Returns the number deleted. */
+    deleteRange(since: Date, until: Date): Promise<number>;
+    /** Total number of stored keys */
+    count(): Promise<number>;
+    /** Store a metadata blob, ignoring an existing one with the same id. purgeExpired() removes it. */
+    insertBlob(blob: MetadataBlob): Promise<void>;
+    /** Data of the requested blobs that exist, by id */
+    getBlobs(ids: string[]): Promise<Map<string, string>>;
+}
+
+/** Built-in backends, selectable through VailixOptions.store */
+export type KeyStoreConfig =
+    | { type: 'mongo'; uri: string; collection?: string; ttl?: boolean }
+    | { type: 'postgres'; connectionString: string; table?: string }
+    | { type: 'sqlite'; filename: string; table?: string }
+    | { type: 'memory' };
+
+export const STREAM_BATCH_SIZE = 1000;
+
+/**
+ * stream() on top of page(), one keyset query per batch. For drivers that can't keep a cursor
+ * open across awaits (better-sqlite3 locks the connection while iterating) or lack one (pg).
+ */
+export async function* pagedStream(
+    store: Pick<KeyStore, 'page'>,
+    query: PageQuery,
+    batchSize: number = STREAM_BATCH_SIZE
+): AsyncGenerator<KeyPage> {
+    let { cursor } = query;
+    let remaining = query.limit;
+
+    while (remaining > 0) {
+        const batch = await store.page({ ...query, cursor, limit: Math.min(batchSize, remaining) });
+        yield batch;
+        if (!batch.nextCursor) return;
+        cursor = batch.nextCursor;
+        remaining -= batch.keys.length;
+    }
+}
+
+/** Thrown by page() when a cursor was not issued by this store */
+export class InvalidCursorError extends Error {
+    constructor(cursor: string) {
+        super(`Invalid cursor: ${cursor}`);
+        this.name = 'InvalidCursorError';
+    }
+}
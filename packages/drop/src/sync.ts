@@ -0,0 +1,60 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/** Sent with every /v1/download page; clients pass it back as `token` to resume after the page */
+export const SYNC_TOKEN_HEADER = 'x-vailix-sync-token';
+
+/** Set on streamed pages whose end frame carries a sync token (tokens=1), so clients know to read it */
+export const STREAM_SYNC_TOKEN_HEADER = 'x-vailix-stream-sync-token';
+
+/** Bumped when the token payload changes; tokens of other versions are rejected */
+export const SYNC_TOKEN_VERSION = 2;
+
+/** Where a client's download resumes */
+export interface SyncPosition {
+    /** Start of the client's download window (Unix ms), kept for the whole life of the token */
+    since: number;
+    /** Store cursor after the last key the client received, null before the first key */
+    cursor: string | null;
+    /** Download format version the client negotiated (see FORMAT_VERSIONS) */
+    format: number;
+}
+
+/**
+ * Opaque, signed sync tokens: `<payload>.<hmac>` (base64url), like report tokens. The position
+ * is a store cursor, not a timestamp, so keys sharing a millisecond aren't sent twice and keys
+ * published with an earlier createdAt (publication delay) aren't skipped. This holds as far as
+ * the store's cursors follow commit order: the built-in stores do (MongoDB by holding back keys
+ * for a settle window), custom stores have to as well.
+ *
+ * Without a configured secret, tokens are only valid on this instance until it restarts;
+ * clients holding a rejected token start over.
+ */
+export class SyncTokenIssuer {
+    constructor(private secret: string | Buffer = randomBytes(32)) { }
+
+    issue(position: SyncPosition): string {
+        const payload = Buffer.from(JSON.stringify({ v: SYNC_TOKEN_VERSION, ...position })).toString('base64url');
+        return `${payload}.${this.mac(payload)}`;
+    }
+
+    /** The position in a token, or null if this server didn't issue it */
+    read(token: string): SyncPosition | null {
+        const [payload, mac, ...rest] = token.split('.');
+        if (!payload || !mac || rest.length > 0) return null;
+        const expected = this.mac(payload);
+        if (mac.length !== expected.length || !timingSafeEqual(Buffer.from(mac), Buffer.from(expected))) return null;
+
+        try {
+            const { v, since, cursor, format } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+            if (v !== SYNC_TOKEN_VERSION || typeof since !== 'number' || typeof format !== 'number') return null;
+            if (cursor !== null && typeof cursor !== 'string') return null;
+            return { since, cursor, format };
+        } catch {
+            return null;
+        }
+    }
+
+    private mac(payload: string): string {
+        return createHmac('sha256', this.secret).update(payload).digest('base64url');
+    }
+}
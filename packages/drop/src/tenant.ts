@@ -0,0 +1,56 @@
+import type { FastifyInstance } from 'fastify';
+import type { KeyStoreConfig } from './store';
+
+export const TENANT_HEADER = 'x-vailix-tenant';
+
+// Tenant IDs end up in URLs, collection and table names, so keep them to plain identifiers
+const TENANT_ID_PATTERN = /^[a-z0-9_]{1,32}$/;
+
+/**
+ * How requests are mapped to tenants:
+ * - 'header': same URLs for every app, tenant chosen by the x-vailix-tenant header
+ * - 'prefix': each tenant is served under /<tenantId> (e.g. /app_a/v1/report)
+ */
+export type TenantRouting = 'header' | 'prefix';
+
+export function validateTenantId(id: string): void {
+    if (!TENANT_ID_PATTERN.test(id)) {
+        throw new Error(`Invalid tenant id: ${id} (expected ${TENANT_ID_PATTERN.source})`);
+    }
+}
+
+/**
+ * Give a tenant its own collection/table inside the shared store config,
+ * so tenants never see each other's keys.
+ */
+export function tenantStoreConfig(base: KeyStoreConfig, tenantId: string): KeyStoreConfig {
+    switch (base.type) {
+        case 'mongo':
+            return { ...base, collection: `${base.collection ?? 'keys'}_${tenantId}` };
+        case 'postgres':
+        case 'sqlite':
+            return { ...base, table: `${base.table ?? 'vailix_keys'}_${tenantId}` };
+        case 'memory':
+            return base;
+    }
+}
+
+/**
+ * Route constraint used in 'header' mode: each tenant's routes only match requests
+ * carrying its ID, and requests without a (known) tenant get a 404.
+ */
+type ConstraintStrategy = Parameters<FastifyInstance['addConstraintStrategy']>[0];
+type RouteHandler = ReturnType<ReturnType<ConstraintStrategy['storage']>['get']>;
+
+export const tenantConstraint: ConstraintStrategy = {
+    name: 'vailixTenant',
+    storage() {
+        const handlers = new Map<string, RouteHandler>();
+        return {
+            get: (tenantId: string) => handlers.get(tenantId) ?? null,
+            set: (tenantId: string, handler: RouteHandler) => { handlers.set(tenantId, handler); },
+        };
+    },
+    deriveConstraint: (req) => req.headers[TENANT_HEADER] as string | undefined,
+    mustMatchWhenDerived: true,
+};
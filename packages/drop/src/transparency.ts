@@ -0,0 +1,325 @@
+import { createHash } from 'crypto';
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { PayloadSigner } from './signing';
+
+// Append-only Merkle log over published key batches, hashed like RFC 6962 (SHA-256):
+//   leaf hash: SHA-256(0x00 | publishedAt ms: u64 | RPIs sorted, 16 bytes each)
+//   node hash: SHA-256(0x01 | left | right), splitting n leaves at the largest power of two below n
+// A tree head commits to every batch published so far. The server can't show two clients
+// different key sets without handing out heads that no consistency proof can reconcile.
+// Head signature: Ed25519 over LOG_HEAD_CONTEXT | treeSize: u64 | timestamp ms: u64 | root hash.
+
+export const LOG_HEAD_CONTEXT = 'vailix-log-head:v1:';
+
+/** Entries per /v1/log/entries request, and RPIs per /v1/log/lookup request */
+export const MAX_LOG_ENTRIES = 1000;
+
+/** One published batch: a report, or a whole publication with publication delay */
+export interface LogEntry {
+    index: number;
+    publishedAt: number;  // Unix ms
+    rpis: string[];  // Hex, sorted
+}
+
+/** An entry with its inclusion proof against a tree head */
+export interface ProvenEntry extends LogEntry {
+    proof: string[];
+}
+
+export interface TreeHead {
+    treeSize: number;
+    timestamp: number;  // Unix ms, when the log first reached this size
+    rootHash: string;  // Hex
+    keyId?: string;  // Present when the log has a signer
+    signature?: string;  // base64
+}
+
+/** Persists log entries; the log keeps its hashes in memory */
+export interface TransparencyLogStore {
+    /** Every entry so far, in order (read once on open) */
+    load(): Promise<LogEntry[]>;
+    append(entry: LogEntry): Promise<void>;
+}
+
+/**
+ * In-process entries. The log starts empty again on restart, which clients that checked an
+ * earlier head report as a broken log, so use a persistent store outside of tests.
+ */
+export class MemoryLogStore implements TransparencyLogStore {
+    private entries: LogEntry[] = [];
+
+    async load(): Promise<LogEntry[]> {
+        return [...this.entries];
+    }
+
+    async append(entry: LogEntry): Promise<void> {
+        this.entries.push(entry);
+    }
+}
+
+/** Entries as JSON Lines in a local file (single instance) */
+export class FileLogStore implements TransparencyLogStore {
+    constructor(private file: string) { }
+
+    async load(): Promise<LogEntry[]> {
+        let data: string;
+        try {
+            data = await readFile(this.file, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+        return data.split('\n').filter((line) => line.length > 0).map((line) => JSON.parse(line) as LogEntry);
+    }
+
+    async append(entry: LogEntry): Promise<void> {
+        await mkdir(dirname(this.file), { recursive: true });
+        await appendFile(this.file, `${JSON.stringify(entry)}\n`);
+    }
+}
+
+/** Thrown for proof requests outside the current tree; routes answer 400 */
+export class LogRangeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LogRangeError';
+    }
+}
+
+/**
+ * The transparency log. Batches are appended by LoggedKeyStore as the key store publishes them;
+ * heads are signed with the download signing key when there is one.
+ */
+export class TransparencyLog {
+    private entries: LogEntry[] = [];
+    private leaves: Buffer[] = [];
+    private indexByRpi = new Map<string, number>();
+    // Roots of complete subtrees never change once their leaves exist, keyed by `${start}:${size}`
+    private subtrees = new Map<string, Buffer>();
+    private appending: Promise<unknown> = Promise.resolve();
+    private head: TreeHead | null = null;
+
+    constructor(
+        private store: TransparencyLogStore = new MemoryLogStore(),
+        private signer?: PayloadSigner
+    ) { }
+
+    async open(): Promise<void> {
+        const entries = await this.store.load();
+        this.entries = [];
+        this.leaves = [];
+        this.indexByRpi.clear();
+        this.subtrees.clear();
+        this.head = null;
+        for (const entry of entries) this.add(entry);
+    }
+
+    get size(): number {
+        return this.entries.length;
+    }
+
+    /** Whether an appended entry lists this RPI */
+    has(rpi: Buffer): boolean {
+        return this.indexByRpi.has(rpi.toString('hex'));
+    }
+
+    /** Append one published batch. Appends run one at a time so indices stay contiguous. */
+    append(rpis: Buffer[], publishedAt: number = Date.now()): Promise<LogEntry> {
+        const run = this.appending.then(async () => {
+            const entry: LogEntry = {
+                index: this.entries.length,
+                publishedAt,
+                rpis: rpis.map((rpi) => rpi.toString('hex')).sort(),
+            };
+            await this.store.append(entry);
+            this.add(entry);
+            return entry;
+        });
+        this.appending = run.catch(() => undefined);
+        return run;
+    }
+
+    /** The current tree head, signed once per size */
+    treeHead(now: number = Date.now()): TreeHead {
+        if (this.head?.treeSize === this.leaves.length) return this.head;
+
+        const head: TreeHead = { treeSize: this.leaves.length, timestamp: now, rootHash: this.root(0, this.leaves.length).toString('hex') };
+        this.head = this.signer ? { ...head, ...this.signer.sign(treeHeadMessage(head)) } : head;
+        return this.head;
+    }
+
+    /** Entries [start, end), at most MAX_LOG_ENTRIES */
+    getEntries(start: number, end: number = start + MAX_LOG_ENTRIES): LogEntry[] {
+        return this.entries.slice(start, Math.min(end, start + MAX_LOG_ENTRIES));
+    }
+
+    /**
+     * The entries listing these RPIs in the tree of `treeSize` leaves, each with its inclusion
+     * proof (an RPI listed again later resolves to its first entry), and the RPIs in none of them.
+     */
+    lookup(rpis: string[], treeSize: number): { entries: ProvenEntry[]; missing: string[] } {
+        this.checkSize(treeSize);
+        const indices = new Set<number>();
+        const missing: string[] = [];
+        for (const rpi of rpis) {
+            const index = this.indexByRpi.get(rpi);
+            if (index !== undefined && index < treeSize) indices.add(index);
+            else missing.push(rpi);
+        }
+        const entries = [...indices].sort((a, b) => a - b)
+            .map((index) => ({ ...this.entries[index], proof: this.inclusionProof(index, treeSize) }));
+        return { entries, missing };
+    }
+
+    /** Audit path for leaf `index` in the tree of `treeSize` leaves */
+    inclusionProof(index: number, treeSize: number): string[] {
+        this.checkSize(treeSize);
+        if (index >= treeSize) throw new LogRangeError(`Leaf ${index} is not in a tree of ${treeSize}`);
+        return this.auditPath(index, 0, treeSize).map((hash) => hash.toString('hex'));
+    }
+
+    /** Proof that the tree of `from` leaves is a prefix of the tree of `to` leaves */
+    consistencyProof(from: number, to: number): string[] {
+        this.checkSize(to);
+        if (from > to) throw new LogRangeError(`Tree of ${from} is larger than tree of ${to}`);
+        if (from === 0) return [];
+        return this.subproof(from, 0, to, true).map((hash) => hash.toString('hex'));
+    }
+
+    /** Root of leaves [start, end) */
+    private root(start: number, end: number): Buffer {
+        const n = end - start;
+        if (n === 0) return sha256();
+        if (n === 1) return this.leaves[start];
+
+        const complete = (n & (n - 1)) === 0;
+        const cached = complete ? this.subtrees.get(`${start}:${n}`) : undefined;
+        if (cached) return cached;
+        const k = split(n);
+        const hash = nodeHash(this.root(start, start + k), this.root(start + k, end));
+        if (complete) this.subtrees.set(`${start}:${n}`, hash);
+        return hash;
+    }
+
+    // RFC 6962 PATH(m, D[start:end])
+    private auditPath(m: number, start: number, end: number): Buffer[] {
+        const n = end - start;
+        if (n <= 1) return [];
+        const k = split(n);
+        return m < k
+            ? [...this.auditPath(m, start, start + k), this.root(start + k, end)]
+            : [...this.auditPath(m - k, start + k, end), this.root(start, start + k)];
+    }
+
+    // RFC 6962 SUBPROOF(m, D[start:end], b)
+    private subproof(m: number, start: number, end: number, complete: boolean): Buffer[] {
+        const n = end - start;
+        if (m === n) return complete ? [] : [this.root(start, end)];
+        const k = split(n);
+        return m <= k
+            ? [...this.subproof(m, start, start + k, complete), this.root(start + k, end)]
+            : [...this.subproof(m - k, start + k, end, false), this.root(start, start + k)];
+    }
+
+    private add(entry: LogEntry) {
+        if (entry.index !== this.entries.length) throw new Error(`Transparency log entry ${this.entries.length} has index ${entry.index}`);
+        this.entries.push(entry);
+        this.leaves.push(leafHash(entry));
+        for (const rpi of entry.rpis) if (!this.indexByRpi.has(rpi)) this.indexByRpi.set(rpi, entry.index);
+    }
+
+    private checkSize(treeSize: number) {
+        if (treeSize > this.leaves.length) throw new LogRangeError(`Tree size ${treeSize} exceeds the log (${this.leaves.length})`);
+    }
+}
+
+export function leafHash(entry: Pick<LogEntry, 'publishedAt' | 'rpis'>): Buffer {
+    const publishedAt = Buffer.alloc(8);
+    publishedAt.writeBigUInt64BE(BigInt(entry.publishedAt));
+    return sha256(Buffer.from([0x00]), publishedAt, ...entry.rpis.map((rpi) => Buffer.from(rpi, 'hex')));
+}
+
+/** The bytes a tree head signature covers */
+export function treeHeadMessage(head: Pick<TreeHead, 'treeSize' | 'timestamp' | 'rootHash'>): Buffer {
+    const fields = Buffer.alloc(16);
+    fields.writeBigUInt64BE(BigInt(head.treeSize), 0);
+    fields.writeBigUInt64BE(BigInt(head.timestamp), 8);
+    return Buffer.concat([Buffer.from(LOG_HEAD_CONTEXT), fields, Buffer.from(head.rootHash, 'hex')]);
+}
+
+/** Check an inclusion proof (RFC 9162, 2.1.3.2), e.g. from an auditor */
+export function verifyInclusionProof(index: number, treeSize: number, leaf: Buffer, proof: string[], rootHash: string): boolean {
+    if (index >= treeSize) return false;
+    let fn = index;
+    let sn = treeSize - 1;
+    let r = leaf;
+    for (const p of proof.map((hash) => Buffer.from(hash, 'hex'))) {
+        if (sn === 0) return false;
+        if (fn % 2 === 1 || fn === sn) {
+            r = nodeHash(p, r);
+            while (fn % 2 === 0 && fn !== 0) {
+                fn = Math.floor(fn / 2);
+                sn = Math.floor(sn / 2);
+            }
+        } else {
+            r = nodeHash(r, p);
+        }
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+    }
+    return sn === 0 && r.toString('hex') === rootHash;
+}
+
+/** Check a consistency proof between two tree heads (RFC 9162, 2.1.4.2) */
+export function verifyConsistencyProof(from: number, to: number, fromRoot: string, toRoot: string, proof: string[]): boolean {
+    if (from > to) return false;
+    if (from === to) return proof.length === 0 && fromRoot === toRoot;
+    if (from === 0) return proof.length === 0;
+
+    const path = proof.map((hash) => Buffer.from(hash, 'hex'));
+    if ((from & (from - 1)) === 0) path.unshift(Buffer.from(fromRoot, 'hex'));
+    if (path.length === 0) return false;
+
+    let fn = from - 1;
+    let sn = to - 1;
+    while (fn % 2 === 1) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+    }
+    let fr: Buffer = path[0];
+    let sr: Buffer = path[0];
+    for (const c of path.slice(1)) {
+        if (sn === 0) return false;
+        if (fn % 2 === 1 || fn === sn) {
+            fr = nodeHash(c, fr);
+            sr = nodeHash(c, sr);
+            while (fn % 2 === 0 && fn !== 0) {
+                fn = Math.floor(fn / 2);
+                sn = Math.floor(sn / 2);
+            }
+        } else {
+            sr = nodeHash(sr, c);
+        }
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+    }
+    return sn === 0 && fr.toString('hex') === fromRoot && sr.toString('hex') === toRoot;
+}
+
+/** Largest power of two below n (n > 1) */
+function split(n: number): number {
+    let k = 1;
+    while (k * 2 < n) k *= 2;
+    return k;
+}
+
+function nodeHash(left: Buffer, right: Buffer): Buffer {
+    return sha256(Buffer.from([0x01]), left, right);
+}
+
+function sha256(...parts: Buffer[]): Buffer {
+    const hash = createHash('sha256');
+    for (const part of parts) hash.update(part);
+    return hash.digest();
+}
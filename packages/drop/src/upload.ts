@@ -0,0 +1,119 @@
+import { createHash } from 'crypto';
+import { STATUS_CODES } from './serialize';
+
+// Binary report upload (POST /v1/report, Content-Type application/x-vailix-report), big-endian,
+// framed like the v1 download format:
+//   ["VLXR"][version: u8][flags: u8][status: u8][retentionDays: u16 (0 = server default)]
+//   [reportKeyLen: u8][reportKey: raw Ed25519 public key][envelopeLen: u8][envelope: UTF-8]
+//   [blobLen: u16][metadata blob: iv | auth tag | ciphertext, only with UPLOAD_FLAGS.blob]
+//   [count: u32] then per key: [rpi: 16 bytes][metaLen: u16][metadata: iv (12) | auth tag (16) | ciphertext]
+// Metadata is re-encoded to the iv:tag:data (base64) form the stores keep, so downloads don't change.
+// Unknown flags are rejected rather than misread.
+
+export const REPORT_CONTENT_TYPE = 'application/x-vailix-report';
+export const REPORT_MAGIC = Buffer.from('VLXR', 'ascii');
+
+/** Keys per report, for either encoding */
+export const MAX_REPORT_KEYS = 1500;
+/** Encrypted metadata per key in iv:tag:data form (10KB, defense-in-depth) */
+export const MAX_METADATA_LENGTH = 10240;
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export const UPLOAD_FLAGS = {
+    /** The report carries a shared metadata blob; each key's metadata is the wrapped blob key */
+    blob: 0x01,
+} as const;
+
+/** Stored id of a shared metadata blob: its content hash, so uploads can't claim each other's ids */
+export function blobId(data: string): string {
+    return createHash('sha256').update(data).digest('hex').slice(0, 32);
+}
+
+/** A decoded POST /v1/report body. JSON uploads carry hex RPIs, binary uploads Buffers. */
+export interface ReportBody {
+    reports: Array<{ rpi: string | Buffer; encryptedMetadata: string }>;
+    reportKey?: string;
+    status?: 'provisional' | 'confirmed';
+    retentionDays?: number;
+    envelope?: string;
+    /** Report metadata encrypted once (iv:tag:data); keys then carry the wrapped blob key */
+    metadataBlob?: string;
+}
+
+/** Malformed binary upload; Fastify answers with statusCode */
+export class ReportUploadError extends Error {
+    readonly statusCode = 400;
+
+    constructor(message: string) {
+        super(`Invalid report upload: ${message}`);
+        this.name = 'ReportUploadError';
+    }
+}
+
+export function parseReportUpload(data: Buffer): ReportBody {
+    let offset = 0;
+    const take = (length: number, what: string): Buffer => {
+        if (offset + length > data.length) throw new ReportUploadError(`truncated in ${what}`);
+        const slice = data.subarray(offset, offset + length);
+        offset += length;
+        return slice;
+    };
+
+    if (!take(REPORT_MAGIC.length, 'header').equals(REPORT_MAGIC)) throw new ReportUploadError('bad magic');
+    const [version, flags, statusCode] = take(3, 'header');
+    if (version !== 1) throw new ReportUploadError(`unsupported version ${version}`);
+    if ((flags & ~UPLOAD_FLAGS.blob) !== 0) throw new ReportUploadError(`unsupported flags ${flags}`);
+
+    const status = statusCode === STATUS_CODES.confirmed ? 'confirmed'
+        : statusCode === STATUS_CODES.provisional ? 'provisional'
+            : null;
+    if (!status) throw new ReportUploadError(`invalid status ${statusCode}`);
+
+    const retentionDays = take(2, 'header').readUInt16BE(0);
+    if (retentionDays > 3650) throw new ReportUploadError('retentionDays must be at most 3650');
+
+    const reportKey = take(take(1, 'report key')[0], 'report key');
+    if (reportKey.length !== 0 && reportKey.length !== 32) throw new ReportUploadError('report key must be 32 bytes');
+
+    const envelope = take(take(1, 'envelope')[0], 'envelope').toString('utf8');
+    if (envelope.length > 128) throw new ReportUploadError('envelope too long');
+
+    let metadataBlob: string | undefined;
+    if (flags & UPLOAD_FLAGS.blob) {
+        metadataBlob = encodeMetadata(take(take(2, 'metadata blob').readUInt16BE(0), 'metadata blob'), 'metadata blob');
+    }
+
+    const count = take(4, 'header').readUInt32BE(0);
+    if (count > MAX_REPORT_KEYS) throw new ReportUploadError(`at most ${MAX_REPORT_KEYS} keys per report`);
+
+    const reports: ReportBody['reports'] = [];
+    for (let i = 0; i < count; i++) {
+        const rpi = Buffer.from(take(16, `key ${i}`));
+        const metadata = take(take(2, `key ${i}`).readUInt16BE(0), `key ${i}`);
+        reports.push({ rpi, encryptedMetadata: metadata.length > 0 ? encodeMetadata(metadata, `metadata of key ${i}`) : '' });
+    }
+    if (offset !== data.length) throw new ReportUploadError('trailing bytes');
+
+    return {
+        reports,
+        reportKey: reportKey.length > 0 ? reportKey.toString('base64') : undefined,
+        status,
+        retentionDays: retentionDays || undefined,
+        envelope: envelope || undefined,
+        metadataBlob,
+    };
+}
+
+/** Raw iv | tag | ciphertext to the stored iv:tag:data (base64) form */
+function encodeMetadata(raw: Buffer, what: string): string {
+    if (raw.length < IV_LENGTH + TAG_LENGTH) throw new ReportUploadError(`${what} too short`);
+    const encoded = [
+        raw.subarray(0, IV_LENGTH),
+        raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH),
+        raw.subarray(IV_LENGTH + TAG_LENGTH),
+    ].map((part) => part.toString('base64')).join(':');
+    if (encoded.length > MAX_METADATA_LENGTH) throw new ReportUploadError(`${what} too long`);
+    return encoded;
+}
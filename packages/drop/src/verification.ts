@@ -0,0 +1,186 @@
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+import { MemorySpentChallengeStore } from './challenge';
+import type { SpentChallengeStore } from './challenge';
+
+const CODE_LENGTH = 8;
+
+/** Remembers redeemed report tokens (by `jti`) until they expire; same contract as SpentChallengeStore */
+export type SpentTokenStore = SpentChallengeStore;
+
+/** Stores hashes of issued verification codes until they are redeemed or expire */
+export interface VerificationCodeStore {
+    save(codeHash: string, expiresAt: Date): Promise<void>;
+    /** Atomically remove the code; returns false if it never existed or has expired */
+    consume(codeHash: string, now: Date): Promise<boolean>;
+}
+
+/**
+ * In-process code store. Codes are lost on restart and not shared between instances,
+ * so multi-instance deployments should provide a shared VerificationCodeStore.
+ */
+export class MemoryCodeStore implements VerificationCodeStore {
+    private codes = new Map<string, number>();
+
+    async save(codeHash: string, expiresAt: Date): Promise<void> {
+        this.prune(Date.now());
+        this.codes.set(codeHash, expiresAt.getTime());
+    }
+
+    async consume(codeHash: string, now: Date): Promise<boolean> {
+        const expiresAt = this.codes.get(codeHash);
+        this.codes.delete(codeHash);
+        return expiresAt !== undefined && expiresAt > now.getTime();
+    }
+
+    private prune(now: number) {
+        for (const [hash, expiresAt] of this.codes) {
+            if (expiresAt <= now) this.codes.delete(hash);
+        }
+    }
+}
+
+export interface VerificationOptions {
+    issuerKey: string;  // Sent by the health authority as x-vailix-issuer-key to mint codes
+    tokenSecret: string;  // HMAC key for report tokens
+    codeTtlMs?: number;  // How long an unredeemed code stays valid (default: 1 hour)
+    tokenTtlMs?: number;  // How long a report token stays valid (default: 15 minutes)
+    codeStore?: VerificationCodeStore;  // Default: in-memory (single instance only)
+    tokenStore?: SpentTokenStore;  // Redeemed report tokens (default: in-memory, single instance only)
+    maxFailedExchanges?: number;  // Wrong or expired codes per window before exchanges pause (default: 100)
+    exchangeWindowMs?: number;  // Window for maxFailedExchanges (default: 1 hour)
+}
+
+export interface IssuedCode {
+    code: string;
+    expiresAt: number;
+}
+
+export interface ReportToken {
+    token: string;
+    expiresAt: number;
+}
+
+/**
+ * Health-authority verification: the authority mints a one-time code for a diagnosed
+ * user, the app exchanges it for a short-lived signed report token, and /v1/report
+ * only accepts uploads carrying a valid token.
+ *
+ * Tokens are `<payload>.<hmac>` (base64url) and verified without a lookup; each is good for
+ * one report, so its `jti` is stored once redeemed, until it expires.
+ *
+ * An 8-digit code is guessable with enough tries, and the guesses can come from any number
+ * of IPs, so failed exchanges are counted for the issuer as a whole: after maxFailedExchanges
+ * in exchangeWindowMs, exchanges pause until the oldest failure leaves the window. Counts are
+ * per instance.
+ */
+export class VerificationService {
+    private codeStore: VerificationCodeStore;
+    private tokenStore: SpentTokenStore;
+    private codeTtlMs: number;
+    private tokenTtlMs: number;
+    private maxFailedExchanges: number;
+    private exchangeWindowMs: number;
+    private failedExchanges: number[] = [];  // Times of failed exchanges, oldest first
+
+    constructor(private options: VerificationOptions) {
+        if (!options.issuerKey) throw new Error('verification.issuerKey is required');
+        if (!options.tokenSecret) throw new Error('verification.tokenSecret is required');
+        this.codeStore = options.codeStore ?? new MemoryCodeStore();
+        this.tokenStore = options.tokenStore ?? new MemorySpentChallengeStore();
+        this.codeTtlMs = options.codeTtlMs ?? 60 * 60 * 1000;
+        this.tokenTtlMs = options.tokenTtlMs ?? 15 * 60 * 1000;
+        this.maxFailedExchanges = options.maxFailedExchanges ?? 100;
+        this.exchangeWindowMs = options.exchangeWindowMs ?? 60 * 60 * 1000;
+    }
+
+    isIssuer(key: string | undefined): boolean {
+        return !!key && safeEqual(key, this.options.issuerKey);
+    }
+
+    /** Mint a numeric one-time code (short enough to read out over the phone) */
+    async issueCode(now: Date = new Date()): Promise<IssuedCode> {
+        let code = '';
+        for (let i = 0; i < CODE_LENGTH; i++) code += randomInt(10).toString();
+
+        const expiresAt = now.getTime() + this.codeTtlMs;
+        await this.codeStore.save(hashCode(code), new Date(expiresAt));
+        return { code, expiresAt };
+    }
+
+    /** Redeem a code for a report token; returns null if the code is unknown, used or expired */
+    async exchangeCode(code: string, now: Date = new Date()): Promise<ReportToken | null> {
+        if (!(await this.codeStore.consume(hashCode(code), now))) {
+            this.pruneFailedExchanges(now);
+            this.failedExchanges.push(now.getTime());
+            return null;
+        }
+
+        const expiresAt = now.getTime() + this.tokenTtlMs;
+        const payload = tokenPayload(expiresAt);
+        return { token: `${payload}.${this.mac(payload)}`, expiresAt };
+    }
+
+    /**
+     * Answer to a decoy code exchange: shaped like a real token but with a random MAC, so it
+     * never passes verifyToken. No code is consumed.
+     */
+    decoyToken(now: Date = new Date()): ReportToken {
+        const expiresAt = now.getTime() + this.tokenTtlMs;
+        return { token: `${tokenPayload(expiresAt)}.${randomBytes(32).toString('base64url')}`, expiresAt };
+    }
+
+    /** Seconds until code exchanges resume after too many failures, for Retry-After; 0 if they are open */
+    exchangeRetryAfter(now: Date = new Date()): number {
+        this.pruneFailedExchanges(now);
+        if (this.failedExchanges.length < this.maxFailedExchanges) return 0;
+        // Open again once all but maxFailedExchanges - 1 failures have left the window
+        const reopensAt = this.failedExchanges[this.failedExchanges.length - this.maxFailedExchanges] + this.exchangeWindowMs;
+        return Math.max(1, Math.ceil((reopensAt - now.getTime()) / 1000));
+    }
+
+    /** Signature and expiry only; a token passes until it is redeemed */
+    verifyToken(token: string | undefined, now: Date = new Date()): boolean {
+        return this.claims(token, now) !== null;
+    }
+
+    /** Verify the token and mark it used; false if it is invalid, expired or was redeemed before */
+    async redeemToken(token: string | undefined, now: Date = new Date()): Promise<boolean> {
+        const claims = this.claims(token, now);
+        return !!claims && this.tokenStore.spend(claims.jti, new Date(claims.exp));
+    }
+
+    private pruneFailedExchanges(now: Date) {
+        const windowStart = now.getTime() - this.exchangeWindowMs;
+        while (this.failedExchanges.length > 0 && this.failedExchanges[0] <= windowStart) this.failedExchanges.shift();
+    }
+
+    private claims(token: string | undefined, now: Date): { jti: string; exp: number } | null {
+        if (!token) return null;
+        const [payload, mac, ...rest] = token.split('.');
+        if (!payload || !mac || rest.length > 0) return null;
+        if (!safeEqual(mac, this.mac(payload))) return null;
+
+        try {
+            const { jti, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+            return typeof jti === 'string' && typeof exp === 'number' && exp > now.getTime() ? { jti, exp } : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private mac(payload: string): string {
+        return createHmac('sha256', this.options.tokenSecret).update(payload).digest('base64url');
+    }
+}
+
+function tokenPayload(expiresAt: number): string {
+    return Buffer.from(JSON.stringify({ jti: randomBytes(16).toString('hex'), exp: expiresAt })).toString('base64url');
+}
+
+function hashCode(code: string): string {
+    return createHash('sha256').update(code).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+    return a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
@@ -0,0 +1,197 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { EVENT_BUCKET_MS } from './hooks';
+import type { DownloadServedEvent, KeysExpiredEvent, ReportAcceptedEvent, VailixEvent, VailixEventType, VailixHooks } from './hooks';
+
+// Outbound webhooks. Events are batched per hour: those of one type, tenant, bucket and
+// status/format are merged (counts summed, `count` events) and sent once the hour is over, so
+// delivery times never reveal when a report came in. Each batch is POSTed as JSON
+// ({ id, ...event, count }) with
+//   x-vailix-webhook-timestamp: Unix ms of the attempt
+//   x-vailix-webhook-signature: sha256=<hex HMAC-SHA256(secret, timestamp + "." + body)>
+// Receivers should check the signature, reject old timestamps and dedupe on `id` (retries resend it).
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-vailix-webhook-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-vailix-webhook-timestamp';
+
+export interface WebhookOptions {
+    url: string;
+    secret: string;  // HMAC key shared with the receiver
+    events?: VailixEventType[];  // Events to send (default: all)
+    maxAttempts?: number;  // Attempts per event before it is dropped (default: 6)
+    retryDelayMs?: number;  // Delay before the first retry, doubled after each failure (default: 5 seconds)
+    maxQueueSize?: number;  // Batches waiting for delivery; the oldest is dropped beyond this (default: 1000)
+    timeoutMs?: number;  // Per request (default: 10 seconds)
+}
+
+interface Delivery {
+    body: string;
+    attempts: number;
+    dueAt: number;
+}
+
+/** Signature header value for a webhook body */
+export function signWebhook(body: string, timestamp: string, secret: string): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/** Check a received webhook; rejects timestamps further than `toleranceMs` from now (default: 5 minutes) */
+export function verifyWebhookSignature(
+    body: string,
+    timestamp: string | undefined,
+    signature: string | undefined,
+    secret: string,
+    toleranceMs: number = 5 * 60 * 1000,
+    now: number = Date.now()
+): boolean {
+    if (!timestamp || !signature || !/^[0-9]+$/.test(timestamp)) return false;
+    if (Math.abs(now - Number(timestamp)) > toleranceMs) return false;
+    const expected = signWebhook(body, timestamp, secret);
+    return signature.length === expected.length && timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+/** An event standing for `count` merged events of the same kind and hour */
+type BatchedEvent = VailixEvent & { count: number };
+
+/**
+ * Delivers hourly event batches to one URL, one request at a time, retrying failures with
+ * exponential backoff. Batches and the queue live in process memory: events still waiting at a
+ * crash are lost, and close() makes one last attempt at everything, open batches included.
+ */
+export class WebhookDispatcher implements VailixHooks {
+    private batches = new Map<string, BatchedEvent>();
+    private queue: Delivery[] = [];
+    private timer: NodeJS.Timeout | null = null;
+    private timerDueAt = 0;
+    private sending: Promise<void> = Promise.resolve();
+    private closed = false;
+    private events: Set<VailixEventType> | null;
+
+    constructor(private options: WebhookOptions, private onError: (error: Error) => void = () => { }) {
+        if (!options.url) throw new Error('webhook.url is required');
+        if (!options.secret) throw new Error('webhook.secret is required');
+        this.events = options.events ? new Set(options.events) : null;
+    }
+
+    onReportAccepted(event: ReportAcceptedEvent) {
+        this.enqueue(event);
+    }
+
+    onDownloadServed(event: DownloadServedEvent) {
+        this.enqueue(event);
+    }
+
+    onKeysExpired(event: KeysExpiredEvent) {
+        this.enqueue(event);
+    }
+
+    /** Batches waiting for their hour to end, delivery or a retry */
+    get pending(): number {
+        return this.batches.size + this.queue.length;
+    }
+
+    /** Add the event to its hour's batch, sent once the hour is over */
+    enqueue(event: VailixEvent) {
+        if (this.closed || (this.events && !this.events.has(event.type))) return;
+
+        const key = batchKey(event);
+        const batch = this.batches.get(key);
+        if (!batch) {
+            this.batches.set(key, { ...event, count: 1 });
+            this.schedule(Math.max(0, event.bucket + EVENT_BUCKET_MS - Date.now()));
+            return;
+        }
+        batch.keys += event.keys;
+        if (batch.type === 'report.accepted' && event.type === 'report.accepted') batch.duplicates += event.duplicates;
+        batch.count++;
+    }
+
+    /** Attempt every batch whose hour is over by `now` and every retry due; resolves once those attempts are over */
+    flush(now: number = Date.now()): Promise<void> {
+        this.sending = this.sending.then(() => this.deliverDue(now));
+        return this.sending;
+    }
+
+    async close(): Promise<void> {
+        this.closed = true;
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        await this.flush(Infinity);
+    }
+
+    private async deliverDue(now: number) {
+        for (const [id, batch] of this.batches) {
+            if (batch.bucket + EVENT_BUCKET_MS > now) continue;
+            this.batches.delete(id);
+            this.queue.push({ body: JSON.stringify({ id: randomUUID(), ...batch }), attempts: 0, dueAt: now });
+            if (this.queue.length > (this.options.maxQueueSize ?? 1000)) {
+                this.queue.shift();
+                this.onError(new Error('Webhook queue full, dropped the oldest batch'));
+            }
+        }
+
+        const due = this.queue.filter((delivery) => delivery.dueAt <= now);
+        this.queue = this.queue.filter((delivery) => delivery.dueAt > now);
+
+        for (const delivery of due) {
+            try {
+                await this.send(delivery.body);
+            } catch (error) {
+                delivery.attempts++;
+                if (this.closed || delivery.attempts >= (this.options.maxAttempts ?? 6)) {
+                    this.onError(new Error(`Webhook delivery failed after ${delivery.attempts} attempts: ${(error as Error).message}`));
+                    continue;
+                }
+                delivery.dueAt = Date.now() + (this.options.retryDelayMs ?? 5000) * 2 ** (delivery.attempts - 1);
+                this.queue.push(delivery);
+            }
+        }
+
+        const next = [
+            ...this.queue.map((delivery) => delivery.dueAt),
+            ...[...this.batches.values()].map((batch) => batch.bucket + EVENT_BUCKET_MS),
+        ];
+        if (next.length > 0 && !this.closed) this.schedule(Math.max(0, Math.min(...next) - Date.now()));
+    }
+
+    private async send(body: string) {
+        const timestamp = Date.now().toString();
+        const res = await fetch(this.options.url, {
+            method: 'POST',
+            headers: {
+                'content-type': 'application/json',
+                [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+                [WEBHOOK_SIGNATURE_HEADER]: signWebhook(body, timestamp, this.options.secret),
+            },
+            body,
+            signal: AbortSignal.timeout(this.options.timeoutMs ?? 10_000),
+        });
+        if (!res.ok) throw new Error(`receiver answered ${res.status}`);
+    }
+
+    /** Run a flush in `delayMs`, unless one is already set to run sooner */
+    private schedule(delayMs: number) {
+        if (this.closed) return;
+        const dueAt = Date.now() + delayMs;
+        if (this.timer && this.timerDueAt <= dueAt) return;
+        if (this.timer) clearTimeout(this.timer);
+        this.timerDueAt = dueAt;
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.flush().catch(this.onError);
+        }, delayMs);
+        this.timer.unref();
+    }
+}
+
+/** Events that differ only in their counts share a batch */
+function batchKey(event: VailixEvent): string {
+    const base = `${event.type}:${event.tenant ?? ''}:${event.bucket}`;
+    switch (event.type) {
+        case 'report.accepted':
+            return `${base}:${event.status}`;
+        case 'download.served':
+            return `${base}:${event.format}`;
+        case 'keys.expired':
+            return base;
+    }
+}
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    test: {
+        environment: 'node',
+        include: ['__tests__/**/*.test.ts'],
+        globals: true,
+    },
+});
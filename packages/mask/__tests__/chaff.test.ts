@@ -0,0 +1,229 @@
+/**
+ * Tests for decoy (chaff) report uploads.
+ *
+ * Decoys must be indistinguishable from real reports on the wire: same headers,
+ * same number of keys and the same body size. Crypto is Node's, fetch is stubbed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createDecipheriv, createHmac } from 'crypto';
+
+const asyncStore = new Map<string, string>();
+const HISTORY = Array.from({ length: 96 }, (_, i) => i.toString(16).padStart(32, '0'));
+
+vi.mock('@react-native-async-storage/async-storage', () => ({
+    default: {
+        getItem: vi.fn(async (key: string) => asyncStore.get(key) ?? null),
+        setItem: vi.fn(async (key: string, value: string) => { asyncStore.set(key, value); }),
+        removeItem: vi.fn(async (key: string) => { asyncStore.delete(key); }),
+    },
+}));
+
+vi.mock('react-native-quick-crypto', async () => await import('crypto'));
+
+vi.mock('../src/identity', async () => {
+    const nacl = (await import('tweetnacl')).default;
+    return {
+        IdentityManager: class MockIdentityManager {
+            initialize = vi.fn().mockResolvedValue(undefined);
+            getMasterKey = vi.fn().mockReturnValue('0123456789abcdef0123456789abcdef');
+            getMetadataKey = vi.fn().mockReturnValue('ab'.repeat(32));
+            getHistory = vi.fn().mockReturnValue(HISTORY);
+            getReportKeyPair = vi.fn(() => nacl.sign.keyPair());
+        },
+    };
+});
+
+vi.mock('../src/db', () => ({
+    initializeDatabase: vi.fn().mockResolvedValue({}),
+}));
+
+vi.mock('../src/storage', () => ({
+    StorageService: class MockStorageService {
+        initialize = vi.fn().mockResolvedValue(undefined);
+        cleanupOldScans = vi.fn().mockResolvedValue(undefined);
+    },
+}));
+
+vi.mock('../src/matcher', () => ({
+    MatcherService: class MockMatcherService {
+        on = vi.fn();
+        off = vi.fn();
+        emit = vi.fn();
+    },
+}));
+
+vi.mock('../src/ble', () => ({
+    BleService: class MockBleService {
+        setStorage = vi.fn();
+        destroy = vi.fn();
+        on = vi.fn();
+    },
+}));
+
+import { VailixSDK } from '../src/index';
+import { sealEnvelope } from '../src/chaff';
+
+const SECRET = 'test-secret';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function openEnvelope(envelope: string): number {
+    const [iv, tag, data] = envelope.split(':').map((part) => Buffer.from(part, 'base64'));
+    const key = createHmac('sha256', SECRET).update('vailix-report-envelope').digest();
+    const decipher = createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()])[0];
+}
+
+describe('report envelope', () => {
+    it('should carry the chaff flag for the server and have a fixed size', () => {
+        expect(openEnvelope(sealEnvelope(SECRET, true))).toBe(1);
+        expect(openEnvelope(sealEnvelope(SECRET, false))).toBe(0);
+        expect(sealEnvelope(SECRET, true)).toHaveLength(sealEnvelope(SECRET, false).length);
+    });
+});
+
+describe('VailixSDK chaff', () => {
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(async () => {
+        await VailixSDK.destroy();
+        asyncStore.clear();
+        fetchMock = vi.fn(async () => new Response(JSON.stringify({ success: true }), { status: 200 }));
+        vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(async () => {
+        await VailixSDK.destroy();
+        vi.unstubAllGlobals();
+    });
+
+    const create = (reportFormat: 'bin' | 'json' = 'json', metadataFormat: 'per-key' | 'shared' = 'per-key') => VailixSDK.create({
+        appSecret: SECRET,
+        reportUrl: 'https://drop.test',
+        downloadUrl: 'https://drop.test',
+        reportFormat,
+        metadataFormat,
+        chaff: { meanIntervalMs: DAY_MS, getAttestToken: async () => 'attest-token', metadata: { type: 'x' } },
+    });
+
+    it('should only schedule on the first run', async () => {
+        const sdk = await create();
+
+        expect(await sdk.sendChaffIfDue()).toBe(false);
+        expect(fetchMock).not.toHaveBeenCalled();
+        expect(asyncStore.has('vailix_next_chaff')).toBe(true);
+    });
+
+    it('should send a decoy once due and schedule the next one', async () => {
+        const sdk = await create();
+        asyncStore.set('vailix_next_chaff', String(Date.now() - 1));
+
+        expect(await sdk.sendChaffIfDue()).toBe(true);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(Number(asyncStore.get('vailix_next_chaff'))).toBeGreaterThanOrEqual(Date.now() - 1);
+    });
+
+    it('should look like a real report on the wire', async () => {
+        const sdk = await create();
+        await sdk.report('attest-token', { type: 'y' });
+        asyncStore.set('vailix_next_chaff', '0');
+        await sdk.sendChaffIfDue();
+
+        const [[realUrl, real], [decoyUrl, decoy]] = fetchMock.mock.calls;
+        expect(decoyUrl).toBe(realUrl);
+        expect(decoy.headers).toEqual(real.headers);
+        expect(decoy.body.length).toBe(real.body.length);
+
+        const realBody = JSON.parse(real.body);
+        const decoyBody = JSON.parse(decoy.body);
+        expect(Object.keys(decoyBody)).toEqual(Object.keys(realBody));
+        expect(decoyBody.reports).toHaveLength(HISTORY.length);
+        expect(openEnvelope(decoyBody.envelope)).toBe(1);
+        expect(openEnvelope(realBody.envelope)).toBe(0);
+    });
+
+    it('should match real reports in the binary format too', async () => {
+        const sdk = await create('bin');
+        await sdk.report('attest-token', { type: 'y' });
+        asyncStore.set('vailix_next_chaff', '0');
+        await sdk.sendChaffIfDue();
+
+        const [[, real], [, decoy]] = fetchMock.mock.calls;
+        expect(real.headers['Content-Type']).toBe('application/x-vailix-report');
+        expect(decoy.headers).toEqual(real.headers);
+        expect(decoy.body.length).toBe(real.body.length);
+    });
+
+    it('should match real reports with shared metadata', async () => {
+        const sdk = await create('json', 'shared');
+        await sdk.report('attest-token', { type: 'y' });
+        asyncStore.set('vailix_next_chaff', '0');
+        await sdk.sendChaffIfDue();
+
+        const [[, real], [, decoy]] = fetchMock.mock.calls;
+        expect(decoy.body.length).toBe(real.body.length);
+
+        // Each key unwraps the content key, which opens the one blob
+        const open = (sealed: string, key: Buffer) => {
+            const [iv, tag, data] = sealed.split(':').map((part) => Buffer.from(part, 'base64'));
+            const decipher = createDecipheriv('aes-256-gcm', key, iv);
+            decipher.setAuthTag(tag);
+            return Buffer.concat([decipher.update(data), decipher.final()]);
+        };
+        const body = JSON.parse(real.body);
+        const contentKey = open(body.reports[0].encryptedMetadata, Buffer.from('ab'.repeat(32), 'hex'));
+        expect(JSON.parse(open(body.metadataBlob, contentKey).toString())).toEqual({ type: 'y' });
+    });
+
+    it('should send decoys as JSON once the server turned binary uploads away', async () => {
+        const sdk = await create('bin');
+        fetchMock.mockResolvedValueOnce(new Response(null, { status: 415 }));
+        expect((await sdk.report('attest-token', { type: 'y' })).success).toBe(true);
+        asyncStore.set('vailix_next_chaff', '0');
+        await sdk.sendChaffIfDue();
+
+        const [[, rejected], [, real], [, decoy]] = fetchMock.mock.calls;
+        expect(rejected.headers['Content-Type']).toBe('application/x-vailix-report');
+        expect(real.headers['Content-Type']).toBe('application/json');
+        expect(decoy.headers).toEqual(real.headers);
+        expect(decoy.body.length).toBe(real.body.length);
+    });
+
+    it('should exchange a decoy code when real reports use verification codes', async () => {
+        const sdk = await VailixSDK.create({
+            appSecret: SECRET,
+            reportUrl: 'https://drop.test',
+            downloadUrl: 'https://drop.test',
+            reportFormat: 'json',
+            chaff: { meanIntervalMs: DAY_MS, reportToken: true },
+        });
+        const token = `${'p'.repeat(80)}.${'m'.repeat(43)}`;
+        fetchMock.mockImplementation(async (url: string) => new Response(JSON.stringify(
+            url.endsWith('/v1/verify') ? { token, expiresAt: Date.now() } : { success: true }
+        ), { status: 200 }));
+
+        await sdk.report({ verificationCode: '12345678' });
+        asyncStore.set('vailix_next_chaff', '0');
+        await sdk.sendChaffIfDue();
+
+        const [[realVerifyUrl, realVerify], [, real], [decoyVerifyUrl, decoyVerify], [, decoy]] = fetchMock.mock.calls;
+        expect(realVerifyUrl).toBe('https://drop.test/v1/verify');
+        expect(decoyVerifyUrl).toBe(realVerifyUrl);
+        expect(decoyVerify.headers).toEqual(realVerify.headers);
+        expect(decoyVerify.body.length).toBe(realVerify.body.length);
+        expect(JSON.parse(decoyVerify.body).code).toMatch(/^[0-9]{8}$/);
+        expect(openEnvelope(JSON.parse(decoyVerify.body).envelope)).toBe(1);
+        expect(openEnvelope(JSON.parse(realVerify.body).envelope)).toBe(0);
+        expect(decoy.headers).toEqual(real.headers);
+        expect(decoy.headers['x-vailix-report-token']).toBe(token);
+    });
+
+    it('should not record decoys as the last report', async () => {
+        const sdk = await create();
+        asyncStore.set('vailix_next_chaff', '0');
+        await sdk.sendChaffIfDue();
+
+        expect(await sdk.getReportStatus()).toBeNull();
+    });
+});
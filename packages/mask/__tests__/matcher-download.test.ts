@@ -0,0 +1,827 @@
+/**
+ * Tests for MatcherService key download.
+ *
+ * Covers both download sources:
+ * - 'api': paged /v1/download responses
+ * - 'exports': walking the export manifest published by drop
+ *
+ * fetch and AsyncStorage are replaced with in-memory fakes.
+ */
+
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+
+const asyncStore = new Map<string, string>();
+
+vi.mock('@react-native-async-storage/async-storage', () => ({
+    default: {
+        getItem: vi.fn(async (key: string) => asyncStore.get(key) ?? null),
+        setItem: vi.fn(async (key: string, value: string) => { asyncStore.set(key, value); }),
+        removeItem: vi.fn(async (key: string) => { asyncStore.delete(key); }),
+    },
+}));
+
+vi.mock('react-native-quick-crypto', async () => ({
+    createDecipheriv: vi.fn(),
+    createHash: (await import('crypto')).createHash,
+}));
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { createDecipheriv as sdkDecipheriv } from 'react-native-quick-crypto';
+import nacl from 'tweetnacl';
+import { MatcherService } from '../src/matcher';
+import { SignatureVerificationError } from '../src/signature';
+import { TransparencyError } from '../src/transparency';
+
+// Same layout as drop's serializeKeys: [count u32] + per key [rpi 16][ts f64][metaLen u16][meta]
+// plus, when any key has a status code, the lifecycle trailer [n u32] + [index u32][status u8]
+function serialize(keys: Array<{ rpi: string; reportedAt: number; statusCode?: number }>): ArrayBuffer {
+    const flagged = keys.filter((k) => k.statusCode).length;
+    const buffer = new ArrayBuffer(4 + keys.length * 26 + (flagged ? 4 + flagged * 5 : 0));
+    const view = new DataView(buffer);
+    view.setUint32(0, keys.length);
+    let offset = 4;
+    for (const key of keys) {
+        for (let i = 0; i < 16; i++) view.setUint8(offset + i, parseInt(key.rpi.substr(i * 2, 2), 16));
+        view.setFloat64(offset + 16, key.reportedAt);
+        view.setUint16(offset + 24, 0);
+        offset += 26;
+    }
+    if (flagged) {
+        view.setUint32(offset, flagged);
+        offset += 4;
+        keys.forEach((key, index) => {
+            if (!key.statusCode) return;
+            view.setUint32(offset, index);
+            view.setUint8(offset + 4, key.statusCode);
+            offset += 5;
+        });
+    }
+    return buffer;
+}
+
+type TestKey = { rpi: string; reportedAt: number; statusCode?: number; metadata?: string; blob?: string };
+
+// Same layout as drop's serializeKeys v1: ["VLXK"][version u8][flags u8][count u32]
+// + per key [rpi 16][ts u48][status u8 when flags & 1][metaLen u16][meta][blob u16 when flags & 2]
+// + with flags & 2, the blob table [blobCount u16] + per blob [len u16][data]
+function serializeV1(keys: TestKey[], flags: number = 1, version: number = 1): ArrayBuffer {
+    const parts = [Buffer.from('VLXK'), Buffer.from([version, flags]), Buffer.alloc(4)];
+    parts[2].writeUInt32BE(keys.length);
+    const blobs: string[] = [];
+    for (const key of keys) {
+        const fixed = Buffer.alloc(22);
+        Buffer.from(key.rpi, 'hex').copy(fixed);
+        fixed.writeUIntBE(key.reportedAt, 16, 6);
+        parts.push(fixed);
+        if (flags & 1) parts.push(Buffer.from([key.statusCode ?? 0]));
+        parts.push(u16(Buffer.byteLength(key.metadata ?? '')), Buffer.from(key.metadata ?? ''));
+        if (flags & 2) {
+            if (key.blob && !blobs.includes(key.blob)) blobs.push(key.blob);
+            parts.push(u16(key.blob ? blobs.indexOf(key.blob) : 0xffff));
+        }
+    }
+    if (flags & 2) {
+        parts.push(u16(blobs.length));
+        for (const blob of blobs) parts.push(u16(blob.length), Buffer.from(blob));
+    }
+    const buffer = Buffer.concat(parts);
+    return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length) as ArrayBuffer;
+}
+
+// Same layout as drop's serializeFilter: [count u32][p u8][maxCreatedAt f64] + Golomb-Rice coded hashes
+function gcsFilter(rpis: string[], maxReportedAt: number, p: number = 19): ArrayBuffer {
+    const modulus = rpis.length * 2 ** p;
+    const hashes = rpis.map((rpi) => parseInt(rpi.slice(0, 12), 16) % modulus).sort((a, b) => a - b);
+    const bits: number[] = [];
+    let previous = 0;
+    for (const hash of hashes) {
+        const delta = hash - previous;
+        previous = hash;
+        for (let i = 0; i < Math.floor(delta / 2 ** p); i++) bits.push(1);
+        bits.push(0);
+        for (let b = p - 1; b >= 0; b--) bits.push(Math.floor((delta % 2 ** p) / 2 ** b) & 1);
+    }
+    const buffer = new ArrayBuffer(13 + Math.ceil(bits.length / 8));
+    const view = new DataView(buffer);
+    view.setUint32(0, rpis.length);
+    view.setUint8(4, p);
+    view.setFloat64(5, maxReportedAt);
+    bits.forEach((bit, i) => {
+        if (bit) view.setUint8(13 + (i >> 3), view.getUint8(13 + (i >> 3)) | (0x80 >> (i & 7)));
+    });
+    return buffer;
+}
+
+function u16(value: number): Buffer {
+    const buffer = Buffer.alloc(2);
+    buffer.writeUInt16BE(value);
+    return buffer;
+}
+
+// Same layout as drop's streamKeys: key frames, end frame [0][count u32][cursorLen u16][cursor],
+// then [keyIdLen u8][keyId][sigLen u8][sig] over context + SHA-256 of everything before it.
+// A key with a blob gets a blob frame [2][blob u16][len u16][data] ahead of it (first use only)
+// and the shared key frame: type 3, blob index after the metadata. A sync token ends the end frame.
+// Version 1 streams open with [VLXK][1][flags: status, blobs, sync token] and have u48 timestamps.
+function streamPage(
+    keys: TestKey[],
+    nextCursor: string = '',
+    signWith?: { keyId: string; secretKey: Uint8Array },
+    syncToken?: string,
+    version: 0 | 1 = 0
+): Buffer {
+    const blobs: string[] = [];
+    const frames = keys.flatMap((key) => {
+        const metadata = Buffer.from(key.metadata ?? '');
+        const frame = Buffer.alloc(version === 1 ? 26 : 28);
+        frame[0] = key.blob ? 3 : 1;
+        Buffer.from(key.rpi, 'hex').copy(frame, 1);
+        if (version === 1) frame.writeUIntBE(key.reportedAt, 17, 6);
+        else frame.writeDoubleBE(key.reportedAt, 17);
+        frame[frame.length - 3] = key.statusCode ?? 0;
+        frame.writeUInt16BE(metadata.length, frame.length - 2);
+        if (!key.blob) return [frame, metadata];
+
+        const blobFrame = blobs.includes(key.blob) ? [] : [Buffer.from([2]), u16(blobs.length), u16(key.blob.length), Buffer.from(key.blob)];
+        if (!blobs.includes(key.blob)) blobs.push(key.blob);
+        return [...blobFrame, frame, metadata, u16(blobs.indexOf(key.blob))];
+    });
+    const end = Buffer.alloc(7 + nextCursor.length);
+    end.writeUInt32BE(keys.length, 1);
+    end.writeUInt16BE(nextCursor.length, 5);
+    end.write(nextCursor, 7);
+    const token = syncToken ? [u16(syncToken.length), Buffer.from(syncToken)] : [];
+
+    const flags = 0x01 | (blobs.length > 0 ? 0x02 : 0) | (syncToken ? 0x04 : 0);
+    const header = version === 1 ? [Buffer.from('VLXK'), Buffer.from([1, flags])] : [];
+    const body = Buffer.concat([...header, ...frames, end, ...token]);
+    if (!signWith) return Buffer.concat([body, Buffer.from([0, 0])]);
+    const digest = createHash('sha256').update(body).digest();
+    const message = Buffer.concat([Buffer.from('vailix-download-stream:v1:'), digest]);
+    const signature = Buffer.from(nacl.sign.detached(new Uint8Array(message), signWith.secretKey));
+    const keyId = Buffer.from(signWith.keyId);
+    return Buffer.concat([body, Buffer.from([keyId.length]), keyId, Buffer.from([signature.length]), signature]);
+}
+
+/** Deliver the body a few bytes at a time so frames straddle chunks */
+function streamResponse(body: Buffer, chunkSize: number = 5, headers: Record<string, string> = {}) {
+    const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+            for (let i = 0; i < body.length; i += chunkSize) controller.enqueue(new Uint8Array(body.subarray(i, i + chunkSize)));
+            controller.close();
+        },
+    });
+    return new Response(stream, { status: 200, headers: { 'content-type': 'application/x-vailix-stream', ...headers } });
+}
+
+function gcsResponse(body: ArrayBuffer, headers: Record<string, string> = {}) {
+    return new Response(body, { status: 200, headers: { 'content-type': 'application/x-vailix-gcs', ...headers } });
+}
+
+function binaryResponse(body: ArrayBuffer, headers: Record<string, string> = {}) {
+    return new Response(body, { status: 200, headers: { 'content-type': 'application/octet-stream', ...headers } });
+}
+
+/** AES-256-GCM in the iv:tag:data (base64) form the SDK uploads */
+function seal(data: Buffer, key: Buffer): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+    return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join(':');
+}
+
+const RPI_A = 'aa'.repeat(16);
+const RPI_B = 'bb'.repeat(16);
+
+describe('MatcherService download', () => {
+    let storage: {
+        getMatchingScans: ReturnType<typeof vi.fn>;
+        getScannedRpis: ReturnType<typeof vi.fn>;
+        cleanupOldScans: ReturnType<typeof vi.fn>;
+    };
+    let fetchMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        asyncStore.clear();
+        storage = {
+            getMatchingScans: vi.fn(async (rpis: string[]) =>
+                rpis.filter((rpi) => rpi === RPI_B).map((rpi) => ({ rpi, metadataKey: 'k', timestamp: 1 }))
+            ),
+            getScannedRpis: vi.fn().mockResolvedValue([RPI_B]),
+            cleanupOldScans: vi.fn().mockResolvedValue(undefined),
+        };
+        fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    describe("downloadSource: 'api'", () => {
+        it('should follow cursors and checkpoint the max reportedAt', async () => {
+            fetchMock
+                .mockResolvedValueOnce(binaryResponse(serialize([{ rpi: RPI_A, reportedAt: 1000 }]), { 'x-vailix-next-cursor': 'c1' }))
+                .mockResolvedValueOnce(binaryResponse(serialize([{ rpi: RPI_B, reportedAt: 2000 }])));
+
+            const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret');
+            const matches = await matcher.fetchAndMatch();
+
+            expect(matches.map((m) => m.rpi)).toEqual([RPI_B]);
+            expect(fetchMock.mock.calls[1][0]).toContain('cursor=c1');
+            expect(asyncStore.get('vailix_last_sync')).toBe('2000');
+        });
+
+        it('should announce its format versions and parse v1 pages', async () => {
+            fetchMock.mockResolvedValueOnce(binaryResponse(
+                serializeV1([{ rpi: RPI_A, reportedAt: 1704500000123 }, { rpi: RPI_B, reportedAt: 1704500000456, statusCode: 1 }]),
+                { 'x-vailix-format-version': '1' }
+            ));
+
+            const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret');
+            const matches = await matcher.fetchAndMatch();
+
+            expect(fetchMock.mock.calls[0][1].headers['x-vailix-format-versions']).toBe('1,0');
+            expect(matches.map((m) => [m.rpi, m.status])).toEqual([[RPI_B, 'provisional']]);
+            expect(asyncStore.get('vailix_last_sync')).toBe('1704500000456');
+        });
+
+        it('should refuse v1 pages with unknown flags or versions instead of misreading them', async () => {
+            fetchMock
+                .mockResolvedValueOnce(binaryResponse(serializeV1([{ rpi: RPI_B, reportedAt: 1000 }], 0x04)))
+                .mockResolvedValueOnce(binaryResponse(serializeV1([{ rpi: RPI_B, reportedAt: 1000 }], 1, 2)));
+
+            for (const expected of ['flags: 4', 'version: 2']) {
+                const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret');
+                const onError = vi.fn();
+                matcher.on('error', onError);
+
+                expect(await matcher.fetchAndMatch()).toEqual([]);
+                expect(onError.mock.calls[0][0].message).toContain(expected);
+            }
+            expect(asyncStore.has('vailix_last_sync')).toBe(false);
+        });
+
+        it('should send the tenant and secret ID headers when configured', async () => {
+            fetchMock.mockResolvedValueOnce(binaryResponse(serialize([])));
+
+            const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret', {
+                tenantId: 'app_a',
+                appSecretId: '2025-01',
+            });
+            await matcher.fetchAndMatch();
+
+            expect(fetchMock.mock.calls[0][1].headers).toEqual({
+                'x-vailix-secret': 'secret',
+                'x-vailix-secret-id': '2025-01',
+                'x-vailix-tenant': 'app_a',
+                'x-vailix-format-versions': '1,0',
+            });
+        });
+    });
+
+    describe("downloadFormat: 'gcs'", () => {
+        const gcsMatcher = () => new MatcherService(storage as any, 'https://drop.test', 'secret', { downloadFormat: 'gcs' });
+
+        it('should skip pages without candidate hits but still advance the checkpoint', async () => {
+            fetchMock.mockResolvedValueOnce(gcsResponse(gcsFilter([RPI_A], 3000)));
+
+            const matches = await gcsMatcher().fetchAndMatch();
+
+            expect(matches).toEqual([]);
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            expect(fetchMock.mock.calls[0][0]).toContain('format=gcs');
+            expect(asyncStore.get('vailix_last_sync')).toBe('3000');
+        });
+
+        it('should fetch the full page on a candidate hit', async () => {
+            fetchMock
+                .mockResolvedValueOnce(gcsResponse(gcsFilter([RPI_A, RPI_B], 2000), { 'x-vailix-next-cursor': 'c1' }))
+                .mockResolvedValueOnce(binaryResponse(serialize([{ rpi: RPI_A, reportedAt: 1000 }, { rpi: RPI_B, reportedAt: 2000 }])))
+                .mockResolvedValueOnce(gcsResponse(gcsFilter([], 0)));
+
+            const matches = await gcsMatcher().fetchAndMatch();
+
+            expect(matches.map((m) => m.rpi)).toEqual([RPI_B]);
+            expect(fetchMock.mock.calls[1][0]).toContain('format=bin');
+            expect(fetchMock.mock.calls[1][0]).not.toContain('cursor=');
+            expect(fetchMock.mock.calls[2][0]).toContain('cursor=c1');
+            expect(storage.getScannedRpis).toHaveBeenCalledTimes(1);
+        });
+
+        it("should fall back to 'bin' when the server does not support filters", async () => {
+            fetchMock
+                .mockResolvedValueOnce(new Response(JSON.stringify({ keys: [], nextCursor: null }), {
+                    status: 200,
+                    headers: { 'content-type': 'application/json' },
+                }))
+                .mockResolvedValueOnce(binaryResponse(serialize([{ rpi: RPI_B, reportedAt: 1000 }])));
+
+            const matches = await gcsMatcher().fetchAndMatch();
+
+            expect(matches.map((m) => m.rpi)).toEqual([RPI_B]);
+            expect(fetchMock.mock.calls[1][0]).toContain('format=bin');
+        });
+    });
+
+    describe("downloadFormat: 'stream'", () => {
+        const keyPair = nacl.sign.keyPair();
+        const serverPublicKeys = { k1: Buffer.from(keyPair.publicKey).toString('base64') };
+        const streamMatcher = (options: Record<string, unknown> = {}) => {
+            const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret', { downloadFormat: 'stream', ...options });
+            const onError = vi.fn();
+            matcher.on('error', onError);
+            return { matcher, onError };
+        };
+
+        it('should parse pages chunk by chunk and follow the trailing cursor', async () => {
+            fetchMock
+                .mockResolvedValueOnce(streamResponse(streamPage([{ rpi: RPI_A, reportedAt: 1000 }], 'c1')))
+                .mockResolvedValueOnce(streamResponse(streamPage([{ rpi: RPI_B, reportedAt: 2000, statusCode: 1 }])));
+
+            const { matcher, onError } = streamMatcher();
+            const matches = await matcher.fetchAndMatch();
+
+            expect(onError).not.toHaveBeenCalled();
+            expect(matches.map((m) => [m.rpi, m.status])).toEqual([[RPI_B, 'provisional']]);
+            expect(fetchMock.mock.calls[0][0]).toContain('format=stream');
+            expect(fetchMock.mock.calls[1][0]).toContain('cursor=c1');
+            expect(asyncStore.get('vailix_last_sync')).toBe('2000');
+        });
+
+        it('should fail the sync on a truncated stream', async () => {
+            const page = streamPage([{ rpi: RPI_B, reportedAt: 1000 }]);
+            fetchMock.mockResolvedValueOnce(streamResponse(page.subarray(0, page.length - 4)));
+
+            const { matcher, onError } = streamMatcher();
+            await matcher.fetchAndMatch();
+
+            expect(onError.mock.calls[0][0].message).toContain('truncated');
+            expect(asyncStore.has('vailix_last_sync')).toBe(false);
+        });
+
+        it('should verify the trailing signature before matching', async () => {
+            fetchMock.mockResolvedValueOnce(streamResponse(streamPage([{ rpi: RPI_B, reportedAt: 1000 }], '', { keyId: 'k1', secretKey: keyPair.secretKey })));
+
+            const { matcher, onError } = streamMatcher({ serverPublicKeys });
+            const matches = await matcher.fetchAndMatch();
+
+            expect(onError).not.toHaveBeenCalled();
+            expect(matches.map((m) => m.rpi)).toEqual([RPI_B]);
+        });
+
+        it('should reject a tampered stream without matching any of it', async () => {
+            const page = streamPage([{ rpi: RPI_B, reportedAt: 1000 }], '', { keyId: 'k1', secretKey: keyPair.secretKey });
+            page.writeDoubleBE(9999, 17);
+            fetchMock.mockResolvedValueOnce(streamResponse(page));
+
+            const { matcher, onError } = streamMatcher({ serverPublicKeys });
+            const matches = await matcher.fetchAndMatch();
+
+            expect(matches).toEqual([]);
+            expect(storage.getMatchingScans).not.toHaveBeenCalled();
+            expect(onError).toHaveBeenCalledWith(expect.any(SignatureVerificationError));
+        });
+
+        it('should parse streams framed as format v1', async () => {
+            const keys = [{ rpi: RPI_A, reportedAt: 1000 }, { rpi: RPI_B, reportedAt: 2 ** 40 + 5, statusCode: 1, blob: 'iv:tag:blob' }];
+            // Two bytes at a time, so the header straddles chunks; the token comes from the flags
+            fetchMock.mockResolvedValueOnce(streamResponse(streamPage(keys, '', { keyId: 'k1', secretKey: keyPair.secretKey }, 't1', 1), 2));
+
+            const { matcher, onError } = streamMatcher({ serverPublicKeys });
+            const matches = await matcher.fetchAndMatch();
+
+            expect(onError).not.toHaveBeenCalled();
+            expect(matches.map((m) => [m.rpi, m.status])).toEqual([[RPI_B, 'provisional']]);
+            expect(asyncStore.get('vailix_last_sync')).toBe(String(2 ** 40 + 5));
+            expect(asyncStore.get('vailix_sync_token')).toBe('t1');
+        });
+
+        it('should refuse stream versions and flags it does not know', async () => {
+            const page = streamPage([{ rpi: RPI_B, reportedAt: 1000 }], '', undefined, undefined, 1);
+            page[5] |= 0x80;
+            fetchMock.mockResolvedValueOnce(streamResponse(page));
+
+            const { matcher, onError } = streamMatcher();
+            expect(await matcher.fetchAndMatch()).toEqual([]);
+            expect(onError.mock.calls[0][0].message).toContain('Unsupported download stream flags');
+        });
+
+        it("should fall back to 'bin' when the server does not support streaming", async () => {
+            fetchMock
+                .mockResolvedValueOnce(new Response(JSON.stringify({ keys: [], nextCursor: null }), {
+                    status: 200,
+                    headers: { 'content-type': 'application/json' },
+                }))
+                .mockResolvedValueOnce(binaryResponse(serialize([{ rpi: RPI_B, reportedAt: 1000 }])));
+
+            const { matcher } = streamMatcher();
+            const matches = await matcher.fetchAndMatch();
+
+            expect(matches.map((m) => m.rpi)).toEqual([RPI_B]);
+            expect(fetchMock.mock.calls[1][0]).toContain('format=bin');
+        });
+    });
+
+    describe('sync tokens', () => {
+        const tokenPage = (keys: TestKey[], syncToken: string, nextCursor: string = '') =>
+            binaryResponse(serialize(keys), { 'x-vailix-sync-token': syncToken, 'x-vailix-next-cursor': nextCursor });
+        const sync = async () => {
+            const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret');
+            const onError = vi.fn();
+            matcher.on('error', onError);
+            await matcher.fetchAndMatch();
+            return onError;
+        };
+
+        it('should resume from the last token instead of a timestamp', async () => {
+            fetchMock.mockResolvedValueOnce(tokenPage([{ rpi: RPI_A, reportedAt: 1000 }], 't1'));
+            await sync();
+            expect(fetchMock.mock.calls[0][0]).toContain('tokens=1');
+            expect(asyncStore.get('vailix_sync_token')).toBe('t1');
+
+            fetchMock.mockResolvedValueOnce(tokenPage([], 't1'));
+            await sync();
+            const url = new URL(fetchMock.mock.calls[1][0]);
+            expect(url.searchParams.get('token')).toBe('t1');
+            expect(url.searchParams.has('since')).toBe(false);
+        });
+
+        it('should resume in the middle of an interrupted sync', async () => {
+            fetchMock
+                .mockResolvedValueOnce(tokenPage([{ rpi: RPI_B, reportedAt: 1000 }], 't1', 'c1'))
+                .mockResolvedValueOnce(new Response(null, { status: 503 }));
+            expect(await sync()).toHaveBeenCalled();
+            expect(asyncStore.get('vailix_sync_token')).toBe('t1');
+            expect(asyncStore.has(`vailix_match_cache_${RPI_B}`)).toBe(true);
+
+            fetchMock.mockResolvedValueOnce(tokenPage([{ rpi: RPI_A, reportedAt: 2000 }], 't2'));
+            expect(await sync()).not.toHaveBeenCalled();
+            expect(new URL(fetchMock.mock.calls[2][0]).searchParams.get('token')).toBe('t1');
+            expect(asyncStore.get('vailix_sync_token')).toBe('t2');
+        });
+
+        it('should emit the matches of finished pages when a later page fails', async () => {
+            fetchMock
+                .mockResolvedValueOnce(tokenPage([{ rpi: RPI_B, reportedAt: 1000 }], 't1', 'c1'))
+                .mockResolvedValueOnce(new Response(null, { status: 503 }));
+            const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret');
+            const onMatch = vi.fn();
+            matcher.on('match', onMatch);
+            matcher.on('error', () => undefined);
+
+            await matcher.fetchAndMatch();
+
+            expect(onMatch).toHaveBeenCalledWith([expect.objectContaining({ rpi: RPI_B })]);
+            expect(asyncStore.get('vailix_sync_token')).toBe('t1');
+        });
+
+        it('should start over from the timestamp when the server rejects the token', async () => {
+            asyncStore.set('vailix_sync_token', 'stale');
+            asyncStore.set('vailix_last_sync', '1500');
+            fetchMock
+                .mockResolvedValueOnce(Response.json({ error: 'Invalid sync token' }, { status: 400 }))
+                .mockResolvedValueOnce(tokenPage([{ rpi: RPI_B, reportedAt: 2000 }], 't1'));
+
+            expect(await sync()).not.toHaveBeenCalled();
+            expect(new URL(fetchMock.mock.calls[1][0]).searchParams.get('since')).toBe('1500');
+            expect(asyncStore.get('vailix_sync_token')).toBe('t1');
+        });
+
+        it('should read the token from the end of a stream', async () => {
+            fetchMock.mockResolvedValueOnce(streamResponse(
+                streamPage([{ rpi: RPI_A, reportedAt: 1000 }], '', undefined, 't1'),
+                5,
+                { 'x-vailix-stream-sync-token': '1' }
+            ));
+
+            const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret', { downloadFormat: 'stream' });
+            await matcher.fetchAndMatch();
+
+            expect(asyncStore.get('vailix_sync_token')).toBe('t1');
+        });
+    });
+
+    describe("downloadSource: 'exports'", () => {
+        const manifest = {
+            version: 1,
+            generatedAt: 5000,
+            bucketMs: 1000,
+            exportedThrough: 4000,
+            files: [
+                { start: 1000, end: 2000, path: '1000.bin', count: 1 },
+                { start: 3000, end: 4000, path: '3000.bin', count: 1 },
+            ],
+        };
+
+        function mockExports() {
+            fetchMock.mockImplementation(async (url: string) => {
+                if (url.endsWith('/v1/exports/index.json')) return new Response(JSON.stringify(manifest));
+                if (url.endsWith('/v1/exports/1000.bin')) return binaryResponse(serialize([{ rpi: RPI_A, reportedAt: 1500 }]));
+                if (url.endsWith('/v1/exports/3000.bin')) return binaryResponse(serialize([{ rpi: RPI_B, reportedAt: 3500 }]));
+                return new Response(null, { status: 404 });
+            });
+        }
+
+        it('should walk every file in the manifest on first sync', async () => {
+            mockExports();
+
+            const matcher = new MatcherService(storage as any, 'https://cdn.test', 'secret', { downloadSource: 'exports' });
+            const matches = await matcher.fetchAndMatch();
+
+            expect(matches.map((m) => m.rpi)).toEqual([RPI_B]);
+            expect(fetchMock).toHaveBeenCalledTimes(3);
+            expect(asyncStore.get('vailix_last_sync')).toBe('4000');
+        });
+
+        it('should skip files that end before the last sync', async () => {
+            mockExports();
+            asyncStore.set('vailix_last_sync', '2000');
+
+            const matcher = new MatcherService(storage as any, 'https://cdn.test', 'secret', { downloadSource: 'exports' });
+            await matcher.fetchAndMatch();
+
+            const urls = fetchMock.mock.calls.map((call) => call[0] as string);
+            expect(urls).not.toContain('https://cdn.test/v1/exports/1000.bin');
+            expect(urls).toContain('https://cdn.test/v1/exports/3000.bin');
+        });
+
+        it('should verify per-file signatures listed in the manifest', async () => {
+            const keyPair = nacl.sign.keyPair();
+            const file = serialize([{ rpi: RPI_B, reportedAt: 1500 }]);
+            const signature = Buffer.from(nacl.sign.detached(new Uint8Array(file), keyPair.secretKey)).toString('base64');
+            const signedManifest = {
+                ...manifest,
+                files: [{ start: 1000, end: 2000, path: '1000.bin', count: 1, keyId: 'k1', signature }],
+            };
+            fetchMock.mockImplementation(async (url: string) =>
+                url.endsWith('index.json') ? new Response(JSON.stringify(signedManifest)) : binaryResponse(file)
+            );
+
+            const matcher = new MatcherService(storage as any, 'https://cdn.test', 'secret', {
+                downloadSource: 'exports',
+                serverPublicKeys: { k1: Buffer.from(keyPair.publicKey).toString('base64') },
+            });
+            const matches = await matcher.fetchAndMatch();
+
+            expect(matches.map((m) => m.rpi)).toEqual([RPI_B]);
+        });
+
+        it('should treat a missing manifest as nothing to sync', async () => {
+            fetchMock.mockResolvedValue(new Response(null, { status: 404 }));
+
+            const matcher = new MatcherService(storage as any, 'https://cdn.test', 'secret', { downloadSource: 'exports' });
+            const matches = await matcher.fetchAndMatch();
+
+            expect(matches).toEqual([]);
+            expect(asyncStore.has('vailix_last_sync')).toBe(false);
+        });
+    });
+    describe('signature verification', () => {
+        const keyPair = nacl.sign.keyPair();
+        const serverPublicKeys = { k1: Buffer.from(keyPair.publicKey).toString('base64') };
+        const page = serialize([{ rpi: RPI_B, reportedAt: 1000 }]);
+        const sign = (data: ArrayBuffer) =>
+            Buffer.from(nacl.sign.detached(new Uint8Array(data), keyPair.secretKey)).toString('base64');
+
+        async function syncWith(headers: Record<string, string>, body: ArrayBuffer = page) {
+            fetchMock.mockResolvedValueOnce(binaryResponse(body, headers));
+            const onError = vi.fn();
+            const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret', { serverPublicKeys });
+            matcher.on('error', onError);
+            const matches = await matcher.fetchAndMatch();
+            return { matches, onError };
+        }
+
+        it('should accept a page signed by a trusted key', async () => {
+            const { matches, onError } = await syncWith({ 'x-vailix-key-id': 'k1', 'x-vailix-signature': sign(page) });
+
+            expect(onError).not.toHaveBeenCalled();
+            expect(matches.map((m) => m.rpi)).toEqual([RPI_B]);
+        });
+
+        it('should reject an unsigned page', async () => {
+            const { matches, onError } = await syncWith({});
+
+            expect(matches).toEqual([]);
+            expect(onError).toHaveBeenCalledWith(expect.any(SignatureVerificationError));
+            expect(asyncStore.has('vailix_last_sync')).toBe(false);
+        });
+
+        it('should reject a page signed with an unknown key', async () => {
+            const { onError } = await syncWith({ 'x-vailix-key-id': 'k2', 'x-vailix-signature': sign(page) });
+
+            expect(onError.mock.calls[0][0].message).toContain('unknown key: k2');
+        });
+
+        it('should reject a tampered page', async () => {
+            const tampered = serialize([{ rpi: RPI_A, reportedAt: 1000 }]);
+            const { matches, onError } = await syncWith({ 'x-vailix-key-id': 'k1', 'x-vailix-signature': sign(page) }, tampered);
+
+            expect(matches).toEqual([]);
+            expect(onError).toHaveBeenCalledWith(expect.any(SignatureVerificationError));
+        });
+
+        it('should reject an unsigned page labelled as JSON', async () => {
+            const { matches, onError } = await syncWith({ 'content-type': 'application/json' });
+
+            expect(matches).toEqual([]);
+            expect(onError.mock.calls[0][0].message).toContain('Unexpected bin page content type');
+            expect(storage.getMatchingScans).not.toHaveBeenCalled();
+        });
+    });
+    describe('report lifecycle', () => {
+        function mockPages(...pages: ArrayBuffer[]) {
+            for (const page of pages) fetchMock.mockResolvedValueOnce(binaryResponse(page));
+        }
+
+        it('should report the status of new matches', async () => {
+            mockPages(serialize([{ rpi: RPI_B, reportedAt: 1000, statusCode: 1 }]));
+
+            const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret');
+            const matches = await matcher.fetchAndMatch();
+
+            expect(matches).toEqual([expect.objectContaining({ rpi: RPI_B, status: 'provisional' })]);
+            expect(fetchMock.mock.calls[0][0]).toContain('lifecycle=1');
+        });
+
+        it('should emit an update instead of a new match when a report is confirmed', async () => {
+            mockPages(
+                serialize([{ rpi: RPI_B, reportedAt: 1000, statusCode: 1 }]),
+                serialize([{ rpi: RPI_B, reportedAt: 2000 }])
+            );
+            const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret');
+            const onMatch = vi.fn();
+            const onUpdate = vi.fn();
+            matcher.on('match', onMatch);
+            matcher.on('matchUpdate', onUpdate);
+
+            await matcher.fetchAndMatch();
+            await matcher.fetchAndMatch();
+
+            expect(onMatch).toHaveBeenCalledTimes(1);
+            expect(onUpdate).toHaveBeenCalledWith([{ rpi: RPI_B, status: 'confirmed' }]);
+            expect((await matcher.getMatchById(RPI_B))?.status).toBe('confirmed');
+        });
+
+        it('should retract a match when the report is revoked', async () => {
+            mockPages(
+                serialize([{ rpi: RPI_B, reportedAt: 1000 }]),
+                serialize([{ rpi: RPI_B, reportedAt: 2000, statusCode: 2 }])
+            );
+            const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret');
+            const onUpdate = vi.fn();
+            matcher.on('matchUpdate', onUpdate);
+
+            await matcher.fetchAndMatch();
+            await matcher.fetchAndMatch();
+
+            expect(onUpdate).toHaveBeenCalledWith([{ rpi: RPI_B, status: 'revoked' }]);
+            expect(asyncStore.has(`vailix_match_cache_${RPI_B}`)).toBe(false);
+        });
+
+        it('should ignore revocations for reports it never matched', async () => {
+            mockPages(serialize([{ rpi: RPI_B, reportedAt: 1000, statusCode: 2 }]));
+            const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret');
+            const onUpdate = vi.fn();
+            matcher.on('matchUpdate', onUpdate);
+
+            const matches = await matcher.fetchAndMatch();
+
+            expect(matches).toEqual([]);
+            expect(onUpdate).not.toHaveBeenCalled();
+        });
+    });
+    describe('shared metadata', () => {
+        const metadataKey = randomBytes(32);
+        const contentKey = randomBytes(32);
+        // What the SDK uploads with metadataFormat 'shared': the blob, and per key the wrapped content key
+        const blob = seal(Buffer.from(JSON.stringify({ type: 'flu' })), contentKey);
+
+        beforeEach(() => {
+            storage.getMatchingScans.mockImplementation(async (rpis: string[]) =>
+                rpis.filter((rpi) => rpi === RPI_B).map((rpi) => ({ rpi, metadataKey: metadataKey.toString('hex'), timestamp: 1 }))
+            );
+            vi.mocked(sdkDecipheriv).mockImplementation(createDecipheriv as any);
+        });
+
+        it('should resolve v1 blob indices and decrypt through the wrapped content key', async () => {
+            fetchMock.mockResolvedValueOnce(binaryResponse(serializeV1([
+                { rpi: RPI_A, reportedAt: 1000, metadata: seal(contentKey, randomBytes(32)), blob },
+                { rpi: RPI_B, reportedAt: 1000, metadata: seal(contentKey, metadataKey), blob },
+            ], 0x03)));
+
+            const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret');
+            await matcher.fetchAndMatch();
+
+            expect(fetchMock.mock.calls[0][0]).toContain('blobs=1');
+            expect((await matcher.getMatchById(RPI_B))?.metadata).toEqual({ type: 'flu' });
+        });
+
+        it('should read blob frames from the stream', async () => {
+            fetchMock.mockResolvedValueOnce(streamResponse(streamPage([
+                { rpi: RPI_A, reportedAt: 1000, metadata: seal(contentKey, randomBytes(32)), blob },
+                { rpi: RPI_B, reportedAt: 1000, metadata: seal(contentKey, metadataKey), blob },
+            ])));
+
+            const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret', { downloadFormat: 'stream' });
+            await matcher.fetchAndMatch();
+
+            expect((await matcher.getMatchById(RPI_B))?.metadata).toEqual({ type: 'flu' });
+        });
+    });
+
+    describe('transparency log', () => {
+        const keyPair = nacl.sign.keyPair();
+        const serverPublicKeys = { k1: Buffer.from(keyPair.publicKey).toString('base64') };
+        const sha256 = (...parts: Buffer[]) => createHash('sha256').update(Buffer.concat(parts)).digest();
+        const u64 = (value: number) => {
+            const buffer = Buffer.alloc(8);
+            buffer.writeBigUInt64BE(BigInt(value));
+            return buffer;
+        };
+
+        // Same hashing as drop's TransparencyLog, for logs of one or two entries
+        function logOf(batches: string[][]) {
+            const entries = batches.map((rpis, index) => ({ index, publishedAt: 1000 + index, rpis: [...rpis].sort() }));
+            const leaves = entries.map((e) => sha256(Buffer.from([0]), u64(e.publishedAt), ...e.rpis.map((r) => Buffer.from(r, 'hex'))));
+            const root = leaves.length === 1 ? leaves[0] : sha256(Buffer.from([1]), leaves[0], leaves[1]);
+            const head = { treeSize: entries.length, timestamp: 5000, rootHash: root.toString('hex') };
+            const message = Buffer.concat([Buffer.from('vailix-log-head:v1:'), u64(head.treeSize), u64(head.timestamp), root]);
+            const signature = Buffer.from(nacl.sign.detached(new Uint8Array(message), keyPair.secretKey)).toString('base64');
+            return {
+                head: { ...head, keyId: 'k1', signature },
+                entries: entries.map((e, i) => ({ ...e, proof: leaves.length === 1 ? [] : [leaves[1 - i].toString('hex')] })),
+                // Consistency 1 -> 2 is the second leaf
+                consistency: leaves.length === 2 ? [leaves[1].toString('hex')] : [],
+            };
+        }
+
+        function serve(page: ArrayBuffer, log: ReturnType<typeof logOf>) {
+            fetchMock.mockImplementation(async (url: string, init?: RequestInit) => {
+                if (url.includes('/v1/download')) {
+                    const signature = Buffer.from(nacl.sign.detached(new Uint8Array(page), keyPair.secretKey)).toString('base64');
+                    return binaryResponse(page, { 'x-vailix-key-id': 'k1', 'x-vailix-signature': signature });
+                }
+                if (url.endsWith('/v1/log/head')) return Response.json(log.head);
+                if (url.includes('/v1/log/proof/consistency')) return Response.json({ proof: log.consistency });
+                const { rpis } = JSON.parse(init!.body as string) as { rpis: string[] };
+                return Response.json({ entries: log.entries.filter((e) => e.rpis.some((r) => rpis.includes(r))) });
+            });
+        }
+
+        async function sync() {
+            const onError = vi.fn();
+            const matcher = new MatcherService(storage as any, 'https://drop.test', 'secret', { verifyTransparencyLog: true, serverPublicKeys });
+            matcher.on('error', onError);
+            const matches = await matcher.fetchAndMatch();
+            return { matches, onError };
+        }
+
+        const page = () => serialize([{ rpi: RPI_A, reportedAt: 1000 }, { rpi: RPI_B, reportedAt: 1000 }]);
+
+        it('should accept keys included in a signed head and remember the head', async () => {
+            serve(page(), logOf([[RPI_A, RPI_B]]));
+            const { matches, onError } = await sync();
+
+            expect(onError).not.toHaveBeenCalled();
+            expect(matches.map((m) => m.rpi)).toEqual([RPI_B]);
+            expect(JSON.parse(asyncStore.get('vailix_log_state')!)).toMatchObject({ treeSize: 1, pending: [] });
+
+            // The next head must extend this one
+            serve(serialize([]), logOf([[RPI_A, RPI_B], ['cc'.repeat(16)]]));
+            expect((await sync()).onError).not.toHaveBeenCalled();
+            expect(fetchMock.mock.calls.some(([url]) => url.includes('consistency?from=1&to=2'))).toBe(true);
+        });
+
+        it('should reject a head that does not extend the last one without matching', async () => {
+            serve(serialize([]), logOf([['cc'.repeat(16)]]));
+            await sync();
+
+            serve(page(), logOf([[RPI_A, RPI_B], ['cc'.repeat(16)]]));
+            const { matches, onError } = await sync();
+
+            expect(matches).toEqual([]);
+            expect(onError).toHaveBeenCalledWith(expect.any(TransparencyError));
+            expect(asyncStore.has('vailix_last_sync')).toBe(false);
+            expect(asyncStore.has(`vailix_match_cache_${RPI_B}`)).toBe(false);
+        });
+
+        it('should give keys the log lacks one more sync before rejecting them', async () => {
+            serve(page(), logOf([[RPI_A]]));
+            expect((await sync()).onError).not.toHaveBeenCalled();
+            expect(JSON.parse(asyncStore.get('vailix_log_state')!).pending).toEqual([RPI_B]);
+
+            serve(serialize([]), logOf([[RPI_A]]));
+            const { onError } = await sync();
+            expect(onError.mock.calls[0][0].message).toContain('1 downloaded keys are missing');
+        });
+
+        it('should reject an unsigned head', async () => {
+            const log = logOf([[RPI_A, RPI_B]]);
+            serve(page(), { ...log, head: { ...log.head, signature: '' } });
+
+            expect((await sync()).onError).toHaveBeenCalledWith(expect.any(SignatureVerificationError));
+        });
+    });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tests for report uploads: the binary encoding (application/x-vailix-report) and
+ * chunked upload sessions for reports over 1500 keys. fetch is stubbed.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createHash } from 'crypto';
+import { encodeReport, ReportUploader } from '../src/upload';
+import type { ReportUpload } from '../src/upload';
+import { leadingZeroBits } from '../src/challenge';
+
+vi.mock('react-native-quick-crypto', async () => await import('crypto'));
+
+const IV = Buffer.alloc(12, 1);
+const TAG = Buffer.alloc(16, 2);
+const DATA = Buffer.from('ciphertext');
+
+describe('encodeReport', () => {
+    it('should write the header, raw RPIs and raw metadata', () => {
+        const reportKey = Buffer.alloc(32, 7);
+        const envelope = 'aXY=:dGFn:ZGF0YQ==';
+        const buffer = encodeReport({
+            reports: [
+                { rpi: 'ab'.repeat(16), encryptedMetadata: [IV, TAG, DATA].map((part) => part.toString('base64')).join(':') },
+                { rpi: 'cd'.repeat(16), encryptedMetadata: '' },
+            ],
+            reportKey: reportKey.toString('base64'),
+            status: 'provisional',
+            retentionDays: 14,
+            envelope,
+        });
+
+        expect(buffer.subarray(0, 4).toString()).toBe('VLXR');
+        expect([buffer[4], buffer[5], buffer[6]]).toEqual([1, 0, 1]);
+        expect(buffer.readUInt16BE(7)).toBe(14);
+        expect(buffer[9]).toBe(32);
+        expect(buffer.subarray(10, 42)).toEqual(reportKey);
+
+        let offset = 42;
+        expect(buffer[offset]).toBe(envelope.length);
+        expect(buffer.subarray(offset + 1, offset + 1 + envelope.length).toString()).toBe(envelope);
+        offset += 1 + envelope.length;
+        expect(buffer.readUInt32BE(offset)).toBe(2);
+        offset += 4;
+
+        expect(buffer.subarray(offset, offset + 16).toString('hex')).toBe('ab'.repeat(16));
+        expect(buffer.readUInt16BE(offset + 16)).toBe(38);
+        expect(buffer.subarray(offset + 18, offset + 56)).toEqual(Buffer.concat([IV, TAG, DATA]));
+        offset += 56;
+
+        expect(buffer.subarray(offset, offset + 16).toString('hex')).toBe('cd'.repeat(16));
+        expect(buffer.readUInt16BE(offset + 16)).toBe(0);
+        expect(buffer.length).toBe(offset + 18);
+    });
+
+    it('should flag and write the shared metadata blob before the keys', () => {
+        const blob = Buffer.concat([IV, TAG, DATA]);
+        const buffer = encodeReport({
+            reports: [],
+            reportKey: '',
+            status: 'confirmed',
+            retentionDays: 14,
+            envelope: '',
+            metadataBlob: [IV, TAG, DATA].map((part) => part.toString('base64')).join(':'),
+        });
+
+        expect(buffer[5]).toBe(1);
+        expect(buffer.readUInt16BE(11)).toBe(blob.length);
+        expect(buffer.subarray(13, 13 + blob.length)).toEqual(blob);
+        expect(buffer.readUInt32BE(13 + blob.length)).toBe(0);
+    });
+});
+
+describe('ReportUploader', () => {
+    const SESSION = 'ab'.repeat(16);
+    let fetchMock: ReturnType<typeof vi.fn>;
+    let received: number[];
+
+    // Minimal drop: sessions, chunk puts and commit
+    const drop = async (url: string, init: RequestInit) => {
+        const path = url.replace('https://drop.test', '');
+        const json = (body: object, status = 200) => new Response(JSON.stringify(body), { status });
+        if (path === '/v1/report') return json({ success: true });
+        if (path === '/v1/challenge') return json({ challenge: 'challenge', difficulty: 8, expiresAt: Date.now() + 60000 });
+        if (path === '/v1/report/sessions') return json({ sessionId: SESSION, expiresAt: Date.now() + 60000 });
+        if (init.method === 'GET') return json({ chunks: received, committed: false });
+        const chunk = path.match(/\/chunks\/(\d+)$/);
+        if (chunk) received.push(Number(chunk[1]));
+        return json({ success: true });
+    };
+
+    beforeEach(() => {
+        received = [];
+        fetchMock = vi.fn(drop);
+        vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    const uploader = () => new ReportUploader('https://drop.test', 'json', () => ({ 'Content-Type': 'application/json' }), { attempts: 2, delayMs: 0 });
+    const report = (keys: number): ReportUpload => ({
+        reports: Array.from({ length: keys }, (_, i) => ({ rpi: i.toString(16).padStart(32, '0'), encryptedMetadata: '' })),
+        reportKey: Buffer.alloc(32).toString('base64'),
+        status: 'confirmed',
+        retentionDays: 30,
+        envelope: 'iv:tag:data',
+    });
+    const paths = () => fetchMock.mock.calls.map(([url, init]) => `${init.method} ${url.replace('https://drop.test', '')}`);
+
+    it('should send up to 1500 keys in one request', async () => {
+        expect(await uploader().upload({ 'x-attest-token': 't' }, report(1500))).toEqual({ success: true, keys: 1500, chunks: 1 });
+        expect(paths()).toEqual(['POST /v1/report']);
+        expect(fetchMock.mock.calls[0][1].headers['x-attest-token']).toBe('t');
+    });
+
+    it('should upload longer reports in chunks and commit them', async () => {
+        const onSession = vi.fn();
+        const result = await uploader().upload({ 'x-attest-token': 't' }, report(2880), { onSession });
+
+        expect(result).toEqual({ success: true, keys: 2880, chunks: 2, sessionId: SESSION });
+        expect(onSession).toHaveBeenCalledWith(expect.objectContaining({ sessionId: SESSION }));
+        expect(paths()).toEqual([
+            'POST /v1/report/sessions',
+            `PUT /v1/report/sessions/${SESSION}/chunks/0`,
+            `PUT /v1/report/sessions/${SESSION}/chunks/1`,
+            `POST /v1/report/sessions/${SESSION}/commit`,
+        ]);
+
+        // Attestation goes with the session only; the session holds the report's fields
+        const [[, begin], [, chunk]] = fetchMock.mock.calls;
+        expect(begin.headers['x-attest-token']).toBe('t');
+        expect(JSON.parse(begin.body)).toEqual({ reportKey: report(0).reportKey, status: 'confirmed', retentionDays: 30, envelope: 'iv:tag:data' });
+        expect(chunk.headers['x-attest-token']).toBeUndefined();
+        expect(JSON.parse(chunk.body).reports).toHaveLength(1500);
+        expect(JSON.parse(fetchMock.mock.calls[3][1].body)).toEqual({ chunks: 2 });
+    });
+
+    it('should send the shared metadata blob with the session, not with each chunk', async () => {
+        await uploader().upload({}, { ...report(2000), metadataBlob: 'iv:tag:blob' });
+
+        const [[, begin], [, chunk]] = fetchMock.mock.calls;
+        expect(JSON.parse(begin.body).metadataBlob).toBe('iv:tag:blob');
+        expect(JSON.parse(chunk.body).metadataBlob).toBeUndefined();
+    });
+
+    it('should leave a session resumable after a network loss and send only missing chunks on resume', async () => {
+        fetchMock.mockImplementation(async (url: string, init: RequestInit) => {
+            if (url.endsWith('/chunks/1')) throw new TypeError('Network request failed');
+            return drop(url, init);
+        });
+        const failed = await uploader().upload({}, report(3500));
+        expect(failed).toMatchObject({ success: false, sessionId: SESSION, resumable: true, error: 'Network request failed' });
+        expect(received).toEqual([0]);
+
+        fetchMock.mockClear();
+        fetchMock.mockImplementation(drop);
+        const resumed = await uploader().upload({}, report(3500), { sessionId: SESSION });
+        expect(resumed).toEqual({ success: true, keys: 3500, chunks: 3, sessionId: SESSION });
+        expect(paths()).toEqual([
+            `GET /v1/report/sessions/${SESSION}`,
+            `PUT /v1/report/sessions/${SESSION}/chunks/1`,
+            `PUT /v1/report/sessions/${SESSION}/chunks/2`,
+            `POST /v1/report/sessions/${SESSION}/commit`,
+        ]);
+    });
+
+    it('should solve a challenge before opening a report', async () => {
+        const powUploader = new ReportUploader('https://drop.test', 'json', () => ({}), { attempts: 2, delayMs: 0 }, true);
+        expect((await powUploader.upload({}, report(10))).success).toBe(true);
+        expect((await powUploader.upload({}, report(2000))).success).toBe(true);
+
+        expect(paths()).toEqual([
+            'GET /v1/challenge',
+            'POST /v1/report',
+            'GET /v1/challenge',
+            'POST /v1/report/sessions',
+            `PUT /v1/report/sessions/${SESSION}/chunks/0`,
+            `PUT /v1/report/sessions/${SESSION}/chunks/1`,
+            `POST /v1/report/sessions/${SESSION}/commit`,
+        ]);
+        const { headers } = fetchMock.mock.calls[1][1];
+        expect(headers['x-vailix-challenge']).toBe('challenge');
+        const hash = createHash('sha256').update(`challenge:${headers['x-vailix-challenge-nonce']}`).digest();
+        expect(leadingZeroBits(hash)).toBeGreaterThanOrEqual(8);
+        expect(fetchMock.mock.calls[4][1].headers['x-vailix-challenge']).toBeUndefined();
+    });
+
+    it('should solve a new challenge for each retry', async () => {
+        let issued = 0;
+        fetchMock.mockImplementation(async (url: string, init: RequestInit) => {
+            if (url.endsWith('/v1/challenge')) {
+                return new Response(JSON.stringify({ challenge: `challenge-${++issued}`, difficulty: 1, expiresAt: Date.now() + 60000 }));
+            }
+            if (url.endsWith('/v1/report') && issued === 1) return new Response(null, { status: 503 });
+            return drop(url, init);
+        });
+        const powUploader = new ReportUploader('https://drop.test', 'json', () => ({}), { attempts: 2, delayMs: 0 }, true);
+
+        expect((await powUploader.upload({ 'x-attest-token': 'attest' }, report(10))).success).toBe(true);
+        expect(paths()).toEqual(['GET /v1/challenge', 'POST /v1/report', 'GET /v1/challenge', 'POST /v1/report']);
+        const sent = [fetchMock.mock.calls[1][1].headers, fetchMock.mock.calls[3][1].headers];
+        expect(sent.map((headers) => headers['x-vailix-challenge'])).toEqual(['challenge-1', 'challenge-2']);
+        expect(sent.map((headers) => headers['x-attest-token'])).toEqual(['attest', 'attest']);
+    });
+
+    it('should upload without proof of work to servers that issue no challenges', async () => {
+        fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ error: 'Not Found' }), { status: 404 }));
+        const powUploader = new ReportUploader('https://drop.test', 'json', () => ({}), { attempts: 2, delayMs: 0 }, true);
+
+        expect((await powUploader.upload({}, report(10))).success).toBe(true);
+        expect(fetchMock.mock.calls[1][1].headers['x-vailix-challenge']).toBeUndefined();
+    });
+
+    it('should not resume a session the server no longer has', async () => {
+        fetchMock.mockResolvedValueOnce(new Response(JSON.stringify({ error: 'Session not found' }), { status: 404 }));
+        const result = await uploader().upload({}, report(2000), { sessionId: SESSION });
+
+        expect(result).toMatchObject({ success: false, httpStatus: 404, resumable: false });
+    });
+});
@@ -0,0 +1,28 @@
+import { createCipheriv, createHmac, randomBytes } from 'react-native-quick-crypto';
+
+// Report envelope, mirrored from drop's chaff.ts: AES-256-GCM over [flag u8 (1 = chaff)][15 random bytes]
+// with key HMAC-SHA256(appSecret, "vailix-report-envelope"), formatted iv:authTag:data (base64).
+// Real reports and decoys carry an envelope of the same size; only the server can tell them apart.
+
+const ENVELOPE_SIZE = 16;
+
+export function sealEnvelope(appSecret: string, chaff: boolean): string {
+    const key = createHmac('sha256', appSecret).update('vailix-report-envelope').digest();
+    const plaintext = Buffer.from(randomBytes(ENVELOPE_SIZE));
+    plaintext[0] = chaff ? 1 : 0;
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return `${iv.toString('base64')}:${cipher.getAuthTag().toString('base64')}:${data.toString('base64')}`;
+}
+
+/** Exponentially distributed delay (a Poisson schedule), so decoy timing carries no pattern */
+export function randomDelay(meanMs: number): number {
+    const uniform = randomBytes(4).readUInt32BE(0) / 2 ** 32;
+    return Math.round(-Math.log(1 - uniform) * meanMs);
+}
+
+/** Random stand-in for a health-authority verification code (8 digits) */
+export function randomVerificationCode(): string {
+    return String(randomBytes(4).readUInt32BE(0) % 100_000_000).padStart(8, '0');
+}
@@ -0,0 +1,36 @@
+import { createHash } from 'react-native-quick-crypto';
+
+// Proof of work for drop's `challenge` option: find a nonce (decimal string) such that
+// SHA-256(challenge + ":" + nonce) starts with `difficulty` zero bits (see drop's challenge.ts).
+
+export const CHALLENGE_HEADER = 'x-vailix-challenge';
+export const CHALLENGE_NONCE_HEADER = 'x-vailix-challenge-nonce';
+
+/** Refuse more work than this (about 16 million hashes on average) whatever the server asks */
+export const MAX_CHALLENGE_DIFFICULTY = 24;
+
+/** Hashes between yields to the event loop, so solving doesn't freeze the UI */
+const YIELD_EVERY = 2048;
+
+export async function solveChallenge(challenge: string, difficulty: number): Promise<string> {
+    if (!Number.isInteger(difficulty) || difficulty < 0 || difficulty > MAX_CHALLENGE_DIFFICULTY) {
+        throw new Error(`Challenge difficulty out of range: ${difficulty}`);
+    }
+    for (let nonce = 0; ; nonce++) {
+        if (nonce > 0 && nonce % YIELD_EVERY === 0) await new Promise((resolve) => setTimeout(resolve, 0));
+        const hash = new Uint8Array(createHash('sha256').update(`${challenge}:${nonce}`).digest());
+        if (leadingZeroBits(hash) >= difficulty) return String(nonce);
+    }
+}
+
+export function leadingZeroBits(hash: Uint8Array): number {
+    let bits = 0;
+    for (const byte of hash) {
+        if (byte === 0) {
+            bits += 8;
+            continue;
+        }
+        return bits + Math.clz32(byte) - 24;
+    }
+    return bits;
+}
@@ -0,0 +1,50 @@
+// Decoder for drop's Golomb-coded set download format (see drop's filter.ts):
+//   [count: u32][p: u8][maxCreatedAt ms: f64][Golomb-Rice bitstream of sorted RPI hashes]
+
+export interface RpiFilter {
+    count: number;
+    /** Latest report time in the page (sync checkpoint, like reportedAt in the binary format) */
+    maxReportedAt: number;
+    /** False positives are possible (~1 in 2^p), false negatives are not */
+    mightContain(rpiHex: string): boolean;
+}
+
+export function parseFilter(buffer: ArrayBuffer): RpiFilter {
+    if (buffer.byteLength < 13) throw new Error('Filter response truncated');
+    const view = new DataView(buffer);
+    const count = view.getUint32(0);
+    const p = view.getUint8(4);
+    const maxReportedAt = view.getFloat64(5);
+    const modulus = count * 2 ** p;
+
+    const bytes = new Uint8Array(buffer, 13);
+    let bitPos = 0;
+    const readBit = () => {
+        if (bitPos >= bytes.length * 8) throw new Error('Filter response truncated');
+        const bit = (bytes[bitPos >> 3] >> (7 - (bitPos & 7))) & 1;
+        bitPos++;
+        return bit;
+    };
+
+    const hashes = new Set<number>();
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+        let quotient = 0;
+        while (readBit() === 1) quotient++;
+        let remainder = 0;
+        for (let b = 0; b < p; b++) remainder = remainder * 2 + readBit();
+        value += quotient * 2 ** p + remainder;
+        hashes.add(value);
+    }
+
+    return {
+        count,
+        maxReportedAt,
+        mightContain: (rpiHex) => count > 0 && hashes.has(filterHash(rpiHex, modulus)),
+    };
+}
+
+/** First 6 bytes of the RPI as an integer, mod `modulus` (exact with doubles: < 2^53) */
+function filterHash(rpiHex: string, modulus: number): number {
+    return parseInt(rpiHex.slice(0, 12), 16) % modulus;
+}
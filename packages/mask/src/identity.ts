@@ -1,5 +1,6 @@
 import { createHmac, randomBytes } from 'react-native-quick-crypto';
 import * as SecureStore from 'expo-secure-store';
+import nacl from 'tweetnacl';
 import type { KeyStorage } from './types';
 import { generateDisplayName } from './utils';
 
@@ -73,6 +74,19 @@ export class IdentityManager {
             .substring(0, 64); // 32 bytes for AES-256
     }
 
+    /**
+     * Ed25519 key pair that proves ownership of a report (confirm/revoke).
+     * Derived from the master key, so it survives restarts and is recoverable via keyStorage,
+     * while the server only ever sees the public key.
+     */
+    getReportKeyPair(reportId: string): nacl.SignKeyPair {
+        if (!this.masterKey) throw new Error('Not initialized');
+        const seed = createHmac('sha256', this.masterKey!)
+            .update(`report:${reportId}`)
+            .digest();
+        return nacl.sign.keyPair.fromSeed(new Uint8Array(seed));
+    }
+
     // Get master key for database encryption (SQLCipher)
     getMasterKey(): string {
         if (!this.masterKey) throw new Error('Not initialized');
@@ -1,20 +1,64 @@
 import { createCipheriv, randomBytes } from 'react-native-quick-crypto';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { IdentityManager } from './identity';
 import { StorageService } from './storage';
 import { MatcherService } from './matcher';
 import { BleService } from './ble';
 import { formatQR, parseQR } from './transport';
 import { initializeDatabase } from './db';
+import { SignatureVerificationError, signReportStatus } from './signature';
+import { TransparencyError } from './transparency';
+import { randomDelay, randomVerificationCode, sealEnvelope } from './chaff';
+import { ReportUploader } from './upload';
 import type {
     Match,
     MatchHandler,
+    MatchUpdate,
+    MatchUpdateHandler,
     ReportMetadata,
+    ReportAuth,
+    ReportOptions,
+    ReportResult,
+    ReportStatus,
     KeyStorage,
     VailixConfig,
+    DownloadSource,
+    DownloadFormat,
+    ReportFormat,
+    MetadataFormat,
     NearbyUser,
-    PairResult
+    PairResult,
+    ChaffConfig
 } from './types';
 
+// Last submitted report ({ reportId, status }); the report key itself is re-derived from the master key
+const REPORT_STATE_KEY = 'vailix_report';
+// Upload session of a report that didn't finish, resumed by the next report() call
+const PENDING_UPLOAD_KEY = 'vailix_report_upload';
+// When the next decoy report is due (Unix ms), kept across restarts
+const NEXT_CHAFF_KEY = 'vailix_next_chaff';
+// How often the in-app schedule checks whether a decoy is due
+const CHAFF_CHECK_MS = 15 * 60 * 1000;
+
+interface ReportState {
+    reportId: string;
+    status: ReportStatus;
+}
+
+// The report as first sent, so a resumed session gets the same keys in the same chunks
+interface PendingUpload {
+    reportId: string;
+    sessionId: string;
+    expiresAt: number;
+    status: 'provisional' | 'confirmed';
+    retentionDays: number;
+    rpis: string[];
+    /** The report's metadata: chunks still to send must carry the same payload as those already sent */
+    metadata?: ReportMetadata | null;
+    /** Shared metadata content key (hex): chunks still to send must wrap the blob the session holds */
+    contentKey?: string | null;
+}
+
 export class VailixSDK {
     // Singleton instance and initialization promise for thread-safety
     private static instance: VailixSDK | null = null;
@@ -28,6 +72,12 @@ export class VailixSDK {
     private appSecret: string;
     private reportDays: number;
     private rpiDurationMs: number;
+    private tenantId?: string;
+    private appSecretId?: string;
+    private chaff?: ChaffConfig;
+    private uploader: ReportUploader;
+    private metadataFormat: MetadataFormat;
+    private chaffTimer: ReturnType<typeof setInterval> | null = null;
 
     private constructor(
         identity: IdentityManager,
@@ -37,7 +87,13 @@ export class VailixSDK {
         reportUrl: string,
         appSecret: string,
         reportDays: number,
-        rpiDurationMs: number
+        rpiDurationMs: number,
+        tenantId?: string,
+        appSecretId?: string,
+        chaff?: ChaffConfig,
+        reportFormat: ReportFormat = 'bin',
+        metadataFormat: MetadataFormat = 'per-key',
+        proofOfWork: boolean = false
     ) {
         this.identity = identity;
         this.storage = storage;
@@ -47,6 +103,11 @@ export class VailixSDK {
         this.appSecret = appSecret;
         this.reportDays = reportDays;
         this.rpiDurationMs = rpiDurationMs;
+        this.tenantId = tenantId;
+        this.appSecretId = appSecretId;
+        this.chaff = chaff;
+        this.uploader = new ReportUploader(reportUrl, reportFormat, () => this._headers(), undefined, proofOfWork);
+        this.metadataFormat = metadataFormat;
     }
 
     /**
@@ -111,7 +172,14 @@ export class VailixSDK {
         });
         await storage.initialize();  // Load persisted scan history
 
-        const matcher = new MatcherService(storage, config.downloadUrl, config.appSecret);
+        const matcher = new MatcherService(storage, config.downloadUrl, config.appSecret, {
+            downloadSource: config.downloadSource,
+            downloadFormat: config.downloadFormat,
+            serverPublicKeys: config.serverPublicKeys,
+            tenantId: config.tenantId,
+            appSecretId: config.appSecretId,
+            verifyTransparencyLog: config.verifyTransparencyLog,
+        });
 
         // Initialize BLE service with config options
         const ble = new BleService({
@@ -131,7 +199,7 @@ export class VailixSDK {
         // Cleanup old scans on init
         await storage.cleanupOldScans();
 
-        return new VailixSDK(
+        const sdk = new VailixSDK(
             identity,
             storage,
             matcher,
@@ -139,8 +207,23 @@ export class VailixSDK {
             config.reportUrl,
             config.appSecret,
             config.reportDays ?? 14,
-            rpiDuration
+            rpiDuration,
+            config.tenantId,
+            config.appSecretId,
+            config.chaff,
+            config.reportFormat,
+            config.metadataFormat,
+            config.proofOfWork
         );
+
+        // Decoy schedule (in-app); background tasks can call sendChaffIfDue() as well
+        if (config.chaff) {
+            sdk.chaffTimer = setInterval(() => {
+                sdk.sendChaffIfDue().catch((error) => matcher.emit('error', error));
+            }, CHAFF_CHECK_MS);
+        }
+
+        return sdk;
     }
 
     /**
@@ -151,6 +234,7 @@ export class VailixSDK {
         if (VailixSDK.instance) {
             // Cleanup BLE resources
             VailixSDK.instance.ble.destroy();
+            if (VailixSDK.instance.chaffTimer) clearInterval(VailixSDK.instance.chaffTimer);
             // Note: Database connection cleanup is handled by expo-sqlite
             VailixSDK.instance = null;
         }
@@ -299,39 +383,215 @@ export class VailixSDK {
     /**
      * Report positive (upload configured days of history).
      * 
-     * @param attestToken - Optional attestation token (e.g., Firebase App Check)
+     * @param auth - Optional attestation token (e.g., Firebase App Check), or
+     *               { verificationCode } when the server requires health-authority verification
      * @param metadata - App-specific data (e.g., STD type, test date). If null, a generic positive is reported.
      * @param overrideReportDays - Optional: Override reportDays for this specific report
      *                             (e.g., for apps with per-condition exposure windows)
+     * @param options - Optional: Report lifecycle options (e.g., { status: 'provisional' } for self-reports)
+     *
+     * Histories over 1500 keys are uploaded in chunks through an upload session and published on commit.
+     * If the upload stops partway (result.resumable), the next report() call resumes that session with
+     * the same keys, metadata, status and retention; its own metadata, days and options are ignored then.
      */
     async report(
-        attestToken?: string,
+        auth?: string | ReportAuth,
         metadata?: ReportMetadata,
-        overrideReportDays?: number
-    ): Promise<boolean> {
+        overrideReportDays?: number,
+        options: ReportOptions = {}
+    ): Promise<ReportResult> {
         try {
+            const pending = await this._loadPendingUpload();
+
             // Use override if provided, else fall back to global config
             const daysToReport = overrideReportDays ?? this.reportDays;
-            const keys = this.identity.getHistory(daysToReport);
+            const keys = pending?.rpis ?? this.identity.getHistory(daysToReport);
+            // Records saved before metadata was kept have none (undefined): use this call's then
+            const reportMetadata = pending?.metadata !== undefined ? pending.metadata ?? undefined : metadata;
+
+            // Shared metadata: encrypt it once under a content key, and give each key only the content key
+            const contentKey = pending
+                ? pending.contentKey ?? null
+                : reportMetadata && this.metadataFormat === 'shared' ? randomBytes(32).toString('hex') : null;
+            const metadataBlob = contentKey ? this._encrypt(reportMetadata, contentKey) : undefined;
 
-            // Encrypt metadata individually for each key in history
+            // Encrypt metadata (or the content key) individually for each key in history
             const reports = keys.map(rpi => ({
                 rpi,
-                encryptedMetadata: this._encrypt(metadata, this.identity.getMetadataKey(rpi))
+                encryptedMetadata: contentKey
+                    ? this._seal(contentKey, 'hex', this.identity.getMetadataKey(rpi))
+                    : this._encrypt(reportMetadata, this.identity.getMetadataKey(rpi))
             }));
 
-            const headers: Record<string, string> = {
-                'Content-Type': 'application/json',
-                'x-vailix-secret': this.appSecret,
-            };
-            if (attestToken) {
-                headers['x-attest-token'] = attestToken;
+            // Per-report key pair: lets us confirm or revoke this report later
+            const status = pending?.status ?? options.status ?? 'confirmed';
+            const retentionDays = pending?.retentionDays ?? options.retentionDays ?? daysToReport;
+            const reportId = pending?.reportId ?? randomBytes(16).toString('hex');
+            const { publicKey } = this.identity.getReportKeyPair(reportId);
+
+            // A resumed session already passed attestation and verification when it was opened
+            const authHeaders: Record<string, string> = {};
+            const { attestToken, verificationCode } = typeof auth === 'string' ? { attestToken: auth } : (auth ?? {});
+            if (attestToken && !pending) {
+                authHeaders['x-attest-token'] = attestToken;
+            }
+            if (verificationCode && !pending) {
+                authHeaders['x-vailix-report-token'] = await this._exchangeVerificationCode(verificationCode);
+            }
+            const result = await this.uploader.upload(authHeaders, {
+                reports,
+                reportKey: Buffer.from(publicKey).toString('base64'),
+                status,
+                retentionDays,
+                envelope: sealEnvelope(this.appSecret, false),
+                metadataBlob,
+            }, {
+                sessionId: pending?.sessionId,
+                onSession: async ({ sessionId, expiresAt }) => {
+                    const upload: PendingUpload = {
+                        reportId,
+                        sessionId,
+                        expiresAt,
+                        status,
+                        retentionDays,
+                        rpis: keys,
+                        metadata: reportMetadata ?? null,
+                        contentKey,
+                    };
+                    await AsyncStorage.setItem(PENDING_UPLOAD_KEY, JSON.stringify(upload));
+                },
+            });
+
+            if (!result.resumable) await AsyncStorage.removeItem(PENDING_UPLOAD_KEY);
+            if (result.success) {
+                const state: ReportState = { reportId, status };
+                await AsyncStorage.setItem(REPORT_STATE_KEY, JSON.stringify(state));
             }
-            const res = await fetch(`${this.reportUrl}/v1/report`, {
+            return result;
+        } catch (error) {
+            this.matcher.emit('error', error);
+            return { success: false, keys: 0, chunks: 0, error: error instanceof Error ? error.message : String(error) };
+        }
+    }
+
+    /** The unfinished upload session to resume, unless it has expired on the server by now */
+    private async _loadPendingUpload(): Promise<PendingUpload | null> {
+        const stored = await AsyncStorage.getItem(PENDING_UPLOAD_KEY);
+        if (!stored) return null;
+        const pending = JSON.parse(stored) as PendingUpload;
+        if (pending.expiresAt > Date.now()) return pending;
+        await AsyncStorage.removeItem(PENDING_UPLOAD_KEY);
+        return null;
+    }
+
+    /**
+     * Send a decoy report if one is due (requires the `chaff` config). The in-app schedule calls
+     * this periodically; call it from a background task too so decoys don't depend on app usage.
+     * Returns true if a decoy was sent.
+     */
+    async sendChaffIfDue(now: number = Date.now()): Promise<boolean> {
+        if (!this.chaff) return false;
+        const meanIntervalMs = this.chaff.meanIntervalMs ?? 3 * 24 * 60 * 60 * 1000;
+
+        const stored = await AsyncStorage.getItem(NEXT_CHAFF_KEY);
+        if (!stored) {
+            // First run: only schedule, so a fresh install doesn't announce itself with an upload
+            await AsyncStorage.setItem(NEXT_CHAFF_KEY, String(now + randomDelay(meanIntervalMs)));
+            return false;
+        }
+        if (now < Number(stored)) return false;
+
+        await AsyncStorage.setItem(NEXT_CHAFF_KEY, String(now + randomDelay(meanIntervalMs)));
+        await this._sendChaff(this.chaff);
+        return true;
+    }
+
+    /** Upload a decoy shaped like report(): same key count, field lengths and headers */
+    private async _sendChaff(chaff: ChaffConfig): Promise<void> {
+        const count = this.identity.getHistory(this.reportDays).length;
+        const shared = !!chaff.metadata && this.metadataFormat === 'shared';
+        const reports = Array.from({ length: count }, () => ({
+            rpi: randomBytes(16).toString('hex'),
+            encryptedMetadata: shared
+                ? this._seal(randomBytes(32).toString('hex'), 'hex', randomBytes(32).toString('hex'))
+                : this._encrypt(chaff.metadata, randomBytes(32).toString('hex')),
+        }));
+
+        const authHeaders: Record<string, string> = {};
+        const attestToken = await chaff.getAttestToken?.();
+        if (attestToken) authHeaders['x-attest-token'] = attestToken;
+        // Like a real report's code exchange, but the server answers with a token that never verifies
+        if (chaff.reportToken) {
+            authHeaders['x-vailix-report-token'] = await this._exchangeVerificationCode(randomVerificationCode(), true);
+        }
+
+        // Same chunking as a real report of this size; decoy sessions are never resumed
+        const result = await this.uploader.upload(authHeaders, {
+            reports,
+            reportKey: randomBytes(32).toString('base64'),
+            status: 'confirmed',
+            retentionDays: this.reportDays,
+            envelope: sealEnvelope(this.appSecret, true),
+            metadataBlob: shared ? this._encrypt(chaff.metadata, randomBytes(32).toString('hex')) : undefined,
+        });
+        if (!result.success) throw new Error(`Decoy report rejected: ${result.httpStatus ?? result.error}`);
+    }
+
+    /** Redeem a one-time verification code for a short-lived report token (decoys carry the chaff flag) */
+    private async _exchangeVerificationCode(code: string, chaff = false): Promise<string> {
+        const res = await fetch(`${this.reportUrl}/v1/verify`, {
+            method: 'POST',
+            headers: this._headers(),
+            body: JSON.stringify({ code, envelope: sealEnvelope(this.appSecret, chaff) }),
+        });
+        if (!res.ok) throw new Error(`Verification code rejected: ${res.status}`);
+        const { token } = await res.json() as { token: string };
+        return token;
+    }
+
+    /**
+     * Upgrade the last provisional report to confirmed (e.g., after a positive test).
+     * Contacts who already matched receive a match update.
+     */
+    async confirmReport(): Promise<boolean> {
+        return this._updateReportStatus('confirmed');
+    }
+
+    /**
+     * Revoke the last report (e.g., a false positive).
+     * Contacts who already matched have the match retracted.
+     */
+    async revokeReport(): Promise<boolean> {
+        return this._updateReportStatus('revoked');
+    }
+
+    /**
+     * Status of the last report submitted from this device, or null if none.
+     */
+    async getReportStatus(): Promise<ReportStatus | null> {
+        const stored = await AsyncStorage.getItem(REPORT_STATE_KEY);
+        return stored ? (JSON.parse(stored) as ReportState).status : null;
+    }
+
+    private async _updateReportStatus(status: 'confirmed' | 'revoked'): Promise<boolean> {
+        try {
+            const stored = await AsyncStorage.getItem(REPORT_STATE_KEY);
+            if (!stored) throw new Error('No report to update');
+            const state = JSON.parse(stored) as ReportState;
+
+            // Prove ownership with the report key derived from our master key
+            const { publicKey, secretKey } = this.identity.getReportKeyPair(state.reportId);
+            const reportKey = Buffer.from(publicKey).toString('base64');
+
+            const res = await fetch(`${this.reportUrl}/v1/report/status`, {
                 method: 'POST',
-                headers,
-                body: JSON.stringify({ reports }),
+                headers: this._headers(),
+                body: JSON.stringify({ reportKey, status, signature: signReportStatus(secretKey, reportKey, status) }),
             });
+
+            if (res.ok) {
+                await AsyncStorage.setItem(REPORT_STATE_KEY, JSON.stringify({ ...state, status }));
+            }
             return res.ok;
         } catch (error) {
             this.matcher.emit('error', error);
@@ -339,6 +599,17 @@ export class VailixSDK {
         }
     }
 
+    /** JSON request headers for the drop server */
+    private _headers(): Record<string, string> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'x-vailix-secret': this.appSecret,
+        };
+        if (this.appSecretId) headers['x-vailix-secret-id'] = this.appSecretId;
+        if (this.tenantId) headers['x-vailix-tenant'] = this.tenantId;
+        return headers;
+    }
+
     // ========================================================================
     // Encryption Helpers
     // ========================================================================
@@ -353,12 +624,16 @@ export class VailixSDK {
         if (jsonStr.length > VailixSDK.MAX_METADATA_SIZE) {
             throw new Error(`Metadata exceeds maximum size of ${VailixSDK.MAX_METADATA_SIZE} bytes`);
         }
+        return this._seal(jsonStr, 'utf8', keyHex);
+    }
 
+    /** AES-256-GCM under a 32-byte key (hex), in the iv:authTag:encryptedData form drop stores */
+    private _seal(data: string, encoding: 'utf8' | 'hex', keyHex: string): string {
         const key = Buffer.from(keyHex, 'hex');
         const iv = randomBytes(12); // 96-bit IV for GCM
         const cipher = createCipheriv('aes-256-gcm', key, iv);
 
-        let encrypted = cipher.update(jsonStr, 'utf8', 'base64');
+        let encrypted = cipher.update(data, encoding, 'base64');
         encrypted += cipher.final('base64');
         const authTag = cipher.getAuthTag().toString('base64');
 
@@ -379,6 +654,16 @@ export class VailixSDK {
         return () => this.matcher.off('match', handler);
     }
 
+    /**
+     * Subscribe to status changes of matches already delivered via onMatch
+     * (provisional -> confirmed, or revoked = retract the exposure notice).
+     * Returns cleanup function for React useEffect compatibility.
+     */
+    onMatchUpdate(handler: MatchUpdateHandler): () => void {
+        this.matcher.on('matchUpdate', handler);
+        return () => this.matcher.off('matchUpdate', handler);
+    }
+
     /**
      * Subscribe to error events.
      * Returns cleanup function for React useEffect compatibility.
@@ -428,13 +713,24 @@ export class VailixSDK {
 }
 
 // Re-exports
-export { formatQR, parseQR };
+export { formatQR, parseQR, SignatureVerificationError, TransparencyError };
 export type {
     Match,
     MatchHandler,
+    MatchUpdate,
+    MatchUpdateHandler,
     ReportMetadata,
+    ReportAuth,
+    ReportOptions,
+    ReportResult,
+    ReportStatus,
     KeyStorage,
     VailixConfig,
+    DownloadSource,
+    DownloadFormat,
+    ReportFormat,
+    MetadataFormat,
     NearbyUser,
-    PairResult
+    PairResult,
+    ChaffConfig
 };
@@ -2,37 +2,164 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { createDecipheriv } from 'react-native-quick-crypto';
 import { EventEmitter } from 'eventemitter3';
 import type { StorageService } from './storage';
-import type { Match, ReportMetadata } from './types';
+import { verifyPayloadSignature } from './signature';
+import {
+    MAX_LOOKUP_RPIS,
+    TransparencyError,
+    leafHash,
+    treeHeadMessage,
+    verifyConsistencyProof,
+    verifyInclusionProof,
+} from './transparency';
+import type { ProvenEntry, TreeHead } from './transparency';
+import { parseFilter } from './filter';
+import { DownloadStreamParser, STATUS_BY_CODE } from './stream';
+import type { ServerKey } from './stream';
+import type { DownloadFormat, DownloadSource, Match, MatchUpdate, ReportMetadata, ReportStatus } from './types';
 
 const LAST_SYNC_KEY = 'vailix_last_sync';
-
-interface ServerKey {
-    rpi: string;
-    metadata?: string;
+const SYNC_TOKEN_KEY = 'vailix_sync_token';
+const MATCH_CACHE_PREFIX = 'vailix_match_cache_';
+const LOG_STATE_KEY = 'vailix_log_state';
+
+// Streamed keys are matched in chunks of this size while the page is still downloading
+const STREAM_CHUNK_SIZE = 1000;
+
+// Binary format versions this client parses, best first (see drop's serializeKeys).
+// v1 starts with the magic "VLXK"; v0 starts with a key count, which can never equal it.
+const FORMAT_VERSIONS = '1,0';
+const FORMAT_MAGIC = [0x56, 0x4c, 0x58, 0x4b];
+const FORMAT_FLAG_STATUS = 0x01;
+const FORMAT_FLAG_BLOBS = 0x02;
+const KNOWN_FORMAT_FLAGS = FORMAT_FLAG_STATUS | FORMAT_FLAG_BLOBS;
+const NO_BLOB = 0xffff;
+
+interface CachedMatch {
+    encryptedMetadata?: string;
+    metadataBlob?: string;  // Shared metadata; encryptedMetadata is then its wrapped content key
+    metadataKey: string;
+    timestamp: number;
     reportedAt: number;
+    status?: ReportStatus;  // Missing for matches cached before lifecycle support (= confirmed)
+}
+
+// Where a download page starts: the server's sync token once there is one, else since and cursor
+interface PagePosition {
+    since: number;
+    cursor: string | null;
+    token: string | null;
+}
+
+// Where the next sync starts: the last key's timestamp, and the sync token when the server issues them
+interface SyncCheckpoint {
+    since: number;
+    token: string | null;
+}
+
+/** The server didn't accept our sync token (e.g. its token key changed) */
+class RejectedSyncTokenError extends Error {
+    constructor() {
+        super('Sync token rejected by the server');
+        this.name = 'RejectedSyncTokenError';
+    }
+}
+
+// Last verified transparency log head, and downloaded RPIs the log didn't list yet
+interface LogState {
+    treeSize: number;
+    rootHash: string;
+    pending: string[];
+}
+
+// Export manifest published by drop (see ExportPublisher)
+interface ExportManifest {
+    version: number;
+    exportedThrough: number;
+    files: Array<{ start: number; end: number; path: string; count: number; keyId?: string; signature?: string }>;
+}
+
+export interface MatcherOptions {
+    /** Download via the live API or precomputed export files (default: 'api') */
+    downloadSource?: DownloadSource;
+    /** API download format (default: 'bin') */
+    downloadFormat?: DownloadFormat;
+    /** Trusted server signing keys (keyId -> base64 Ed25519 public key). If set, unsigned payloads are rejected. */
+    serverPublicKeys?: Record<string, string>;
+    /** Sent as x-vailix-tenant to multi-tenant drop servers using header routing */
+    tenantId?: string;
+    /** Sent as x-vailix-secret-id so the server checks (and reports) the right secret */
+    appSecretId?: string;
+    /** Check downloaded keys against drop's transparency log before accepting a sync (default: false) */
+    verifyTransparencyLog?: boolean;
 }
 
 export class MatcherService extends EventEmitter {
+    private downloadSource: DownloadSource;
+    private downloadFormat: DownloadFormat;
+    private serverPublicKeys?: Record<string, string>;
+    private tenantId?: string;
+    private appSecretId?: string;
+    private verifyTransparencyLog: boolean;
+
     constructor(
         private storage: StorageService,
         private downloadUrl: string,
-        private appSecret: string
-    ) { super(); }
+        private appSecret: string,
+        options: MatcherOptions = {}
+    ) {
+        super();
+        this.downloadSource = options.downloadSource ?? 'api';
+        this.downloadFormat = options.downloadFormat ?? 'bin';
+        this.serverPublicKeys = options.serverPublicKeys;
+        this.tenantId = options.tenantId;
+        this.appSecretId = options.appSecretId;
+        this.verifyTransparencyLog = options.verifyTransparencyLog ?? false;
+    }
 
     async fetchAndMatch(): Promise<Match[]> {
         try {
-            let lastSync = parseInt(await AsyncStorage.getItem(LAST_SYNC_KEY) || '0', 10);
+            const lastSync = parseInt(await AsyncStorage.getItem(LAST_SYNC_KEY) || '0', 10);
+            const syncToken = await AsyncStorage.getItem(SYNC_TOKEN_KEY);
             const allMatches: Match[] = [];
-            let maxReportedAt = lastSync;
+            const updates: MatchUpdate[] = [];
+            const downloaded: string[] = [];
+
+            // Match cache changes are applied once the whole sync checks out (null = remove)
+            const cacheWrites = new Map<string, string | null>();
+            const readCache = async (cacheKey: string) =>
+                cacheWrites.has(cacheKey) ? cacheWrites.get(cacheKey)! : AsyncStorage.getItem(cacheKey);
+            const flushCache = async () => {
+                for (const [cacheKey, value] of cacheWrites) {
+                    if (value === null) await AsyncStorage.removeItem(cacheKey);
+                    else await AsyncStorage.setItem(cacheKey, value);
+                }
+                cacheWrites.clear();
+            };
+
+            // Matches and updates not emitted yet. Emitted before their cache entries are written:
+            // a crash in between re-delivers them on the next sync rather than losing them.
+            let emittedMatches = 0;
+            let emittedUpdates = 0;
+            const emitPending = () => {
+                if (allMatches.length > emittedMatches) this.emit('match', allMatches.slice(emittedMatches));
+                if (updates.length > emittedUpdates) this.emit('matchUpdate', updates.slice(emittedUpdates));
+                emittedMatches = allMatches.length;
+                emittedUpdates = updates.length;
+            };
+
+            // Each page is final once processed, so an interrupted sync resumes after the last one.
+            // With the transparency check nothing is final before the whole sync checks out.
+            const onPage = this.verifyTransparencyLog ? undefined : async (token: string) => {
+                emitPending();
+                await flushCache();
+                await AsyncStorage.setItem(SYNC_TOKEN_KEY, token);
+            };
 
             // Stream keys page by page to avoid OOM
             // Process each page immediately and discard from memory
-            await this._downloadAndProcessKeys(lastSync, async (keys) => {
+            const next = await this._downloadAndProcessKeys({ since: lastSync, token: syncToken }, async (keys) => {
                 if (keys.length === 0) return;
-
-                // Track max timestamp for sync cursor
-                const pageMax = Math.max(...keys.map(k => k.reportedAt));
-                maxReportedAt = Math.max(maxReportedAt, pageMax);
+                if (this.verifyTransparencyLog) downloaded.push(...keys.map((key) => key.rpi));
 
                 // Map for O(1) lookup
                 const infectedMap = new Map<string, ServerKey>();
@@ -42,17 +169,47 @@ export class MatcherService extends EventEmitter {
                 const infectedRpis = Array.from(infectedMap.keys());
                 const matchingScans = await this.storage.getMatchingScans(infectedRpis);
 
+                // RPIs first matched in this batch (a scanned RPI can have several scan events)
+                const newlyMatched = new Set<string>();
+
                 // Process matches
                 for (const s of matchingScans) {
                     const serverKey = infectedMap.get(s.rpi)!;
+                    const cacheKey = `${MATCH_CACHE_PREFIX}${s.rpi}`;
+                    const cachedData = newlyMatched.has(s.rpi) ? null : await readCache(cacheKey);
+
+                    if (cachedData) {
+                        // Already emitted: only status changes are news (e.g. provisional -> confirmed, or revoked)
+                        const cached = JSON.parse(cachedData) as CachedMatch;
+                        if ((cached.status ?? 'confirmed') === serverKey.status) continue;
+
+                        if (serverKey.status === 'revoked') {
+                            cacheWrites.set(cacheKey, null);
+                        } else {
+                            cacheWrites.set(cacheKey, JSON.stringify({
+                                ...cached,
+                                encryptedMetadata: serverKey.metadata ?? cached.encryptedMetadata,
+                                metadataBlob: serverKey.metadataBlob ?? cached.metadataBlob,
+                                status: serverKey.status,
+                            }));
+                        }
+                        updates.push({ rpi: s.rpi, status: serverKey.status });
+                        continue;
+                    }
+
+                    // Never matched before: a revocation of a report we never saw is not news
+                    if (serverKey.status === 'revoked') continue;
+                    newlyMatched.add(s.rpi);
 
                     // PRIVACY: Store ENCRYPTED metadata for on-demand decryption
                     // Never persist decrypted data to storage
-                    await AsyncStorage.setItem(`vailix_match_cache_${s.rpi}`, JSON.stringify({
+                    cacheWrites.set(cacheKey, JSON.stringify({
                         encryptedMetadata: serverKey.metadata,  // Still encrypted from server
+                        metadataBlob: serverKey.metadataBlob,
                         metadataKey: s.metadataKey,            // Decryption key
                         timestamp: s.timestamp,
-                        reportedAt: serverKey.reportedAt
+                        reportedAt: serverKey.reportedAt,
+                        status: serverKey.status,
                     }));
 
                     // Return match with empty metadata (will be decrypted on-demand)
@@ -61,17 +218,22 @@ export class MatcherService extends EventEmitter {
                         timestamp: s.timestamp,
                         metadata: undefined,  // Not decrypted yet!
                         reportedAt: serverKey.reportedAt,
+                        status: serverKey.status,
                     });
                 }
-            });
+            }, onPage);
+
+            if (this.verifyTransparencyLog) await this._checkTransparencyLog(downloaded);
+            emitPending();
+            await flushCache();
 
             // Update sync checkpoint only after successful processing
-            if (maxReportedAt > lastSync) {
-                await AsyncStorage.setItem(LAST_SYNC_KEY, maxReportedAt.toString());
+            if (next.token) {
+                await AsyncStorage.setItem(SYNC_TOKEN_KEY, next.token);
             }
-
-            if (allMatches.length > 0) {
-                this.emit('match', allMatches);
+            // Still kept with a token: exports downloads use it, and a rejected token falls back to it
+            if (next.since > lastSync) {
+                await AsyncStorage.setItem(LAST_SYNC_KEY, next.since.toString());
             }
 
             await this.storage.cleanupOldScans();
@@ -82,35 +244,384 @@ export class MatcherService extends EventEmitter {
         }
     }
 
-    private async _downloadAndProcessKeys(since: number, processor: (keys: ServerKey[]) => Promise<void>): Promise<void> {
-        let cursor: string | null = null;
+    /**
+     * Download all keys after the checkpoint and feed them to `processor` chunk by chunk,
+     * calling `onPage` with each page's sync token once the page is processed.
+     * Returns the checkpoint to persist for the next sync.
+     */
+    private async _downloadAndProcessKeys(
+        checkpoint: SyncCheckpoint,
+        processor: (keys: ServerKey[]) => Promise<void>,
+        onPage?: (token: string) => Promise<void>
+    ): Promise<SyncCheckpoint> {
+        if (this.downloadSource === 'exports') {
+            return { since: await this._downloadExportBundles(checkpoint.since, processor), token: null };
+        }
+        if (!checkpoint.token) return this._downloadPages(checkpoint, processor, onPage);
+
+        try {
+            return await this._downloadPages(checkpoint, processor, onPage);
+        } catch (error) {
+            if (!(error instanceof RejectedSyncTokenError)) throw error;
+            // Start over from the timestamp; keys seen before are already in the match cache
+            return this._downloadPages({ since: checkpoint.since, token: null }, processor, onPage);
+        }
+    }
+
+    /** Walk /v1/download from the checkpoint, following cursors (and sync tokens) to the last page */
+    private async _downloadPages(
+        checkpoint: SyncCheckpoint,
+        processor: (keys: ServerKey[]) => Promise<void>,
+        onPage?: (token: string) => Promise<void>
+    ): Promise<SyncCheckpoint> {
+        const { since } = checkpoint;
+        const position: PagePosition = { since, cursor: null, token: checkpoint.token };
+        let maxReportedAt = since;
+        let format = this.downloadFormat;
+        let scannedRpis: string[] | null = null;
+
+        // The next page starts where this one's token (or cursor) says
+        const advance = async (nextCursor: string | null, syncToken: string | null) => {
+            position.cursor = nextCursor;
+            if (syncToken) {
+                position.token = syncToken;
+                await onPage?.(syncToken);
+            }
+        };
 
         do {
-            const url = new URL(`${this.downloadUrl}/v1/download`);
-            url.searchParams.set('since', since.toString());
-            if (cursor) url.searchParams.set('cursor', cursor);
-            url.searchParams.set('format', 'bin');
+            if (format === 'stream') {
+                const streamed = await this._streamPage(position, processor);
+                if (streamed) {
+                    maxReportedAt = Math.max(maxReportedAt, streamed.maxReportedAt);
+                    await advance(streamed.nextCursor, streamed.syncToken);
+                    await new Promise(resolve => setTimeout(resolve, 0));
+                    continue;
+                }
+                // Servers without streaming support answer unknown formats with JSON: use 'bin' from here on
+                format = 'bin';
+            }
 
-            const res = await fetch(url.toString(), {
-                headers: { 'x-vailix-secret': this.appSecret },
-            });
+            let page = await this._fetchPage(position, format);
 
-            if (!res.ok) throw new Error(`Server error: ${res.status}`);
+            // Servers without filter support answer unknown formats with JSON: use 'bin' from here on
+            if (format === 'gcs' && !page.contentType.includes('x-vailix-gcs')) {
+                format = 'bin';
+                page = await this._fetchPage(position, format);
+            }
 
-            const buffer = await res.arrayBuffer();
-            const keys = this._parseBinaryResponse(buffer);
+            let keys: ServerKey[] = [];
+            if (format === 'gcs') {
+                const filter = parseFilter(page.buffer);
+                maxReportedAt = Math.max(maxReportedAt, filter.maxReportedAt);
+
+                // Only a candidate hit costs the full page. The server learns that this page
+                // might contain one of our contacts, but not which RPI.
+                scannedRpis ??= await this.storage.getScannedRpis();
+                if (scannedRpis.some((rpi) => filter.mightContain(rpi))) {
+                    keys = this._parseBinaryResponse((await this._fetchPage(position, 'bin')).buffer);
+                }
+            } else {
+                keys = this._parseBinaryResponse(page.buffer);
+            }
 
             // Process chunk immediately
             await processor(keys);
 
-            cursor = res.headers.get('x-vailix-next-cursor') || null;
+            // Track max timestamp for sync cursor
+            for (const key of keys) maxReportedAt = Math.max(maxReportedAt, key.reportedAt);
+
+            await advance(page.nextCursor, page.syncToken);
 
             // Yield to event loop to free memory/prevent UI freeze
             await new Promise(resolve => setTimeout(resolve, 0));
-        } while (cursor);
+        } while (position.cursor);
+
+        return { since: maxReportedAt, token: position.token };
     }
 
+    /** Fetch and verify one /v1/download page */
+    private async _fetchPage(
+        position: PagePosition,
+        format: DownloadFormat
+    ): Promise<{ buffer: ArrayBuffer; nextCursor: string | null; syncToken: string | null; contentType: string }> {
+        const res = await fetch(this._downloadPageUrl(position, format), {
+            headers: { ...this._headers(), 'x-vailix-format-versions': FORMAT_VERSIONS },
+        });
+
+        if (res.status === 400 && position.token) throw new RejectedSyncTokenError();
+        if (!res.ok) throw new Error(`Server error: ${res.status}`);
+
+        const contentType = res.headers.get('content-type') ?? '';
+        // A JSON answer to 'gcs' is a fallback signal: never verified, never parsed as keys
+        if (format === 'gcs' && contentType.includes('json')) {
+            await res.body?.cancel();
+            return { buffer: new ArrayBuffer(0), nextCursor: null, syncToken: null, contentType };
+        }
+        // Anything else must be the binary page asked for, signed when keys are pinned
+        if (!contentType.includes(format === 'gcs' ? 'application/x-vailix-gcs' : 'application/octet-stream')) {
+            throw new Error(`Unexpected ${format} page content type: ${contentType || 'none'}`);
+        }
+
+        const buffer = await res.arrayBuffer();
+        this._verify(buffer, res.headers.get('x-vailix-key-id'), res.headers.get('x-vailix-signature'));
+        return {
+            buffer,
+            nextCursor: res.headers.get('x-vailix-next-cursor') || null,
+            syncToken: res.headers.get('x-vailix-sync-token') || null,
+            contentType,
+        };
+    }
+
+    /**
+     * Fetch one page in the streaming format and parse it as it arrives, handing keys to
+     * `processor` in chunks. When signatures are required, parsed keys are held until the
+     * trailing signature verifies. Returns null if the server doesn't support streaming.
+     */
+    private async _streamPage(
+        position: PagePosition,
+        processor: (keys: ServerKey[]) => Promise<void>
+    ): Promise<{ nextCursor: string | null; syncToken: string | null; maxReportedAt: number } | null> {
+        // Sent as on other pages: the server ties sync tokens to the negotiated format version
+        const res = await fetch(this._downloadPageUrl(position, 'stream'), {
+            headers: { ...this._headers(), 'x-vailix-format-versions': FORMAT_VERSIONS },
+        });
+        if (res.status === 400 && position.token) throw new RejectedSyncTokenError();
+        if (!res.ok) throw new Error(`Server error: ${res.status}`);
+        if (!(res.headers.get('content-type') ?? '').includes('x-vailix-stream')) {
+            await res.body?.cancel();
+            return null;
+        }
+
+        const parser = new DownloadStreamParser(res.headers.get('x-vailix-stream-sync-token') === '1');
+        let pending: ServerKey[] = [];
+        let maxReportedAt = position.since;
+        const consume = async (keys: ServerKey[]) => {
+            for (const key of keys) maxReportedAt = Math.max(maxReportedAt, key.reportedAt);
+            pending.push(...keys);
+            if (!this.serverPublicKeys && pending.length >= STREAM_CHUNK_SIZE) {
+                await processor(pending);
+                pending = [];
+            }
+        };
+
+        const reader = res.body?.getReader();
+        if (reader) {
+            for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+                await consume(parser.push(chunk.value));
+            }
+        } else {
+            // React Native's fetch has no body streams: parse the whole response at once
+            await consume(parser.push(new Uint8Array(await res.arrayBuffer())));
+        }
+
+        const trailer = parser.finish();
+        if (this.serverPublicKeys) {
+            verifyPayloadSignature(trailer.signedMessage, trailer.keyId, trailer.signature, this.serverPublicKeys);
+        }
+        await processor(pending);
+        return { nextCursor: trailer.nextCursor, syncToken: trailer.syncToken, maxReportedAt };
+    }
+
+    /**
+     * Check that the log's current head extends the last one this device verified, and that
+     * every downloaded key is in an entry included in it. A key the log doesn't list yet (it
+     * may be appended just after the download) is retried on the next sync, then rejected.
+     */
+    private async _checkTransparencyLog(rpis: string[]): Promise<void> {
+        const stored = await AsyncStorage.getItem(LOG_STATE_KEY);
+        const state = stored ? JSON.parse(stored) as LogState : null;
+
+        const head = await this._fetchLog<TreeHead>('/v1/log/head');
+        if (this.serverPublicKeys) {
+            verifyPayloadSignature(treeHeadMessage(head), head.keyId, head.signature, this.serverPublicKeys);
+        }
+
+        if (state) {
+            if (head.treeSize < state.treeSize) {
+                throw new TransparencyError(`Transparency log shrank from ${state.treeSize} to ${head.treeSize} entries`);
+            }
+            const { proof } = state.treeSize > 0 && state.treeSize < head.treeSize
+                ? await this._fetchLog<{ proof: string[] }>(`/v1/log/proof/consistency?from=${state.treeSize}&to=${head.treeSize}`)
+                : { proof: [] };
+            if (!verifyConsistencyProof(state.treeSize, head.treeSize, state.rootHash, head.rootHash, proof)) {
+                throw new TransparencyError(`Transparency log head ${head.treeSize} is inconsistent with head ${state.treeSize}`);
+            }
+        }
+
+        const pending = new Set(state?.pending ?? []);
+        const wanted = [...new Set([...pending, ...rpis])];
+        const missing: string[] = [];
+        for (let i = 0; i < wanted.length; i += MAX_LOOKUP_RPIS) {
+            const batch = wanted.slice(i, i + MAX_LOOKUP_RPIS);
+            const { entries } = await this._fetchLog<{ entries: ProvenEntry[] }>('/v1/log/lookup', { treeSize: head.treeSize, rpis: batch });
+
+            const listed = new Set<string>();
+            for (const entry of entries) {
+                if (!verifyInclusionProof(entry.index, head.treeSize, leafHash(entry), entry.proof, head.rootHash)) {
+                    throw new TransparencyError(`Invalid inclusion proof for transparency log entry ${entry.index}`);
+                }
+                for (const rpi of entry.rpis) listed.add(rpi);
+            }
+            missing.push(...batch.filter((rpi) => !listed.has(rpi)));
+        }
+
+        const overdue = missing.filter((rpi) => pending.has(rpi));
+        if (overdue.length > 0) {
+            throw new TransparencyError(`${overdue.length} downloaded keys are missing from the transparency log`);
+        }
+
+        const next: LogState = { treeSize: head.treeSize, rootHash: head.rootHash, pending: missing };
+        await AsyncStorage.setItem(LOG_STATE_KEY, JSON.stringify(next));
+    }
+
+    /** GET (or POST `body` to) a /v1/log endpoint */
+    private async _fetchLog<T>(path: string, body?: object): Promise<T> {
+        const res = await fetch(`${this.downloadUrl}${path}`, body
+            ? { method: 'POST', headers: { ...this._headers(), 'content-type': 'application/json' }, body: JSON.stringify(body) }
+            : { headers: this._headers() });
+        if (!res.ok) throw new Error(`Server error: ${res.status}`);
+        return await res.json() as T;
+    }
+
+    private _downloadPageUrl({ since, cursor, token }: PagePosition, format: DownloadFormat): string {
+        const url = new URL(`${this.downloadUrl}/v1/download`);
+        // The token holds the whole position; servers without sync tokens never issued one
+        if (token) {
+            url.searchParams.set('token', token);
+        } else {
+            url.searchParams.set('since', since.toString());
+            if (cursor) url.searchParams.set('cursor', cursor);
+        }
+        url.searchParams.set('format', format);
+        url.searchParams.set('tokens', '1');
+        url.searchParams.set('lifecycle', '1');
+        // Shared metadata blobs in-band, so a match never needs a request that would reveal it
+        url.searchParams.set('blobs', '1');
+        return url.toString();
+    }
+
+    private _headers(): Record<string, string> {
+        const headers: Record<string, string> = { 'x-vailix-secret': this.appSecret };
+        if (this.appSecretId) headers['x-vailix-secret-id'] = this.appSecretId;
+        if (this.tenantId) headers['x-vailix-tenant'] = this.tenantId;
+        return headers;
+    }
+
+    /**
+     * Walk the export manifest (CDN/static hosting) instead of querying the database.
+     * Files are immutable per time bucket, so only buckets ending after `since` are fetched.
+     */
+    private async _downloadExportBundles(since: number, processor: (keys: ServerKey[]) => Promise<void>): Promise<number> {
+        const baseUrl = `${this.downloadUrl}/v1/exports`;
+        const headers = this._headers();
+
+        const res = await fetch(`${baseUrl}/index.json`, { headers });
+        if (res.status === 404) return since; // Nothing published yet
+        if (!res.ok) throw new Error(`Server error: ${res.status}`);
+
+        const manifest = await res.json() as ExportManifest;
+        if (manifest.version !== 1) throw new Error(`Unsupported export manifest version: ${manifest.version}`);
+
+        for (const file of manifest.files) {
+            if (file.end <= since) continue;
+
+            const fileRes = await fetch(`${baseUrl}/${file.path}`, { headers });
+            if (!fileRes.ok) throw new Error(`Server error: ${fileRes.status}`);
+
+            const buffer = await fileRes.arrayBuffer();
+            this._verify(buffer, file.keyId, file.signature);
+            const keys = this._parseBinaryResponse(buffer);
+            await processor(keys);
+
+            // Yield to event loop to free memory/prevent UI freeze
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+
+        // Everything before exportedThrough is final, including empty buckets
+        return Math.max(since, manifest.exportedThrough);
+    }
+
+    /** Reject payloads not signed by a trusted server key (no-op when serverPublicKeys is not configured) */
+    private _verify(buffer: ArrayBuffer, keyId: string | null | undefined, signature: string | null | undefined): void {
+        if (!this.serverPublicKeys) return;
+        verifyPayloadSignature(new Uint8Array(buffer), keyId, signature, this.serverPublicKeys);
+    }
+
+    /** Parse a binary page or export file, whichever format version it is in */
     private _parseBinaryResponse(buffer: ArrayBuffer): ServerKey[] {
+        const head = new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength));
+        if (FORMAT_MAGIC.every((byte, i) => head[i] === byte)) return this._parseBinaryV1(buffer);
+        return this._parseBinaryV0(buffer);
+    }
+
+    /**
+     * v1: [magic][version u8][flags u8][count u32] + per key [rpi 16][ts u48][status u8 if flagged][metaLen u16][meta]
+     * [blob u16 if flagged], then with the blobs flag [blobCount u16] + per blob [len u16][data]
+     */
+    private _parseBinaryV1(buffer: ArrayBuffer): ServerKey[] {
+        const view = new DataView(buffer);
+        if (buffer.byteLength < 10) throw new Error('Binary response truncated in header');
+
+        // A newer version or unknown optional fields would be misread, so refuse instead of guessing
+        const version = view.getUint8(4);
+        const flags = view.getUint8(5);
+        if (version !== 1) throw new Error(`Unsupported binary format version: ${version}`);
+        if (flags & ~KNOWN_FORMAT_FLAGS) throw new Error(`Unsupported binary format flags: ${flags}`);
+
+        const withStatus = (flags & FORMAT_FLAG_STATUS) !== 0;
+        const withBlobs = (flags & FORMAT_FLAG_BLOBS) !== 0;
+        const blobIndices: number[] = [];
+        const count = view.getUint32(6);
+        const keys: ServerKey[] = [];
+        const decoder = new TextDecoder('utf-8');
+        let offset = 10;
+
+        for (let i = 0; i < count; i++) {
+            const fixed = 24 + (withStatus ? 1 : 0);
+            if (offset + fixed > buffer.byteLength) throw new Error(`Binary response truncated at key ${i}/${count}`);
+
+            const rpi = Array.from(new Uint8Array(buffer, offset, 16)).map(b => b.toString(16).padStart(2, '0')).join('');
+            // u48 milliseconds: high 16 bits, then low 32 bits
+            const reportedAt = view.getUint16(offset + 16) * 2 ** 32 + view.getUint32(offset + 18);
+            offset += 22;
+
+            const status = withStatus ? STATUS_BY_CODE[view.getUint8(offset++)] ?? 'confirmed' : 'confirmed';
+
+            const metaLen = view.getUint16(offset);
+            offset += 2;
+            if (offset + metaLen > buffer.byteLength) throw new Error(`Binary response truncated at key ${i}/${count}`);
+            const metadata = metaLen > 0 ? decoder.decode(new Uint8Array(buffer, offset, metaLen)) : undefined;
+            offset += metaLen;
+
+            if (withBlobs) {
+                if (offset + 2 > buffer.byteLength) throw new Error(`Binary response truncated at key ${i}/${count}`);
+                blobIndices.push(view.getUint16(offset));
+                offset += 2;
+            }
+
+            keys.push({ rpi, reportedAt, metadata, status });
+        }
+
+        if (withBlobs) {
+            if (offset + 2 > buffer.byteLength) throw new Error('Binary response truncated in blob table');
+            const blobs: string[] = [];
+            const blobCount = view.getUint16(offset);
+            offset += 2;
+            for (let i = 0; i < blobCount; i++) {
+                const length = offset + 2 <= buffer.byteLength ? view.getUint16(offset) : Infinity;
+                if (offset + 2 + length > buffer.byteLength) throw new Error(`Binary response truncated at blob ${i}/${blobCount}`);
+                blobs.push(decoder.decode(new Uint8Array(buffer, offset + 2, length)));
+                offset += 2 + length;
+            }
+            keys.forEach((key, i) => {
+                if (blobIndices[i] !== NO_BLOB) key.metadataBlob = blobs[blobIndices[i]];
+            });
+        }
+        return keys;
+    }
+
+    private _parseBinaryV0(buffer: ArrayBuffer): ServerKey[] {
         const view = new DataView(buffer);
         const keys: ServerKey[] = [];
         let offset = 0;
@@ -153,28 +664,31 @@ export class MatcherService extends EventEmitter {
                 offset += metaLen;
             }
 
-            keys.push({ rpi, reportedAt, metadata });
+            keys.push({ rpi, reportedAt, metadata, status: 'confirmed' });
+        }
+
+        // Optional lifecycle trailer: [statusCount u32] + [keyIndex u32][status u8] per non-confirmed key
+        if (keys.length === count && offset + 4 <= buffer.byteLength) {
+            const statusCount = view.getUint32(offset);
+            offset += 4;
+
+            for (let i = 0; i < statusCount && offset + 5 <= buffer.byteLength; i++) {
+                const index = view.getUint32(offset);
+                const status = STATUS_BY_CODE[view.getUint8(offset + 4)];
+                offset += 5;
+                if (keys[index] && status) keys[index].status = status;
+            }
         }
         return keys;
     }
 
-    private _decrypt(encryptedStr: string | undefined | null, keyHex: string): ReportMetadata | undefined {
+    private _decrypt(encryptedStr: string | undefined | null, keyHex: string, metadataBlob?: string): ReportMetadata | undefined {
         if (!encryptedStr) return undefined;
         try {
-            const parts = encryptedStr.split(':');
-            if (parts.length !== 3) return undefined;
-
-            const [ivB64, authTagB64, encryptedB64] = parts;
-            const key = Buffer.from(keyHex, 'hex');
-            const iv = Buffer.from(ivB64, 'base64');
-            const authTag = Buffer.from(authTagB64, 'base64');
-
-            const decipher = createDecipheriv('aes-256-gcm', key, iv);
-            decipher.setAuthTag(authTag as any);
-
-            let decrypted = decipher.update(encryptedB64, 'base64', 'utf8');
-            decrypted += decipher.final('utf8');
-
+            // Shared metadata: the key's own ciphertext is the blob's content key
+            const decrypted = metadataBlob
+                ? this._open(metadataBlob, this._open(encryptedStr, keyHex, 'hex'), 'utf8')
+                : this._open(encryptedStr, keyHex, 'utf8');
             return JSON.parse(decrypted);
         } catch (e) {
             console.warn('Failed to decrypt metadata', e);
@@ -182,6 +696,24 @@ export class MatcherService extends EventEmitter {
         }
     }
 
+    /** Decrypt an iv:authTag:encryptedData (AES-256-GCM) string under a 32-byte key (hex) */
+    private _open(encryptedStr: string, keyHex: string, encoding: 'utf8' | 'hex'): string {
+        const parts = encryptedStr.split(':');
+        if (parts.length !== 3) throw new Error('Expected iv:authTag:encryptedData');
+
+        const [ivB64, authTagB64, encryptedB64] = parts;
+        const key = Buffer.from(keyHex, 'hex');
+        const iv = Buffer.from(ivB64, 'base64');
+        const authTag = Buffer.from(authTagB64, 'base64');
+
+        const decipher = createDecipheriv('aes-256-gcm', key, iv);
+        decipher.setAuthTag(authTag as any);
+
+        let decrypted = decipher.update(encryptedB64, 'base64', encoding);
+        decrypted += decipher.final(encoding);
+        return decrypted;
+    }
+
     /**
      * Retrieve a specific match by RPI with on-demand decryption.
      * Used when app needs to display exposure details to user.
@@ -195,18 +727,19 @@ export class MatcherService extends EventEmitter {
     async getMatchById(rpi: string): Promise<Match | null> {
         try {
             // Retrieve encrypted match from cache
-            const cachedData = await AsyncStorage.getItem(`vailix_match_cache_${rpi}`);
+            const cachedData = await AsyncStorage.getItem(`${MATCH_CACHE_PREFIX}${rpi}`);
             if (!cachedData) {
                 console.warn(`Match ${rpi} not found in cache`);
                 return null;
             }
 
-            const cached = JSON.parse(cachedData);
+            const cached = JSON.parse(cachedData) as CachedMatch;
 
             // Decrypt metadata ON-DEMAND (result only in memory)
             const decryptedMetadata = this._decrypt(
                 cached.encryptedMetadata,
-                cached.metadataKey
+                cached.metadataKey,
+                cached.metadataBlob
             );
 
             // Return ephemeral result (lives only in caller's memory)
@@ -214,7 +747,8 @@ export class MatcherService extends EventEmitter {
                 rpi: rpi,
                 timestamp: cached.timestamp,
                 metadata: decryptedMetadata,
-                reportedAt: cached.reportedAt
+                reportedAt: cached.reportedAt,
+                status: cached.status === 'provisional' ? 'provisional' : 'confirmed',
             };
         } catch (error) {
             console.error('Failed to get match by ID:', error);
@@ -0,0 +1,54 @@
+import nacl from 'tweetnacl';
+
+/**
+ * Thrown when a download page or export file fails signature verification.
+ * Surfaces through sdk.onError(); the sync is aborted and the checkpoint is not advanced.
+ */
+export class SignatureVerificationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SignatureVerificationError';
+    }
+}
+
+/**
+ * Verify an Ed25519 signature produced by drop's PayloadSigner.
+ *
+ * @param data - Exact payload bytes as received
+ * @param keyId - Signing key ID sent by the server (x-vailix-key-id or manifest entry)
+ * @param signature - Base64 signature
+ * @param publicKeys - Trusted keys: keyId -> raw 32-byte Ed25519 public key (base64)
+ */
+export function verifyPayloadSignature(
+    data: Uint8Array,
+    keyId: string | null | undefined,
+    signature: string | null | undefined,
+    publicKeys: Record<string, string>
+): void {
+    if (!keyId || !signature) {
+        throw new SignatureVerificationError('Download payload is not signed');
+    }
+
+    const publicKey = publicKeys[keyId];
+    if (!publicKey) {
+        throw new SignatureVerificationError(`Download payload signed with unknown key: ${keyId}`);
+    }
+
+    const valid = nacl.sign.detached.verify(
+        data,
+        new Uint8Array(Buffer.from(signature, 'base64')),
+        new Uint8Array(Buffer.from(publicKey, 'base64'))
+    );
+    if (!valid) {
+        throw new SignatureVerificationError(`Invalid download payload signature (key: ${keyId})`);
+    }
+}
+
+/**
+ * Sign a report status change with the reporter's key (verified by drop's verifyStatusChange).
+ * @returns Base64 signature
+ */
+export function signReportStatus(secretKey: Uint8Array, reportKey: string, status: string): string {
+    const message = new Uint8Array(Buffer.from(`vailix-report-status:v1:${reportKey}:${status}`, 'utf8'));
+    return Buffer.from(nacl.sign.detached(message, secretKey)).toString('base64');
+}
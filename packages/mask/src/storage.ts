@@ -99,6 +99,12 @@ export class StorageService {
         return results;
     }
 
+    // Distinct RPIs we have scanned (for testing against download filters)
+    async getScannedRpis(): Promise<string[]> {
+        const rows = await this.db.selectDistinct({ rpi: scannedEvents.rpi }).from(scannedEvents);
+        return rows.map((row) => row.rpi);
+    }
+
     async getRecentPairs(withinHours: number = 24): Promise<ScannedEvent[]> {
         const cutoff = Date.now() - (withinHours * 60 * 60 * 1000);
         const recent = await this.db.select()
@@ -0,0 +1,219 @@
+import { createHash } from 'react-native-quick-crypto';
+import type { ReportStatus } from './types';
+
+// Streaming download format, see drop's streamKeys (big-endian). Servers that negotiated binary
+// format v1 open the stream with [magic "VLXK"][version: u8][flags: u8]; their key frames carry
+// a u48 timestamp, and a status byte only with the status flag. Flagless v0 streams have:
+//   key frame: [0x01][rpi: 16 bytes][createdAt ms: f64][status: u8][metaLen: u16][metadata]
+//   end frame: [0x00][count: u32][cursorLen: u16][next cursor]
+//     then [tokenLen: u16][sync token] when the server sent x-vailix-stream-sync-token
+//   blob frame: [0x02][blob: u16][len: u16][data]  (shared metadata, ahead of its first key)
+//   shared key frame: a key frame with type 0x03, followed by [blob: u16]
+//   signature: [keyIdLen: u8][keyId][sigLen: u8][signature]  (lengths 0 when unsigned)
+
+/** Must match drop's STREAM_SIGNATURE_CONTEXT */
+export const STREAM_SIGNATURE_CONTEXT = 'vailix-download-stream:v1:';
+
+// Lifecycle status codes (see drop's STATUS_CODES)
+export const STATUS_BY_CODE: Record<number, ReportStatus> = { 0: 'confirmed', 1: 'provisional', 2: 'revoked' };
+
+const FRAME_END = 0x00;
+const FRAME_KEY = 0x01;
+const FRAME_BLOB = 0x02;
+const FRAME_SHARED_KEY = 0x03;
+const BLOB_HEADER = 5;  // Frame type + blob index + length
+
+// v1 stream header (see drop's FORMAT_FLAGS); unknown versions and flags are refused
+const FORMAT_MAGIC = [0x56, 0x4c, 0x58, 0x4b];
+const FORMAT_HEADER = 6;  // Magic + version + flags
+const FLAG_STATUS = 0x01;
+const FLAG_BLOBS = 0x02;
+const FLAG_SYNC_TOKEN = 0x04;
+const KNOWN_FLAGS = FLAG_STATUS | FLAG_BLOBS | FLAG_SYNC_TOKEN;
+
+export interface ServerKey {
+    rpi: string;
+    metadata?: string;
+    /** Shared metadata of the key's report; `metadata` is then its wrapped content key */
+    metadataBlob?: string;
+    reportedAt: number;
+    status: ReportStatus;
+}
+
+/** What the stream said about itself once it ended */
+export interface StreamTrailer {
+    count: number;
+    nextCursor: string | null;
+    syncToken: string | null;
+    keyId: string | null;
+    signature: string | null;  // base64
+    /** The bytes the signature covers: context + SHA-256 of the stream up to the end frame */
+    signedMessage: Uint8Array;
+}
+
+/**
+ * Parses a streamed download page chunk by chunk, as the response arrives.
+ * Only the bytes of a frame that straddles two chunks are held between push() calls.
+ */
+export class DownloadStreamParser {
+    private pending: Uint8Array = new Uint8Array(0);
+    private digest = createHash('sha256');
+    private parsed = 0;
+    private end: { count: number; nextCursor: string | null; syncToken: string | null; digest: Uint8Array } | null = null;
+    private trailer: StreamTrailer | null = null;
+    private decoder = new TextDecoder('utf-8');
+    private blobs = new Map<number, string>();
+    /** Key frame fields: v0 until a v1 header says otherwise */
+    private layout: { version: 0 | 1; status: boolean } | null = null;
+
+    /** @param withSyncToken - The end frame of a v0 stream ends with a sync token (v1 streams flag it) */
+    constructor(private withSyncToken: boolean = false) { }
+
+    /** Feed the next chunk; returns the keys completed by it */
+    push(chunk: Uint8Array): ServerKey[] {
+        if (this.trailer) throw new Error('Data after the end of the download stream');
+        this.pending = this.pending.length > 0 ? concat(this.pending, chunk) : chunk;
+
+        const keys: ServerKey[] = [];
+        let offset = this.layout ? 0 : this.readHeader();
+        while (this.layout && !this.trailer) {
+            const used = this.end ? this.readSignature(offset) : this.readFrame(offset, keys);
+            if (used === 0) break;
+            offset += used;
+        }
+
+        this.pending = this.pending.slice(offset);
+        if (this.trailer && this.pending.length > 0) throw new Error('Data after the end of the download stream');
+        return keys;
+    }
+
+    /** Call once the response is complete; throws if the stream was cut short */
+    finish(): StreamTrailer {
+        if (!this.trailer) throw new Error(`Download stream truncated after ${this.parsed} keys`);
+        return this.trailer;
+    }
+
+    /**
+     * Read the v1 header at the start of the stream, if it has one, and pick the key frame layout.
+     * Returns the bytes consumed; leaves the layout unset while too few bytes have arrived.
+     */
+    private readHeader(): number {
+        const bytes = this.pending;
+        if (bytes.length < 1) return 0;
+        // v0 streams start with a frame type, never the magic's first byte
+        if (bytes[0] !== FORMAT_MAGIC[0]) {
+            this.layout = { version: 0, status: true };
+            return 0;
+        }
+        if (bytes.length < FORMAT_HEADER) return 0;
+        if (!FORMAT_MAGIC.every((byte, i) => bytes[i] === byte)) throw new Error('Invalid download stream header');
+
+        const version = bytes[4];
+        const flags = bytes[5];
+        if (version !== 1) throw new Error(`Unsupported download stream version: ${version}`);
+        if (flags & ~KNOWN_FLAGS) throw new Error(`Unsupported download stream flags: ${flags}`);
+        this.layout = { version: 1, status: (flags & FLAG_STATUS) !== 0 };
+        this.withSyncToken = (flags & FLAG_SYNC_TOKEN) !== 0;
+        this.digest.update(bytes.subarray(0, FORMAT_HEADER));
+        return FORMAT_HEADER;
+    }
+
+    /** Parse one frame at `offset`; returns the bytes consumed, or 0 if the frame is incomplete */
+    private readFrame(offset: number, keys: ServerKey[]): number {
+        const bytes = this.pending;
+        const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        const available = bytes.length - offset;
+        if (available < 1) return 0;
+
+        if (bytes[offset] === FRAME_END) {
+            if (available < 7) return 0;
+            const cursorLen = view.getUint16(offset + 5);
+            let size = 7 + cursorLen;
+            let tokenLen = 0;
+            if (this.withSyncToken) {
+                if (available < size + 2) return 0;
+                tokenLen = view.getUint16(offset + size);
+                size += 2 + tokenLen;
+            }
+            if (available < size) return 0;
+
+            const frame = bytes.subarray(offset, offset + size);
+            this.digest.update(frame);
+            const count = view.getUint32(offset + 1);
+            if (count !== this.parsed) throw new Error(`Download stream count mismatch: ${this.parsed}/${count}`);
+            this.end = {
+                count,
+                nextCursor: cursorLen > 0 ? this.decoder.decode(frame.subarray(7, 7 + cursorLen)) : null,
+                syncToken: tokenLen > 0 ? this.decoder.decode(frame.subarray(size - tokenLen)) : null,
+                digest: new Uint8Array(this.digest.digest()),
+            };
+            return frame.length;
+        }
+
+        if (bytes[offset] === FRAME_BLOB) {
+            if (available < BLOB_HEADER) return 0;
+            const length = view.getUint16(offset + 3);
+            if (available < BLOB_HEADER + length) return 0;
+
+            const frame = bytes.subarray(offset, offset + BLOB_HEADER + length);
+            this.digest.update(frame);
+            this.blobs.set(view.getUint16(offset + 1), this.decoder.decode(frame.subarray(BLOB_HEADER)));
+            return frame.length;
+        }
+
+        const shared = bytes[offset] === FRAME_SHARED_KEY;
+        if (!shared && bytes[offset] !== FRAME_KEY) throw new Error(`Unknown download stream frame: ${bytes[offset]}`);
+        // Frame type + RPI + timestamp (v1: u48, v0: f64) + status (if present) + metaLen
+        const { version, status } = this.layout!;
+        const timestampEnd = 17 + (version === 1 ? 6 : 8);
+        const header = timestampEnd + (status ? 1 : 0) + 2;
+        if (available < header) return 0;
+        const metaLen = view.getUint16(offset + header - 2);
+        const size = header + metaLen + (shared ? 2 : 0);
+        if (available < size) return 0;
+
+        const frame = bytes.subarray(offset, offset + size);
+        this.digest.update(frame);
+        keys.push({
+            rpi: Array.from(frame.subarray(1, 17)).map((b) => b.toString(16).padStart(2, '0')).join(''),
+            // u48 milliseconds: high 16 bits, then low 32 bits
+            reportedAt: version === 1
+                ? view.getUint16(offset + 17) * 2 ** 32 + view.getUint32(offset + 19)
+                : view.getFloat64(offset + 17),
+            status: status ? STATUS_BY_CODE[frame[timestampEnd]] ?? 'confirmed' : 'confirmed',
+            metadata: metaLen > 0 ? this.decoder.decode(frame.subarray(header, header + metaLen)) : undefined,
+            metadataBlob: shared ? this.blobs.get(view.getUint16(offset + header + metaLen)) : undefined,
+        });
+        this.parsed++;
+        return frame.length;
+    }
+
+    private readSignature(offset: number): number {
+        const bytes = this.pending;
+        if (bytes.length - offset < 1) return 0;
+        const keyIdLen = bytes[offset];
+        if (bytes.length - offset < 2 + keyIdLen) return 0;
+        const sigLen = bytes[offset + 1 + keyIdLen];
+        const size = 2 + keyIdLen + sigLen;
+        if (bytes.length - offset < size) return 0;
+
+        const end = this.end!;
+        const context = new TextEncoder().encode(STREAM_SIGNATURE_CONTEXT);
+        this.trailer = {
+            count: end.count,
+            nextCursor: end.nextCursor,
+            syncToken: end.syncToken,
+            keyId: keyIdLen > 0 ? this.decoder.decode(bytes.subarray(offset + 1, offset + 1 + keyIdLen)) : null,
+            signature: sigLen > 0 ? Buffer.from(bytes.subarray(offset + 2 + keyIdLen, offset + size)).toString('base64') : null,
+            signedMessage: concat(context, end.digest),
+        };
+        return size;
+    }
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+    const out = new Uint8Array(a.length + b.length);
+    out.set(a);
+    out.set(b, a.length);
+    return out;
+}
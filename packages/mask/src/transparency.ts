@@ -0,0 +1,142 @@
+import { createHash } from 'react-native-quick-crypto';
+
+// Client side of drop's transparency log (see drop's transparency.ts), hashed like RFC 6962:
+//   leaf hash: SHA-256(0x00 | publishedAt ms: u64 | RPIs sorted, 16 bytes each)
+//   node hash: SHA-256(0x01 | left | right)
+// Head signature: Ed25519 over LOG_HEAD_CONTEXT | treeSize: u64 | timestamp ms: u64 | root hash.
+
+/** Must match drop's LOG_HEAD_CONTEXT */
+export const LOG_HEAD_CONTEXT = 'vailix-log-head:v1:';
+
+/** RPIs per /v1/log/lookup request (drop's MAX_LOG_ENTRIES) */
+export const MAX_LOOKUP_RPIS = 1000;
+
+export interface TreeHead {
+    treeSize: number;
+    timestamp: number;
+    rootHash: string;  // Hex
+    keyId?: string;
+    signature?: string;  // base64
+}
+
+/** A log entry with its inclusion proof, as returned by /v1/log/lookup */
+export interface ProvenEntry {
+    index: number;
+    publishedAt: number;
+    rpis: string[];
+    proof: string[];
+}
+
+/**
+ * Thrown when downloaded keys aren't in the transparency log, or the log's heads don't
+ * extend each other. Surfaces through sdk.onError(); the sync is aborted and the checkpoint
+ * is not advanced.
+ */
+export class TransparencyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TransparencyError';
+    }
+}
+
+export function leafHash(entry: Pick<ProvenEntry, 'publishedAt' | 'rpis'>): Uint8Array {
+    return sha256(new Uint8Array([0x00]), u64(entry.publishedAt), ...[...entry.rpis].sort().map(fromHex));
+}
+
+/** The bytes a tree head signature covers */
+export function treeHeadMessage(head: Pick<TreeHead, 'treeSize' | 'timestamp' | 'rootHash'>): Uint8Array {
+    return concat(new TextEncoder().encode(LOG_HEAD_CONTEXT), u64(head.treeSize), u64(head.timestamp), fromHex(head.rootHash));
+}
+
+/** Check an inclusion proof (RFC 9162, 2.1.3.2) */
+export function verifyInclusionProof(index: number, treeSize: number, leaf: Uint8Array, proof: string[], rootHash: string): boolean {
+    if (index >= treeSize) return false;
+    let fn = index;
+    let sn = treeSize - 1;
+    let r = leaf;
+    for (const p of proof.map(fromHex)) {
+        if (sn === 0) return false;
+        if (fn % 2 === 1 || fn === sn) {
+            r = nodeHash(p, r);
+            while (fn % 2 === 0 && fn !== 0) {
+                fn = Math.floor(fn / 2);
+                sn = Math.floor(sn / 2);
+            }
+        } else {
+            r = nodeHash(r, p);
+        }
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+    }
+    return sn === 0 && toHex(r) === rootHash;
+}
+
+/** Check a consistency proof between two tree heads (RFC 9162, 2.1.4.2) */
+export function verifyConsistencyProof(from: number, to: number, fromRoot: string, toRoot: string, proof: string[]): boolean {
+    if (from > to) return false;
+    if (from === to) return proof.length === 0 && fromRoot === toRoot;
+    if (from === 0) return proof.length === 0;
+
+    const path = proof.map(fromHex);
+    if ((from & (from - 1)) === 0) path.unshift(fromHex(fromRoot));
+    if (path.length === 0) return false;
+
+    let fn = from - 1;
+    let sn = to - 1;
+    while (fn % 2 === 1) {
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+    }
+    let fr = path[0];
+    let sr = path[0];
+    for (const c of path.slice(1)) {
+        if (sn === 0) return false;
+        if (fn % 2 === 1 || fn === sn) {
+            fr = nodeHash(c, fr);
+            sr = nodeHash(c, sr);
+            while (fn % 2 === 0 && fn !== 0) {
+                fn = Math.floor(fn / 2);
+                sn = Math.floor(sn / 2);
+            }
+        } else {
+            sr = nodeHash(sr, c);
+        }
+        fn = Math.floor(fn / 2);
+        sn = Math.floor(sn / 2);
+    }
+    return sn === 0 && toHex(fr) === fromRoot && toHex(sr) === toRoot;
+}
+
+function nodeHash(left: Uint8Array, right: Uint8Array): Uint8Array {
+    return sha256(new Uint8Array([0x01]), left, right);
+}
+
+function sha256(...parts: Uint8Array[]): Uint8Array {
+    const hash = createHash('sha256');
+    for (const part of parts) hash.update(part);
+    return new Uint8Array(hash.digest());
+}
+
+function u64(value: number): Uint8Array {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setBigUint64(0, BigInt(value));
+    return bytes;
+}
+
+function fromHex(hex: string): Uint8Array {
+    return new Uint8Array(Buffer.from(hex, 'hex'));
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Buffer.from(bytes).toString('hex');
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out;
+}
@@ -5,12 +5,75 @@ export interface ReportMetadata {
     [key: string]: string | number | boolean | (string | number | boolean)[] | undefined;
 }
 
+/**
+ * Report lifecycle status.
+ * A report starts provisional (self-reported) or confirmed, can be upgraded to confirmed,
+ * and can be revoked (e.g. a false positive). Revoked is terminal.
+ */
+export type ReportStatus = 'provisional' | 'confirmed' | 'revoked';
+
 // Match result with optional reporter metadata
 export interface Match {
     rpi: string;
     timestamp: number;
     metadata?: ReportMetadata;
     reportedAt?: number;
+    /** Status of the reporter's report when matched (absent from pre-lifecycle servers = confirmed) */
+    status?: Exclude<ReportStatus, 'revoked'>;
+}
+
+/** Status change for a match that was already emitted (revoked = retract the match) */
+export interface MatchUpdate {
+    rpi: string;
+    status: ReportStatus;
+}
+
+/**
+ * How a report is authorized. Pass a health-authority verification code when the
+ * drop server requires one; a plain string is treated as an attestation token.
+ */
+export interface ReportAuth {
+    attestToken?: string;        // e.g. Firebase App Check token
+    verificationCode?: string;   // One-time code issued by the health authority
+}
+
+/** Per-report options for VailixSDK.report() */
+export interface ReportOptions {
+    /** Initial status (default: 'confirmed'). Provisional reports can later be confirmed or revoked. */
+    status?: 'provisional' | 'confirmed';
+    /** How long the server keeps this report, in days (default: the number of days reported; capped by the server) */
+    retentionDays?: number;
+}
+
+/** Outcome of VailixSDK.report() */
+export interface ReportResult {
+    success: boolean;
+    /** Keys in the report */
+    keys: number;
+    /** Requests the keys went out in: 1, or the chunk count of an upload session */
+    chunks: number;
+    /** Upload session, for reports over 1500 keys */
+    sessionId?: string;
+    /** Status code of the response that failed the upload, if the server answered */
+    httpStatus?: number;
+    error?: string;
+    /** The session is still open with the chunks that arrived; calling report() again resumes it */
+    resumable?: boolean;
+}
+
+/**
+ * Decoy report uploads. Decoys look like real reports on the wire (same size and headers) and
+ * are discarded by the drop server, so observers can't tell who actually reported.
+ */
+export interface ChaffConfig {
+    /** Mean time between decoys in ms; gaps are randomized (default: 3 days) */
+    meanIntervalMs?: number;
+    /** Attestation token for decoys, if your real reports send one */
+    getAttestToken?: () => Promise<string | undefined>;
+    /** Exchange a decoy verification code before uploading, if your real reports use verification codes */
+    reportToken?: boolean;
+    /** Sample metadata, so decoys are padded like real reports that attach metadata */
+    metadata?: ReportMetadata;
 }
 
 export interface ScanEvent {
@@ -26,6 +89,33 @@ export interface KeyStorage {
 }
 
 export type MatchHandler = (matches: Match[]) => void;
+export type MatchUpdateHandler = (updates: MatchUpdate[]) => void;
+
+/**
+ * Where MatcherService downloads keys from:
+ * - 'api': paged /v1/download queries against the drop server
+ * - 'exports': precomputed export files listed in /v1/exports/index.json (CDN-friendly)
+ */
+export type DownloadSource = 'api' | 'exports';
+
+/**
+ * API download format: 'bin' ships every key; 'gcs' ships a compact filter per page and fetches
+ * the full page only when one of our scans might be in it (far less data on metered plans);
+ * 'stream' ships every key in a framing the server writes and the client parses as it arrives,
+ * so neither side holds a whole page in one buffer.
+ */
+export type DownloadFormat = 'bin' | 'gcs' | 'stream';
+
+/** Report upload encoding: compact 'bin' (raw RPIs and ciphertext), or 'json' for debugging */
+export type ReportFormat = 'bin' | 'json';
+
+/**
+ * How report metadata is encrypted: 'per-key' encrypts it under each RPI's metadata key;
+ * 'shared' encrypts it once under a random content key and gives each RPI only that content key
+ * (60 bytes per key instead of a full copy of the metadata). 'shared' needs a drop server that
+ * stores metadata blobs.
+ */
+export type MetadataFormat = 'per-key' | 'shared';
 export type VailixDB = ExpoSQLiteDatabase<Record<string, never>>;
 
 // ============================================================================
@@ -73,14 +163,49 @@ export interface VailixConfig {
     reportUrl: string;
     /** The endpoint for downloading keys (can be the same as reportUrl or a CDN) */
     downloadUrl: string;
+    /** Download via the live API or precomputed export files (default: 'api') */
+    downloadSource?: DownloadSource;
+    /** Download format for downloadSource 'api' (default: 'bin'); 'gcs' and 'stream' fall back to 'bin' on older servers */
+    downloadFormat?: DownloadFormat;
+    /** Report upload format (default: 'bin'); falls back to 'json' on servers that don't accept 'bin' */
+    reportFormat?: ReportFormat;
+    /** Report metadata encryption (default: 'per-key') */
+    metadataFormat?: MetadataFormat;
+    /**
+     * Trusted server signing keys: keyId -> raw Ed25519 public key (base64).
+     * When set, download pages and export files must carry a valid signature from one of these keys.
+     * List both old and new keys while rotating.
+     */
+    serverPublicKeys?: Record<string, string>;
+    /**
+     * Check each sync's keys against drop's transparency log (default: false): every downloaded key
+     * must be in a log entry, and each tree head must extend the previous one. Needs a server with
+     * transparencyLog enabled; heads must be signed when serverPublicKeys is set.
+     */
+    verifyTransparencyLog?: boolean;
+    /**
+     * Solve a proof-of-work challenge from /v1/challenge before each report and decoy upload
+     * (default: false). Needed when drop has `challenge` enabled; servers without it are detected
+     * and skipped. Solving takes a moment of CPU at the server's difficulty.
+     */
+    proofOfWork?: boolean;
     /** Application secret for API authentication */
     appSecret: string;
+    /** ID of appSecret on the server (sent as x-vailix-secret-id), for secret rotation */
+    appSecretId?: string;
+    /**
+     * Tenant ID on a multi-tenant drop server using header routing (sent as x-vailix-tenant).
+     * With path-prefix routing, include the prefix in reportUrl/downloadUrl instead.
+     */
+    tenantId?: string;
 
     // --- Storage ---
     /** Custom key storage adapter (default: expo-secure-store) */
     keyStorage?: KeyStorage;
     /** Number of days of history to include in reports (default: 14) */
     reportDays?: number;
+    /** Send decoy reports on a random schedule while the app runs (see sendChaffIfDue for background tasks) */
+    chaff?: ChaffConfig;
 
     // --- Contact Tracing Protocol ---
     /** How long RPI persists in ms (default: 15min, can be 24h for STD apps) */
@@ -97,4 +222,4 @@ export interface VailixConfig {
     autoAcceptIncomingPairs?: boolean;
     /** Custom BLE Service UUID (default: a1b2c3d4-e5f6-7890-abcd-ef1234567890) */
     serviceUUID?: string;
-}
\ No newline at end of file
+}
\ No newline at end of file
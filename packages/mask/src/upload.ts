@@ -0,0 +1,212 @@
+// Binary report upload, see drop's parseReportUpload (big-endian):
+//   ["VLXR"][version: u8][flags: u8][status: u8][retentionDays: u16 (0 = server default)]
+//   [reportKeyLen: u8][reportKey: raw Ed25519 public key][envelopeLen: u8][envelope: UTF-8]
+//   [blobLen: u16][metadata blob: iv | auth tag | ciphertext, only with flag 0x01]
+//   [count: u32] then per key: [rpi: 16 bytes][metaLen: u16][metadata: iv (12) | auth tag (16) | ciphertext]
+
+import type { ReportFormat, ReportResult } from './types';
+import { CHALLENGE_HEADER, CHALLENGE_NONCE_HEADER, solveChallenge } from './challenge';
+
+export const REPORT_CONTENT_TYPE = 'application/x-vailix-report';
+
+/** Keys per request (drop's MAX_REPORT_KEYS); longer histories go through an upload session */
+export const MAX_REPORT_KEYS = 1500;
+
+const MAGIC = 'VLXR';
+const VERSION = 1;
+const FLAG_BLOB = 0x01;
+// Lifecycle status codes (see drop's STATUS_CODES)
+const STATUS_CODES = { confirmed: 0, provisional: 1 } as const;
+
+/** A POST /v1/report body as the JSON encoding spells it */
+export interface ReportUpload {
+    reports: Array<{ rpi: string; encryptedMetadata: string }>;  // hex RPI, iv:tag:data metadata
+    reportKey: string;  // base64
+    status: 'provisional' | 'confirmed';
+    retentionDays: number;
+    envelope: string;
+    /** Shared metadata (iv:tag:data): encrypted once, each key's metadata is then the wrapped blob key */
+    metadataBlob?: string;
+}
+
+export function encodeReport(upload: ReportUpload): Buffer {
+    const reportKey = Buffer.from(upload.reportKey, 'base64');
+    const envelope = Buffer.from(upload.envelope, 'utf8');
+    if (reportKey.length > 255 || envelope.length > 255) throw new Error('Report key or envelope too long');
+
+    const header = Buffer.alloc(MAGIC.length + 5);
+    header.write(MAGIC, 0, 'ascii');
+    header[4] = VERSION;
+    header[5] = upload.metadataBlob ? FLAG_BLOB : 0;
+    header[6] = STATUS_CODES[upload.status];
+    header.writeUInt16BE(upload.retentionDays, 7);
+
+    const count = Buffer.alloc(4);
+    count.writeUInt32BE(upload.reports.length);
+
+    const parts: Buffer[] = [header, Buffer.from([reportKey.length]), reportKey, Buffer.from([envelope.length]), envelope];
+    if (upload.metadataBlob) parts.push(...lengthPrefixed(rawMetadata(upload.metadataBlob)));
+    parts.push(count);
+    for (const { rpi, encryptedMetadata } of upload.reports) {
+        parts.push(Buffer.from(rpi, 'hex'), ...lengthPrefixed(rawMetadata(encryptedMetadata)));
+    }
+    return Buffer.concat(parts);
+}
+
+/** iv:tag:data (base64) -> raw bytes back to back; empty metadata stays empty */
+function rawMetadata(encrypted: string): Buffer {
+    return encrypted ? Buffer.concat(encrypted.split(':').map((part) => Buffer.from(part, 'base64'))) : Buffer.alloc(0);
+}
+
+function lengthPrefixed(data: Buffer): [Buffer, Buffer] {
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(data.length);
+    return [length, data];
+}
+
+/** A new upload session, reported before any chunk is sent so the caller can persist it */
+export interface UploadSession {
+    sessionId: string;
+    expiresAt: number;
+}
+
+/** Request headers, or a function producing them anew for every attempt */
+type HeaderSource = Record<string, string> | (() => Promise<Record<string, string>>);
+
+export interface UploadOptions {
+    /** Resume this session: only chunks the server hasn't received are sent */
+    sessionId?: string;
+    onSession?: (session: UploadSession) => Promise<void>;
+}
+
+/**
+ * Sends reports to drop. Up to MAX_REPORT_KEYS keys go in one POST /v1/report; longer reports
+ * open an upload session, put it in chunks and commit, so the server publishes them all at once.
+ * Network errors, 429s and 5xx responses are retried with backoff; chunk puts are idempotent.
+ * With `proofOfWork`, each attempt at the request that opens a report carries a newly solved /v1/challenge.
+ */
+export class ReportUploader {
+    constructor(
+        private reportUrl: string,
+        private format: ReportFormat,
+        private headers: () => Record<string, string>,
+        private retry: { attempts: number; delayMs: number } = { attempts: 3, delayMs: 1000 },
+        private proofOfWork: boolean = false
+    ) { }
+
+    /** `authHeaders` (attestation, report token) go on the request that opens the report only */
+    async upload(authHeaders: Record<string, string>, upload: ReportUpload, options: UploadOptions = {}): Promise<ReportResult> {
+        const keys = upload.reports.length;
+        if (!options.sessionId && keys <= MAX_REPORT_KEYS) {
+            try {
+                const res = await this.sendReport('POST', '/v1/report', this.openingHeaders(authHeaders), upload);
+                return res.ok ? { success: true, keys, chunks: 1 } : failure(res, { keys, chunks: 1 });
+            } catch (error) {
+                return { success: false, keys, chunks: 1, error: message(error) };
+            }
+        }
+
+        const chunks: ReportUpload['reports'][] = [];
+        for (let i = 0; i < keys; i += MAX_REPORT_KEYS) chunks.push(upload.reports.slice(i, i + MAX_REPORT_KEYS));
+        let sessionId = options.sessionId;
+
+        try {
+            let received: number[] = [];
+            if (sessionId) {
+                const res = await this.request('GET', `/v1/report/sessions/${sessionId}`, {});
+                if (!res.ok) return failure(res, { keys, chunks: chunks.length, sessionId });
+                const state = await res.json() as { chunks: number[]; committed: boolean };
+                received = state.committed ? chunks.map((_, i) => i) : state.chunks;
+            } else {
+                const { reportKey, status, retentionDays, envelope, metadataBlob } = upload;
+                const fields = JSON.stringify({ reportKey, status, retentionDays, envelope, metadataBlob });
+                const res = await this.request('POST', '/v1/report/sessions', this.openingHeaders(authHeaders), fields);
+                if (!res.ok) return failure(res, { keys, chunks: chunks.length });
+                const session = await res.json() as UploadSession;
+                sessionId = session.sessionId;
+                await options.onSession?.(session);
+            }
+
+            for (const [index, reports] of chunks.entries()) {
+                if (received.includes(index)) continue;
+                // The session already holds the blob; chunks only carry keys
+                const chunk = { ...upload, reports, metadataBlob: undefined };
+                const res = await this.sendReport('PUT', `/v1/report/sessions/${sessionId}/chunks/${index}`, {}, chunk);
+                if (!res.ok) return failure(res, { keys, chunks: chunks.length, sessionId });
+            }
+
+            const res = await this.request('POST', `/v1/report/sessions/${sessionId}/commit`, {}, JSON.stringify({ chunks: chunks.length }));
+            if (!res.ok) return failure(res, { keys, chunks: chunks.length, sessionId });
+            return { success: true, keys, chunks: chunks.length, sessionId };
+        } catch (error) {
+            // Out of retries on a network error: whatever reached the server stays in the session
+            return { success: false, keys, chunks: chunks.length, sessionId, error: message(error), resumable: !!sessionId };
+        }
+    }
+
+    /**
+     * Headers for the request that opens a report. The server spends a challenge on every attempt,
+     * even one that fails with a 5xx, so each retry solves a new one.
+     */
+    private openingHeaders(authHeaders: Record<string, string>): HeaderSource {
+        if (!this.proofOfWork) return authHeaders;
+        return async () => ({ ...authHeaders, ...(await this.challengeHeaders()) });
+    }
+
+    /** A solved proof-of-work challenge; servers that don't issue challenges answer 404 */
+    private async challengeHeaders(): Promise<Record<string, string>> {
+        if (!this.proofOfWork) return {};
+        const res = await this.request('GET', '/v1/challenge', {});
+        if (res.status === 404) return {};
+        if (!res.ok) throw new Error(`Challenge request failed: ${res.status}`);
+        const { challenge, difficulty } = await res.json() as { challenge: string; difficulty: number };
+        return { [CHALLENGE_HEADER]: challenge, [CHALLENGE_NONCE_HEADER]: await solveChallenge(challenge, difficulty) };
+    }
+
+    /**
+     * Send report keys in the configured format. Servers that predate the binary format answer 415;
+     * we retry as JSON and stick with JSON so decoys keep matching real reports.
+     */
+    private async sendReport(method: string, path: string, extraHeaders: HeaderSource, upload: ReportUpload): Promise<Response> {
+        if (this.format === 'bin') {
+            const binary = async () => ({ ...(await resolveHeaders(extraHeaders)), 'Content-Type': REPORT_CONTENT_TYPE });
+            const res = await this.request(method, path, binary, encodeReport(upload));
+            if (res.status !== 415) return res;
+            this.format = 'json';
+        }
+        return this.request(method, path, extraHeaders, JSON.stringify(upload));
+    }
+
+    private async request(method: string, path: string, extraHeaders: HeaderSource, body?: string | Buffer): Promise<Response> {
+        const { attempts, delayMs } = this.retry;
+        for (let attempt = 1; ; attempt++) {
+            const headers = { ...this.headers(), ...(await resolveHeaders(extraHeaders)) };
+            try {
+                const res = await fetch(`${this.reportUrl}${path}`, { method, headers, body });
+                if (attempt === attempts || (res.status !== 429 && res.status < 500)) return res;
+            } catch (error) {
+                if (attempt === attempts) throw error;
+            }
+            await new Promise((resolve) => setTimeout(resolve, delayMs * 2 ** (attempt - 1)));
+        }
+    }
+}
+
+function resolveHeaders(source: HeaderSource): Promise<Record<string, string>> {
+    return typeof source === 'function' ? source() : Promise.resolve(source);
+}
+
+function failure(res: Response, result: Omit<ReportResult, 'success'>): ReportResult {
+    const transient = res.status === 429 || res.status >= 500;
+    return {
+        ...result,
+        success: false,
+        httpStatus: res.status,
+        error: `Report upload failed: ${res.status}`,
+        resumable: transient && !!result.sessionId,
+    };
+}
+
+function message(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}